@@ -1,111 +1,199 @@
 import React, { useEffect, useMemo, useRef, useState } from "react";
 import {
   ACPMessage,
-  AgentLogMessage,
-  AgentRowResultMessage,
-  AgentStatusMessage,
+  AgentRequestRowsMessage,
+  CsvRow,
+  RunSettings,
+  WorkflowDefinition,
   WorkflowStepType,
 } from "@shared/schema";
-import { parseCsv, serializeCsv } from "@shared/csv";
-import { pickNextPost } from "@shared/similarity";
-import { ACPTransport } from "./transport";
+import { DEFAULT_CSV_DIALECT, encodeCsvText, serializeCsv, serializeCsvRows } from "@shared/csv";
+import { workflowVarNames } from "@shared/columns";
+import { detectRecordFormat } from "@shared/records";
+import { importPairingKey } from "@shared/pairing";
+import { migrateWorkflowData, unsupportedConditions } from "@shared/stepMigration";
+import { flattenSteps, stepIndexes } from "@shared/steps";
+import { calledWorkflows, findCallCycle } from "@shared/subworkflows";
+import {
+  ARTIFACT_TYPES,
+  PROTOCOL_VERSION,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  WORKFLOW_STEP_TYPES,
+  missingStepTypes,
+} from "@shared/protocol";
+import {
+  ACPTransport,
+  BROADCAST_TARGET,
+  CommandCancelledError,
+  type CommandQueueState,
+  type RejectedMessage,
+} from "./transport";
+import { startPairing } from "./pairing";
+import { type RelayStatus, createWebSocketLink } from "./webSocketLink";
+import { type MockAgent, type MockAgentOptions, startMockAgent } from "./mockAgent";
+import { loadRunRows, releaseRunRows } from "./runRows";
+import {
+  appendRowResult,
+  appendRunLog,
+  commandRun,
+  connectAgent,
+  hasActiveAgents,
+  isActiveAssignment,
+  launchRun,
+  sendAssignment,
+  sendRunRows,
+  sendStepNext,
+  settleWaitingAssignments,
+  updateRunStatus,
+} from "./runControl";
+import {
+  type FailureGroup,
+  groupFailures,
+  runOutputNames,
+  runReportFileName,
+  runReportHeaders,
+  runReportJson,
+  toReportRow,
+} from "./runReport";
+import {
+  AGENT_OFFLINE_MS,
+  type AgentConnection,
+  deriveRunStatus,
+  dispatchAssignments,
+} from "./agentPool";
+import JobRowEditor from "./components/JobRowEditor";
+import RunSettingsFields, { validateRunSettings } from "./components/RunSettingsFields";
+import type { TemplatePreview } from "./components/StepFields";
+import StepList from "./components/StepList";
+import StartRunDialog from "./components/StartRunDialog";
+import PairingCard from "./components/PairingCard";
+import RelayCard from "./components/RelayCard";
+import MockAgentCard from "./components/MockAgentCard";
+import JobImportWizard, {
+  type JobImportSource,
+  describeDelimiter,
+} from "./components/JobImportWizard";
 import {
   ACPState,
   Job,
   Run,
-  createDefaultSettings,
+  RunPreset,
+  canResumeRun,
+  combineRowResults,
   createDefaultWorkflow,
-  createJob,
+  createPreset,
   createRun,
-  createStep,
   createWorkflow,
+  getLastCompletedRow,
+  hasActiveRun,
+  isRunStale,
 } from "./state";
-import { formatTimestamp } from "./utils";
+import { formatTimestamp, parseRowSelection } from "./utils";
 import { loadSettings, saveSettings } from "./storage/settings";
+import { type StoredPairing, loadPairings, savePairings } from "./storage/pairings";
 import {
   db,
   exportAllData,
   getLegacyBackup,
   importAllData,
   loadAllData,
+  loadJobRows,
   migrateLegacyState,
+  saveJobRows,
   type RunRecord,
 } from "./storage/db";
 
 const transport = new ACPTransport();
 
-const stepTypes: WorkflowStepType[] = [
-  "goto",
-  "click",
-  "type",
-  "press",
-  "wait_for_selector",
-  "wait_time",
-  "screenshot",
-  "evaluate",
-  "set_var",
-  "conditional",
+const sendHello = () =>
+  transport.send({
+    type: "CONTROL_HELLO",
+    payload: {
+      requestId: transport.createRequestId(),
+      appVersion: __APP_VERSION__,
+      protocolVersion: PROTOCOL_VERSION,
+      supportedProtocolVersions: SUPPORTED_PROTOCOL_VERSIONS,
+    },
+  });
+
+// Agents that said hello in a protocol version this panel speaks.
+const isCompatibleAgent = (agent: AgentConnection) =>
+  agent.status === "connected" && Boolean(agent.compatibility?.protocolVersion);
+
+// Step types the agent lacks, and conditions its protocol version cannot check.
+const unsupportedByAgent = (
+  agent: AgentConnection,
+  workflow: WorkflowDefinition,
+  called: WorkflowDefinition[],
+) => [
+  ...missingStepTypes(
+    workflow,
+    agent.compatibility?.capabilities ?? { stepTypes: [], artifactTypes: [] },
+    called,
+  ),
+  ...unsupportedConditions([workflow, ...called], agent.compatibility?.protocolVersion).map(
+    (expression) => `conditional "${expression}"`,
+  ),
 ];
 
-const prepareRowsForRun = (rows: Job["rows"]) => {
-  const processed: Job["rows"] = [];
-  const recentPosts: string[] = [];
-  rows.forEach((row) => {
-    const postOptions = row.post_options
-      ? row.post_options.split("|").map((value) => value.trim()).filter(Boolean)
-      : row.post
-        ? [row.post]
-        : [];
-    if (postOptions.length > 0) {
-      const selection = pickNextPost(postOptions, recentPosts);
-      const nextRow = {
-        ...row,
-        post: selection.value,
-        post_reason: selection.reason,
-      };
-      processed.push(nextRow);
-      recentPosts.unshift(selection.value);
-      if (recentPosts.length > 5) {
-        recentPosts.pop();
-      }
-    } else {
-      processed.push(row);
-    }
-  });
-  return processed;
-};
+const canAgentRunWorkflow = (
+  agent: AgentConnection,
+  workflow: WorkflowDefinition,
+  called: WorkflowDefinition[],
+) => isCompatibleAgent(agent) && unsupportedByAgent(agent, workflow, called).length === 0;
+
+// Exports and reports read job rows from IndexedDB in pages of this size.
+const EXPORT_PAGE_SIZE = 5000;
 
 const toRunRecord = (run: Run): RunRecord => {
   const { logs, rowResults, ...record } = run;
   return record;
 };
 
-type AgentConnection = {
-  status: "unknown" | "connected" | "offline";
-  lastPingAt: string | null;
-  lastHelloAt: string | null;
-  tabUrl: string | null;
-  site: string | null;
+const answerRowRequest = async (message: AgentRequestRowsMessage) => {
+  const run = await db.runs.get(message.payload.runId);
+  if (run) {
+    await sendRunRows(transport, message, run.jobId, loadRunRows);
+  }
 };
 
+// A command dropped because a newer one replaced it (e.g. a pause followed by a stop) is not
+// a failure worth reporting.
+const reportCommandError = (label: string) => (error: Error) => {
+  if (!(error instanceof CommandCancelledError)) {
+    alert(`${label}: ${error.message}`);
+  }
+};
+
+type AgentMap = Record<string, AgentConnection>;
+
 const App: React.FC = () => {
   const [state, setState] = useState<ACPState>(() => {
     const settings = loadSettings();
     return {
       workflows: [],
+      presets: [],
       jobs: [],
       runs: [],
       debugEnabled: settings.debugEnabled,
       killSwitchEnabled: settings.killSwitchEnabled,
     };
   });
-  const [connection, setConnection] = useState<AgentConnection>({
-    status: "unknown",
-    lastPingAt: null,
-    lastHelloAt: null,
-    tabUrl: null,
-    site: null,
-  });
+  const [agents, setAgents] = useState<AgentMap>({});
+  // Until agents have had a chance to answer a ping, shares held by unknown agents stay put.
+  const [poolReady, setPoolReady] = useState(false);
+  const [commandQueues, setCommandQueues] = useState<CommandQueueState[]>([]);
+  const [pairings, setPairings] = useState<StoredPairing[]>(() => loadPairings());
+  const [pairingKeysLoaded, setPairingKeysLoaded] = useState(false);
+  const [rejections, setRejections] = useState<RejectedMessage[]>([]);
+  const [relayUrl, setRelayUrl] = useState<string | null>(() => loadSettings().relayUrl);
+  const [relayStatus, setRelayStatus] = useState<RelayStatus | null>(null);
+  const [mockAgentEnabled, setMockAgentEnabled] = useState(() => loadSettings().mockAgentEnabled);
+  const [mockAgentOptions, setMockAgentOptions] = useState<MockAgentOptions>(
+    () => loadSettings().mockAgentOptions,
+  );
+  const [mockAgentId, setMockAgentId] = useState<string | null>(null);
+  const mockAgentRef = useRef<MockAgent | null>(null);
   const [legacyBackup, setLegacyBackup] = useState<string | null>(getLegacyBackup());
   const [dataLoaded, setDataLoaded] = useState(false);
   const importInputRef = useRef<HTMLInputElement>(null);
@@ -114,17 +202,97 @@ const App: React.FC = () => {
   );
   const [selectedJobId, setSelectedJobId] = useState<string | null>(null);
   const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+  const [importSource, setImportSource] = useState<JobImportSource | null>(null);
+  const [editingJobId, setEditingJobId] = useState<string | null>(null);
+  const [startingJobId, setStartingJobId] = useState<string | null>(null);
 
   const workflows = state.workflows;
   const jobs = state.jobs;
   const runs = state.runs;
 
+  const workflowForRun = (run: Run) => {
+    const job = jobs.find((item) => item.id === run.jobId);
+    return workflows.find((flow) => flow.id === job?.workflowId) ?? null;
+  };
+
+  const calledForRun = (run: Run) => {
+    const workflow = workflowForRun(run);
+    return workflow ? calledWorkflows(workflow, workflows) : [];
+  };
+
+  const agentWarnings = useMemo(
+    () =>
+      Object.values(agents).filter(
+        (agent) => agent.status === "connected" && agent.compatibility?.warning,
+      ),
+    [agents],
+  );
+
+  // Step types at least one compatible agent can execute; null while no agent is connected.
+  const supportedStepTypes = useMemo(() => {
+    const compatible = Object.values(agents).filter(isCompatibleAgent);
+    if (compatible.length === 0) {
+      return null;
+    }
+    return WORKFLOW_STEP_TYPES.filter((type) =>
+      compatible.some((agent) => agent.compatibility?.capabilities.stepTypes.includes(type)),
+    );
+  }, [agents]);
+
   useEffect(() => {
     saveSettings({
       debugEnabled: state.debugEnabled,
       killSwitchEnabled: state.killSwitchEnabled,
+      relayUrl,
+      mockAgentEnabled,
+      mockAgentOptions,
     });
-  }, [state.debugEnabled, state.killSwitchEnabled]);
+  }, [state.debugEnabled, state.killSwitchEnabled, relayUrl, mockAgentEnabled, mockAgentOptions]);
+
+  useEffect(() => {
+    if (!relayUrl) {
+      setRelayStatus(null);
+      return;
+    }
+    const removeLink = transport.addLink(
+      createWebSocketLink(relayUrl, {
+        onStatus: (status) => {
+          setRelayStatus(status);
+          // Agents behind the relay missed the hello sent over the browser channels.
+          if (status === "open") {
+            sendHello();
+          }
+        },
+      }),
+    );
+    return removeLink;
+  }, [relayUrl]);
+
+  useEffect(() => {
+    if (!mockAgentEnabled) {
+      return;
+    }
+    let active = true;
+    void startMockAgent(transport, mockAgentOptions).then((agent) => {
+      if (!active) {
+        agent.stop();
+        return;
+      }
+      mockAgentRef.current = agent;
+      setMockAgentId(agent.agentId);
+    });
+    return () => {
+      active = false;
+      mockAgentRef.current?.stop();
+      mockAgentRef.current = null;
+      setMockAgentId(null);
+    };
+    // Option changes are applied by the effect below without restarting the agent.
+  }, [mockAgentEnabled]);
+
+  useEffect(() => {
+    mockAgentRef.current?.configure(mockAgentOptions);
+  }, [mockAgentOptions]);
 
   useEffect(() => {
     let active = true;
@@ -139,6 +307,8 @@ const App: React.FC = () => {
         runsById.set(run.id, {
           ...run,
           currentStepIndex: run.currentStepIndex ?? 0,
+          jobRevision: run.jobRevision ?? 0,
+          assignments: run.assignments ?? [],
           logs: [],
           rowResults: [],
         });
@@ -164,7 +334,12 @@ const App: React.FC = () => {
       setState((prev) => ({
         ...prev,
         workflows,
-        jobs: data.jobs,
+        presets: data.presets,
+        jobs: data.jobs.map((job) => ({
+          ...job,
+          rowCount: job.rowCount ?? 0,
+          revision: job.revision ?? 0,
+        })),
         runs: Array.from(runsById.values()),
       }));
       setLegacyBackup(getLegacyBackup());
@@ -177,6 +352,34 @@ const App: React.FC = () => {
   }, []);
 
   useEffect(() => {
+    savePairings(pairings);
+  }, [pairings]);
+
+  useEffect(() => {
+    const importKeys = async () => {
+      await Promise.all(
+        loadPairings().map(async (pairing) => {
+          try {
+            transport.setPairingKey(pairing.pairingId, await importPairingKey(pairing.key));
+          } catch {
+            // Shown with the rejected messages in diagnostics.
+            transport.reportRejection(
+              `Could not load the key of pairing ${pairing.pairingId} (${pairing.site})`,
+              null,
+            );
+          }
+        }),
+      );
+      setPairingKeysLoaded(true);
+    };
+    void importKeys();
+  }, []);
+
+  // Signed messages need the pairing keys, so the kill switch is (re)sent once they are loaded.
+  useEffect(() => {
+    if (!pairingKeysLoaded) {
+      return;
+    }
     transport.send({
       type: "CONTROL_KILL_SWITCH",
       payload: {
@@ -184,13 +387,45 @@ const App: React.FC = () => {
         enabled: state.killSwitchEnabled,
       },
     });
-  }, [state.killSwitchEnabled]);
+  }, [state.killSwitchEnabled, pairingKeysLoaded]);
+
+  useEffect(() => {
+    const unsubscribe = transport.subscribeQueue(setCommandQueues);
+    return () => {
+      unsubscribe();
+    };
+  }, []);
+
+  useEffect(() => {
+    const unsubscribe = transport.subscribeRejections(setRejections);
+    return () => {
+      unsubscribe();
+    };
+  }, []);
+
+  // The transport lives as long as the page. StrictMode unmounts App once in development, so
+  // it is closed when the page is unloaded rather than when App unmounts.
+  useEffect(() => {
+    const close = (event: PageTransitionEvent) => {
+      if (!event.persisted) {
+        transport.close();
+      }
+    };
+    window.addEventListener("pagehide", close);
+    return () => window.removeEventListener("pagehide", close);
+  }, []);
 
   useEffect(() => {
     const unsubscribe = transport.subscribe((message) => {
-      setState((prev) => handleMessage(prev, message, setConnection));
+      if (message.type === "AGENT_REQUEST_ROWS") {
+        void answerRowRequest(message);
+        return;
+      }
+      setState((prev) => handleMessage(prev, message, setAgents));
     });
-    return () => unsubscribe();
+    return () => {
+      unsubscribe();
+    };
   }, []);
 
   useEffect(() => {
@@ -200,35 +435,86 @@ const App: React.FC = () => {
         payload: { requestId: transport.createRequestId() },
       });
     }, 5000);
-    transport.send({
-      type: "CONTROL_HELLO",
-      payload: {
-        requestId: transport.createRequestId(),
-        appVersion: "1.0.0",
-        protocolVersion: "1.1.0",
-      },
-    });
+    sendHello();
     return () => {
       window.clearInterval(interval);
     };
   }, []);
 
   useEffect(() => {
+    const timeout = window.setTimeout(() => setPoolReady(true), AGENT_OFFLINE_MS);
     const interval = window.setInterval(() => {
-      setConnection((prev) => {
-        if (!prev.lastPingAt) {
+      setAgents((prev) => {
+        const stale = Object.values(prev).filter((agent) => {
+          const lastSeenAt = agent.lastPingAt ?? agent.lastHelloAt;
+          const ageMs = lastSeenAt ? Date.now() - new Date(lastSeenAt).getTime() : Infinity;
+          return agent.status === "connected" && ageMs > AGENT_OFFLINE_MS;
+        });
+        if (stale.length === 0) {
           return prev;
         }
-        const ageMs = Date.now() - new Date(prev.lastPingAt).getTime();
-        if (ageMs > 15000 && prev.status === "connected") {
-          return { ...prev, status: "offline" };
-        }
-        return prev;
+        const next = { ...prev };
+        stale.forEach((agent) => {
+          next[agent.agentId] = { ...agent, status: "offline" };
+        });
+        return next;
       });
     }, 5000);
-    return () => window.clearInterval(interval);
+    return () => {
+      window.clearTimeout(timeout);
+      window.clearInterval(interval);
+    };
   }, []);
 
+  // Starts waiting shares on idle agents and takes shares back from agents that went offline.
+  useEffect(() => {
+    if (!dataLoaded || state.killSwitchEnabled) {
+      return;
+    }
+    const { changed, commands } = dispatchAssignments(
+      runs,
+      Object.values(agents),
+      poolReady,
+      (run, agent) => {
+        const workflow = workflowForRun(run);
+        return workflow !== null && canAgentRunWorkflow(agent, workflow, calledForRun(run));
+      },
+    );
+    if (changed.length === 0) {
+      return;
+    }
+    const changedById = new Map(changed.map((run) => [run.id, run]));
+    setState((prev) => ({
+      ...prev,
+      runs: prev.runs.map((run) => {
+        const update = changedById.get(run.id);
+        return update
+          ? { ...run, assignments: update.assignments, status: update.status, updatedAt: update.updatedAt }
+          : run;
+      }),
+    }));
+    changed.forEach((run) => void db.runs.put(toRunRecord(run)));
+    commands.forEach((command) => {
+      const run = changedById.get(command.runId);
+      if (!run) {
+        return;
+      }
+      if (command.type === "stop") {
+        releaseRunRows(run.id, command.agentId);
+        transport.send({
+          type: "CONTROL_STOP_RUN",
+          payload: {
+            requestId: transport.createRequestId(),
+            runId: run.id,
+            targetAgentId: command.agentId,
+          },
+        });
+        return;
+      }
+      void startAssignment(run, command.assignmentIndex, command.agentId);
+    });
+  }, [runs, jobs, workflows, agents, poolReady, dataLoaded, state.killSwitchEnabled]);
+
   const selectedJob = useMemo(
     () => jobs.find((job) => job.id === selectedJobId) ?? jobs[0] ?? null,
     [jobs, selectedJobId],
@@ -254,6 +540,19 @@ const App: React.FC = () => {
   };
 
   const handleDeleteWorkflow = (workflowId: string) => {
+    const callers = workflows.filter(
+      (workflow) =>
+        workflow.id !== workflowId &&
+        calledWorkflows(workflow, workflows).some((called) => called.id === workflowId),
+    );
+    if (
+      callers.length > 0 &&
+      !confirm(
+        `${callers.map((workflow) => workflow.name).join(", ")} call this workflow and will fail without it. Delete it anyway?`,
+      )
+    ) {
+      return;
+    }
     setState((prev) => ({
       ...prev,
       workflows: prev.workflows.filter((workflow) => workflow.id !== workflowId),
@@ -263,33 +562,77 @@ const App: React.FC = () => {
 
   const handleCreateJob = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
+    event.target.value = "";
     if (!file) {
       return;
     }
-    const name = prompt("Job name")?.trim();
-    if (!name) {
-      return;
-    }
-    const workflowId = workflows[0]?.id;
-    if (!workflowId) {
+    if (workflows.length === 0) {
       alert("Create a workflow first.");
       return;
     }
-    file.text().then((text) => {
-      const { headers, rows } = parseCsv(text);
-      const job = createJob(name, workflowId, file.name, headers, rows);
-      setState((prev) => ({
-        ...prev,
-        jobs: [...prev.jobs, job],
-      }));
-      void db.jobs.put(job);
-      setActiveTab("dashboard");
-    });
+    setImportSource({ file, format: detectRecordFormat(file.name) });
+  };
+
+  const handleImportJob = (job: Job, rows: CsvRow[]) => {
+    saveJobRows(job.id, rows)
+      .then(() => db.jobs.put(job))
+      .then(() => {
+        setState((prev) => ({
+          ...prev,
+          jobs: [...prev.jobs, job],
+        }));
+        setImportSource(null);
+        setSelectedJobId(job.id);
+        setActiveTab("dashboard");
+      })
+      .catch((error) => alert(`Saving the job failed: ${error.message}`));
   };
 
-  const handleExportCsv = (job: Job) => {
-    const csv = serializeCsv(job.headers, job.rows);
-    const blob = new Blob([csv], { type: "text/csv" });
+  const handleUpdateJob = (job: Job) => {
+    setState((prev) => ({
+      ...prev,
+      jobs: prev.jobs.map((item) => (item.id === job.id ? job : item)),
+    }));
+    void db.jobs.put(job);
+  };
+
+  const handleSavePreset = (name: string, settings: RunSettings) => {
+    const existing = state.presets.find((preset) => preset.name === name);
+    const preset = existing
+      ? { ...existing, settings, updatedAt: new Date().toISOString() }
+      : createPreset(name, settings);
+    setState((prev) => ({
+      ...prev,
+      presets: existing
+        ? prev.presets.map((item) => (item.id === preset.id ? preset : item))
+        : [...prev.presets, preset],
+    }));
+    void db.presets.put(preset);
+    return preset;
+  };
+
+  const handleDeletePreset = (presetId: string) => {
+    jobs
+      .filter((job) => job.defaultPresetId === presetId)
+      .forEach((job) => handleUpdateJob({ ...job, defaultPresetId: undefined }));
+    setState((prev) => ({
+      ...prev,
+      presets: prev.presets.filter((preset) => preset.id !== presetId),
+    }));
+    void db.presets.delete(presetId);
+  };
+
+  const handleExportCsv = async (job: Job) => {
+    const dialect = { ...DEFAULT_CSV_DIALECT, ...job.dialect };
+    const parts = [encodeCsvText(serializeCsv(job.headers, [], dialect), dialect.encoding)];
+    for (let offset = 0; offset < job.rowCount; offset += EXPORT_PAGE_SIZE) {
+      const rows = await loadJobRows(job.id, offset, EXPORT_PAGE_SIZE);
+      const text = `${dialect.lineTerminator}${serializeCsvRows(job.headers, rows, dialect)}`;
+      parts.push(encodeCsvText(text, dialect.encoding));
+    }
+    const blob = new Blob(parts, {
+      type: job.dialect?.delimiter === "\t" ? "text/tab-separated-values" : "text/csv",
+    });
     const link = document.createElement("a");
     link.href = URL.createObjectURL(blob);
     link.download = job.csvFileName || `${job.name}.csv`;
@@ -297,124 +640,173 @@ const App: React.FC = () => {
     URL.revokeObjectURL(link.href);
   };
 
-  const handleStartRun = (job: Job) => {
+  // Splits a new or resumed run across the idle agents; the dispatcher effect starts them.
+  const launchOnIdleAgents = (run: Run, job: Job): Run | null => {
+    const idleAgents = Object.values(agents).filter(
+      (agent) => agent.status === "connected" && agent.runId === null,
+    );
+    try {
+      return launchRun(run, job, workflows, idleAgents.length);
+    } catch (error) {
+      alert((error as Error).message);
+      return null;
+    }
+  };
+
+  const startAssignment = async (run: Run, assignmentIndex: number, agentId: string) => {
+    try {
+      const context = { jobs, workflows, agents, loadRows: loadRunRows };
+      await sendAssignment(transport, context, run, assignmentIndex, agentId);
+    } catch (error) {
+      reportCommandError("Agent did not acknowledge the run")(error as Error);
+      // Put the share back so the dispatcher offers it to another agent.
+      setState((prev) => ({
+        ...prev,
+        runs: prev.runs.map((item) => {
+          if (item.id !== run.id) {
+            return item;
+          }
+          const reverted: Run = {
+            ...item,
+            assignments: item.assignments.map((share, index) =>
+              index === assignmentIndex && share.agentId === agentId
+                ? { ...share, agentId: null, status: "idle" }
+                : share,
+            ),
+            updatedAt: new Date().toISOString(),
+          };
+          void db.runs.put(toRunRecord(reverted));
+          return reverted;
+        }),
+      }));
+    }
+  };
+
+  const handleStartRun = (job: Job, settings: RunSettings) => {
     if (state.killSwitchEnabled) {
       alert("Kill switch is enabled. Disable it in Settings to start a run.");
       return;
     }
-    const settings = createDefaultSettings();
-    const run = createRun(job.id, settings);
-    const workflow = workflows.find((flow) => flow.id === job.workflowId);
-    if (!workflow) {
-      alert("Workflow not found.");
+    const runningRun = launchOnIdleAgents(createRun(job.id, settings, job.revision), job);
+    if (!runningRun) {
       return;
     }
-    const preparedRows = prepareRowsForRun(job.rows);
-    const startMessage = {
-      type: "CONTROL_START_RUN",
-      payload: {
-        requestId: transport.createRequestId(),
-        runId: run.id,
-        jobId: job.id,
-        workflow,
-        rows: preparedRows,
-        settings,
-        resumeFrom: run.lastCompletedRow + 1,
-      },
-    } as const;
-    transport
-      .sendCommand(startMessage)
-      .catch((error) => alert(`Agent did not acknowledge the run: ${error.message}`));
-    const runningRun = { ...run, status: "running", updatedAt: new Date().toISOString() };
     setState((prev) => ({
       ...prev,
-      runs: [
-        {
-          ...runningRun,
-        },
-        ...prev.runs,
-      ],
+      runs: [runningRun, ...prev.runs],
     }));
     void db.runs.put(toRunRecord(runningRun));
-    setSelectedRunId(run.id);
+    setStartingJobId(null);
+    setSelectedRunId(runningRun.id);
     setActiveTab("runs");
   };
 
-  const handlePauseRun = (run: Run) => {
-    transport
-      .sendCommand({
-        type: "CONTROL_PAUSE_RUN",
-        payload: { requestId: transport.createRequestId(), runId: run.id },
-      })
-      .catch((error) => alert(`Pause failed: ${error.message}`));
+  const handleResumeFromLastRow = (run: Run) => {
+    if (state.killSwitchEnabled) {
+      alert("Kill switch is enabled. Disable it in Settings to resume a run.");
+      return;
+    }
+    const job = jobs.find((item) => item.id === run.jobId);
+    if (!job) {
+      alert("Job data not found for this run.");
+      return;
+    }
+    if (
+      isRunStale(run, job) &&
+      !confirm("The job rows were edited since this run started. Resume with the current rows?")
+    ) {
+      return;
+    }
+    const runningRun = launchOnIdleAgents(run, job);
+    if (!runningRun) {
+      return;
+    }
     setState((prev) => ({
       ...prev,
-      runs: prev.runs.map((item) =>
-        item.id === run.id ? { ...item, status: "paused", updatedAt: new Date().toISOString() } : item,
-      ),
+      runs: prev.runs.map((item) => (item.id === run.id ? runningRun : item)),
     }));
-    void db.runs.put(toRunRecord({ ...run, status: "paused", updatedAt: new Date().toISOString() }));
+    void db.runs.put(toRunRecord(runningRun));
   };
 
-  const handleResumeRun = (run: Run) => {
-    transport
-      .sendCommand({
-        type: "CONTROL_RESUME_RUN",
-        payload: { requestId: transport.createRequestId(), runId: run.id },
-      })
-      .catch((error) => alert(`Resume failed: ${error.message}`));
+  const handleRetryRows = (run: Run, rowIndexes: number[]) => {
+    if (state.killSwitchEnabled) {
+      alert("Kill switch is enabled. Disable it in Settings to start a run.");
+      return;
+    }
+    const job = jobs.find((item) => item.id === run.jobId);
+    if (!job) {
+      alert("Job data not found for this run.");
+      return;
+    }
+    if (
+      isRunStale(run, job) &&
+      !confirm("The job rows were edited since this run started. Retry with the current rows?")
+    ) {
+      return;
+    }
+    const retry: Run = {
+      ...createRun(job.id, run.settings, job.revision),
+      parentRunId: run.id,
+      rowIndexes,
+    };
+    const runningRun = launchOnIdleAgents(retry, job);
+    if (!runningRun) {
+      return;
+    }
     setState((prev) => ({
       ...prev,
-      runs: prev.runs.map((item) =>
-        item.id === run.id ? { ...item, status: "running", updatedAt: new Date().toISOString() } : item,
-      ),
+      runs: [runningRun, ...prev.runs],
     }));
-    void db.runs.put(toRunRecord({ ...run, status: "running", updatedAt: new Date().toISOString() }));
+    void db.runs.put(toRunRecord(runningRun));
+    setSelectedRunId(runningRun.id);
   };
 
-  const handleStopRun = (run: Run) => {
-    transport
-      .sendCommand({
-        type: "CONTROL_STOP_RUN",
-        payload: { requestId: transport.createRequestId(), runId: run.id },
-      })
-      .catch((error) => alert(`Stop failed: ${error.message}`));
+  const updateRun = (run: Run, updates: Partial<Run>) => {
+    const updated = { ...run, ...updates, updatedAt: new Date().toISOString() };
     setState((prev) => ({
       ...prev,
-      runs: prev.runs.map((item) =>
-        item.id === run.id ? { ...item, status: "stopped", updatedAt: new Date().toISOString() } : item,
-      ),
+      runs: prev.runs.map((item) => (item.id === run.id ? updated : item)),
     }));
-    void db.runs.put(toRunRecord({ ...run, status: "stopped", updatedAt: new Date().toISOString() }));
+    void db.runs.put(toRunRecord(updated));
+  };
+
+  const handlePauseRun = (run: Run) => {
+    const { updates, sent } = commandRun(transport, run, "pause");
+    sent.catch(reportCommandError("Pause failed"));
+    updateRun(run, updates);
+  };
+
+  const handleResumeRun = (run: Run) => {
+    const { updates, sent } = commandRun(transport, run, "resume");
+    sent.catch(reportCommandError("Resume failed"));
+    updateRun(run, updates);
+  };
+
+  const handleStopRun = (run: Run) => {
+    const { updates, sent } = commandRun(transport, run, "stop");
+    sent.catch(reportCommandError("Stop failed"));
+    updateRun(run, updates);
   };
 
   const handleStepNext = (run: Run) => {
-    transport
-      .sendCommand({
-        type: "CONTROL_STEP_NEXT",
-        payload: {
-          requestId: transport.createRequestId(),
-          runId: run.id,
-          rowIndex: run.currentRowIndex,
-          stepIndex: run.currentStepIndex,
-        },
-      })
-      .catch((error) => alert(`Step signal failed: ${error.message}`));
+    sendStepNext(transport, run).catch(reportCommandError("Step signal failed"));
   };
 
-  const handleUpdateSettings = (run: Run, updates: Partial<Run["settings"]>) => {
-    const updated = {
-      ...run,
-      settings: { ...run.settings, ...updates },
-      updatedAt: new Date().toISOString(),
-    };
-    setState((prev) => ({
-      ...prev,
-      runs: prev.runs.map((item) =>
-        item.id === run.id ? updated : item,
-      ),
-    }));
-    void db.runs.put(toRunRecord(updated));
+  const handleUpdateSettings = (run: Run, settings: RunSettings) => {
+    const validationError = validateRunSettings(settings);
+    if (validationError) {
+      alert(`Invalid settings: ${validationError}`);
+      return;
+    }
+    updateRun(run, { settings });
+    if ((run.status === "running" || run.status === "paused") && hasActiveAgents(run)) {
+      transport
+        .sendCommand({
+          type: "CONTROL_UPDATE_SETTINGS",
+          payload: { requestId: transport.createRequestId(), runId: run.id, settings },
+        })
+        .catch(reportCommandError("Agent did not apply the settings"));
+    }
   };
 
   const handleDebugToggle = () => {
@@ -428,11 +820,24 @@ const App: React.FC = () => {
   const handleKillSwitchToggle = () => {
     setState((prev) => {
       const next = !prev.killSwitchEnabled;
-      transport.send({
-        type: "CONTROL_KILL_SWITCH",
-        payload: { requestId: transport.createRequestId(), enabled: next },
+      transport
+        .sendCommand({
+          type: "CONTROL_KILL_SWITCH",
+          payload: { requestId: transport.createRequestId(), enabled: next },
+        })
+        .catch(reportCommandError("Kill switch not acknowledged"));
+      if (!next) {
+        return { ...prev, killSwitchEnabled: next };
+      }
+      // Agents report their own shares as stopped; shares nobody picked up yet stop here.
+      const runs = prev.runs.map((run) => {
+        if (!run.assignments.some((assignment) => assignment.agentId === null)) {
+          return run;
+        }
+        const assignments = settleWaitingAssignments(run, "stopped");
+        return { ...run, assignments, status: deriveRunStatus(assignments) };
       });
-      return { ...prev, killSwitchEnabled: next };
+      return { ...prev, runs, killSwitchEnabled: next };
     });
   };
 
@@ -461,6 +866,8 @@ const App: React.FC = () => {
         runsById.set(run.id, {
           ...run,
           currentStepIndex: run.currentStepIndex ?? 0,
+          jobRevision: run.jobRevision ?? 0,
+          assignments: run.assignments ?? [],
           logs: [],
           rowResults: [],
         });
@@ -481,7 +888,12 @@ const App: React.FC = () => {
       setState((prev) => ({
         ...prev,
         workflows: data.workflows,
-        jobs: data.jobs,
+        presets: data.presets,
+        jobs: data.jobs.map((job) => ({
+          ...job,
+          rowCount: job.rowCount ?? 0,
+          revision: job.revision ?? 0,
+        })),
         runs: Array.from(runsById.values()),
       }));
       alert("Import complete.");
@@ -493,14 +905,20 @@ const App: React.FC = () => {
   };
 
   const handleReHandshake = () => {
-    transport.send({
-      type: "CONTROL_HELLO",
-      payload: {
-        requestId: transport.createRequestId(),
-        appVersion: "1.0.0",
-        protocolVersion: "1.1.0",
-      },
-    });
+    sendHello();
+  };
+
+  const handlePaired = (pairing: StoredPairing) => {
+    setPairings((prev) => [...prev.filter((item) => item.pairingId !== pairing.pairingId), pairing]);
+    handleReHandshake();
+  };
+
+  const handleForgetPairing = (pairing: StoredPairing) => {
+    if (!confirm(`Forget the pairing with ${pairing.site}? Its agents will need to pair again.`)) {
+      return;
+    }
+    transport.removePairing(pairing.pairingId);
+    setPairings((prev) => prev.filter((item) => item.pairingId !== pairing.pairingId));
   };
 
   const handleCopyDebugBundle = async () => {
@@ -513,7 +931,10 @@ const App: React.FC = () => {
     const payload = await exportAllData();
     const diagnostics = {
       exportedAt: new Date().toISOString(),
-      connection,
+      agents: Object.values(agents),
+      commandQueues,
+      pairings: pairings.map(({ pairingId, site, createdAt }) => ({ pairingId, site, createdAt })),
+      rejections,
       data: payload,
     };
     const blob = new Blob([JSON.stringify(diagnostics, null, 2)], { type: "application/json" });
@@ -534,47 +955,57 @@ const App: React.FC = () => {
     URL.revokeObjectURL(link.href);
   };
 
-  const handleExportRunReport = (run: Run) => {
+  const buildRunReport = async (run: Run, job: Job) => {
+    // Retries report into their root run, so each row shows its latest outcome.
+    const resultsByRow = combineRowResults(run, runs);
+    const headers = runReportHeaders(job, runOutputNames(resultsByRow.values()));
+    const reportRows: CsvRow[] = [];
+    const csvParts = [serializeCsv(headers, [])];
+    for (let offset = 0; offset < job.rowCount; offset += EXPORT_PAGE_SIZE) {
+      const page = (await loadJobRows(job.id, offset, EXPORT_PAGE_SIZE)).map((row, pageIndex) =>
+        toReportRow(offset + pageIndex, row, resultsByRow.get(offset + pageIndex)),
+      );
+      page.forEach((row) => reportRows.push(row));
+      csvParts.push(`\n${serializeCsvRows(headers, page)}`);
+    }
+    return { reportRows, csvParts, failures: groupFailures(resultsByRow.values()) };
+  };
+
+  const handleExportRunReport = async (run: Run) => {
     const job = jobs.find((item) => item.id === run.jobId);
     if (!job) {
       alert("Job data not found for this run.");
       return;
     }
-    const resultsByRow = new Map(run.rowResults.map((result) => [result.rowIndex, result]));
-    const reportRows = job.rows.map((row, index) => {
-      const result = resultsByRow.get(index);
-      return {
-        rowIndex: String(index),
-        status: result?.status ?? "pending",
-        error: result?.error ?? "",
-        durationMs: result?.durationMs ? String(result.durationMs) : "",
-        ...row,
-      };
-    });
-    const headers = ["rowIndex", "status", "error", "durationMs", ...job.headers];
-    const csv = serializeCsv(headers, reportRows);
-    const jsonPayload = {
-      run,
-      job,
-      rows: reportRows,
-      logs: run.logs,
-    };
-    const csvBlob = new Blob([csv], { type: "text/csv" });
+    const { reportRows, csvParts, failures } = await buildRunReport(run, job);
+    const csvBlob = new Blob(csvParts, { type: "text/csv" });
     const csvLink = document.createElement("a");
     csvLink.href = URL.createObjectURL(csvBlob);
-    csvLink.download = `run-${run.id}-report.csv`;
+    csvLink.download = runReportFileName(run, "csv");
     csvLink.click();
     URL.revokeObjectURL(csvLink.href);
-    const jsonBlob = new Blob([JSON.stringify(jsonPayload, null, 2)], {
+    const jsonBlob = new Blob([runReportJson(run, job, reportRows, failures)], {
       type: "application/json",
     });
     const jsonLink = document.createElement("a");
     jsonLink.href = URL.createObjectURL(jsonBlob);
-    jsonLink.download = `run-${run.id}-report.json`;
+    jsonLink.download = runReportFileName(run, "json");
     jsonLink.click();
     URL.revokeObjectURL(jsonLink.href);
   };
 
+  // The run report, output columns included, goes through the import wizard like an upload.
+  const handleJobFromReport = async (run: Run) => {
+    const job = jobs.find((item) => item.id === run.jobId);
+    if (!job) {
+      alert("Job data not found for this run.");
+      return;
+    }
+    const { csvParts } = await buildRunReport(run, job);
+    const file = new File(csvParts, runReportFileName(run, "csv"), { type: "text/csv" });
+    setImportSource({ file, format: "csv" });
+  };
+
   return (
     <div className="app">
       <header className="app__header">
@@ -587,8 +1018,12 @@ const App: React.FC = () => {
             New Workflow
           </button>
           <label className="button">
-            Upload CSV
-            <input type="file" accept=".csv" onChange={handleCreateJob} />
+            Upload CSV / JSON
+            <input
+              type="file"
+              accept=".csv,.tsv,.txt,.json,.ndjson,.jsonl,text/csv,text/tab-separated-values,application/json"
+              onChange={handleCreateJob}
+            />
           </label>
         </div>
       </header>
@@ -631,40 +1066,96 @@ const App: React.FC = () => {
             automation policies. Use rate limits, avoid aggressive automation, and monitor runs.
           </p>
         </section>
+        {agentWarnings.length > 0 && (
+          <section className="panel panel--warning">
+            {agentWarnings.map((agent) => (
+              <p key={agent.agentId}>
+                Agent {agent.agentId.slice(-6)} ({agent.site}): {agent.compatibility?.warning}
+              </p>
+            ))}
+          </section>
+        )}
         {!dataLoaded && (
           <section className="panel">
             <p className="muted">Loading data from IndexedDB…</p>
           </section>
         )}
-        {activeTab === "dashboard" && (
+        {importSource && (
+          <JobImportWizard
+            source={importSource}
+            workflows={workflows}
+            onCancel={() => setImportSource(null)}
+            onCreate={handleImportJob}
+          />
+        )}
+        {!importSource && activeTab === "dashboard" && (
           <section className="panel">
             <h2>Jobs</h2>
             {jobs.length === 0 ? (
-              <p className="muted">Upload a CSV to create a job.</p>
+              <p className="muted">Upload a CSV or JSON file to create a job.</p>
             ) : (
               <div className="grid">
                 {jobs.map((job) => {
                   const workflow = workflows.find((flow) => flow.id === job.workflowId);
+                  const rowsLocked = hasActiveRun(runs, job.id);
                   return (
                     <article key={job.id} className="card">
                       <div className="card__header">
                         <h3>{job.name}</h3>
-                        <span className="pill">{job.rows.length} rows</span>
+                        <span className="pill">{job.rowCount} rows</span>
                       </div>
                       <p className="muted">Workflow: {workflow?.name ?? "Unknown"}</p>
                       <p className="muted">CSV: {job.csvFileName}</p>
+                      {job.dialect && (
+                        <p className="muted">
+                          Format: {describeDelimiter(job.dialect.delimiter)}, {job.dialect.encoding}
+                        </p>
+                      )}
                       <div className="card__actions">
-                        <button type="button" className="button" onClick={() => handleStartRun(job)}>
+                        <button
+                          type="button"
+                          className="button"
+                          onClick={() => setStartingJobId(startingJobId === job.id ? null : job.id)}
+                        >
                           Start Run
                         </button>
                         <button
                           type="button"
                           className="button secondary"
-                          onClick={() => handleExportCsv(job)}
+                          disabled={rowsLocked}
+                          title={rowsLocked ? "Stop the job's run to edit its rows" : undefined}
+                          onClick={() => setEditingJobId(editingJobId === job.id ? null : job.id)}
+                        >
+                          Edit Rows
+                        </button>
+                        <button
+                          type="button"
+                          className="button secondary"
+                          onClick={() => void handleExportCsv(job)}
                         >
                           Export CSV
                         </button>
                       </div>
+                      {startingJobId === job.id && (
+                        <StartRunDialog
+                          job={job}
+                          presets={state.presets}
+                          onCancel={() => setStartingJobId(null)}
+                          onStart={(settings) => handleStartRun(job, settings)}
+                          onSavePreset={handleSavePreset}
+                          onDeletePreset={handleDeletePreset}
+                          onSetDefaultPreset={(presetId) =>
+                            handleUpdateJob({ ...job, defaultPresetId: presetId })
+                          }
+                        />
+                      )}
+                      {editingJobId === job.id && !rowsLocked && (
+                        <JobRowEditor
+                          job={job}
+                          onChange={handleUpdateJob}
+                          onClose={() => setEditingJobId(null)}
+                        />
+                      )}
                     </article>
                   );
                 })}
@@ -673,7 +1164,7 @@ const App: React.FC = () => {
           </section>
         )}
 
-        {activeTab === "workflows" && (
+        {!importSource && activeTab === "workflows" && (
           <section className="panel">
             <h2>Workflows</h2>
             {workflows.length === 0 ? (
@@ -683,13 +1174,23 @@ const App: React.FC = () => {
                 <WorkflowEditor
                   key={workflow.id}
                   workflow={workflow}
+                  workflows={workflows}
+                  jobs={jobs}
+                  supportedStepTypes={supportedStepTypes}
                   onDelete={() => handleDeleteWorkflow(workflow.id)}
                   onUpdate={(updated) => {
+                    // Keep the saved version when the edit makes workflows call each other.
+                    const cycle = findCallCycle(updated, workflows);
+                    if (cycle) {
+                      alert(`Workflows cannot call each other in a loop: ${cycle.join(" → ")}`);
+                      return false;
+                    }
                     setState((prev) => ({
                       ...prev,
                       workflows: prev.workflows.map((flow) => (flow.id === workflow.id ? updated : flow)),
                     }));
                     void db.workflows.put(updated);
+                    return true;
                   }}
                 />
               ))
@@ -697,7 +1198,7 @@ const App: React.FC = () => {
           </section>
         )}
 
-        {activeTab === "runs" && (
+        {!importSource && activeTab === "runs" && (
           <section className="panel">
             <h2>Runs</h2>
             {runs.length === 0 ? (
@@ -714,7 +1215,12 @@ const App: React.FC = () => {
                     >
                       <div>
                         <strong>{run.id.slice(0, 8)}</strong>
-                        <p className="muted">{run.status}</p>
+                        <p className="muted">
+                          {run.status}
+                          {isRunStale(run, jobs.find((job) => job.id === run.jobId) ?? null) &&
+                            " · stale"}
+                          {run.parentRunId && " · retry"}
+                        </p>
                       </div>
                       <span className="pill">{run.currentRowIndex + 1}</span>
                     </button>
@@ -724,11 +1230,18 @@ const App: React.FC = () => {
                   <RunDetail
                     run={selectedRun}
                     job={jobs.find((job) => job.id === selectedRun.jobId) ?? null}
+                    workflow={workflowForRun(selectedRun)}
+                    called={calledForRun(selectedRun)}
+                    failures={groupFailures(combineRowResults(selectedRun, runs).values())}
+                    agents={Object.values(agents)}
                     onPause={handlePauseRun}
                     onResume={handleResumeRun}
+                    onResumeFromLastRow={handleResumeFromLastRow}
+                    onRetryRows={handleRetryRows}
                     onStop={handleStopRun}
                     onStepNext={handleStepNext}
                     onExportReport={handleExportRunReport}
+                    onJobFromReport={handleJobFromReport}
                     onUpdateSettings={handleUpdateSettings}
                   />
                 )}
@@ -737,22 +1250,70 @@ const App: React.FC = () => {
           </section>
         )}
 
-        {activeTab === "settings" && (
+        {!importSource && activeTab === "settings" && (
           <section className="panel">
             <h2>Settings</h2>
             <div className="card">
               <h3>Connection</h3>
               <p>
-                Status: <strong>{connection.status}</strong>
-              </p>
-              <p className="muted">
-                Last hello: {connection.lastHelloAt ? formatTimestamp(connection.lastHelloAt) : "—"}
+                Agents:{" "}
+                <strong>
+                  {Object.values(agents).filter((agent) => agent.status === "connected").length}{" "}
+                  connected
+                </strong>
               </p>
-              <p className="muted">
-                Last ping: {connection.lastPingAt ? formatTimestamp(connection.lastPingAt) : "—"}
-              </p>
-              <p className="muted">Tab URL: {connection.tabUrl ?? "—"}</p>
-              <p className="muted">Site: {connection.site ?? "—"}</p>
+              {Object.values(agents).length === 0 ? (
+                <p className="muted">No agent has said hello yet. Open a tab with the userscript.</p>
+              ) : (
+                Object.values(agents).map((agent) => (
+                  <div key={agent.agentId} className="result">
+                    <strong>
+                      Agent {agent.agentId.slice(-6)}: {agent.status}
+                      {agent.runId && ` · run ${agent.runId.slice(0, 8)}`}
+                    </strong>
+                    <p className="muted">
+                      Last hello: {agent.lastHelloAt ? formatTimestamp(agent.lastHelloAt) : "—"} |
+                      Last ping: {agent.lastPingAt ? formatTimestamp(agent.lastPingAt) : "—"}
+                    </p>
+                    <p className="muted">
+                      Tab URL: {agent.tabUrl} | Site: {agent.site}
+                    </p>
+                    {agent.compatibility ? (
+                      <>
+                        <p className="muted">
+                          Userscript {agent.agentVersion} | Protocol{" "}
+                          {agent.compatibility.protocolVersion ?? "incompatible"} | Steps:{" "}
+                          {agent.compatibility.capabilities.stepTypes.join(", ")} | Artifacts:{" "}
+                          {agent.compatibility.capabilities.artifactTypes.join(", ") || "none"}
+                        </p>
+                        {agent.compatibility.warning && (
+                          <p className="error">{agent.compatibility.warning}</p>
+                        )}
+                      </>
+                    ) : (
+                      <p className="muted">Waiting for this agent's hello.</p>
+                    )}
+                  </div>
+                ))
+              )}
+              <h4>Command queue</h4>
+              {commandQueues.length === 0 ? (
+                <p className="muted">No commands waiting for an agent.</p>
+              ) : (
+                commandQueues.map((queue) => (
+                  <p key={queue.target} className="muted">
+                    {queue.target === BROADCAST_TARGET
+                      ? "All agents"
+                      : `Agent ${queue.target.slice(-6)}`}
+                    :{" "}
+                    {queue.inFlight
+                      ? `${queue.inFlight.type} (attempt ${queue.inFlight.attempts})`
+                      : "idle"}
+                    {queue.queued.length > 0 &&
+                      ` · queued: ${queue.queued.map((entry) => entry.type).join(", ")}`}
+                  </p>
+                ))
+              )}
               <div className="card__actions">
                 <button type="button" className="button secondary" onClick={handleReHandshake}>
                   Re-handshake
@@ -765,6 +1326,26 @@ const App: React.FC = () => {
                 </button>
               </div>
             </div>
+            <PairingCard
+              pairings={pairings}
+              rejections={rejections}
+              onStartPairing={() => startPairing(transport)}
+              onPaired={handlePaired}
+              onForget={handleForgetPairing}
+            />
+            <RelayCard
+              relayUrl={relayUrl}
+              status={relayStatus}
+              onConnect={setRelayUrl}
+              onDisconnect={() => setRelayUrl(null)}
+            />
+            <MockAgentCard
+              enabled={mockAgentEnabled}
+              options={mockAgentOptions}
+              agentId={mockAgentId}
+              onToggle={() => setMockAgentEnabled((prev) => !prev)}
+              onChange={(updates) => setMockAgentOptions((prev) => ({ ...prev, ...updates }))}
+            />
             <div className="card">
               <label className="toggle">
                 <input type="checkbox" checked={state.debugEnabled} onChange={handleDebugToggle} />
@@ -829,31 +1410,48 @@ const App: React.FC = () => {
 const handleMessage = (
   state: ACPState,
   message: ACPMessage,
-  setConnection: React.Dispatch<React.SetStateAction<AgentConnection>>,
+  setAgents: React.Dispatch<React.SetStateAction<AgentMap>>,
 ): ACPState => {
   switch (message.type) {
-    case "AGENT_HELLO":
-      setConnection(() => ({
-        status: "connected",
-        lastHelloAt: new Date().toISOString(),
-        lastPingAt: null,
-        tabUrl: message.payload.tabUrl,
-        site: message.payload.site,
-      }));
+    case "AGENT_HELLO": {
+      const agent = connectAgent(message.payload);
+      setAgents((prev) => ({ ...prev, [agent.agentId]: agent }));
       return state;
+    }
     case "AGENT_PONG":
-      setConnection((prev) => ({
+      setAgents((prev) => ({
         ...prev,
-        status: "connected",
-        lastPingAt: new Date().toISOString(),
-        tabUrl: message.payload.tabUrl,
-        site: message.payload.site,
+        [message.payload.agentId]: {
+          agentId: message.payload.agentId,
+          lastHelloAt: prev[message.payload.agentId]?.lastHelloAt ?? null,
+          status: "connected",
+          lastPingAt: new Date().toISOString(),
+          tabUrl: message.payload.tabUrl,
+          site: message.payload.site,
+          runId: message.payload.runId,
+          agentVersion: prev[message.payload.agentId]?.agentVersion ?? null,
+          compatibility: prev[message.payload.agentId]?.compatibility ?? null,
+        },
       }));
       return state;
     case "AGENT_STATUS": {
+      if (["complete", "stopped", "error"].includes(message.payload.status)) {
+        releaseRunRows(message.payload.runId, message.payload.agentId);
+      }
       const { nextState, updatedRun } = updateRunStatus(state, message);
       if (updatedRun) {
         void db.runs.put(toRunRecord(updatedRun));
+        if (
+          message.payload.status === "error" &&
+          !updatedRun.settings.bestEffort &&
+          updatedRun.assignments.some(isActiveAssignment)
+        ) {
+          // A failed row ends a strict run, so the other agents stop too.
+          transport.send({
+            type: "CONTROL_STOP_RUN",
+            payload: { requestId: transport.createRequestId(), runId: updatedRun.id },
+          });
+        }
       }
       return nextState;
     }
@@ -882,121 +1480,56 @@ const handleMessage = (
   }
 };
 
-const updateRunStatus = (state: ACPState, message: AgentStatusMessage) => {
-  let updatedRun: Run | null = null;
-  const runs = state.runs.map((run) => {
-    if (run.id !== message.payload.runId) {
-      return run;
-    }
-    const rowChanged = run.currentRowIndex !== message.payload.currentRowIndex;
-    const next = {
-      ...run,
-      status: message.payload.status,
-      currentRowIndex: message.payload.currentRowIndex,
-      currentStepIndex: rowChanged ? 0 : run.currentStepIndex,
-      successCount: message.payload.successCount,
-      failureCount: message.payload.failureCount,
-      updatedAt: new Date().toISOString(),
-    };
-    updatedRun = next;
-    return next;
-  });
-  return { nextState: { ...state, runs }, updatedRun };
-};
-
-const appendRunLog = (state: ACPState, message: AgentLogMessage) => {
-  let logEntry: Run["logs"][number] | null = null;
-  let updatedRun: Run | null = null;
-  const runs = state.runs.map((run) => {
-    if (run.id !== message.payload.runId) {
-      return run;
-    }
-    logEntry = {
-      id: `${message.payload.runId}-${message.payload.rowIndex}-${message.payload.stepIndex}-${message.payload.timestamp}`,
-      runId: message.payload.runId,
-      rowIndex: message.payload.rowIndex,
-      stepIndex: message.payload.stepIndex,
-      level: message.payload.level,
-      message: message.payload.message,
-      timestamp: message.payload.timestamp,
-    };
-    const next = {
-      ...run,
-      logs: logEntry ? [logEntry, ...run.logs] : run.logs,
-      currentStepIndex: message.payload.stepIndex + 1,
-      updatedAt: new Date().toISOString(),
-    };
-    updatedRun = next;
-    return next;
-  });
-  return { nextState: { ...state, runs }, logEntry, updatedRun };
-};
-
-const appendRowResult = (state: ACPState, message: AgentRowResultMessage) => {
-  let rowResult: Run["rowResults"][number] | null = null;
-  let updatedRun: Run | null = null;
-  const runs = state.runs.map((run) => {
-    if (run.id !== message.payload.runId) {
-      return run;
-    }
-    rowResult = {
-      runId: message.payload.runId,
-      rowIndex: message.payload.rowIndex,
-      status: message.payload.status,
-      error: message.payload.error,
-      artifacts: message.payload.artifacts,
-      durationMs: message.payload.durationMs,
-    };
-    const next = {
-      ...run,
-      rowResults: rowResult ? [rowResult, ...run.rowResults] : run.rowResults,
-      lastCompletedRow: Math.max(run.lastCompletedRow, message.payload.rowIndex),
-      updatedAt: new Date().toISOString(),
-    };
-    updatedRun = next;
-    return next;
-  });
-  return { nextState: { ...state, runs }, rowResult, updatedRun };
-};
-
 const WorkflowEditor: React.FC<{
   workflow: ACPState["workflows"][number];
-  onUpdate: (workflow: ACPState["workflows"][number]) => void;
+  // Every saved workflow, for call_workflow steps.
+  workflows: WorkflowDefinition[];
+  // Jobs whose rows templates can be previewed against.
+  jobs: Job[];
+  // Null while no agent is connected to tell.
+  supportedStepTypes: WorkflowStepType[] | null;
+  // False when the edit was refused, which leaves the editor on the saved version.
+  onUpdate: (workflow: ACPState["workflows"][number]) => boolean;
   onDelete: () => void;
-}> = ({ workflow, onUpdate, onDelete }) => {
+}> = ({ workflow, workflows, jobs, supportedStepTypes, onUpdate, onDelete }) => {
   const [localWorkflow, setLocalWorkflow] = useState(workflow);
   const [jsonError, setJsonError] = useState<string | null>(null);
+  // The preview starts on the first job that runs this workflow.
+  const [previewJobId, setPreviewJobId] = useState(
+    () => jobs.find((job) => job.workflowId === workflow.id)?.id ?? "",
+  );
+  const [previewIndex, setPreviewIndex] = useState(0);
+  const [previewRow, setPreviewRow] = useState<CsvRow | null>(null);
 
   useEffect(() => {
     setLocalWorkflow(workflow);
   }, [workflow]);
 
-  const updateWorkflow = (updates: Partial<typeof workflow>) => {
-    const updated = { ...localWorkflow, ...updates, updatedAt: new Date().toISOString() };
-    setLocalWorkflow(updated);
-    onUpdate(updated);
-  };
+  useEffect(() => {
+    if (!previewJobId) {
+      setPreviewRow(null);
+      return;
+    }
+    let cancelled = false;
+    loadJobRows(previewJobId, previewIndex, 1)
+      .then((rows) => !cancelled && setPreviewRow(rows[0] ?? null))
+      .catch(() => !cancelled && setPreviewRow(null));
+    return () => {
+      cancelled = true;
+    };
+  }, [previewJobId, previewIndex]);
 
-  const updateStep = (stepId: string, updates: Partial<typeof workflow.steps[number]>) => {
-    const steps = localWorkflow.steps.map((step) =>
-      step.id === stepId ? { ...step, ...updates } : step,
-    );
-    updateWorkflow({ steps });
+  const preview: TemplatePreview | null = previewRow && {
+    row: previewRow,
+    vars: Object.fromEntries(workflowVarNames(localWorkflow).map((name) => [name, `‹${name}›`])),
+    builtins: { rowIndex: previewIndex, runId: "preview", now: new Date() },
   };
 
-  const moveStep = (stepId: string, direction: number) => {
-    const index = localWorkflow.steps.findIndex((step) => step.id === stepId);
-    if (index < 0) {
-      return;
-    }
-    const nextIndex = index + direction;
-    if (nextIndex < 0 || nextIndex >= localWorkflow.steps.length) {
-      return;
+  const updateWorkflow = (updates: Partial<typeof workflow>) => {
+    const updated = { ...localWorkflow, ...updates, updatedAt: new Date().toISOString() };
+    if (onUpdate(updated)) {
+      setLocalWorkflow(updated);
     }
-    const steps = [...localWorkflow.steps];
-    const [removed] = steps.splice(index, 1);
-    steps.splice(nextIndex, 0, removed);
-    updateWorkflow({ steps });
   };
 
   const handleJsonChange = (event: React.ChangeEvent<HTMLTextAreaElement>) => {
@@ -1005,11 +1538,12 @@ const WorkflowEditor: React.FC<{
       if (!parsed.steps || !Array.isArray(parsed.steps)) {
         throw new Error("Steps must be an array.");
       }
-      setJsonError(null);
-      updateWorkflow({
-        name: parsed.name,
+      // Pasted steps may be in the legacy selector and value shape.
+      const migrated = migrateWorkflowData({
         steps: parsed.steps.map((step) => ({ ...step, id: step.id ?? crypto.randomUUID() })),
-      });
+      }) as Pick<typeof workflow, "steps">;
+      setJsonError(null);
+      updateWorkflow({ name: parsed.name, steps: migrated.steps });
     } catch (error) {
       setJsonError((error as Error).message);
     }
@@ -1027,91 +1561,40 @@ const WorkflowEditor: React.FC<{
           Delete
         </button>
       </div>
-      <div className="workflow__steps">
-        {localWorkflow.steps.map((step, index) => (
-          <div key={step.id} className="step">
-            <div className="step__header">
-              <strong>Step {index + 1}</strong>
-              <div className="step__actions">
-                <button type="button" onClick={() => moveStep(step.id, -1)}>
-                  ↑
-                </button>
-                <button type="button" onClick={() => moveStep(step.id, 1)}>
-                  ↓
-                </button>
-                <button
-                  type="button"
-                  onClick={() =>
-                    updateWorkflow({ steps: localWorkflow.steps.filter((item) => item.id !== step.id) })
-                  }
-                >
-                  ✕
-                </button>
-              </div>
-            </div>
-            <div className="step__grid">
-              <label>
-                Type
-                <select
-                  value={step.type}
-                  onChange={(event) => updateStep(step.id, { type: event.target.value as WorkflowStepType })}
-                >
-                  {stepTypes.map((type) => (
-                    <option key={type} value={type}>
-                      {type}
-                    </option>
-                  ))}
-                </select>
-              </label>
-              <label>
-                Selector
-                <input
-                  className="input"
-                  value={step.selector ?? ""}
-                  onChange={(event) => updateStep(step.id, { selector: event.target.value })}
-                />
-              </label>
-              <label>
-                Value
-                <input
-                  className="input"
-                  value={step.value ?? ""}
-                  onChange={(event) => updateStep(step.id, { value: event.target.value })}
-                />
-              </label>
-              <label>
-                Timeout (ms)
-                <input
-                  className="input"
-                  type="number"
-                  value={step.timeoutMs ?? ""}
-                  onChange={(event) =>
-                    updateStep(step.id, { timeoutMs: Number(event.target.value || 0) || undefined })
-                  }
-                />
-              </label>
-              <label>
-                Retries
-                <input
-                  className="input"
-                  type="number"
-                  value={step.retries ?? ""}
-                  onChange={(event) =>
-                    updateStep(step.id, { retries: Number(event.target.value || 0) || undefined })
-                  }
-                />
-              </label>
-            </div>
-          </div>
-        ))}
-        <button
-          type="button"
-          className="button secondary"
-          onClick={() => updateWorkflow({ steps: [...localWorkflow.steps, createStep("goto")] })}
-        >
-          Add Step
-        </button>
+      <div className="workflow__preview">
+        <label>
+          Preview templates with
+          <select value={previewJobId} onChange={(event) => setPreviewJobId(event.target.value)}>
+            <option value="">No preview</option>
+            {jobs.map((job) => (
+              <option key={job.id} value={job.id}>
+                {job.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        {previewJobId && (
+          <label>
+            Row
+            <input
+              className="input"
+              type="number"
+              min={1}
+              value={previewIndex + 1}
+              onChange={(event) => setPreviewIndex(Math.max(0, Number(event.target.value) - 1))}
+            />
+          </label>
+        )}
+        {previewJobId && !previewRow && <p className="muted">The job has no such row.</p>}
       </div>
+      <StepList
+        steps={localWorkflow.steps}
+        stepNumbers={stepIndexes(localWorkflow.steps)}
+        supportedStepTypes={supportedStepTypes}
+        workflows={workflows}
+        preview={preview}
+        onChange={(steps) => updateWorkflow({ steps })}
+      />
       <div className="workflow__json">
         <label>
           Raw JSON
@@ -1130,193 +1613,292 @@ const WorkflowEditor: React.FC<{
 const RunDetail: React.FC<{
   run: Run;
   job: Job | null;
+  workflow: WorkflowDefinition | null;
+  // The workflows its call_workflow steps reach.
+  called: WorkflowDefinition[];
+  // Failed rows of the run and its retries, by assertion.
+  failures: FailureGroup[];
+  agents: AgentConnection[];
   onPause: (run: Run) => void;
   onResume: (run: Run) => void;
+  onResumeFromLastRow: (run: Run) => void;
+  onRetryRows: (run: Run, rowIndexes: number[]) => void;
   onStop: (run: Run) => void;
   onStepNext: (run: Run) => void;
   onExportReport: (run: Run) => void;
-  onUpdateSettings: (run: Run, updates: Partial<Run["settings"]>) => void;
-}> = ({ run, job, onPause, onResume, onStop, onStepNext, onExportReport, onUpdateSettings }) => (
-  <div className="card run-detail">
-    <header>
-      <h3>Run {run.id.slice(0, 8)}</h3>
-      <p className="muted">
-        Job: {job?.name ?? "Unknown"} | Created {formatTimestamp(run.createdAt)}
-      </p>
-    </header>
-    <div className="stats">
-      <div>
-        <strong>Status</strong>
-        <span>{run.status}</span>
-      </div>
-      <div>
-        <strong>Row</strong>
-        <span>
-          {run.currentRowIndex + 1} / {job?.rows.length ?? 0}
-        </span>
-      </div>
-      <div>
-        <strong>Step</strong>
-        <span>{run.currentStepIndex + 1}</span>
-      </div>
-      <div>
-        <strong>Success</strong>
-        <span>{run.successCount}</span>
-      </div>
-      <div>
-        <strong>Failures</strong>
-        <span>{run.failureCount}</span>
+  // Starts a new job from the run report, for feeding extracted outputs into another workflow.
+  onJobFromReport: (run: Run) => void;
+  onUpdateSettings: (run: Run, settings: RunSettings) => void;
+}> = ({
+  run,
+  job,
+  workflow,
+  called,
+  failures,
+  agents,
+  onPause,
+  onResume,
+  onResumeFromLastRow,
+  onRetryRows,
+  onStop,
+  onStepNext,
+  onExportReport,
+  onJobFromReport,
+  onUpdateSettings,
+}) => {
+  const [draft, setDraft] = useState(run.settings);
+  const compatibleAgents = agents.filter(isCompatibleAgent);
+  // The fewest steps any connected agent cannot run for this workflow.
+  const unsupportedSteps =
+    workflow && compatibleAgents.length > 0
+      ? compatibleAgents
+          .map((agent) => unsupportedByAgent(agent, workflow, called))
+          .reduce((fewest, missing) => (missing.length < fewest.length ? missing : fewest))
+      : [];
+  const missingArtifacts = (agentId: string) => {
+    const capabilities = agents.find((agent) => agent.agentId === agentId)?.compatibility
+      ?.capabilities;
+    return capabilities
+      ? ARTIFACT_TYPES.filter((type) => !capabilities.artifactTypes.includes(type))
+      : [];
+  };
+  const failedRows = run.rowResults
+    .filter((result) => result.status === "failed")
+    .map((result) => result.rowIndex)
+    .sort((a, b) => a - b);
+  const active = run.status === "running" || run.status === "paused";
+  const hasOutputs = runOutputNames(run.rowResults).length > 0;
+  // Assertions inside called workflows have no number here.
+  const stepNumbers = new Map(
+    (workflow ? flattenSteps(workflow.steps) : []).map((step, index) => [step.id, index + 1]),
+  );
+
+  const handleRetrySelected = () => {
+    const text = prompt(
+      "Row numbers to re-run (e.g. 2, 5-8)",
+      failedRows.map((index) => index + 1).join(", "),
+    );
+    if (!text?.trim()) {
+      return;
+    }
+    try {
+      onRetryRows(run, parseRowSelection(text, job?.rowCount ?? 0));
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Invalid row selection");
+    }
+  };
+
+  useEffect(() => {
+    setDraft(run.settings);
+  }, [run.id, run.settings]);
+
+  return (
+    <div className="card run-detail">
+      <header>
+        <h3>Run {run.id.slice(0, 8)}</h3>
+        <p className="muted">
+          Job: {job?.name ?? "Unknown"} | Created {formatTimestamp(run.createdAt)}
+        </p>
+        {run.parentRunId && (
+          <p className="muted">
+            Retry of run {run.parentRunId.slice(0, 8)}: {run.rowIndexes?.length ?? 0} row(s). Its
+            report combines results with the original run.
+          </p>
+        )}
+        {job && isRunStale(run, job) && (
+          <p className="panel--warning">
+            Stale: this run used revision {run.jobRevision} of the job rows; they have since been
+            edited (now revision {job.revision}). Row numbers may no longer match.
+          </p>
+        )}
+        {run.status === "running" && unsupportedSteps.length > 0 && (
+          <p className="panel--warning">
+            No connected agent supports every step of this workflow (missing:{" "}
+            {unsupportedSteps.join(", ")}). Waiting shares stay queued until an updated agent
+            connects.
+          </p>
+        )}
+      </header>
+      <div className="stats">
+        <div>
+          <strong>Status</strong>
+          <span>{run.status}</span>
+        </div>
+        <div>
+          <strong>Row</strong>
+          <span>
+            {run.currentRowIndex + 1} / {job?.rowCount ?? 0}
+          </span>
+        </div>
+        <div>
+          <strong>Step</strong>
+          <span>{run.currentStepIndex + 1}</span>
+        </div>
+        <div>
+          <strong>Success</strong>
+          <span>{run.successCount}</span>
+        </div>
+        <div>
+          <strong>Failures</strong>
+          <span>{run.failureCount}</span>
+        </div>
       </div>
-    </div>
-    <div className="card__actions">
-      {run.status === "running" ? (
-        <button type="button" className="button secondary" onClick={() => onPause(run)}>
-          Pause
-        </button>
-      ) : (
-        <button type="button" className="button" onClick={() => onResume(run)}>
-          Resume
-        </button>
+      {run.assignments.length > 0 && (
+        <div className="logs">
+          <h4>Agents</h4>
+          {run.assignments.map((assignment, index) => (
+            <div key={index} className="result">
+              <strong>
+                Share {index + 1}: {assignment.status}
+              </strong>
+              <p className="muted">
+                {assignment.agentId
+                  ? `Agent ${assignment.agentId.slice(-6)} on row ${assignment.currentRowIndex + 1}`
+                  : "Waiting for an agent"}{" "}
+                · next row {assignment.fromRow + 1}, ends at row {assignment.toRow}
+                {assignment.agentId &&
+                  missingArtifacts(assignment.agentId).length > 0 &&
+                  ` · does not capture ${missingArtifacts(assignment.agentId).join(", ")}`}
+              </p>
+            </div>
+          ))}
+        </div>
       )}
-      <button type="button" className="button secondary" onClick={() => onStop(run)}>
-        Stop
-      </button>
-      {run.settings.stepThrough && (
-        <button type="button" className="button" onClick={() => onStepNext(run)}>
-          Next Step
+      <div className="card__actions">
+        {run.status === "running" && (
+          <button type="button" className="button secondary" onClick={() => onPause(run)}>
+            Pause
+          </button>
+        )}
+        {run.status === "paused" && (
+          <button type="button" className="button" onClick={() => onResume(run)}>
+            Resume
+          </button>
+        )}
+        {canResumeRun(run) && (
+          <button type="button" className="button" onClick={() => onResumeFromLastRow(run)}>
+            Resume from row {getLastCompletedRow(run.rowResults) + 2}
+          </button>
+        )}
+        {!active && failedRows.length > 0 && (
+          <button
+            type="button"
+            className="button secondary"
+            onClick={() => onRetryRows(run, failedRows)}
+          >
+            Retry failed ({failedRows.length})
+          </button>
+        )}
+        {!active && (
+          <button type="button" className="button secondary" onClick={handleRetrySelected}>
+            Retry rows…
+          </button>
+        )}
+        <button type="button" className="button secondary" onClick={() => onStop(run)}>
+          Stop
         </button>
-      )}
-      <button type="button" className="button secondary" onClick={() => onExportReport(run)}>
-        Export Run Report
-      </button>
-    </div>
-    <div className="settings-grid">
-      <label>
-        Headless
-        <select
-          value={String(run.settings.headless)}
-          onChange={(event) => onUpdateSettings(run, { headless: event.target.value === "true" })}
-        >
-          <option value="false">false</option>
-          <option value="true">true</option>
-        </select>
-      </label>
-      <label>
-        SlowMo (ms)
-        <input
-          className="input"
-          type="number"
-          value={run.settings.slowMoMs}
-          onChange={(event) => onUpdateSettings(run, { slowMoMs: Number(event.target.value) })}
-        />
-      </label>
-      <label>
-        Timeout (ms)
-        <input
-          className="input"
-          type="number"
-          value={run.settings.timeoutMs}
-          onChange={(event) => onUpdateSettings(run, { timeoutMs: Number(event.target.value) })}
-        />
-      </label>
-      <label>
-        Delay Min (ms)
-        <input
-          className="input"
-          type="number"
-          value={run.settings.delayMinMs}
-          onChange={(event) => onUpdateSettings(run, { delayMinMs: Number(event.target.value) })}
-        />
-      </label>
-      <label>
-        Delay Max (ms)
-        <input
-          className="input"
-          type="number"
-          value={run.settings.delayMaxMs}
-          onChange={(event) => onUpdateSettings(run, { delayMaxMs: Number(event.target.value) })}
-        />
-      </label>
-      <label>
-        Best Effort
-        <select
-          value={String(run.settings.bestEffort)}
-          onChange={(event) => onUpdateSettings(run, { bestEffort: event.target.value === "true" })}
-        >
-          <option value="false">false</option>
-          <option value="true">true</option>
-        </select>
-      </label>
-      <label>
-        Dry Run
-        <select
-          value={String(run.settings.dryRun)}
-          onChange={(event) => onUpdateSettings(run, { dryRun: event.target.value === "true" })}
-        >
-          <option value="false">false</option>
-          <option value="true">true</option>
-        </select>
-      </label>
-      <label>
-        Step Through
-        <select
-          value={String(run.settings.stepThrough)}
-          onChange={(event) => onUpdateSettings(run, { stepThrough: event.target.value === "true" })}
+        {run.settings.stepThrough && (
+          <button type="button" className="button" onClick={() => onStepNext(run)}>
+            Next Step
+          </button>
+        )}
+        <button type="button" className="button secondary" onClick={() => onExportReport(run)}>
+          Export Run Report
+        </button>
+        {hasOutputs && (
+          <button type="button" className="button secondary" onClick={() => onJobFromReport(run)}>
+            New Job from Outputs
+          </button>
+        )}
+      </div>
+      <RunSettingsFields
+        settings={draft}
+        onChange={(updates) => setDraft((prev) => ({ ...prev, ...updates }))}
+      />
+      <div className="card__actions">
+        <button
+          type="button"
+          className="button secondary"
+          disabled={draft === run.settings}
+          onClick={() => onUpdateSettings(run, draft)}
         >
-          <option value="false">false</option>
-          <option value="true">true</option>
-        </select>
-      </label>
-    </div>
-    <div className="logs">
-      <h4>Step Logs</h4>
-      {run.logs.length === 0 ? (
-        <p className="muted">No logs yet.</p>
-      ) : (
-        run.logs.slice(0, 50).map((log) => (
-          <div key={log.id} className={`log log--${log.level}`}>
-            <span>{formatTimestamp(log.timestamp)}</span>
-            <strong>
-              Row {log.rowIndex + 1} / Step {log.stepIndex + 1}
-            </strong>
-            <p>{log.message}</p>
-          </div>
-        ))
-      )}
-      <h4>Row Results</h4>
-      {run.rowResults.length === 0 ? (
-        <p className="muted">No row results yet.</p>
-      ) : (
-        run.rowResults.slice(0, 20).map((result) => (
-          <div key={`${result.rowIndex}-${result.status}`} className="result">
+          Apply settings
+        </button>
+      </div>
+      <div className="logs">
+        <h4>Step Logs</h4>
+        {run.logs.length === 0 ? (
+          <p className="muted">No logs yet.</p>
+        ) : (
+          run.logs.slice(0, 50).map((log) => (
+            <div key={log.id} className={`log log--${log.level}`}>
+              <span>{formatTimestamp(log.timestamp)}</span>
+              <strong>
+                Row {log.rowIndex + 1} / Step {log.stepPath ?? log.stepIndex + 1}
+                {log.agentId && ` · agent ${log.agentId.slice(-6)}`}
+              </strong>
+              <p>{log.message}</p>
+            </div>
+          ))
+        )}
+        {failures.length > 0 && <h4>Failures by Assertion</h4>}
+        {failures.map((group) => (
+          <div key={group.stepId ?? "other"} className="result">
             <strong>
-              Row {result.rowIndex + 1}: {result.status}
+              {!group.stepId
+                ? "Other errors"
+                : stepNumbers.has(group.stepId)
+                  ? `Step ${stepNumbers.get(group.stepId)} ${group.assertion}`
+                  : `${group.assertion} in a called workflow`}
+              : {group.rowIndexes.length} row{group.rowIndexes.length === 1 ? "" : "s"}
             </strong>
-            {result.durationMs !== undefined && (
-              <p className="muted">Duration: {result.durationMs} ms</p>
-            )}
-            {result.error && <p className="error">{result.error}</p>}
-            {result.artifacts?.screenshot && (
-              <a href={result.artifacts.screenshot} target="_blank" rel="noreferrer">
-                Screenshot
-              </a>
-            )}
-            {result.artifacts?.htmlSnapshot && (
-              <a href={result.artifacts.htmlSnapshot} target="_blank" rel="noreferrer">
-                DOM Snapshot
-              </a>
+            <p className="muted">
+              Rows {group.rowIndexes.map((index) => index + 1).join(", ")}
+            </p>
+            {group.example && (
+              <p className="error">
+                Expected {JSON.stringify(group.example.expected)}
+                {group.example.selector && ` at ${group.example.selector}`}, found{" "}
+                {group.example.actual === null ? "nothing" : JSON.stringify(group.example.actual)}
+              </p>
             )}
-            {result.artifacts?.consoleLogs?.length ? (
-              <details>
-                <summary>Console Logs</summary>
-                <pre className="pre">{result.artifacts.consoleLogs.join("\n")}</pre>
-              </details>
-            ) : null}
           </div>
-        ))
-      )}
+        ))}
+        <h4>Row Results</h4>
+        {run.rowResults.length === 0 ? (
+          <p className="muted">No row results yet.</p>
+        ) : (
+          run.rowResults.slice(0, 20).map((result) => (
+            <div key={`${result.rowIndex}-${result.status}`} className="result">
+              <strong>
+                Row {result.rowIndex + 1}: {result.status}
+              </strong>
+              {result.durationMs !== undefined && (
+                <p className="muted">Duration: {result.durationMs} ms</p>
+              )}
+              {result.error && <p className="error">{result.error}</p>}
+              {result.artifacts?.screenshot && (
+                <a href={result.artifacts.screenshot} target="_blank" rel="noreferrer">
+                  Screenshot
+                </a>
+              )}
+              {result.artifacts?.htmlSnapshot && (
+                <a href={result.artifacts.htmlSnapshot} target="_blank" rel="noreferrer">
+                  DOM Snapshot
+                </a>
+              )}
+              {result.artifacts?.consoleLogs?.length ? (
+                <details>
+                  <summary>Console Logs</summary>
+                  <pre className="pre">{result.artifacts.consoleLogs.join("\n")}</pre>
+                </details>
+              ) : null}
+            </div>
+          ))
+        )}
+      </div>
     </div>
-  </div>
-);
+  );
+};
 
 export default App;
@@ -0,0 +1,191 @@
+import type { AgentCompatibility } from "@shared/protocol";
+import { type Run, type RunAssignment, type RunStatus, isRowDone, planResume } from "./state";
+
+// An agent that has not answered a ping for this long is treated as gone.
+export const AGENT_OFFLINE_MS = 15000;
+
+export type AgentConnection = {
+  agentId: string;
+  status: "connected" | "offline";
+  lastHelloAt: string | null;
+  lastPingAt: string | null;
+  tabUrl: string;
+  site: string;
+  // The run the agent last reported executing.
+  runId: string | null;
+  agentVersion: string | null;
+  // From the agent's last hello; agents only known from pings get no runs until they say hello.
+  compatibility: AgentCompatibility | null;
+};
+
+export type PoolCommand =
+  | { type: "start"; runId: string; assignmentIndex: number; agentId: string }
+  | { type: "stop"; runId: string; agentId: string };
+
+const activeStatuses: RunStatus[] = ["running", "paused"];
+
+const isWaiting = (assignment: RunAssignment) =>
+  assignment.agentId === null && assignment.status === "idle";
+
+const createAssignment = (
+  fromRow: number,
+  toRow: number,
+  rowIndexes: number[] | null,
+): RunAssignment => ({
+  agentId: null,
+  fromRow,
+  toRow,
+  rowIndexes,
+  status: "idle",
+  currentRowIndex: fromRow,
+});
+
+// Splits the rows a run still has to execute into up to `concurrency` contiguous shares.
+export const splitRunAssignments = (run: Run, totalRows: number, agentCount: number) => {
+  const count = Math.max(1, Math.min(run.settings.concurrency, agentCount));
+  const { resumeFrom } = planResume(run);
+  const assignments: RunAssignment[] = [];
+  if (run.rowIndexes) {
+    const rows = run.rowIndexes.filter((index) => index >= resumeFrom && index < totalRows);
+    const size = Math.ceil(rows.length / count);
+    for (let start = 0; start < rows.length; start += size) {
+      const share = rows.slice(start, start + size);
+      assignments.push(createAssignment(share[0] ?? 0, (share[share.length - 1] ?? 0) + 1, share));
+    }
+    return assignments;
+  }
+  const size = Math.ceil((totalRows - resumeFrom) / count);
+  for (let start = resumeFrom; start < totalRows; start += size) {
+    assignments.push(createAssignment(start, Math.min(start + size, totalRows), null));
+  }
+  return assignments;
+};
+
+// The CONTROL_START_RUN window for an assignment, or null when none of its rows are left.
+// Rows that already succeeded (in this attempt or an earlier one) are skipped. The counters
+// start from the results the share already has for rows this start does not run again.
+export const planAssignment = (run: Run, assignment: RunAssignment) => {
+  const done = new Set(
+    run.rowResults.filter(isRowDone).map((result) => result.rowIndex),
+  );
+  const rows = assignment.rowIndexes
+    ? assignment.rowIndexes.filter((index) => index >= assignment.fromRow)
+    : Array.from(
+        { length: Math.max(0, assignment.toRow - assignment.fromRow) },
+        (_, offset) => assignment.fromRow + offset,
+      );
+  const remaining = rows.filter((index) => !done.has(index));
+  if (remaining.length === 0) {
+    return null;
+  }
+  // Shares are contiguous, so a range share began where the one before it ends.
+  const shareStart = Math.max(
+    0,
+    ...run.assignments.map((share) => share.toRow).filter((toRow) => toRow <= assignment.fromRow),
+  );
+  const inShare = (index: number) =>
+    assignment.rowIndexes
+      ? assignment.rowIndexes.includes(index)
+      : index >= shareStart && index < assignment.toRow;
+  const reruns = new Set(remaining);
+  const counted = run.rowResults.filter(
+    (result) => inShare(result.rowIndex) && !reruns.has(result.rowIndex),
+  );
+  return {
+    resumeFrom: remaining[0] ?? assignment.fromRow,
+    totalRows: assignment.toRow,
+    skipRowIndexes: rows.filter((index) => done.has(index) && index > (remaining[0] ?? 0)),
+    rowIndexes: assignment.rowIndexes,
+    successCount: counted.filter((result) => result.status === "success").length,
+    failureCount: counted.filter((result) => result.status === "failed").length,
+  };
+};
+
+// The run as a whole is only finished once every share is; waiting shares count as running.
+export const deriveRunStatus = (assignments: RunAssignment[]): RunStatus => {
+  const statuses = new Set(assignments.map((assignment) => assignment.status));
+  const order: RunStatus[] = ["running", "idle", "paused", "error", "stopped"];
+  const status = order.find((item) => statuses.has(item));
+  if (!status) {
+    return "complete";
+  }
+  return status === "idle" ? "running" : status;
+};
+
+// Records a finished row on the share that covers it, so a takeover starts after it.
+export const advanceAssignments = (run: Run, agentId: string, rowIndex: number) =>
+  run.assignments.map((assignment) =>
+    assignment.agentId === agentId && rowIndex >= assignment.fromRow && rowIndex < assignment.toRow
+      ? { ...assignment, fromRow: rowIndex + 1 }
+      : assignment,
+  );
+
+// Hands shares of running runs to idle agents and takes them back from agents that went
+// offline. Returns the runs whose assignments changed and the commands to send.
+export const dispatchAssignments = (
+  runs: Run[],
+  agents: AgentConnection[],
+  missingAgentsOffline: boolean,
+  // Whether an agent can execute a run, e.g. supports every step type of its workflow.
+  canRun: (run: Run, agent: AgentConnection) => boolean = () => true,
+) => {
+  const byId = new Map(agents.map((agent) => [agent.agentId, agent]));
+  const isOffline = (agentId: string) => {
+    const agent = byId.get(agentId);
+    return agent ? agent.status === "offline" : missingAgentsOffline;
+  };
+  const busy = new Set(
+    agents.filter((agent) => agent.runId !== null).map((agent) => agent.agentId),
+  );
+  runs.forEach((run) =>
+    run.assignments.forEach((assignment) => {
+      if (assignment.agentId && activeStatuses.includes(assignment.status)) {
+        busy.add(assignment.agentId);
+      }
+    }),
+  );
+  const idle = agents.filter((agent) => agent.status === "connected" && !busy.has(agent.agentId));
+  const commands: PoolCommand[] = [];
+  const changed: Run[] = [];
+
+  runs.forEach((run) => {
+    let dirty = false;
+    const assignments = run.assignments.map((assignment, index) => {
+      let next = assignment;
+      if (
+        next.agentId &&
+        activeStatuses.includes(next.status) &&
+        isOffline(next.agentId)
+      ) {
+        commands.push({ type: "stop", runId: run.id, agentId: next.agentId });
+        next = { ...next, agentId: null, status: run.status === "paused" ? "paused" : "idle" };
+        dirty = true;
+      }
+      if (run.status !== "running" || !isWaiting(next)) {
+        return next;
+      }
+      if (!planAssignment(run, next)) {
+        dirty = true;
+        return { ...next, status: "complete" as const };
+      }
+      const agentIndex = idle.findIndex((agent) => canRun(run, agent));
+      const agent = idle[agentIndex];
+      if (!agent) {
+        return next;
+      }
+      idle.splice(agentIndex, 1);
+      commands.push({ type: "start", runId: run.id, assignmentIndex: index, agentId: agent.agentId });
+      dirty = true;
+      return { ...next, agentId: agent.agentId, status: "running" as const };
+    });
+    if (dirty) {
+      changed.push({
+        ...run,
+        assignments,
+        status: run.status === "running" ? deriveRunStatus(assignments) : run.status,
+        updatedAt: new Date().toISOString(),
+      });
+    }
+  });
+  return { changed, commands };
+};
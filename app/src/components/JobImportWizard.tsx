@@ -0,0 +1,386 @@
+import React, { useEffect, useMemo, useState } from "react";
+import type { CsvRow, WorkflowDefinition } from "@shared/schema";
+import { type CsvDialect, type CsvParseError, formatCsvError } from "@shared/csv";
+import type { RecordFormat } from "@shared/records";
+import { JobSchema } from "@shared/validators";
+import {
+  type ColumnMapping,
+  type ColumnRule,
+  applyColumnMapping,
+  extractTemplateKeys,
+  suggestColumnMapping,
+  suggestColumnRule,
+  validateRows,
+} from "@shared/columns";
+import { type Job, createJob } from "../state";
+import { importRecords } from "../import/client";
+
+const PREVIEW_ROWS = 10;
+const REPORT_ROWS = 50;
+
+export const delimiterOptions = [
+  { value: "", label: "Auto" },
+  { value: ",", label: "Comma" },
+  { value: ";", label: "Semicolon" },
+  { value: "\t", label: "Tab" },
+  { value: "|", label: "Pipe" },
+];
+
+const quoteOptions = [
+  { value: "", label: "Auto" },
+  { value: '"', label: "Double quote" },
+  { value: "'", label: "Single quote" },
+];
+
+export type JobImportSource = {
+  file: File;
+  format: RecordFormat;
+};
+
+type ParsedSource = {
+  headers: string[];
+  rows: CsvRow[];
+  errors: CsvParseError[];
+  encoding: string;
+  dialect?: CsvDialect;
+};
+
+const emptySource: ParsedSource = { headers: [], rows: [], errors: [], encoding: "utf-8" };
+
+const JobImportWizard: React.FC<{
+  source: JobImportSource;
+  workflows: WorkflowDefinition[];
+  onCancel: () => void;
+  onCreate: (job: Job, rows: CsvRow[]) => void;
+}> = ({ source, workflows, onCancel, onCreate }) => {
+  const fileName = source.file.name;
+  const [name, setName] = useState(() => fileName.replace(/\.[^.]+$/, ""));
+  const [workflowId, setWorkflowId] = useState(workflows[0]?.id ?? "");
+  const [dialectOverrides, setDialectOverrides] = useState<Partial<CsvDialect>>({});
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [rules, setRules] = useState<Record<string, ColumnRule>>({});
+  const [excludeInvalid, setExcludeInvalid] = useState(true);
+  const [createError, setCreateError] = useState<string | null>(null);
+  const [parsed, setParsed] = useState<ParsedSource>(emptySource);
+  const [loading, setLoading] = useState(true);
+  const [loadedRows, setLoadedRows] = useState(0);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  // Rows stream in from the import worker; the wizard only re-renders with the full set once.
+  useEffect(() => {
+    const rows: CsvRow[] = [];
+    setLoading(true);
+    setLoadedRows(0);
+    setLoadError(null);
+    return importRecords({ file: source.file, format: source.format, dialectOverrides }, (event) => {
+      switch (event.type) {
+        case "rows":
+          event.rows.forEach((row) => rows.push(row));
+          setLoadedRows(rows.length);
+          break;
+        case "done": {
+          const { type: _type, ...result } = event;
+          setParsed({ ...result, rows });
+          setLoading(false);
+          break;
+        }
+        case "failed":
+          setParsed(emptySource);
+          setLoadError(event.message);
+          setLoading(false);
+          break;
+      }
+    });
+  }, [source, dialectOverrides]);
+
+  const workflow = workflows.find((flow) => flow.id === workflowId) ?? null;
+  const placeholders = useMemo(() => (workflow ? extractTemplateKeys(workflow) : []), [workflow]);
+  const headerKey = parsed.headers.join("\u0000");
+
+  // Re-suggest only when the file's columns or the workflow's placeholders change.
+  useEffect(() => {
+    const suggested = suggestColumnMapping(placeholders, parsed.headers);
+    setMapping(suggested);
+    setRules(
+      Object.fromEntries(
+        parsed.headers.map((header) => [header, suggestColumnRule(header, suggested)]),
+      ),
+    );
+  }, [headerKey, placeholders]);
+
+  const issues = useMemo(() => validateRows(parsed.rows, rules), [parsed.rows, rules]);
+  const invalidRows = useMemo(() => new Set(issues.map((issue) => issue.rowIndex)), [issues]);
+  const unmapped = placeholders.filter((placeholder) => !mapping[placeholder]);
+  const includedCount = excludeInvalid
+    ? parsed.rows.length - invalidRows.size
+    : parsed.rows.length;
+  const canCreate = Boolean(
+    !loading && name.trim() && workflow && unmapped.length === 0 && includedCount > 0,
+  );
+
+  const updateRule = (column: string, updates: Partial<ColumnRule>) => {
+    setRules((prev) => ({
+      ...prev,
+      [column]: { ...(prev[column] ?? { required: false, url: false }), ...updates },
+    }));
+  };
+
+  const handleCreate = () => {
+    if (!workflow || !canCreate) {
+      return;
+    }
+    const rows = excludeInvalid
+      ? parsed.rows.filter((_, index) => !invalidRows.has(index))
+      : parsed.rows;
+    const mapped = applyColumnMapping(parsed.headers, rows, mapping);
+    const job = createJob(
+      name.trim(),
+      workflow.id,
+      fileName,
+      mapped.headers,
+      mapped.rows.length,
+      parsed.dialect,
+    );
+    const validation = JobSchema.safeParse(job);
+    if (!validation.success) {
+      setCreateError(
+        validation.error.issues
+          .map((issue) => `${issue.path.join(".") || "job"}: ${issue.message}`)
+          .join("; "),
+      );
+      return;
+    }
+    setCreateError(null);
+    onCreate(job, mapped.rows);
+  };
+
+  return (
+    <section className="panel wizard">
+      <h2>Import {fileName}</h2>
+
+      <div className="card">
+        <h3>1. Job</h3>
+        <div className="settings-grid">
+          <label>
+            Job name
+            <input className="input" value={name} onChange={(event) => setName(event.target.value)} />
+          </label>
+          <label>
+            Workflow
+            <select value={workflowId} onChange={(event) => setWorkflowId(event.target.value)}>
+              {workflows.map((flow) => (
+                <option key={flow.id} value={flow.id}>
+                  {flow.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          {source.format === "csv" && (
+            <>
+              <label>
+                Delimiter
+                <select
+                  value={dialectOverrides.delimiter ?? ""}
+                  onChange={(event) =>
+                    setDialectOverrides(({ delimiter: _delimiter, ...rest }) =>
+                      event.target.value ? { ...rest, delimiter: event.target.value } : rest,
+                    )
+                  }
+                >
+                  {delimiterOptions.map((option) => (
+                    <option key={option.label} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label>
+                Quotes
+                <select
+                  value={dialectOverrides.quoteChar ?? ""}
+                  onChange={(event) =>
+                    setDialectOverrides(({ quoteChar: _quoteChar, ...rest }) =>
+                      event.target.value ? { ...rest, quoteChar: event.target.value } : rest,
+                    )
+                  }
+                >
+                  {quoteOptions.map((option) => (
+                    <option key={option.label} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </>
+          )}
+        </div>
+        {loading ? (
+          <p className="muted">Reading file… {loadedRows} rows so far.</p>
+        ) : (
+          <p className="muted">
+            {parsed.dialect
+              ? `${describeDelimiter(parsed.dialect.delimiter)}-separated, ${parsed.encoding}, `
+              : `${source.format.toUpperCase()}, nested fields flattened to dotted columns, `}
+            {parsed.rows.length} rows.
+          </p>
+        )}
+        {loadError && <p className="error">Could not read the file: {loadError}</p>}
+      </div>
+
+      <div className="card">
+        <h3>2. Preview</h3>
+        {parsed.errors.length > 0 && (
+          <ul className="error">
+            {parsed.errors.slice(0, REPORT_ROWS).map((error) => (
+              <li key={`${error.line}:${error.column}`}>{formatCsvError(error)}</li>
+            ))}
+          </ul>
+        )}
+        <div className="table-wrap">
+          <table className="table">
+            <thead>
+              <tr>
+                <th>#</th>
+                {parsed.headers.map((header) => (
+                  <th key={header}>{header}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {parsed.rows.slice(0, PREVIEW_ROWS).map((row, index) => (
+                <tr key={index} className={invalidRows.has(index) ? "table__row--invalid" : undefined}>
+                  <td>{index + 1}</td>
+                  {parsed.headers.map((header) => (
+                    <td key={header}>{row[header]}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="card">
+        <h3>3. Map columns</h3>
+        {placeholders.length === 0 ? (
+          <p className="muted">This workflow does not use any {"{{placeholders}}"}.</p>
+        ) : (
+          <div className="settings-grid">
+            {placeholders.map((placeholder) => (
+              <label key={placeholder}>
+                {`{{${placeholder}}}`}
+                <select
+                  value={mapping[placeholder] ?? ""}
+                  onChange={(event) =>
+                    setMapping((prev) => ({ ...prev, [placeholder]: event.target.value }))
+                  }
+                >
+                  <option value="">— not mapped —</option>
+                  {parsed.headers.map((header) => (
+                    <option key={header} value={header}>
+                      {header}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+        )}
+        {unmapped.length > 0 && (
+          <p className="error">Map every placeholder before creating the job: {unmapped.join(", ")}</p>
+        )}
+      </div>
+
+      <div className="card">
+        <h3>4. Column checks</h3>
+        <div className="table-wrap">
+          <table className="table">
+            <thead>
+              <tr>
+                <th>Column</th>
+                <th>Required</th>
+                <th>URL</th>
+                <th>Max length</th>
+              </tr>
+            </thead>
+            <tbody>
+              {parsed.headers.map((header) => {
+                const rule = rules[header] ?? { required: false, url: false };
+                return (
+                  <tr key={header}>
+                    <td>{header}</td>
+                    <td>
+                      <input
+                        type="checkbox"
+                        checked={rule.required}
+                        onChange={(event) => updateRule(header, { required: event.target.checked })}
+                      />
+                    </td>
+                    <td>
+                      <input
+                        type="checkbox"
+                        checked={rule.url}
+                        onChange={(event) => updateRule(header, { url: event.target.checked })}
+                      />
+                    </td>
+                    <td>
+                      <input
+                        className="input"
+                        type="number"
+                        min={1}
+                        value={rule.maxLength ?? ""}
+                        onChange={(event) =>
+                          updateRule(header, {
+                            maxLength: Number(event.target.value) || undefined,
+                          })
+                        }
+                      />
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+        <h4>
+          Row report: {invalidRows.size} of {parsed.rows.length} rows with problems
+        </h4>
+        {issues.length === 0 ? (
+          <p className="muted">All rows pass the column checks.</p>
+        ) : (
+          <ul className="error">
+            {issues.slice(0, REPORT_ROWS).map((issue) => (
+              <li key={`${issue.rowIndex}:${issue.column}:${issue.message}`}>
+                Row {issue.rowIndex + 1}, {issue.column}: {issue.message}
+              </li>
+            ))}
+            {issues.length > REPORT_ROWS && <li>…and {issues.length - REPORT_ROWS} more</li>}
+          </ul>
+        )}
+        <label className="toggle">
+          <input
+            type="checkbox"
+            checked={excludeInvalid}
+            onChange={(event) => setExcludeInvalid(event.target.checked)}
+          />
+          Leave rows with problems out of the job
+        </label>
+      </div>
+
+      {createError && <p className="error">Job failed validation: {createError}</p>}
+      <div className="card__actions">
+        <button type="button" className="button" disabled={!canCreate} onClick={handleCreate}>
+          Create job with {includedCount} rows
+        </button>
+        <button type="button" className="button secondary" onClick={onCancel}>
+          Cancel
+        </button>
+      </div>
+    </section>
+  );
+};
+
+export const describeDelimiter = (delimiter: string) =>
+  delimiterOptions.find((option) => option.value === delimiter)?.label ?? delimiter;
+
+export default JobImportWizard;
@@ -0,0 +1,251 @@
+import React, { useEffect, useRef, useState } from "react";
+import type { CsvRow } from "@shared/schema";
+import type { Job } from "../state";
+import { loadAllJobRows, updateJobRows } from "../storage/db";
+import {
+  type JobTable,
+  addColumn,
+  addRow,
+  deleteRow,
+  duplicateRow,
+  findReplace,
+  moveRow,
+  renameColumn,
+  updateCell,
+} from "../jobEdits";
+
+const PAGE_SIZE = 25;
+const HISTORY_LIMIT = 50;
+
+const JobRowEditor: React.FC<{
+  job: Job;
+  onChange: (job: Job) => void;
+  onClose: () => void;
+}> = ({ job, onChange, onClose }) => {
+  const [rows, setRows] = useState<CsvRow[] | null>(null);
+  const [history, setHistory] = useState<JobTable[]>([]);
+  const [page, setPage] = useState(0);
+  const [find, setFind] = useState("");
+  const [replace, setReplace] = useState("");
+  const [findColumn, setFindColumn] = useState("");
+  const [matchCase, setMatchCase] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  // Row writes are chained so a slow save never lands after a newer one.
+  const saving = useRef(Promise.resolve());
+
+  // Rows are only read from IndexedDB while the editor is open.
+  useEffect(() => {
+    let active = true;
+    void loadAllJobRows(job.id).then((loaded) => {
+      if (active) {
+        setRows(loaded);
+      }
+    });
+    return () => {
+      active = false;
+    };
+  }, [job.id]);
+
+  const tableRows = rows ?? [];
+  const pageCount = Math.max(1, Math.ceil(tableRows.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageStart = currentPage * PAGE_SIZE;
+
+  const save = (next: JobTable) => {
+    const previousRows = tableRows;
+    saving.current = saving.current
+      .then(() => updateJobRows(job.id, previousRows, next.rows))
+      .catch((error) => setMessage(`Saving rows failed: ${error.message}`));
+    setRows(next.rows);
+    onChange({ ...job, headers: next.headers, rowCount: next.rows.length, revision: job.revision + 1 });
+  };
+
+  const commit = (next: JobTable) => {
+    if (next.headers === job.headers && next.rows === tableRows) {
+      return;
+    }
+    setHistory((prev) => [...prev, { headers: job.headers, rows: tableRows }].slice(-HISTORY_LIMIT));
+    save(next);
+  };
+
+  const apply = (edit: (table: JobTable) => JobTable) => {
+    try {
+      setMessage(null);
+      commit(edit({ headers: job.headers, rows: tableRows }));
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "Edit failed");
+    }
+  };
+
+  const handleUndo = () => {
+    const previous = history[history.length - 1];
+    if (!previous) {
+      return;
+    }
+    setHistory((prev) => prev.slice(0, -1));
+    save(previous);
+  };
+
+  const handleAddColumn = () => {
+    const name = prompt("Column name")?.trim();
+    if (name) {
+      apply((table) => addColumn(table, name));
+    }
+  };
+
+  const handleRenameColumn = (header: string) => {
+    const name = prompt("Rename column", header)?.trim();
+    if (name) {
+      apply((table) => renameColumn(table, header, name));
+    }
+  };
+
+  const handleFindReplace = () => {
+    const result = findReplace({ headers: job.headers, rows: tableRows }, find, replace, {
+      column: findColumn || undefined,
+      matchCase,
+    });
+    commit(result.table);
+    setMessage(`Replaced ${result.count} match(es).`);
+  };
+
+  return (
+    <div className="card row-editor">
+      <div className="card__header">
+        <h3>Edit rows: {job.name}</h3>
+        <span className="pill">Revision {job.revision}</span>
+      </div>
+      <div className="card__actions">
+        <button type="button" className="button secondary" onClick={() => apply((table) => addRow(table))}>
+          Add row
+        </button>
+        <button type="button" className="button secondary" onClick={handleAddColumn}>
+          Add column
+        </button>
+        <button
+          type="button"
+          className="button secondary"
+          disabled={history.length === 0}
+          onClick={handleUndo}
+        >
+          Undo
+        </button>
+        <button type="button" className="button secondary" onClick={onClose}>
+          Done
+        </button>
+      </div>
+      <div className="settings-grid">
+        <label>
+          Find
+          <input className="input" value={find} onChange={(event) => setFind(event.target.value)} />
+        </label>
+        <label>
+          Replace with
+          <input className="input" value={replace} onChange={(event) => setReplace(event.target.value)} />
+        </label>
+        <label>
+          Column
+          <select value={findColumn} onChange={(event) => setFindColumn(event.target.value)}>
+            <option value="">All columns</option>
+            {job.headers.map((header) => (
+              <option key={header} value={header}>
+                {header}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="toggle">
+          <input
+            type="checkbox"
+            checked={matchCase}
+            onChange={(event) => setMatchCase(event.target.checked)}
+          />
+          Match case
+        </label>
+        <button type="button" className="button secondary" disabled={!find} onClick={handleFindReplace}>
+          Replace all
+        </button>
+      </div>
+      {message && <p className="muted">{message}</p>}
+      {!rows && <p className="muted">Loading rows…</p>}
+      <div className="table-wrap">
+        <table className="table">
+          <thead>
+            <tr>
+              <th>#</th>
+              {job.headers.map((header) => (
+                <th key={header}>
+                  <button type="button" className="table__header" onClick={() => handleRenameColumn(header)}>
+                    {header} ✎
+                  </button>
+                </th>
+              ))}
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {tableRows.slice(pageStart, pageStart + PAGE_SIZE).map((row, offset) => {
+              const rowIndex = pageStart + offset;
+              return (
+                <tr key={`${job.revision}-${rowIndex}`}>
+                  <td>{rowIndex + 1}</td>
+                  {job.headers.map((header) => (
+                    <td key={header}>
+                      <textarea
+                        className="table__cell"
+                        rows={1}
+                        defaultValue={row[header] ?? ""}
+                        onBlur={(event) => {
+                          if (event.target.value !== (row[header] ?? "")) {
+                            apply((table) => updateCell(table, rowIndex, header, event.target.value));
+                          }
+                        }}
+                      />
+                    </td>
+                  ))}
+                  <td className="step__actions">
+                    <button type="button" onClick={() => apply((table) => moveRow(table, rowIndex, rowIndex - 1))}>
+                      ↑
+                    </button>
+                    <button type="button" onClick={() => apply((table) => moveRow(table, rowIndex, rowIndex + 1))}>
+                      ↓
+                    </button>
+                    <button type="button" onClick={() => apply((table) => duplicateRow(table, rowIndex))}>
+                      ⧉
+                    </button>
+                    <button type="button" onClick={() => apply((table) => deleteRow(table, rowIndex))}>
+                      ✕
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <div className="card__actions">
+        <button
+          type="button"
+          className="button secondary"
+          disabled={currentPage === 0}
+          onClick={() => setPage(currentPage - 1)}
+        >
+          Previous
+        </button>
+        <span className="muted">
+          Page {currentPage + 1} / {pageCount} ({tableRows.length} rows)
+        </span>
+        <button
+          type="button"
+          className="button secondary"
+          disabled={currentPage >= pageCount - 1}
+          onClick={() => setPage(currentPage + 1)}
+        >
+          Next
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default JobRowEditor;
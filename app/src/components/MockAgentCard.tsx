@@ -0,0 +1,55 @@
+import React from "react";
+import type { MockAgentOptions } from "../mockAgent";
+import { clamp } from "../utils";
+
+type NumberOption = keyof MockAgentOptions;
+
+// Failure rate is edited as a percentage; the others are stored as shown.
+const numberFields: { key: NumberOption; label: string; max: number; scale: number }[] = [
+  { key: "latencyMs", label: "Message latency (ms)", max: 10000, scale: 1 },
+  { key: "stepMs", label: "Step duration (ms)", max: 60000, scale: 1 },
+  { key: "failureRate", label: "Row failure rate (%)", max: 100, scale: 100 },
+  { key: "artifactBytes", label: "Artifact size (bytes)", max: 5_000_000, scale: 1 },
+];
+
+const MockAgentCard: React.FC<{
+  enabled: boolean;
+  options: MockAgentOptions;
+  agentId: string | null;
+  onToggle: () => void;
+  onChange: (updates: Partial<MockAgentOptions>) => void;
+}> = ({ enabled, options, agentId, onToggle, onChange }) => (
+  <div className="card">
+    <h3>Mock agent</h3>
+    <label className="toggle">
+      <input type="checkbox" checked={enabled} onChange={onToggle} />
+      Run a simulated agent in this panel
+    </label>
+    <p className="muted">
+      It answers like a userscript tab and plays runs by waiting instead of touching a page, for
+      trying out the run screens without a browser agent.
+      {enabled && agentId && ` Connected as ${agentId}.`}
+    </p>
+    <div className="settings-grid">
+      {numberFields.map((field) => (
+        <label key={field.key}>
+          {field.label}
+          <input
+            className="input"
+            type="number"
+            min={0}
+            max={field.max}
+            value={Math.round(options[field.key] * field.scale)}
+            onChange={(event) =>
+              onChange({
+                [field.key]: clamp(Number(event.target.value) || 0, 0, field.max) / field.scale,
+              })
+            }
+          />
+        </label>
+      ))}
+    </div>
+  </div>
+);
+
+export default MockAgentCard;
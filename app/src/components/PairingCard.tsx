@@ -0,0 +1,97 @@
+import React, { useEffect, useRef, useState } from "react";
+import type { RejectedMessage } from "../transport";
+import type { StoredPairing } from "../storage/pairings";
+import type { PairingSession } from "../pairing";
+import { formatTimestamp } from "../utils";
+
+const SHOWN_REJECTIONS = 10;
+
+const PairingCard: React.FC<{
+  pairings: StoredPairing[];
+  rejections: RejectedMessage[];
+  onStartPairing: () => Promise<PairingSession>;
+  onPaired: (pairing: StoredPairing) => void;
+  onForget: (pairing: StoredPairing) => void;
+}> = ({ pairings, rejections, onStartPairing, onPaired, onForget }) => {
+  const [session, setSession] = useState<PairingSession | null>(null);
+  const sessionRef = useRef<PairingSession | null>(null);
+
+  useEffect(() => () => sessionRef.current?.cancel(), []);
+
+  const handleStart = async () => {
+    sessionRef.current?.cancel();
+    const next = await onStartPairing();
+    sessionRef.current = next;
+    setSession(next);
+    next.done
+      .then((pairing) => onPaired(pairing))
+      .catch(() => {
+        // cancelled
+      })
+      .finally(() => {
+        if (sessionRef.current === next) {
+          sessionRef.current = null;
+          setSession(null);
+        }
+      });
+  };
+
+  return (
+    <div className="card">
+      <h3>Pairing</h3>
+      <p className="muted">
+        Agents only accept commands signed with a key set up by pairing. Start pairing, then enter
+        the code in the agent tab when the userscript asks for it.
+      </p>
+      {session ? (
+        <>
+          <p>
+            Pairing code: <strong>{session.code}</strong>
+          </p>
+          <div className="card__actions">
+            <button type="button" className="button secondary" onClick={() => session.cancel()}>
+              Cancel pairing
+            </button>
+          </div>
+        </>
+      ) : (
+        <div className="card__actions">
+          <button type="button" className="button" onClick={() => void handleStart()}>
+            Pair an agent
+          </button>
+        </div>
+      )}
+      {pairings.length === 0 ? (
+        <p className="muted">No agent is paired yet.</p>
+      ) : (
+        pairings.map((pairing) => (
+          <div key={pairing.pairingId} className="result">
+            <strong>{pairing.site}</strong>
+            <p className="muted">Paired {formatTimestamp(pairing.createdAt)}</p>
+            <button
+              type="button"
+              className="button secondary"
+              onClick={() => onForget(pairing)}
+            >
+              Forget
+            </button>
+          </div>
+        ))
+      )}
+      <h4>Rejected messages</h4>
+      {rejections.length === 0 ? (
+        <p className="muted">No messages rejected.</p>
+      ) : (
+        rejections.slice(0, SHOWN_REJECTIONS).map((rejection, index) => (
+          <p key={`${rejection.at}-${index}`} className="muted">
+            {formatTimestamp(rejection.at)} · {rejection.reason}
+            {rejection.type && `: ${rejection.type}`}
+            {rejection.origin && ` from ${rejection.origin}`}
+          </p>
+        ))
+      )}
+    </div>
+  );
+};
+
+export default PairingCard;
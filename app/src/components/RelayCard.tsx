@@ -0,0 +1,67 @@
+import React, { useEffect, useState } from "react";
+import type { RelayStatus } from "../webSocketLink";
+
+export const DEFAULT_RELAY_URL = "ws://127.0.0.1:8787";
+
+const STATUS_LABELS: Record<RelayStatus, string> = {
+  connecting: "connecting…",
+  open: "connected",
+  closed: "disconnected, retrying",
+};
+
+const RelayCard: React.FC<{
+  relayUrl: string | null;
+  status: RelayStatus | null;
+  onConnect: (url: string) => void;
+  onDisconnect: () => void;
+}> = ({ relayUrl, status, onConnect, onDisconnect }) => {
+  const [draft, setDraft] = useState(relayUrl ?? DEFAULT_RELAY_URL);
+
+  useEffect(() => {
+    if (relayUrl) {
+      setDraft(relayUrl);
+    }
+  }, [relayUrl]);
+
+  const handleConnect = () => {
+    const url = draft.trim();
+    if (!/^wss?:\/\//.test(url)) {
+      alert("Enter a ws:// or wss:// URL.");
+      return;
+    }
+    onConnect(url);
+  };
+
+  return (
+    <div className="card">
+      <h3>Local relay</h3>
+      <p className="muted">
+        Reach agents outside this browser through the relay started with{" "}
+        <code>npm run relay</code>. Messages are still signed with the pairing key.
+      </p>
+      <label>
+        Relay URL
+        <input
+          type="text"
+          value={draft}
+          disabled={Boolean(relayUrl)}
+          onChange={(event) => setDraft(event.target.value)}
+        />
+      </label>
+      {relayUrl && status && <p className="muted">Relay: {STATUS_LABELS[status]}</p>}
+      <div className="card__actions">
+        {relayUrl ? (
+          <button type="button" className="button secondary" onClick={onDisconnect}>
+            Disconnect
+          </button>
+        ) : (
+          <button type="button" className="button" onClick={handleConnect}>
+            Connect
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RelayCard;
@@ -0,0 +1,72 @@
+import React from "react";
+import type { RunSettings } from "@shared/schema";
+import { RunSettingsSchema } from "@shared/validators";
+
+type NumberSetting = "slowMoMs" | "timeoutMs" | "delayMinMs" | "delayMaxMs" | "concurrency";
+type BooleanSetting = "headless" | "bestEffort" | "dryRun" | "stepThrough";
+
+const numberFields: { key: NumberSetting; label: string; min: number }[] = [
+  { key: "timeoutMs", label: "Timeout (ms)", min: 0 },
+  { key: "delayMinMs", label: "Delay Min (ms)", min: 0 },
+  { key: "delayMaxMs", label: "Delay Max (ms)", min: 0 },
+  { key: "slowMoMs", label: "SlowMo (ms)", min: 0 },
+  { key: "concurrency", label: "Concurrency", min: 1 },
+];
+
+const booleanFields: { key: BooleanSetting; label: string }[] = [
+  { key: "bestEffort", label: "Best Effort" },
+  { key: "dryRun", label: "Dry Run" },
+  { key: "stepThrough", label: "Step Through" },
+  { key: "headless", label: "Headless" },
+];
+
+export const validateRunSettings = (settings: RunSettings) => {
+  const result = RunSettingsSchema.safeParse(settings);
+  return result.success
+    ? null
+    : result.error.issues
+        .map((issue) => `${issue.path.join(".") || "settings"}: ${issue.message}`)
+        .join("; ");
+};
+
+const RunSettingsFields: React.FC<{
+  settings: RunSettings;
+  onChange: (updates: Partial<RunSettings>) => void;
+}> = ({ settings, onChange }) => (
+  <div className="settings-grid">
+    {numberFields.map((field) => (
+      <label key={field.key}>
+        {field.label}
+        <input
+          className="input"
+          type="number"
+          min={field.min}
+          value={settings[field.key]}
+          onChange={(event) => onChange({ [field.key]: Number(event.target.value) })}
+        />
+      </label>
+    ))}
+    {booleanFields.map((field) => (
+      <label key={field.key}>
+        {field.label}
+        <select
+          value={String(settings[field.key])}
+          onChange={(event) => onChange({ [field.key]: event.target.value === "true" })}
+        >
+          <option value="false">false</option>
+          <option value="true">true</option>
+        </select>
+      </label>
+    ))}
+    <label>
+      Storage state (JSON)
+      <textarea
+        className="textarea"
+        value={settings.storageState ?? ""}
+        onChange={(event) => onChange({ storageState: event.target.value || undefined })}
+      />
+    </label>
+  </div>
+);
+
+export default RunSettingsFields;
@@ -0,0 +1,108 @@
+import React, { useState } from "react";
+import type { RunSettings } from "@shared/schema";
+import { type Job, type RunPreset, createDefaultSettings } from "../state";
+import RunSettingsFields, { validateRunSettings } from "./RunSettingsFields";
+
+const StartRunDialog: React.FC<{
+  job: Job;
+  presets: RunPreset[];
+  onCancel: () => void;
+  onStart: (settings: RunSettings) => void;
+  onSavePreset: (name: string, settings: RunSettings) => RunPreset;
+  onDeletePreset: (presetId: string) => void;
+  onSetDefaultPreset: (presetId: string | undefined) => void;
+}> = ({ job, presets, onCancel, onStart, onSavePreset, onDeletePreset, onSetDefaultPreset }) => {
+  const defaultPreset = presets.find((preset) => preset.id === job.defaultPresetId) ?? null;
+  const [presetId, setPresetId] = useState(defaultPreset?.id ?? "");
+  const [settings, setSettings] = useState<RunSettings>(
+    () => defaultPreset?.settings ?? createDefaultSettings(),
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  const selectPreset = (id: string) => {
+    setPresetId(id);
+    setSettings(presets.find((preset) => preset.id === id)?.settings ?? createDefaultSettings());
+    setError(null);
+  };
+
+  const handleStart = () => {
+    const validationError = validateRunSettings(settings);
+    setError(validationError);
+    if (!validationError) {
+      onStart(settings);
+    }
+  };
+
+  const handleSavePreset = () => {
+    const validationError = validateRunSettings(settings);
+    setError(validationError);
+    if (validationError) {
+      return;
+    }
+    const current = presets.find((preset) => preset.id === presetId);
+    const name = prompt("Preset name", current?.name ?? "")?.trim();
+    if (name) {
+      setPresetId(onSavePreset(name, settings).id);
+    }
+  };
+
+  const handleDeletePreset = () => {
+    if (presetId && confirm("Delete this preset?")) {
+      onDeletePreset(presetId);
+      setPresetId("");
+    }
+  };
+
+  return (
+    <div className="card">
+      <div className="card__header">
+        <h3>Start run: {job.name}</h3>
+      </div>
+      <div className="settings-grid">
+        <label>
+          Preset
+          <select value={presetId} onChange={(event) => selectPreset(event.target.value)}>
+            <option value="">Defaults</option>
+            {presets.map((preset) => (
+              <option key={preset.id} value={preset.id}>
+                {preset.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="toggle">
+          <input
+            type="checkbox"
+            disabled={!presetId}
+            checked={Boolean(presetId) && job.defaultPresetId === presetId}
+            onChange={(event) => onSetDefaultPreset(event.target.checked ? presetId : undefined)}
+          />
+          Use this preset by default for this job
+        </label>
+      </div>
+      <RunSettingsFields
+        settings={settings}
+        onChange={(updates) => setSettings((prev) => ({ ...prev, ...updates }))}
+      />
+      {error && <p className="error">{error}</p>}
+      <div className="card__actions">
+        <button type="button" className="button" onClick={handleStart}>
+          Start
+        </button>
+        <button type="button" className="button secondary" onClick={handleSavePreset}>
+          Save as preset
+        </button>
+        {presetId && (
+          <button type="button" className="button secondary" onClick={handleDeletePreset}>
+            Delete preset
+          </button>
+        )}
+        <button type="button" className="button secondary" onClick={onCancel}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default StartRunDialog;
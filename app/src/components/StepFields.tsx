@@ -0,0 +1,255 @@
+import React from "react";
+import type {
+  CsvRow,
+  WorkflowDefinition,
+  WorkflowStep,
+  WorkflowStepOf,
+  WorkflowStepType,
+} from "@shared/schema";
+import { evaluateCondition } from "@shared/expressions";
+import { workflowParameters } from "@shared/subworkflows";
+import { type TemplateBuiltins, renderTemplate } from "@shared/template";
+import { stepFieldErrors } from "../workflowValidation";
+
+type StepField = {
+  key: string;
+  label: string;
+  // "workflow" picks a saved workflow; "params" shows an input per parameter it reads.
+  kind: "text" | "number" | "code" | "workflow" | "params";
+  placeholder?: string;
+  // Left out of the step when empty.
+  optional?: boolean;
+};
+
+const selectorField: StepField = {
+  key: "selector",
+  label: "Selector",
+  kind: "text",
+  placeholder: "CSS, a | b, text=Label or fb:composer",
+};
+
+const conditionField: StepField = {
+  key: "condition",
+  label: "Condition",
+  kind: "text",
+  placeholder: 'status == "active" && {{retries}} < 3',
+};
+
+const labelField: StepField = {
+  key: "label",
+  label: "Label (for break)",
+  kind: "text",
+  optional: true,
+};
+
+const outputField: StepField = {
+  key: "varName",
+  label: "Save as (variable and output column)",
+  kind: "text",
+};
+
+// The inputs each step type shows besides timeout and retries.
+const STEP_FIELDS: Record<WorkflowStepType, StepField[]> = {
+  goto: [{ key: "url", label: "URL", kind: "text", placeholder: "{{url}}" }],
+  click: [selectorField],
+  type: [selectorField, { key: "text", label: "Text", kind: "text", placeholder: "{{post}}" }],
+  press: [
+    { key: "key", label: "Key", kind: "text", placeholder: "Enter" },
+    { ...selectorField, label: "Selector (focused element if empty)", optional: true },
+  ],
+  wait_for_selector: [selectorField],
+  wait_time: [{ key: "durationMs", label: "Duration (ms)", kind: "number" }],
+  screenshot: [],
+  evaluate: [{ key: "code", label: "Code (gets row and vars)", kind: "code" }],
+  set_var: [
+    { key: "varName", label: "Variable name", kind: "text" },
+    { key: "value", label: "Value", kind: "text" },
+  ],
+  conditional: [
+    { key: "expression", label: "Expression (fails on false or empty)", kind: "text" },
+  ],
+  extract_text: [selectorField, outputField],
+  extract_attribute: [
+    selectorField,
+    { key: "attribute", label: "Attribute", kind: "text", placeholder: "href" },
+    outputField,
+  ],
+  extract_count: [selectorField, outputField],
+  assert_text: [
+    selectorField,
+    { key: "text", label: "Contains text", kind: "text", placeholder: "Your post is live" },
+  ],
+  assert_url_matches: [
+    {
+      key: "pattern",
+      label: "URL pattern (regular expression)",
+      kind: "text",
+      placeholder: "/posts/\\d+",
+    },
+  ],
+  assert_element_absent: [selectorField],
+  assert_var_equals: [
+    { key: "varName", label: "Variable", kind: "text" },
+    { key: "expected", label: "Expected value", kind: "text" },
+  ],
+  break: [{ ...labelField, label: "Loop label (innermost loop if empty)" }],
+  skip_row: [{ key: "reason", label: "Reason", kind: "text", optional: true }],
+  call_workflow: [
+    { key: "workflowId", label: "Workflow", kind: "workflow" },
+    { key: "params", label: "Parameters", kind: "params" },
+  ],
+  if: [conditionField],
+  repeat: [{ key: "times", label: "Times", kind: "number" }, labelField],
+  while: [
+    conditionField,
+    { key: "maxIterations", label: "Max iterations (fails the row past this)", kind: "number" },
+    labelField,
+  ],
+};
+
+// A sample row to show templates and conditions against while editing.
+export type TemplatePreview = {
+  row: CsvRow;
+  // Variables exist only while a row runs, so they stand in as placeholders.
+  vars: Record<string, string>;
+  builtins: TemplateBuiltins;
+};
+
+const CONDITION_FIELDS = new Set(["condition", "expression"]);
+
+// The value a field would take for the preview row, or why it cannot be resolved.
+const FieldPreview: React.FC<{ field: string; value: string; preview: TemplatePreview }> = ({
+  field,
+  value,
+  preview,
+}) => {
+  const { row, vars, builtins } = preview;
+  const isCondition = CONDITION_FIELDS.has(field);
+  if (!isCondition && !value.includes("{{")) {
+    return null;
+  }
+  try {
+    const result = isCondition
+      ? String(evaluateCondition(value, row, vars, builtins))
+      : JSON.stringify(renderTemplate(value, row, vars, builtins));
+    return <span className="muted step__preview">→ {result}</span>;
+  } catch (error) {
+    return <span className="error step__preview">{(error as Error).message}</span>;
+  }
+};
+
+// One input per name the called workflow reads, plus any the step still passes.
+const CallParams: React.FC<{
+  step: WorkflowStepOf<"call_workflow">;
+  callee: WorkflowDefinition | undefined;
+  preview: TemplatePreview | null;
+  onChange: (params: Record<string, string>) => void;
+}> = ({ step, callee, preview, onChange }) => {
+  const names = Array.from(
+    new Set([...(callee ? workflowParameters(callee) : []), ...Object.keys(step.params)]),
+  );
+  if (names.length === 0) {
+    return <span className="muted">{callee ? "No parameters" : "Pick a workflow"}</span>;
+  }
+  return (
+    <>
+      {names.map((name) => (
+        <label key={name}>
+          {name}
+          <input
+            className="input"
+            placeholder={`{{${name}}}`}
+            value={step.params[name] ?? ""}
+            onChange={(event) => onChange({ ...step.params, [name]: event.target.value })}
+          />
+          {!(name in step.params) && <span className="error">Required</span>}
+          {preview && (
+            <FieldPreview field={name} value={step.params[name] ?? ""} preview={preview} />
+          )}
+        </label>
+      ))}
+    </>
+  );
+};
+
+const StepFields: React.FC<{
+  step: WorkflowStep;
+  // Saved workflows, for call_workflow steps.
+  workflows: WorkflowDefinition[];
+  // Null when no row is picked for previews.
+  preview: TemplatePreview | null;
+  onChange: (updates: Record<string, unknown>) => void;
+}> = ({ step, workflows, preview, onChange }) => {
+  const errors = stepFieldErrors(step);
+  const values = step as Record<string, unknown>;
+  return (
+    <>
+      {STEP_FIELDS[step.type].map((field) => {
+        const value = values[field.key];
+        if (field.kind === "params") {
+          return step.type === "call_workflow" ? (
+            <CallParams
+              key={field.key}
+              step={step}
+              callee={workflows.find((item) => item.id === step.workflowId)}
+              preview={preview}
+              onChange={(params) => onChange({ params })}
+            />
+          ) : null;
+        }
+        return (
+          <label key={field.key}>
+            {field.label}
+            {field.kind === "workflow" ? (
+              <select
+                value={typeof value === "string" ? value : ""}
+                onChange={(event) => onChange({ [field.key]: event.target.value })}
+              >
+                <option value="">Choose a workflow</option>
+                {workflows.map((item) => (
+                  <option key={item.id} value={item.id}>
+                    {item.name}
+                  </option>
+                ))}
+              </select>
+            ) : field.kind === "code" ? (
+              <textarea
+                className="input"
+                value={typeof value === "string" ? value : ""}
+                onChange={(event) => onChange({ [field.key]: event.target.value })}
+              />
+            ) : (
+              <input
+                className="input"
+                type={field.kind}
+                min={field.kind === "number" ? 0 : undefined}
+                placeholder={field.placeholder}
+                value={typeof value === "string" || typeof value === "number" ? value : ""}
+                onChange={(event) => {
+                  const input = event.target.value;
+                  onChange({
+                    [field.key]:
+                      field.kind === "number"
+                        ? Number(input || 0)
+                        : field.optional && !input
+                          ? undefined
+                          : input,
+                  });
+                }}
+              />
+            )}
+            {errors[field.key] && <span className="error">{errors[field.key]}</span>}
+            {preview &&
+              field.kind === "text" &&
+              typeof value === "string" &&
+              !errors[field.key] && (
+                <FieldPreview field={field.key} value={value} preview={preview} />
+              )}
+          </label>
+        );
+      })}
+    </>
+  );
+};
+
+export default StepFields;
@@ -0,0 +1,152 @@
+import React from "react";
+import type { WorkflowDefinition, WorkflowStep, WorkflowStepType } from "@shared/schema";
+import { WORKFLOW_STEP_TYPES } from "@shared/protocol";
+import { type StepListField, childStepLists, isBlockStep } from "@shared/steps";
+import { migrateStep } from "@shared/stepMigration";
+import { createStep } from "../state";
+import StepFields, { type TemplatePreview } from "./StepFields";
+
+const LIST_TITLES: Record<StepListField, string> = {
+  then: "Then",
+  else: "Else",
+  steps: "Loop body",
+};
+
+// The steps of a workflow or of one block. Blocks render their own lists inside them, so
+// every level moves, removes and adds steps the same way.
+const StepList: React.FC<{
+  steps: WorkflowStep[];
+  // Document-order numbers for every step in the workflow, matching run logs.
+  stepNumbers: Map<WorkflowStep, number>;
+  // Null while no agent is connected to tell.
+  supportedStepTypes: WorkflowStepType[] | null;
+  // Saved workflows, for call_workflow steps.
+  workflows: WorkflowDefinition[];
+  preview: TemplatePreview | null;
+  onChange: (steps: WorkflowStep[]) => void;
+}> = ({ steps, stepNumbers, supportedStepTypes, workflows, preview, onChange }) => {
+  const updateStep = (stepId: string, updates: Record<string, unknown>) =>
+    onChange(
+      steps.map((step) => (step.id === stepId ? ({ ...step, ...updates } as WorkflowStep) : step)),
+    );
+
+  // Fields the new type shares with the old one (such as the selector) are kept.
+  const changeStepType = (stepId: string, type: WorkflowStepType) =>
+    onChange(steps.map((step) => (step.id === stepId ? migrateStep({ ...step, type }) : step)));
+
+  const moveStep = (index: number, direction: number) => {
+    const step = steps[index];
+    const nextIndex = index + direction;
+    if (!step || nextIndex < 0 || nextIndex >= steps.length) {
+      return;
+    }
+    const next = steps.filter((_, position) => position !== index);
+    next.splice(nextIndex, 0, step);
+    onChange(next);
+  };
+
+  return (
+    <div className="workflow__steps">
+      {steps.map((step, index) => (
+        <div key={step.id} className="step">
+          <div className="step__header">
+            <strong>Step {(stepNumbers.get(step) ?? index) + 1}</strong>
+            <div className="step__actions">
+              <button type="button" onClick={() => moveStep(index, -1)}>
+                ↑
+              </button>
+              <button type="button" onClick={() => moveStep(index, 1)}>
+                ↓
+              </button>
+              <button
+                type="button"
+                onClick={() => onChange(steps.filter((item) => item.id !== step.id))}
+              >
+                ✕
+              </button>
+            </div>
+          </div>
+          <div className="step__grid">
+            <label>
+              Type
+              <select
+                value={step.type}
+                onChange={(event) =>
+                  changeStepType(step.id, event.target.value as WorkflowStepType)
+                }
+              >
+                {WORKFLOW_STEP_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {type}
+                    {supportedStepTypes && !supportedStepTypes.includes(type)
+                      ? " (no connected agent supports it)"
+                      : ""}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <StepFields
+              step={step}
+              workflows={workflows}
+              preview={preview}
+              onChange={(updates) => updateStep(step.id, updates)}
+            />
+            {/* Blocks and calls have no timeout or retries; the steps they run do. */}
+            {!isBlockStep(step) && step.type !== "call_workflow" && (
+              <>
+                <label>
+                  Timeout (ms)
+                  <input
+                    className="input"
+                    type="number"
+                    value={step.timeoutMs ?? ""}
+                    onChange={(event) =>
+                      updateStep(step.id, {
+                        timeoutMs: Number(event.target.value || 0) || undefined,
+                      })
+                    }
+                  />
+                </label>
+                <label>
+                  Retries
+                  <input
+                    className="input"
+                    type="number"
+                    value={step.retries ?? ""}
+                    onChange={(event) =>
+                      updateStep(step.id, {
+                        retries: Number(event.target.value || 0) || undefined,
+                      })
+                    }
+                  />
+                </label>
+              </>
+            )}
+          </div>
+          {childStepLists(step).map(([field, children]) => (
+            <div key={field} className="step__children">
+              <span className="muted">{LIST_TITLES[field]}</span>
+              <StepList
+                steps={children}
+                stepNumbers={stepNumbers}
+                supportedStepTypes={supportedStepTypes}
+                workflows={workflows}
+                preview={preview}
+                onChange={(next) => updateStep(step.id, { [field]: next })}
+              />
+            </div>
+          ))}
+        </div>
+      ))}
+      <button
+        type="button"
+        className="button secondary"
+        onClick={() => onChange([...steps, createStep("goto")])}
+      >
+        Add Step
+      </button>
+    </div>
+  );
+};
+
+export default StepList;
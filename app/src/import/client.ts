@@ -0,0 +1,33 @@
+import { type ImportEvent, type ImportRequest, streamRecords } from "./parser";
+
+// Parses the file in a Web Worker and reports row batches as they arrive. Returns a cancel
+// function. Without Worker support the same parser runs on the main thread.
+export const importRecords = (request: ImportRequest, onEvent: (event: ImportEvent) => void) => {
+  if (typeof Worker === "undefined") {
+    let cancelled = false;
+    const emit = (event: ImportEvent) => {
+      if (!cancelled) {
+        onEvent(event);
+      }
+    };
+    streamRecords(request, emit).catch((error) =>
+      emit({ type: "failed", message: error instanceof Error ? error.message : String(error) }),
+    );
+    return () => {
+      cancelled = true;
+    };
+  }
+  const worker = new Worker(new URL("./worker.ts", import.meta.url), { type: "module" });
+  worker.onmessage = (event: MessageEvent<ImportEvent>) => {
+    onEvent(event.data);
+    if (event.data.type !== "rows") {
+      worker.terminate();
+    }
+  };
+  worker.onerror = (event) => {
+    onEvent({ type: "failed", message: event.message || "Import worker failed" });
+    worker.terminate();
+  };
+  worker.postMessage(request);
+  return () => worker.terminate();
+};
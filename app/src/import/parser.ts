@@ -0,0 +1,136 @@
+import {
+  type CsvDialect,
+  type CsvParseError,
+  type CsvStreamParser,
+  SNIFF_SAMPLE_SIZE,
+  createCsvStreamParser,
+  decodeWindows1252,
+  detectCsvDialect,
+  encodingFromBom,
+} from "@shared/csv";
+import { type RecordFormat, parseJsonRecords, parseNdjson } from "@shared/records";
+import type { CsvRow } from "@shared/schema";
+
+export const ROW_BATCH_SIZE = 2000;
+
+export type ImportRequest = {
+  file: Blob;
+  format: RecordFormat;
+  dialectOverrides: Partial<CsvDialect>;
+};
+
+export type ImportEvent =
+  | { type: "rows"; rows: CsvRow[] }
+  | {
+      type: "done";
+      headers: string[];
+      errors: CsvParseError[];
+      encoding: string;
+      dialect?: CsvDialect;
+    }
+  | { type: "failed"; message: string };
+
+// Feeds the decoded file to `onText` chunk by chunk. Throws if the bytes are not valid in `encoding`.
+const readText = async (file: Blob, encoding: string, onText: (text: string) => void) => {
+  const reader = file.stream().getReader();
+  const decoder =
+    encoding === "windows-1252" ? null : new TextDecoder(encoding, { fatal: true, ignoreBOM: true });
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    onText(decoder ? decoder.decode(value, { stream: true }) : decodeWindows1252(value));
+  }
+  if (decoder) {
+    onText(decoder.decode());
+  }
+};
+
+// A first pass without parsing: invalid UTF-8 anywhere in the file means Windows-1252.
+const detectEncoding = async (file: Blob) => {
+  const encoding = encodingFromBom(new Uint8Array(await file.slice(0, 2).arrayBuffer()));
+  if (encoding !== "utf-8") {
+    return encoding;
+  }
+  try {
+    await readText(file, encoding, () => undefined);
+    return encoding;
+  } catch {
+    return "windows-1252";
+  }
+};
+
+const sortErrors = (errors: CsvParseError[]) =>
+  [...errors].sort((a, b) => a.line - b.line || a.column - b.column);
+
+// JSON has to be parsed whole; it still runs off the main thread and arrives in batches.
+const streamJsonRecords = async (
+  file: Blob,
+  format: RecordFormat,
+  encoding: string,
+  emit: (event: ImportEvent) => void,
+) => {
+  let text = "";
+  await readText(file, encoding, (chunk) => {
+    text += chunk;
+  });
+  const result = format === "json" ? parseJsonRecords(text) : parseNdjson(text);
+  for (let offset = 0; offset < result.rows.length; offset += ROW_BATCH_SIZE) {
+    emit({ type: "rows", rows: result.rows.slice(offset, offset + ROW_BATCH_SIZE) });
+  }
+  emit({ type: "done", headers: result.headers, errors: result.errors, encoding });
+};
+
+export const streamRecords = async (request: ImportRequest, emit: (event: ImportEvent) => void) => {
+  const encoding = await detectEncoding(request.file);
+  if (request.format !== "csv") {
+    await streamJsonRecords(request.file, request.format, encoding, emit);
+    return;
+  }
+  let sample = "";
+  let parser: CsvStreamParser | null = null;
+  let dialect: CsvDialect | null = null;
+  let batch: CsvRow[] = [];
+  const collect = (rows: CsvRow[]) => {
+    rows.forEach((row) => {
+      batch.push(row);
+      if (batch.length >= ROW_BATCH_SIZE) {
+        emit({ type: "rows", rows: batch });
+        batch = [];
+      }
+    });
+  };
+  // The dialect is sniffed from the first 64 KB, then that sample is parsed like any other chunk.
+  const getParser = () => {
+    if (!parser) {
+      dialect = { ...detectCsvDialect(sample), ...request.dialectOverrides, encoding };
+      parser = createCsvStreamParser(dialect);
+      collect(parser.push(sample));
+      sample = "";
+    }
+    return parser;
+  };
+  await readText(request.file, encoding, (text) => {
+    if (parser) {
+      collect(parser.push(text));
+      return;
+    }
+    sample += text;
+    if (sample.length >= SNIFF_SAMPLE_SIZE) {
+      getParser();
+    }
+  });
+  const finished = getParser();
+  collect(finished.end());
+  if (batch.length > 0) {
+    emit({ type: "rows", rows: batch });
+  }
+  emit({
+    type: "done",
+    headers: finished.headers(),
+    errors: sortErrors(finished.errors),
+    encoding,
+    dialect: dialect ?? undefined,
+  });
+};
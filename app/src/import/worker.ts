@@ -0,0 +1,9 @@
+import { type ImportEvent, type ImportRequest, streamRecords } from "./parser";
+
+const post = (event: ImportEvent) => self.postMessage(event);
+
+self.onmessage = (event: MessageEvent<ImportRequest>) => {
+  streamRecords(event.data, post).catch((error) =>
+    post({ type: "failed", message: error instanceof Error ? error.message : String(error) }),
+  );
+};
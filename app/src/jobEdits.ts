@@ -0,0 +1,123 @@
+import type { CsvRow } from "@shared/schema";
+
+export type JobTable = {
+  headers: string[];
+  rows: CsvRow[];
+};
+
+export type FindReplaceOptions = {
+  column?: string;
+  matchCase?: boolean;
+};
+
+const emptyRow = (headers: string[]): CsvRow =>
+  Object.fromEntries(headers.map((header) => [header, ""]));
+
+export const addRow = (table: JobTable, index = table.rows.length): JobTable => {
+  const rows = [...table.rows];
+  rows.splice(index, 0, emptyRow(table.headers));
+  return { ...table, rows };
+};
+
+export const duplicateRow = (table: JobTable, index: number): JobTable => {
+  const source = table.rows[index];
+  if (!source) {
+    return table;
+  }
+  const rows = [...table.rows];
+  rows.splice(index + 1, 0, { ...source });
+  return { ...table, rows };
+};
+
+export const deleteRow = (table: JobTable, index: number): JobTable => ({
+  ...table,
+  rows: table.rows.filter((_, rowIndex) => rowIndex !== index),
+});
+
+export const moveRow = (table: JobTable, from: number, to: number): JobTable => {
+  if (to < 0 || to >= table.rows.length || from === to) {
+    return table;
+  }
+  const rows = [...table.rows];
+  const [moved] = rows.splice(from, 1);
+  if (!moved) {
+    return table;
+  }
+  rows.splice(to, 0, moved);
+  return { ...table, rows };
+};
+
+export const updateCell = (
+  table: JobTable,
+  rowIndex: number,
+  column: string,
+  value: string,
+): JobTable => ({
+  ...table,
+  rows: table.rows.map((row, index) => (index === rowIndex ? { ...row, [column]: value } : row)),
+});
+
+const checkNewColumn = (table: JobTable, name: string) => {
+  if (!name) {
+    throw new Error("Column name cannot be empty.");
+  }
+  if (table.headers.includes(name)) {
+    throw new Error(`Column "${name}" already exists.`);
+  }
+};
+
+export const addColumn = (table: JobTable, name: string): JobTable => {
+  checkNewColumn(table, name);
+  return {
+    headers: [...table.headers, name],
+    rows: table.rows.map((row) => ({ ...row, [name]: "" })),
+  };
+};
+
+export const renameColumn = (table: JobTable, from: string, to: string): JobTable => {
+  if (from === to) {
+    return table;
+  }
+  checkNewColumn(table, to);
+  return {
+    headers: table.headers.map((header) => (header === from ? to : header)),
+    rows: table.rows.map((row) => {
+      const { [from]: value, ...rest } = row;
+      return { ...rest, [to]: value ?? "" };
+    }),
+  };
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+export const findReplace = (
+  table: JobTable,
+  find: string,
+  replace: string,
+  options: FindReplaceOptions = {},
+) => {
+  if (!find) {
+    return { table, count: 0 };
+  }
+  const pattern = new RegExp(escapeRegExp(find), options.matchCase ? "g" : "gi");
+  const columns = options.column ? [options.column] : table.headers;
+  let count = 0;
+  const rows = table.rows.map((row) => {
+    let changed = false;
+    const next = { ...row };
+    columns.forEach((column) => {
+      const value = row[column];
+      if (!value) {
+        return;
+      }
+      const matches = value.match(pattern)?.length ?? 0;
+      if (matches > 0) {
+        count += matches;
+        changed = true;
+        next[column] = value.replace(pattern, () => replace);
+      }
+    });
+    return changed ? next : row;
+  });
+  return { table: count > 0 ? { ...table, rows } : table, count };
+};
@@ -0,0 +1,452 @@
+import type {
+  ACPMessage,
+  AssertionFailure,
+  ControlStartRunMessage,
+  CsvRow,
+  RunSettings,
+  SequencedMessage,
+} from "@shared/schema";
+import {
+  ARTIFACT_TYPES,
+  PROTOCOL_VERSION,
+  RUN_ROW_PAGE_SIZE,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  WORKFLOW_STEP_TYPES,
+} from "@shared/protocol";
+import { UNSIGNED_MESSAGE_TYPES, signMessage, verifyMessage } from "@shared/pairing";
+import { flattenSteps, isExtractStep } from "@shared/steps";
+import { migrateWorkflow } from "@shared/stepMigration";
+import type { ACPTransport, TransportLink } from "./transport";
+import type { RunStatus } from "./state";
+import { delay, uuidv4 } from "./utils";
+
+// A simulated userscript tab for working on the panel without a browser agent. It talks to
+// the transport over its own link with a pairing key it registers itself, and plays runs by
+// waiting instead of touching a page.
+
+export type MockAgentOptions = {
+  // Added to every message in either direction.
+  latencyMs: number;
+  // How long each workflow step takes.
+  stepMs: number;
+  // Chance (0 to 1) that a row fails at one of its steps.
+  failureRate: number;
+  // Size of the screenshot and HTML snapshot sent with each row result; 0 sends none.
+  artifactBytes: number;
+};
+
+export const DEFAULT_MOCK_AGENT_OPTIONS: MockAgentOptions = {
+  latencyMs: 50,
+  stepMs: 300,
+  failureRate: 0.1,
+  artifactBytes: 20000,
+};
+
+export const MOCK_AGENT_SITE = "mock.agent";
+
+export type MockAgent = {
+  agentId: string;
+  pairingId: string;
+  // Applies to the next message and step, including those of a run in progress.
+  configure: (options: Partial<MockAgentOptions>) => void;
+  stop: () => void;
+};
+
+type RunState = {
+  runId: string;
+  settings: RunSettings;
+  paused: boolean;
+  stopped: boolean;
+  stepSignal: { rowIndex: number; stepIndex: number } | null;
+};
+
+type Counts = { currentRowIndex: number; successCount: number; failureCount: number };
+
+const OUTBOX_SIZE = 200;
+const ROW_REQUEST_TIMEOUT_MS = 5000;
+const WAIT_POLL_MS = 50;
+
+const padTo = (prefix: string, bytes: number) =>
+  prefix + "x".repeat(Math.max(0, bytes - prefix.length));
+
+export const startMockAgent = async (
+  transport: ACPTransport,
+  initialOptions: Partial<MockAgentOptions> = {},
+  random: () => number = Math.random,
+): Promise<MockAgent> => {
+  const options = { ...DEFAULT_MOCK_AGENT_OPTIONS, ...initialOptions };
+  const agentId = `mock-${uuidv4()}`;
+  const pairingId = uuidv4();
+  const key = await crypto.subtle.generateKey({ name: "HMAC", hash: "SHA-256" }, false, [
+    "sign",
+    "verify",
+  ]);
+  const startedAt = Date.now();
+  const receivers = new Set<(data: unknown, origin: string | null) => void>();
+  const outbox = new Map<number, SequencedMessage>();
+  const rowWaiters = new Map<string, (rows: CsvRow[]) => void>();
+  let seq = 0;
+  let run: RunState | null = null;
+  let killSwitchEnabled = false;
+  let stopped = false;
+
+  const deliver = (message: SequencedMessage) => {
+    setTimeout(() => {
+      if (!stopped) {
+        receivers.forEach((receive) => receive(message, null));
+      }
+    }, options.latencyMs);
+  };
+
+  const send = (message: ACPMessage) => {
+    seq += 1;
+    const sequenced: SequencedMessage = { ...message, senderId: agentId, seq };
+    const ready = UNSIGNED_MESSAGE_TYPES.includes(message.type)
+      ? Promise.resolve(sequenced)
+      : signMessage(key, pairingId, sequenced);
+    void ready.then((signed) => {
+      outbox.set(signed.seq, signed);
+      outbox.delete(signed.seq - OUTBOX_SIZE);
+      deliver(signed);
+    });
+  };
+
+  const sendAck = (requestId: string, commandType: string, ok: boolean, error = "") =>
+    send({ type: "AGENT_ACK", payload: { requestId, agentId, commandType, ok, error } });
+
+  const sendHello = (requestId: string) =>
+    send({
+      type: "AGENT_HELLO",
+      payload: {
+        requestId,
+        agentId,
+        agentVersion: `${PROTOCOL_VERSION}-mock`,
+        protocolVersion: PROTOCOL_VERSION,
+        supportedProtocolVersions: SUPPORTED_PROTOCOL_VERSIONS,
+        capabilities: { stepTypes: WORKFLOW_STEP_TYPES, artifactTypes: ARTIFACT_TYPES },
+        tabUrl: `https://${MOCK_AGENT_SITE}/`,
+        site: MOCK_AGENT_SITE,
+        runId: run?.runId ?? null,
+      },
+    });
+
+  const sendStatus = (runId: string, status: RunStatus, counts: Counts, message: string) =>
+    send({ type: "AGENT_STATUS", payload: { agentId, runId, status, message, ...counts } });
+
+  const sendLog = (
+    runId: string,
+    rowIndex: number,
+    stepIndex: number,
+    level: "info" | "error",
+    message: string,
+  ) =>
+    send({
+      type: "AGENT_LOG",
+      payload: {
+        agentId,
+        runId,
+        rowIndex,
+        stepIndex,
+        level,
+        message,
+        timestamp: new Date().toISOString(),
+      },
+    });
+
+  const artifacts = (rowIndex: number) =>
+    options.artifactBytes > 0
+      ? {
+          screenshot: padTo("data:image/svg+xml,", options.artifactBytes),
+          htmlSnapshot: padTo(`<!-- mock row ${rowIndex} -->`, options.artifactBytes),
+          consoleLogs: [`[log] mock row ${rowIndex}`],
+        }
+      : {};
+
+  const requestRows = async (runId: string, offset: number) => {
+    const waiterKey = `${runId}:${offset}`;
+    const received = new Promise<CsvRow[]>((resolve) => rowWaiters.set(waiterKey, resolve));
+    send({
+      type: "AGENT_REQUEST_ROWS",
+      payload: { requestId: uuidv4(), agentId, runId, offset, limit: RUN_ROW_PAGE_SIZE },
+    });
+    const rows = await Promise.race([received, delay(ROW_REQUEST_TIMEOUT_MS).then(() => null)]);
+    rowWaiters.delete(waiterKey);
+    if (!rows) {
+      throw new Error(`Rows from ${offset} were not received from the control panel`);
+    }
+    return rows;
+  };
+
+  const waitWhile = async (condition: () => boolean) => {
+    while (condition() && !stopped) {
+      await delay(WAIT_POLL_MS);
+    }
+  };
+
+  // Mirrors the userscript's runWorkflow, with each step replaced by a wait.
+  const simulateRun = async (payload: ControlStartRunMessage["payload"], state: RunState) => {
+    const { runId, workflow, resumeFrom, totalRows } = payload;
+    // Every step plays once in document order; branches and loops are not simulated.
+    const steps = flattenSteps(migrateWorkflow(workflow).steps);
+    const rowCache = new Map<number, CsvRow>();
+    payload.rows.forEach((row, index) => rowCache.set(resumeFrom + index, row));
+    const skipRows = new Set(payload.skipRowIndexes);
+    const rowIndexes = payload.rowIndexes
+      ? payload.rowIndexes.filter((index) => index >= resumeFrom && index < totalRows)
+      : Array.from({ length: totalRows - resumeFrom }, (_, position) => resumeFrom + position);
+    const counts: Counts = {
+      currentRowIndex: resumeFrom,
+      successCount: payload.successCount,
+      failureCount: payload.failureCount,
+    };
+    sendStatus(runId, "running", counts, "Run started");
+
+    for (const rowIndex of rowIndexes) {
+      if (skipRows.has(rowIndex)) {
+        continue;
+      }
+      if (state.paused) {
+        sendStatus(runId, "paused", counts, "Run paused");
+        await waitWhile(() => state.paused && !state.stopped);
+      }
+      if (state.stopped || stopped) {
+        const reason = killSwitchEnabled ? "Kill switch enabled" : "Run stopped";
+        sendStatus(runId, "stopped", counts, reason);
+        return;
+      }
+      counts.currentRowIndex = rowIndex;
+      sendStatus(runId, "running", counts, "Processing row");
+      if (!rowCache.has(rowIndex)) {
+        (await requestRows(runId, rowIndex)).forEach((row, index) =>
+          rowCache.set(rowIndex + index, row),
+        );
+      }
+      const rowStartedAt = Date.now();
+      const failAt =
+        random() < options.failureRate ? Math.floor(random() * steps.length) : -1;
+      let error: string | null = null;
+      let failure: AssertionFailure | undefined;
+      const outputs: Record<string, string> = {};
+      for (const [stepIndex, step] of steps.entries()) {
+        if (state.settings.stepThrough) {
+          await waitWhile(
+            () =>
+              !state.stopped &&
+              (state.stepSignal?.rowIndex !== rowIndex || state.stepSignal.stepIndex !== stepIndex),
+          );
+          state.stepSignal = null;
+        }
+        if (state.stopped) {
+          break;
+        }
+        await delay(options.stepMs);
+        if (stepIndex === failAt) {
+          error = `Simulated ${step.type} failure`;
+          failure = step.type.startsWith("assert_")
+            ? { assertion: step.type, stepId: step.id, expected: "simulated", actual: null }
+            : undefined;
+          sendLog(runId, rowIndex, stepIndex, "error", error);
+          if (!state.settings.bestEffort) {
+            break;
+          }
+          continue;
+        }
+        if (isExtractStep(step)) {
+          outputs[step.varName] =
+            step.type === "extract_count" ? "1" : `Sample ${step.varName} ${rowIndex + 1}`;
+        }
+        sendLog(runId, rowIndex, stepIndex, "info", `Step ${step.type} completed`);
+      }
+      if (state.stopped && !error) {
+        sendStatus(runId, "stopped", counts, "Run stopped");
+        return;
+      }
+      send({
+        type: "AGENT_ROW_RESULT",
+        payload: {
+          agentId,
+          runId,
+          rowIndex,
+          status: error ? "failed" : "success",
+          error,
+          artifacts: artifacts(rowIndex),
+          durationMs: Date.now() - rowStartedAt,
+          outputs,
+          ...(failure && { failure }),
+        },
+      });
+      if (!error) {
+        counts.successCount += 1;
+        continue;
+      }
+      counts.failureCount += 1;
+      if (!state.settings.bestEffort) {
+        sendStatus(runId, "error", counts, "Row failed");
+        return;
+      }
+    }
+    sendStatus(runId, "complete", counts, "Run complete");
+  };
+
+  // Run commands for runs this agent is not executing are meant for other agents.
+  const activeRun = (runId: string) => (run?.runId === runId ? run : null);
+
+  const handleMessage = (message: ACPMessage) => {
+    const targetAgentId = "targetAgentId" in message.payload ? message.payload.targetAgentId : null;
+    if (targetAgentId && targetAgentId !== agentId) {
+      return;
+    }
+    switch (message.type) {
+      case "CONTROL_HELLO":
+        sendAck(message.payload.requestId, message.type, true);
+        sendHello(message.payload.requestId);
+        break;
+      case "CONTROL_PING":
+        send({
+          type: "AGENT_PONG",
+          payload: {
+            requestId: message.payload.requestId,
+            agentId,
+            tabUrl: `https://${MOCK_AGENT_SITE}/`,
+            site: MOCK_AGENT_SITE,
+            uptimeMs: Date.now() - startedAt,
+            runId: run?.runId ?? null,
+          },
+        });
+        break;
+      case "CONTROL_START_RUN": {
+        const { payload } = message;
+        if (killSwitchEnabled) {
+          sendAck(payload.requestId, message.type, false, "Kill switch enabled");
+          return;
+        }
+        if (run) {
+          sendAck(payload.requestId, message.type, false, "Run already in progress");
+          return;
+        }
+        const state: RunState = {
+          runId: payload.runId,
+          settings: { ...payload.settings },
+          paused: false,
+          stopped: false,
+          stepSignal: null,
+        };
+        run = state;
+        sendAck(payload.requestId, message.type, true);
+        simulateRun(payload, state)
+          .catch(() =>
+            sendStatus(
+              payload.runId,
+              "error",
+              { currentRowIndex: payload.resumeFrom, successCount: 0, failureCount: 0 },
+              "Run error",
+            ),
+          )
+          .finally(() => {
+            if (run === state) {
+              run = null;
+            }
+          });
+        break;
+      }
+      case "CONTROL_PAUSE_RUN":
+      case "CONTROL_RESUME_RUN":
+      case "CONTROL_STOP_RUN": {
+        const state = activeRun(message.payload.runId);
+        if (!state) {
+          return;
+        }
+        if (message.type === "CONTROL_STOP_RUN") {
+          state.stopped = true;
+        } else {
+          state.paused = message.type === "CONTROL_PAUSE_RUN";
+        }
+        sendAck(message.payload.requestId, message.type, true);
+        break;
+      }
+      case "CONTROL_STEP_NEXT": {
+        const state = activeRun(message.payload.runId);
+        if (!state) {
+          return;
+        }
+        const { rowIndex, stepIndex } = message.payload;
+        state.stepSignal = { rowIndex, stepIndex };
+        sendAck(message.payload.requestId, message.type, true);
+        break;
+      }
+      case "CONTROL_UPDATE_SETTINGS": {
+        const state = activeRun(message.payload.runId);
+        if (!state) {
+          return;
+        }
+        Object.assign(state.settings, message.payload.settings);
+        sendAck(message.payload.requestId, message.type, true);
+        break;
+      }
+      case "CONTROL_KILL_SWITCH":
+        killSwitchEnabled = message.payload.enabled;
+        if (killSwitchEnabled && run) {
+          run.stopped = true;
+          run.paused = false;
+        }
+        sendAck(message.payload.requestId, message.type, true);
+        break;
+      case "CONTROL_ROWS":
+        rowWaiters.get(`${message.payload.runId}:${message.payload.offset}`)?.(
+          message.payload.rows,
+        );
+        break;
+      case "CONTROL_REPLAY":
+        for (let index = message.payload.fromSeq; index <= message.payload.toSeq; index += 1) {
+          const replayed = outbox.get(index);
+          if (replayed) {
+            deliver(replayed);
+          }
+        }
+        break;
+      default:
+        break;
+    }
+  };
+
+  // The transport signs a copy for every pairing; only copies signed with this key are read.
+  const receive = async (message: SequencedMessage) => {
+    if (!UNSIGNED_MESSAGE_TYPES.includes(message.type)) {
+      if (message.pairingId !== pairingId || !(await verifyMessage(key, message))) {
+        return;
+      }
+    }
+    handleMessage(message);
+  };
+
+  const link: TransportLink = {
+    send: (message) => {
+      setTimeout(() => {
+        if (!stopped) {
+          void receive(message);
+        }
+      }, options.latencyMs);
+    },
+    listen: (handler) => {
+      receivers.add(handler);
+      return () => receivers.delete(handler);
+    },
+    close: () => {
+      stopped = true;
+    },
+  };
+
+  transport.setPairingKey(pairingId, key);
+  const removeLink = transport.addLink(link);
+  sendHello(uuidv4());
+
+  return {
+    agentId,
+    pairingId,
+    configure: (updates) => Object.assign(options, updates),
+    stop: () => {
+      removeLink();
+      transport.removePairing(pairingId);
+    },
+  };
+};
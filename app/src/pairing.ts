@@ -0,0 +1,73 @@
+import {
+  createPairingCode,
+  derivePairingKey,
+  exportPairingKey,
+  exportPublicKey,
+  generatePairingKeys,
+  verifyPairingProof,
+} from "@shared/pairing";
+import type { ACPTransport } from "./transport";
+import type { StoredPairing } from "./storage/pairings";
+
+export type PairingSession = {
+  code: string;
+  requestId: string;
+  done: Promise<StoredPairing>;
+  cancel: () => void;
+};
+
+// Offers a pairing to every agent tab; the first agent whose proof matches the code wins.
+export const startPairing = async (transport: ACPTransport): Promise<PairingSession> => {
+  const code = createPairingCode();
+  const requestId = transport.createRequestId();
+  const keys = await generatePairingKeys();
+  const publicKey = await exportPublicKey(keys);
+  let unsubscribe = () => {};
+  let cancel = () => {};
+
+  const done = new Promise<StoredPairing>((resolve, reject) => {
+    let settled = false;
+    cancel = () => {
+      settled = true;
+      unsubscribe();
+      reject(new Error("Pairing cancelled."));
+    };
+    unsubscribe = transport.subscribe((message) => {
+      if (message.type !== "AGENT_PAIR_RESPONSE" || message.payload.requestId !== requestId) {
+        return;
+      }
+      const response = message.payload;
+      const confirm = async () => {
+        const key = await derivePairingKey(keys, response.publicKey, code);
+        if (!(await verifyPairingProof(key, requestId, response.proof))) {
+          transport.reportRejection("Pairing code mismatch", message);
+          return;
+        }
+        if (settled) {
+          return;
+        }
+        settled = true;
+        unsubscribe();
+        transport.setPairingKey(response.pairingId, key);
+        transport.send({
+          type: "CONTROL_PAIR_CONFIRM",
+          payload: {
+            requestId: transport.createRequestId(),
+            targetAgentId: response.agentId,
+            pairingId: response.pairingId,
+          },
+        });
+        resolve({
+          pairingId: response.pairingId,
+          site: response.site,
+          key: await exportPairingKey(key),
+          createdAt: new Date().toISOString(),
+        });
+      };
+      void confirm().catch(() => transport.reportRejection("Invalid pairing response", message));
+    });
+  });
+
+  transport.send({ type: "CONTROL_PAIR_REQUEST", payload: { requestId, publicKey } });
+  return { code, requestId, done, cancel };
+};
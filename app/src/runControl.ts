@@ -0,0 +1,281 @@
+import type {
+  AgentHelloMessage,
+  AgentLogMessage,
+  AgentRequestRowsMessage,
+  AgentRowResultMessage,
+  AgentStatusMessage,
+  CsvRow,
+  WorkflowDefinition,
+} from "@shared/schema";
+import { RUN_ROW_PAGE_SIZE, assessAgent } from "@shared/protocol";
+import { conditionsForProtocol, workflowForProtocol } from "@shared/stepMigration";
+import { calledWorkflows } from "@shared/subworkflows";
+import type { ACPTransport } from "./transport";
+import {
+  type AgentConnection,
+  advanceAssignments,
+  deriveRunStatus,
+  planAssignment,
+  splitRunAssignments,
+} from "./agentPool";
+import { validateWorkflowSteps } from "./workflowValidation";
+import {
+  type ACPState,
+  type Job,
+  type RowResult,
+  type Run,
+  type RunAssignment,
+  getLastCompletedRow,
+} from "./state";
+
+// The panel's side of a run: splitting it across agents, starting shares, answering row
+// requests, sending run commands and folding what agents report into the run. App keeps the
+// state and storage; tests drive these against the mock agent.
+
+// Reads the rows of a run's job from `offset`, prepared for the agent (see runRows.ts).
+export type RowLoader = (
+  runId: string,
+  agentId: string,
+  jobId: string,
+  offset: number,
+  limit?: number,
+) => Promise<CsvRow[]>;
+
+export type RunContext = {
+  jobs: Job[];
+  workflows: WorkflowDefinition[];
+  agents: Record<string, AgentConnection>;
+  loadRows: RowLoader;
+};
+
+export type RunCommand = "pause" | "resume" | "stop";
+
+const RUN_COMMANDS = {
+  pause: { type: "CONTROL_PAUSE_RUN", status: "paused", waiting: "paused" },
+  resume: { type: "CONTROL_RESUME_RUN", status: "running", waiting: "idle" },
+  stop: { type: "CONTROL_STOP_RUN", status: "stopped", waiting: "stopped" },
+} as const;
+
+export const connectAgent = (hello: AgentHelloMessage["payload"]): AgentConnection => ({
+  agentId: hello.agentId,
+  status: "connected",
+  lastHelloAt: new Date().toISOString(),
+  lastPingAt: null,
+  tabUrl: hello.tabUrl,
+  site: hello.site,
+  runId: hello.runId,
+  agentVersion: hello.agentVersion,
+  compatibility: assessAgent(hello),
+});
+
+export const isActiveAssignment = (assignment: RunAssignment) =>
+  assignment.agentId !== null &&
+  (assignment.status === "running" || assignment.status === "paused");
+
+// Run commands are broadcast; every agent executing a share of the run acts on them.
+export const hasActiveAgents = (run: Run) =>
+  run.assignments.length === 0 || run.assignments.some(isActiveAssignment);
+
+// Shares that no agent is executing end with the run; agents report their own.
+export const settleWaitingAssignments = (run: Run, status: Run["status"]) =>
+  run.assignments.map((assignment) =>
+    assignment.agentId === null && assignment.status !== "complete"
+      ? { ...assignment, status }
+      : assignment,
+  );
+
+// Splits a new or resumed run across the idle agents; the dispatcher starts the shares.
+// Throws when the job's workflow is missing or has invalid steps.
+export const launchRun = (
+  run: Run,
+  job: Job,
+  workflows: WorkflowDefinition[],
+  idleAgentCount: number,
+): Run => {
+  const workflow = workflows.find((flow) => flow.id === job.workflowId);
+  if (!workflow) {
+    throw new Error("Workflow not found.");
+  }
+  const stepErrors = validateWorkflowSteps(workflow, workflows);
+  if (stepErrors) {
+    throw new Error(`Fix the workflow before running it: ${stepErrors}`);
+  }
+  const assignments = splitRunAssignments(run, job.rowCount, idleAgentCount);
+  return {
+    ...run,
+    status: assignments.length > 0 ? "running" : "complete",
+    assignments,
+    currentRowIndex: assignments[0]?.fromRow ?? run.currentRowIndex,
+    currentStepIndex: 0,
+    updatedAt: new Date().toISOString(),
+  };
+};
+
+// Sends CONTROL_START_RUN for one share of a run to the agent it was handed to. Rejects when
+// the agent cannot check one of the workflow's conditions or does not acknowledge the start.
+export const sendAssignment = async (
+  transport: ACPTransport,
+  { jobs, workflows, agents, loadRows }: RunContext,
+  run: Run,
+  assignmentIndex: number,
+  agentId: string,
+) => {
+  const job = jobs.find((item) => item.id === run.jobId);
+  const workflow = workflows.find((flow) => flow.id === job?.workflowId);
+  const assignment = run.assignments[assignmentIndex];
+  const plan = assignment ? planAssignment(run, assignment) : null;
+  if (!job || !workflow || !plan) {
+    return;
+  }
+  const protocolVersion = agents[agentId]?.compatibility?.protocolVersion;
+  const firstPage = await loadRows(run.id, agentId, job.id, plan.resumeFrom);
+  await transport.sendCommand({
+    type: "CONTROL_START_RUN",
+    payload: {
+      requestId: transport.createRequestId(),
+      targetAgentId: agentId,
+      runId: run.id,
+      jobId: job.id,
+      workflow: workflowForProtocol(workflow, protocolVersion),
+      rows: firstPage,
+      settings: run.settings,
+      ...plan,
+      workflows: calledWorkflows(workflow, workflows).map((called) =>
+        conditionsForProtocol(called, protocolVersion),
+      ),
+    },
+  });
+};
+
+// Answers AGENT_REQUEST_ROWS with the page of the run's rows the agent asked for.
+export const sendRunRows = async (
+  transport: ACPTransport,
+  message: AgentRequestRowsMessage,
+  jobId: string,
+  loadRows: RowLoader,
+) => {
+  const { requestId, agentId, runId, offset, limit } = message.payload;
+  const rows = await loadRows(runId, agentId, jobId, offset, Math.min(limit, RUN_ROW_PAGE_SIZE));
+  transport.send({
+    type: "CONTROL_ROWS",
+    payload: { requestId, targetAgentId: agentId, runId, offset, rows },
+  });
+};
+
+// Pauses, resumes or stops a run. Returns the run's changes and the command's acknowledgement,
+// which is already settled when no agent is executing a share.
+export const commandRun = (transport: ACPTransport, run: Run, command: RunCommand) => {
+  const { type, status, waiting } = RUN_COMMANDS[command];
+  const sent = hasActiveAgents(run)
+    ? transport.sendCommand({
+        type,
+        payload: { requestId: transport.createRequestId(), runId: run.id },
+      })
+    : Promise.resolve();
+  const updates: Partial<Run> = { status, assignments: settleWaitingAssignments(run, waiting) };
+  return { updates, sent };
+};
+
+// Releases the step a step-through run is waiting on.
+export const sendStepNext = (transport: ACPTransport, run: Run) =>
+  transport.sendCommand({
+    type: "CONTROL_STEP_NEXT",
+    payload: {
+      requestId: transport.createRequestId(),
+      runId: run.id,
+      rowIndex: run.currentRowIndex,
+      stepIndex: run.currentStepIndex,
+    },
+  });
+
+export const updateRunStatus = (state: ACPState, message: AgentStatusMessage) => {
+  const run = state.runs.find((item) => item.id === message.payload.runId);
+  const shared = Boolean(run && run.assignments.length > 0);
+  // A share taken away from this agent no longer reports into the run.
+  if (
+    !run ||
+    (shared && !run.assignments.some((item) => item.agentId === message.payload.agentId))
+  ) {
+    return { nextState: state, updatedRun: null };
+  }
+  const assignments = run.assignments.map((item) =>
+    item.agentId === message.payload.agentId
+      ? { ...item, status: message.payload.status, currentRowIndex: message.payload.currentRowIndex }
+      : item,
+  );
+  const rowChanged = run.currentRowIndex !== message.payload.currentRowIndex;
+  const updatedRun: Run = {
+    ...run,
+    assignments,
+    status: shared ? deriveRunStatus(assignments) : message.payload.status,
+    currentRowIndex: message.payload.currentRowIndex,
+    currentStepIndex: rowChanged ? 0 : run.currentStepIndex,
+    updatedAt: new Date().toISOString(),
+  };
+  const runs = state.runs.map((item) => (item.id === run.id ? updatedRun : item));
+  return { nextState: { ...state, runs }, updatedRun };
+};
+
+export const appendRunLog = (state: ACPState, message: AgentLogMessage) => {
+  let logEntry: Run["logs"][number] | null = null;
+  let updatedRun: Run | null = null;
+  const runs = state.runs.map((run) => {
+    if (run.id !== message.payload.runId) {
+      return run;
+    }
+    logEntry = {
+      id: `${message.payload.runId}-${message.payload.agentId}-${message.payload.rowIndex}-${message.payload.stepPath ?? message.payload.stepIndex}-${message.payload.timestamp}`,
+      runId: message.payload.runId,
+      agentId: message.payload.agentId,
+      rowIndex: message.payload.rowIndex,
+      stepIndex: message.payload.stepIndex,
+      stepPath: message.payload.stepPath,
+      level: message.payload.level,
+      message: message.payload.message,
+      timestamp: message.payload.timestamp,
+    };
+    const next = {
+      ...run,
+      logs: logEntry ? [logEntry, ...run.logs] : run.logs,
+      currentStepIndex: message.payload.stepIndex + 1,
+      updatedAt: new Date().toISOString(),
+    };
+    updatedRun = next;
+    return next;
+  });
+  return { nextState: { ...state, runs }, logEntry, updatedRun };
+};
+
+export const appendRowResult = (state: ACPState, message: AgentRowResultMessage) => {
+  const run = state.runs.find((item) => item.id === message.payload.runId);
+  if (!run) {
+    return { nextState: state, rowResult: null, updatedRun: null };
+  }
+  const rowResult: RowResult = {
+    runId: message.payload.runId,
+    rowIndex: message.payload.rowIndex,
+    status: message.payload.status,
+    error: message.payload.error,
+    artifacts: message.payload.artifacts,
+    durationMs: message.payload.durationMs,
+    outputs: message.payload.outputs,
+    failure: message.payload.failure,
+  };
+  // A resumed run retries failed rows; the new result replaces the earlier one.
+  const rowResults = [
+    rowResult,
+    ...run.rowResults.filter((result) => result.rowIndex !== rowResult.rowIndex),
+  ];
+  // Several agents report into one run, so the totals come from the results themselves.
+  const updatedRun: Run = {
+    ...run,
+    rowResults,
+    assignments: advanceAssignments(run, message.payload.agentId, rowResult.rowIndex),
+    lastCompletedRow: getLastCompletedRow(rowResults),
+    successCount: rowResults.filter((result) => result.status === "success").length,
+    failureCount: rowResults.filter((result) => result.status === "failed").length,
+    updatedAt: new Date().toISOString(),
+  };
+  const runs = state.runs.map((item) => (item.id === run.id ? updatedRun : item));
+  return { nextState: { ...state, runs }, rowResult, updatedRun };
+};
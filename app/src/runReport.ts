@@ -0,0 +1,95 @@
+import type { AssertionFailure, CsvRow } from "@shared/schema";
+import type { Job, RowResult, Run } from "./state";
+
+// Extract step outputs are reported as `output.<name>` columns, so they never clash with the
+// job's own columns.
+export const outputColumn = (name: string) => `output.${name}`;
+
+// The failed assertion's columns are namespaced the same way; assertion jobs often have an
+// `expected` column of their own.
+const ASSERTION_COLUMNS = {
+  assertion: "assert.type",
+  expected: "assert.expected",
+  actual: "assert.actual",
+  selector: "assert.selector",
+};
+
+// Output names in the order rows first reported them.
+export const runOutputNames = (results: Iterable<RowResult>) => {
+  const names = new Set<string>();
+  for (const result of results) {
+    Object.keys(result.outputs ?? {}).forEach((name) => names.add(name));
+  }
+  return Array.from(names);
+};
+
+// Report columns come first; the job's own columns and the outputs follow. The assertion
+// columns are empty unless an assertion step failed the row.
+export const runReportHeaders = (job: Job, outputNames: string[] = []) => [
+  "rowIndex",
+  "status",
+  "error",
+  ...Object.values(ASSERTION_COLUMNS),
+  "durationMs",
+  "runId",
+  ...job.headers,
+  ...outputNames.map(outputColumn),
+];
+
+export const toReportRow = (index: number, row: CsvRow, result: RowResult | undefined): CsvRow => ({
+  rowIndex: String(index),
+  status: result?.status ?? "pending",
+  error: result?.error ?? "",
+  [ASSERTION_COLUMNS.assertion]: result?.failure?.assertion ?? "",
+  [ASSERTION_COLUMNS.expected]: result?.failure?.expected ?? "",
+  [ASSERTION_COLUMNS.actual]: result?.failure?.actual ?? "",
+  [ASSERTION_COLUMNS.selector]: result?.failure?.selector ?? "",
+  durationMs: result?.durationMs ? String(result.durationMs) : "",
+  runId: result?.runId ?? "",
+  ...row,
+  ...Object.fromEntries(
+    Object.entries(result?.outputs ?? {}).map(([name, value]) => [outputColumn(name), value]),
+  ),
+});
+
+// Failed rows by the assertion step that failed them. Failures that were not assertions share
+// the group whose stepId is null.
+export type FailureGroup = {
+  stepId: string | null;
+  assertion: string | null;
+  rowIndexes: number[];
+  // One row's failure, as an example of what was expected and found.
+  example: AssertionFailure | null;
+};
+
+// Largest groups first.
+export const groupFailures = (results: Iterable<RowResult>) => {
+  const groups = new Map<string | null, FailureGroup>();
+  for (const result of results) {
+    if (result.status !== "failed") {
+      continue;
+    }
+    const stepId = result.failure?.stepId ?? null;
+    const group = groups.get(stepId) ?? {
+      stepId,
+      assertion: result.failure?.assertion ?? null,
+      rowIndexes: [],
+      example: result.failure ?? null,
+    };
+    group.rowIndexes.push(result.rowIndex);
+    groups.set(stepId, group);
+  }
+  return Array.from(groups.values())
+    .map((group) => ({ ...group, rowIndexes: group.rowIndexes.sort((a, b) => a - b) }))
+    .sort((a, b) => b.rowIndexes.length - a.rowIndexes.length);
+};
+
+export const runReportJson = (
+  run: Run,
+  job: Job,
+  rows: CsvRow[],
+  failures: FailureGroup[] = [],
+) => JSON.stringify({ run, job, rows, failures, logs: run.logs }, null, 2);
+
+export const runReportFileName = (run: Run, extension: "csv" | "json") =>
+  `run-${run.id}-report.${extension}`;
@@ -0,0 +1,50 @@
+import type { CsvRow } from "@shared/schema";
+import { RUN_ROW_PAGE_SIZE } from "@shared/protocol";
+import { createRowPreparer } from "@shared/similarity";
+import { loadJobRows } from "./storage/db";
+
+type RunRowSource = {
+  jobId: string;
+  nextIndex: number;
+  prepare: (row: CsvRow) => CsvRow;
+};
+
+const sources = new Map<string, RunRowSource>();
+
+// Rows go to the agent a page at a time. Post rotation depends on every earlier row, so a
+// page requested out of order is prepared by replaying the rows before it. Each agent of a
+// run reads its own share in order, so every agent gets its own source.
+export const loadRunRows = async (
+  runId: string,
+  agentId: string,
+  jobId: string,
+  offset: number,
+  limit = RUN_ROW_PAGE_SIZE,
+) => {
+  const key = `${runId}:${agentId}`;
+  const existing = sources.get(key);
+  const source =
+    existing && existing.jobId === jobId && offset >= existing.nextIndex
+      ? existing
+      : { jobId, nextIndex: 0, prepare: createRowPreparer() };
+  sources.set(key, source);
+  while (source.nextIndex < offset) {
+    const skipped = await loadJobRows(
+      jobId,
+      source.nextIndex,
+      Math.min(RUN_ROW_PAGE_SIZE, offset - source.nextIndex),
+    );
+    if (skipped.length === 0) {
+      break;
+    }
+    skipped.forEach((row) => source.prepare(row));
+    source.nextIndex += skipped.length;
+  }
+  const rows = (await loadJobRows(jobId, offset, limit)).map(source.prepare);
+  source.nextIndex = offset + rows.length;
+  return rows;
+};
+
+export const releaseRunRows = (runId: string, agentId: string) => {
+  sources.delete(`${runId}:${agentId}`);
+};
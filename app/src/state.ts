@@ -1,5 +1,12 @@
 import { uuidv4 } from "./utils";
-import type { CsvRow, WorkflowDefinition, WorkflowStep, RunSettings } from "@shared/schema";
+import type {
+  AssertionFailure,
+  WorkflowDefinition,
+  WorkflowStep,
+  RunSettings,
+} from "@shared/schema";
+import type { CsvDialect } from "@shared/csv";
+import { migrateStep } from "@shared/stepMigration";
 
 export type Job = {
   id: string;
@@ -7,17 +14,31 @@ export type Job = {
   workflowId: string;
   csvFileName: string;
   headers: string[];
-  rows: CsvRow[];
+  // Rows live in the `jobRows` table; see storage/db.ts.
+  rowCount: number;
+  dialect?: CsvDialect;
+  revision: number;
+  defaultPresetId?: string;
   createdAt: string;
 };
 
+export type RunPreset = {
+  id: string;
+  name: string;
+  settings: RunSettings;
+  updatedAt: string;
+};
+
 export type RunStatus = "idle" | "running" | "paused" | "stopped" | "error" | "complete";
 
 export type RunLog = {
   id: string;
   runId: string;
+  agentId?: string;
   rowIndex: number;
   stepIndex: number;
+  // Set by agents from protocol 1.11.0, such as "2.3" inside a called workflow.
+  stepPath?: string;
   level: "debug" | "info" | "warn" | "error";
   message: string;
   timestamp: string;
@@ -29,6 +50,10 @@ export type RowResult = {
   status: "success" | "failed" | "skipped";
   error: string | null;
   durationMs?: number;
+  // What extract steps saved, by variable name.
+  outputs?: Record<string, string>;
+  // Set when an assertion step failed the row.
+  failure?: AssertionFailure;
   artifacts?: {
     screenshot?: string;
     htmlSnapshot?: string;
@@ -36,6 +61,18 @@ export type RowResult = {
   };
 };
 
+// The part of a run's rows one agent executes, in ascending order. `fromRow` advances as rows
+// finish, so a share taken over from a disconnected agent restarts at its unfinished row.
+export type RunAssignment = {
+  agentId: string | null;
+  fromRow: number;
+  toRow: number;
+  // Retry runs list their rows; otherwise the share covers every row in [fromRow, toRow).
+  rowIndexes: number[] | null;
+  status: RunStatus;
+  currentRowIndex: number;
+};
+
 export type Run = {
   id: string;
   jobId: string;
@@ -48,12 +85,18 @@ export type Run = {
   logs: RunLog[];
   rowResults: RowResult[];
   settings: RunSettings;
+  jobRevision: number;
+  // Set on retry runs: the run they retry and the only rows they execute.
+  parentRunId?: string;
+  rowIndexes?: number[];
+  assignments: RunAssignment[];
   createdAt: string;
   updatedAt: string;
 };
 
 export type ACPState = {
   workflows: WorkflowDefinition[];
+  presets: RunPreset[];
   jobs: Job[];
   runs: Run[];
   debugEnabled: boolean;
@@ -68,7 +111,7 @@ export const createDefaultWorkflow = (): WorkflowDefinition => ({
     {
       id: uuidv4(),
       type: "goto",
-      value: "{{url}}",
+      url: "{{url}}",
       notes: "Navigate to the URL from the CSV row.",
       retries: 2,
       timeoutMs: 15000,
@@ -83,7 +126,6 @@ export const createDefaultWorkflow = (): WorkflowDefinition => ({
     {
       id: uuidv4(),
       type: "screenshot",
-      value: "page",
       notes: "Capture evidence after load.",
     },
   ],
@@ -101,35 +143,44 @@ export const createDefaultSettings = (): RunSettings => ({
   stepThrough: false,
 });
 
-export const createWorkflow = (name = "New Workflow"): WorkflowDefinition => ({
+export const createPreset = (name: string, settings: RunSettings): RunPreset => ({
   id: uuidv4(),
   name,
-  steps: [],
+  settings,
   updatedAt: new Date().toISOString(),
 });
 
-export const createStep = (type: WorkflowStep["type"]): WorkflowStep => ({
+export const createWorkflow = (name = "New Workflow"): WorkflowDefinition => ({
   id: uuidv4(),
-  type,
+  name,
+  steps: [],
+  updatedAt: new Date().toISOString(),
 });
 
+// A step of this type with its fields empty.
+export const createStep = (type: WorkflowStep["type"]): WorkflowStep =>
+  migrateStep({ id: uuidv4(), type });
+
 export const createJob = (
   name: string,
   workflowId: string,
   fileName: string,
   headers: string[],
-  rows: CsvRow[],
+  rowCount: number,
+  dialect?: CsvDialect,
 ): Job => ({
   id: uuidv4(),
   name,
   workflowId,
   csvFileName: fileName,
   headers,
-  rows,
+  rowCount,
+  dialect,
+  revision: 0,
   createdAt: new Date().toISOString(),
 });
 
-export const createRun = (jobId: string, settings: RunSettings): Run => ({
+export const createRun = (jobId: string, settings: RunSettings, jobRevision = 0): Run => ({
   id: uuidv4(),
   jobId,
   status: "idle",
@@ -141,6 +192,62 @@ export const createRun = (jobId: string, settings: RunSettings): Run => ({
   logs: [],
   rowResults: [],
   settings,
+  jobRevision,
+  assignments: [],
   createdAt: new Date().toISOString(),
   updatedAt: new Date().toISOString(),
 });
+
+export const isRunStale = (run: Run, job: Job | null) =>
+  Boolean(job && run.jobRevision !== job.revision);
+
+// Agents page a run's rows from the job while it runs, so its rows must not change meanwhile.
+export const hasActiveRun = (runs: Run[], jobId: string) =>
+  runs.some((run) => run.jobId === jobId && (run.status === "running" || run.status === "paused"));
+
+export const isRowDone = (result: RowResult) => result.status !== "failed";
+
+// Highest row index such that every row up to and including it succeeded or was skipped.
+export const getLastCompletedRow = (rowResults: RowResult[]) => {
+  const done = new Set(rowResults.filter(isRowDone).map((result) => result.rowIndex));
+  let index = -1;
+  while (done.has(index + 1)) {
+    index += 1;
+  }
+  return index;
+};
+
+export const canResumeRun = (run: Run) =>
+  run.status === "stopped" ||
+  run.status === "error" ||
+  (run.status === "complete" && run.rowResults.some((result) => result.status === "failed"));
+
+// Where a resumed run picks up: after the completed prefix. Each share skips the rows that
+// already finished further on (see planAssignment).
+export const planResume = (run: Run) => ({
+  resumeFrom: getLastCompletedRow(run.rowResults) + 1,
+});
+
+// The run plus every retry descended from its root, oldest first.
+export const collectRunFamily = (run: Run, runs: Run[]) => {
+  const byId = new Map(runs.map((item) => [item.id, item]));
+  let root = run;
+  while (root.parentRunId && byId.has(root.parentRunId)) {
+    root = byId.get(root.parentRunId) ?? root;
+  }
+  const family = [root];
+  for (let i = 0; i < family.length; i += 1) {
+    const parentId = family[i]?.id;
+    runs.filter((item) => item.parentRunId === parentId).forEach((item) => family.push(item));
+  }
+  return family.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+// Final result of each row across a run and its retries; later runs override earlier ones.
+export const combineRowResults = (run: Run, runs: Run[]) => {
+  const results = new Map<number, RowResult>();
+  collectRunFamily(run, runs).forEach((item) =>
+    item.rowResults.forEach((result) => results.set(result.rowIndex, result)),
+  );
+  return results;
+};
@@ -1,6 +1,6 @@
 import Dexie, { type Table } from "dexie";
-import type { Job, Run, RunLog, RowResult } from "../state";
-import type { WorkflowDefinition } from "@shared/schema";
+import type { Job, Run, RunLog, RowResult, RunPreset } from "../state";
+import type { CsvRow, WorkflowDefinition } from "@shared/schema";
 import {
   ACPExportSchema,
   JobSchema,
@@ -9,11 +9,19 @@ import {
   RunSchema,
   WorkflowDefinitionSchema,
 } from "@shared/validators";
+import {
+  migrateConditionals,
+  migrateWorkflow,
+  migrateWorkflowData,
+} from "@shared/stepMigration";
 
 const LEGACY_STATE_KEY = "acp:state";
 const LEGACY_BACKUP_KEY = "acp:legacy-backup";
 
-export const EXPORT_VERSION = 1;
+// 3: conditional steps hold an expression instead of a template.
+export const EXPORT_VERSION = 3;
+
+const ROW_WRITE_CHUNK = 2000;
 
 export type MetaEntry = {
   key: string;
@@ -22,12 +30,23 @@ export type MetaEntry = {
 
 export type RunRecord = Omit<Run, "logs" | "rowResults">;
 
+export type JobRowRecord = {
+  jobId: string;
+  index: number;
+  row: CsvRow;
+};
+
+// Jobs exported before rows moved to their own table carry them inline.
+type LegacyJob = Job & { rows?: CsvRow[] };
+
 export class ACPDatabase extends Dexie {
   workflows!: Table<WorkflowDefinition, string>;
   jobs!: Table<Job, string>;
   runs!: Table<RunRecord, string>;
   logs!: Table<RunLog, string>;
   rowResults!: Table<RowResult & { id: string }, string>;
+  jobRows!: Table<JobRowRecord, [string, number]>;
+  presets!: Table<RunPreset, string>;
   meta!: Table<MetaEntry, string>;
 
   constructor() {
@@ -40,11 +59,100 @@ export class ACPDatabase extends Dexie {
       rowResults: "id, runId, rowIndex",
       meta: "key",
     });
+    this.version(2)
+      .stores({
+        jobRows: "[jobId+index], jobId",
+      })
+      .upgrade(async (tx) => {
+        const legacyJobs = await tx.table<LegacyJob, string>("jobs").toArray();
+        const { jobs, rows } = splitLegacyJobs(legacyJobs);
+        await tx.table<JobRowRecord, [string, number]>("jobRows").bulkPut(rows);
+        await tx.table<Job, string>("jobs").bulkPut(jobs);
+      });
+    this.version(3).stores({
+      presets: "id, name",
+    });
+    // Steps moved from shared selector and value fields to fields of their own type.
+    this.version(4)
+      .stores({})
+      .upgrade((tx) =>
+        tx
+          .table<WorkflowDefinition, string>("workflows")
+          .toCollection()
+          .modify((workflow) => {
+            workflow.steps = migrateWorkflow(workflow).steps;
+          }),
+      );
+    // Conditional steps moved from templates to expressions.
+    this.version(5)
+      .stores({})
+      .upgrade((tx) =>
+        tx
+          .table<WorkflowDefinition, string>("workflows")
+          .toCollection()
+          .modify((workflow) => {
+            workflow.steps = migrateConditionals(workflow.steps, true);
+          }),
+      );
   }
 }
 
+const toJobRowRecords = (jobId: string, rows: CsvRow[], startIndex = 0): JobRowRecord[] =>
+  rows.map((row, offset) => ({ jobId, index: startIndex + offset, row }));
+
+const splitLegacyJobs = (jobs: LegacyJob[]) => {
+  const records: Job[] = [];
+  const rows: JobRowRecord[] = [];
+  jobs.forEach(({ rows: inlineRows, ...job }) => {
+    if (inlineRows) {
+      rows.push(...toJobRowRecords(job.id, inlineRows));
+    }
+    records.push({ ...job, rowCount: inlineRows?.length ?? job.rowCount ?? 0 });
+  });
+  return { jobs: records, rows };
+};
+
 export const db = new ACPDatabase();
 
+export const loadJobRows = async (jobId: string, offset: number, limit: number) => {
+  const records = await db.jobRows
+    .where("[jobId+index]")
+    .between([jobId, offset], [jobId, offset + limit], true, false)
+    .toArray();
+  return records.map((record) => record.row);
+};
+
+export const loadAllJobRows = (jobId: string) => loadJobRows(jobId, 0, Infinity);
+
+export const saveJobRows = async (jobId: string, rows: CsvRow[], startIndex = 0) => {
+  for (let offset = 0; offset < rows.length; offset += ROW_WRITE_CHUNK) {
+    await db.jobRows.bulkPut(
+      toJobRowRecords(jobId, rows.slice(offset, offset + ROW_WRITE_CHUNK), startIndex + offset),
+    );
+  }
+};
+
+// Writes only the rows that differ from `previous` (by reference), plus any index shift.
+export const updateJobRows = async (jobId: string, previous: CsvRow[], next: CsvRow[]) => {
+  let first = 0;
+  while (first < next.length && first < previous.length && next[first] === previous[first]) {
+    first += 1;
+  }
+  let last = next.length - 1;
+  if (next.length === previous.length) {
+    while (last >= first && next[last] === previous[last]) {
+      last -= 1;
+    }
+  }
+  await saveJobRows(jobId, next.slice(first, last + 1), first);
+  if (previous.length > next.length) {
+    await db.jobRows
+      .where("[jobId+index]")
+      .between([jobId, next.length], [jobId, previous.length], true, false)
+      .delete();
+  }
+};
+
 export const migrateLegacyState = async () => {
   const raw = localStorage.getItem(LEGACY_STATE_KEY);
   if (!raw) {
@@ -52,22 +160,28 @@ export const migrateLegacyState = async () => {
   }
   localStorage.setItem(LEGACY_BACKUP_KEY, raw);
   try {
-  const parsed = JSON.parse(raw) as {
-      workflows?: WorkflowDefinition[];
-      jobs?: Job[];
+    const parsed = JSON.parse(raw) as {
+      workflows?: unknown[];
+      jobs?: LegacyJob[];
       runs?: Run[];
     };
-    const workflows = (parsed.workflows ?? []).filter((workflow) =>
-      WorkflowDefinitionSchema.safeParse(workflow).success,
+    const workflows = (parsed.workflows ?? [])
+      .map((workflow) => migrateWorkflowData(workflow, "all"))
+      .filter((workflow): workflow is WorkflowDefinition =>
+        WorkflowDefinitionSchema.safeParse(workflow).success,
+      );
+    const { jobs, rows: jobRows } = splitLegacyJobs(
+      (parsed.jobs ?? []).filter((job) => JobSchema.safeParse(job).success),
     );
-    const jobs = (parsed.jobs ?? []).filter((job) => JobSchema.safeParse(job).success);
     const runs = (parsed.runs ?? []).filter((run) => RunSchema.safeParse(run).success);
-    await db.transaction("rw", db.workflows, db.jobs, db.runs, db.logs, db.rowResults, async () => {
+    const tables = [db.workflows, db.jobs, db.jobRows, db.runs, db.logs, db.rowResults];
+    await db.transaction("rw", tables, async () => {
       if (workflows.length) {
         await db.workflows.bulkPut(workflows);
       }
       if (jobs.length) {
         await db.jobs.bulkPut(jobs);
+        await db.jobRows.bulkPut(jobRows);
       }
       if (runs.length) {
         const runRecords: RunRecord[] = runs.map(({ logs, rowResults, ...rest }) => rest);
@@ -105,8 +219,9 @@ export const migrateLegacyState = async () => {
 };
 
 export const loadAllData = async () => {
-  const [workflows, jobs, runs, logs, rowResults] = await Promise.all([
+  const [workflows, presets, jobs, runs, logs, rowResults] = await Promise.all([
     db.workflows.toArray(),
+    db.presets.toArray(),
     db.jobs.toArray(),
     db.runs.toArray(),
     db.logs.toArray(),
@@ -114,6 +229,7 @@ export const loadAllData = async () => {
   ]);
   return {
     workflows,
+    presets,
     jobs,
     runs,
     logs,
@@ -123,11 +239,14 @@ export const loadAllData = async () => {
 
 export const exportAllData = async () => {
   const data = await loadAllData();
+  const jobRows = await db.jobRows.toArray();
   const payload = {
     version: EXPORT_VERSION,
     exportedAt: new Date().toISOString(),
     workflows: data.workflows,
+    presets: data.presets,
     jobs: data.jobs,
+    jobRows,
     runs: data.runs,
     logs: data.logs,
     rowResults: data.rowResults.map(({ id, ...rest }) => rest),
@@ -135,18 +254,27 @@ export const exportAllData = async () => {
   return ACPExportSchema.parse(payload);
 };
 
+// Exports from before typed steps and condition expressions are migrated before they are
+// validated.
 export const importAllData = async (payload: unknown) => {
-  const parsed = ACPExportSchema.parse(payload);
-  await db.transaction("rw", db.workflows, db.jobs, db.runs, db.logs, db.rowResults, async () => {
-    await Promise.all([
-      db.workflows.clear(),
-      db.jobs.clear(),
-      db.runs.clear(),
-      db.logs.clear(),
-      db.rowResults.clear(),
-    ]);
+  const { workflows, version } = (payload ?? {}) as { workflows?: unknown; version?: unknown };
+  const conditionals = typeof version === "number" && version < 3 ? "all" : undefined;
+  const parsed = ACPExportSchema.parse(
+    Array.isArray(workflows)
+      ? {
+          ...(payload as object),
+          workflows: workflows.map((workflow) => migrateWorkflowData(workflow, conditionals)),
+        }
+      : payload,
+  );
+  const { jobs, rows: inlineRows } = splitLegacyJobs(parsed.jobs);
+  const tables = [db.workflows, db.presets, db.jobs, db.jobRows, db.runs, db.logs, db.rowResults];
+  await db.transaction("rw", tables, async () => {
+    await Promise.all(tables.map((table) => table.clear()));
     await db.workflows.bulkPut(parsed.workflows);
-    await db.jobs.bulkPut(parsed.jobs);
+    await db.presets.bulkPut(parsed.presets);
+    await db.jobs.bulkPut(jobs);
+    await db.jobRows.bulkPut([...parsed.jobRows, ...inlineRows]);
     await db.runs.bulkPut(parsed.runs);
     await db.logs.bulkPut(parsed.logs);
     await db.rowResults.bulkPut(
@@ -0,0 +1,25 @@
+const PAIRINGS_KEY = "acp:pairings";
+
+export type StoredPairing = {
+  pairingId: string;
+  site: string;
+  key: JsonWebKey;
+  createdAt: string;
+};
+
+export const loadPairings = (): StoredPairing[] => {
+  const raw = localStorage.getItem(PAIRINGS_KEY);
+  if (!raw) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(raw) as StoredPairing[];
+    return Array.isArray(parsed) ? parsed.filter((pairing) => pairing.pairingId && pairing.key) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const savePairings = (pairings: StoredPairing[]) => {
+  localStorage.setItem(PAIRINGS_KEY, JSON.stringify(pairings));
+};
@@ -1,23 +1,42 @@
+import { DEFAULT_MOCK_AGENT_OPTIONS, type MockAgentOptions } from "../mockAgent";
+
 const SETTINGS_KEY = "acp:settings";
 
 export type ACPSettings = {
   debugEnabled: boolean;
   killSwitchEnabled: boolean;
+  // WebSocket relay the transport connects to besides the browser channels.
+  relayUrl: string | null;
+  // Runs a simulated agent inside the panel; the options are kept while it is off.
+  mockAgentEnabled: boolean;
+  mockAgentOptions: MockAgentOptions;
 };
 
+const defaultSettings = (): ACPSettings => ({
+  debugEnabled: false,
+  killSwitchEnabled: false,
+  relayUrl: null,
+  mockAgentEnabled: false,
+  mockAgentOptions: { ...DEFAULT_MOCK_AGENT_OPTIONS },
+});
+
 export const loadSettings = (): ACPSettings => {
   const raw = localStorage.getItem(SETTINGS_KEY);
+  const defaults = defaultSettings();
   if (!raw) {
-    return { debugEnabled: false, killSwitchEnabled: false };
+    return defaults;
   }
   try {
     const parsed = JSON.parse(raw) as Partial<ACPSettings>;
     return {
-      debugEnabled: parsed.debugEnabled ?? false,
-      killSwitchEnabled: parsed.killSwitchEnabled ?? false,
+      debugEnabled: parsed.debugEnabled ?? defaults.debugEnabled,
+      killSwitchEnabled: parsed.killSwitchEnabled ?? defaults.killSwitchEnabled,
+      relayUrl: parsed.relayUrl ?? defaults.relayUrl,
+      mockAgentEnabled: parsed.mockAgentEnabled ?? defaults.mockAgentEnabled,
+      mockAgentOptions: { ...defaults.mockAgentOptions, ...parsed.mockAgentOptions },
     };
   } catch {
-    return { debugEnabled: false, killSwitchEnabled: false };
+    return defaults;
   }
 };
 
@@ -2,44 +2,212 @@ import {
   ACPMessage,
   AgentAckMessage,
   MESSAGE_CHANNEL,
-  validateMessage,
+  SequencedMessage,
+  isProtocolMessage,
+  parseMessage,
 } from "@shared/schema";
+import { createSequenceTracker } from "@shared/sequence";
+import { UNSIGNED_MESSAGE_TYPES, signMessage, verifyMessage } from "@shared/pairing";
 import { uuidv4 } from "./utils";
 
 type Listener = (message: ACPMessage) => void;
 
 const STORAGE_KEY = "acp:message";
 
+// A channel messages travel over. ACPTransport sends every message on all of its links and
+// merges what they receive; the sequence tracker drops the copies.
+export type TransportLink = {
+  send: (message: SequencedMessage) => void;
+  // `origin` is set when the channel can tell where a message came from (window messages).
+  listen: (receive: (data: unknown, origin: string | null) => void) => () => void;
+  close: () => void;
+};
+
+// Same-origin tabs: BroadcastChannel where available, else window messages plus a localStorage
+// write that other tabs see as a storage event. All three are listened to.
+export const createBrowserLink = (): TransportLink => {
+  const channel = "BroadcastChannel" in window ? new BroadcastChannel(MESSAGE_CHANNEL) : null;
+  return {
+    send: (message) => {
+      if (channel) {
+        channel.postMessage(message);
+        return;
+      }
+      window.postMessage(message, window.location.origin);
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(message));
+      localStorage.removeItem(STORAGE_KEY);
+    },
+    listen: (receive) => {
+      const onChannel = (event: MessageEvent) => receive(event.data, null);
+      const onWindow = (event: MessageEvent) => receive(event.data, event.origin);
+      const onStorage = (event: StorageEvent) => {
+        if (event.key === STORAGE_KEY && event.newValue) {
+          try {
+            receive(JSON.parse(event.newValue), null);
+          } catch {
+            // ignore
+          }
+        }
+      };
+      channel?.addEventListener("message", onChannel);
+      window.addEventListener("message", onWindow);
+      window.addEventListener("storage", onStorage);
+      return () => {
+        channel?.removeEventListener("message", onChannel);
+        window.removeEventListener("message", onWindow);
+        window.removeEventListener("storage", onStorage);
+      };
+    },
+    close: () => channel?.close(),
+  };
+};
+
+export type ACPTransportOptions = {
+  // Defaults to the same-origin browser link.
+  links?: TransportLink[];
+};
+
+// Commands without a targetAgentId go to every agent and share one queue.
+export const BROADCAST_TARGET = "*";
+
+// Lower goes first; commands of equal priority keep their order.
+const COMMAND_PRIORITY: Partial<Record<ACPMessage["type"], number>> = {
+  CONTROL_KILL_SWITCH: 0,
+  CONTROL_STOP_RUN: 1,
+  CONTROL_PAUSE_RUN: 2,
+  CONTROL_RESUME_RUN: 2,
+  CONTROL_STEP_NEXT: 4,
+};
+const DEFAULT_PRIORITY = 3;
+
+// Queued commands for the same run that a newer command makes pointless.
+const SUPERSEDES: Partial<Record<ACPMessage["type"], ACPMessage["type"][]>> = {
+  CONTROL_KILL_SWITCH: ["CONTROL_KILL_SWITCH"],
+  CONTROL_STOP_RUN: [
+    "CONTROL_STOP_RUN",
+    "CONTROL_START_RUN",
+    "CONTROL_PAUSE_RUN",
+    "CONTROL_RESUME_RUN",
+    "CONTROL_STEP_NEXT",
+    "CONTROL_UPDATE_SETTINGS",
+  ],
+  CONTROL_PAUSE_RUN: ["CONTROL_PAUSE_RUN", "CONTROL_RESUME_RUN", "CONTROL_STEP_NEXT"],
+  CONTROL_RESUME_RUN: ["CONTROL_PAUSE_RUN", "CONTROL_RESUME_RUN"],
+  CONTROL_UPDATE_SETTINGS: ["CONTROL_UPDATE_SETTINGS"],
+};
+
+// Rejects commands that were dropped from the queue before being sent.
+export class CommandCancelledError extends Error {
+  constructor(supersededBy: string) {
+    super(`Superseded by ${supersededBy}.`);
+    this.name = "CommandCancelledError";
+  }
+}
+
+export type CommandQueueEntry = {
+  requestId: string;
+  type: ACPMessage["type"];
+  runId: string | null;
+  priority: number;
+  attempts: number;
+};
+
+export type CommandQueueState = {
+  target: string;
+  inFlight: CommandQueueEntry | null;
+  queued: CommandQueueEntry[];
+};
+
+type QueuedCommand = {
+  entry: CommandQueueEntry;
+  target: string;
+  message: ACPMessage;
+  timeoutMs: number;
+  retriesLeft: number;
+  retryTimer: ReturnType<typeof setTimeout> | null;
+  resolve: (value: AgentAckMessage["payload"]) => void;
+  reject: (error: Error) => void;
+};
+
+type CommandQueue = { inFlight: QueuedCommand | null; queued: QueuedCommand[] };
+
+export type RejectedMessage = {
+  at: string;
+  reason: string;
+  type: string | null;
+  senderId: string | null;
+  origin: string | null;
+};
+
+// Rejected messages kept for the diagnostics panel.
+const REJECTION_LOG_SIZE = 50;
+
 export class ACPTransport {
-  private channel: BroadcastChannel | null = null;
+  readonly senderId = uuidv4();
+  private seq = 0;
+  // One message can arrive over several channels, and out of order; gaps are replayed by the agent.
+  private sequence = createSequenceTracker<SequencedMessage>({
+    onGap: (senderId, fromSeq, toSeq) =>
+      this.send({
+        type: "CONTROL_REPLAY",
+        payload: { requestId: this.createRequestId(), targetAgentId: senderId, fromSeq, toSeq },
+      }),
+  });
+  private links = new Map<TransportLink, () => void>();
+  // Window messages from any other origin are rejected; null outside a browser.
+  private origin = typeof window === "undefined" ? null : window.location.origin;
   private listeners = new Set<Listener>();
-  private pending = new Map<
-    string,
-    {
-      resolve: (value: AgentAckMessage["payload"]) => void;
-      reject: (error: Error) => void;
-      retriesLeft: number;
-      message: ACPMessage;
-      timeoutMs: number;
-    }
-  >();
+  private queueListeners = new Set<(state: CommandQueueState[]) => void>();
+  private queues = new Map<string, CommandQueue>();
+  private pending = new Map<string, QueuedCommand>();
+  private pairingKeys = new Map<string, CryptoKey>();
+  // Learned from verified messages, so commands for one agent are signed for its pairing only.
+  private agentPairings = new Map<string, string>();
+  private rejections: RejectedMessage[] = [];
+  private rejectionListeners = new Set<(rejections: RejectedMessage[]) => void>();
+  private expireTimer: ReturnType<typeof setInterval>;
 
-  constructor() {
-    if ("BroadcastChannel" in window) {
-      this.channel = new BroadcastChannel(MESSAGE_CHANNEL);
-      this.channel.onmessage = (event) => this.handleIncoming(event.data);
-    }
-    window.addEventListener("message", (event) => this.handleIncoming(event.data));
-    window.addEventListener("storage", (event) => {
-      if (event.key === STORAGE_KEY && event.newValue) {
-        try {
-          const payload = JSON.parse(event.newValue);
-          this.handleIncoming(payload);
-        } catch {
-          // ignore
+  constructor(options: ACPTransportOptions = {}) {
+    (options.links ?? [createBrowserLink()]).forEach((link) => this.addLink(link));
+    this.expireTimer = setInterval(() => {
+      this.sequence.expire().forEach((message) => this.deliver(message));
+    }, 1000);
+  }
+
+  // Stops the timers, rejects unacknowledged commands and closes every link. The transport
+  // sends and receives nothing afterwards.
+  close() {
+    clearInterval(this.expireTimer);
+    this.queues.forEach((queue) => {
+      [queue.inFlight, ...queue.queued].forEach((command) => {
+        if (command) {
+          clearTimeout(command.retryTimer ?? undefined);
+          command.reject(new Error("Transport closed."));
         }
-      }
+      });
     });
+    this.queues.clear();
+    this.pending.clear();
+    Array.from(this.links.keys()).forEach((link) => this.removeLink(link));
+  }
+
+  // Returns a function that detaches and closes the link.
+  addLink(link: TransportLink) {
+    this.links.set(
+      link,
+      link.listen((data, origin) => void this.handleIncoming(data, origin)),
+    );
+    return () => this.removeLink(link);
+  }
+
+  removeLink(link: TransportLink) {
+    const unlisten = this.links.get(link);
+    if (!unlisten) {
+      return;
+    }
+    unlisten();
+    link.close();
+    this.links.delete(link);
   }
 
   subscribe(listener: Listener) {
@@ -47,43 +215,182 @@ export class ACPTransport {
     return () => this.listeners.delete(listener);
   }
 
+  subscribeQueue(listener: (state: CommandQueueState[]) => void) {
+    this.queueListeners.add(listener);
+    listener(this.getQueueState());
+    return () => this.queueListeners.delete(listener);
+  }
+
+  getQueueState(): CommandQueueState[] {
+    return Array.from(this.queues.entries()).map(([target, queue]) => ({
+      target,
+      inFlight: queue.inFlight ? { ...queue.inFlight.entry } : null,
+      queued: queue.queued.map((command) => ({ ...command.entry })),
+    }));
+  }
+
+  setPairingKey(pairingId: string, key: CryptoKey) {
+    this.pairingKeys.set(pairingId, key);
+  }
+
+  removePairing(pairingId: string) {
+    this.pairingKeys.delete(pairingId);
+    this.agentPairings.forEach((value, agentId) => {
+      if (value === pairingId) {
+        this.agentPairings.delete(agentId);
+      }
+    });
+  }
+
+  hasPairings() {
+    return this.pairingKeys.size > 0;
+  }
+
+  subscribeRejections(listener: (rejections: RejectedMessage[]) => void) {
+    this.rejectionListeners.add(listener);
+    listener(this.rejections);
+    return () => this.rejectionListeners.delete(listener);
+  }
+
+  reportRejection(reason: string, message: unknown, origin: string | null = null) {
+    const fields = (typeof message === "object" && message ? message : {}) as Record<string, unknown>;
+    const rejection: RejectedMessage = {
+      at: new Date().toISOString(),
+      reason,
+      type: typeof fields.type === "string" ? fields.type : null,
+      senderId: typeof fields.senderId === "string" ? fields.senderId : null,
+      origin,
+    };
+    this.rejections = [rejection, ...this.rejections].slice(0, REJECTION_LOG_SIZE);
+    this.rejectionListeners.forEach((listener) => listener(this.rejections));
+  }
+
+  // Pairing messages go out as they are; everything else is signed once per pairing (or only
+  // for the target agent's pairing), and agents ignore copies signed for another pairing.
   send(message: ACPMessage) {
-    if (this.channel) {
-      this.channel.postMessage(message);
+    this.seq += 1;
+    const sequenced: SequencedMessage = { ...message, senderId: this.senderId, seq: this.seq };
+    if (UNSIGNED_MESSAGE_TYPES.includes(message.type)) {
+      this.post(sequenced);
       return;
     }
-    window.postMessage(message, "*");
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(message));
-    localStorage.removeItem(STORAGE_KEY);
+    const target = this.extractField(message, "targetAgentId");
+    const targetPairing = target ? this.agentPairings.get(target) : undefined;
+    this.pairingKeys.forEach((key, pairingId) => {
+      if (!targetPairing || targetPairing === pairingId) {
+        void signMessage(key, pairingId, sequenced).then((signed) => this.post(signed));
+      }
+    });
   }
 
+  private post(message: SequencedMessage) {
+    this.links.forEach((_, link) => link.send(message));
+  }
+
+  // Queues a command for its target agent; each target has one command awaiting an ACK at a time.
   sendCommand(message: ACPMessage, timeoutMs = 4000, retries = 2) {
-    const requestId = this.extractRequestId(message);
+    const requestId = this.extractField(message, "requestId");
     if (!requestId) {
       return Promise.reject(new Error("Command messages must include a requestId."));
     }
-    if (this.pending.size >= 1) {
-      return Promise.reject(new Error("Another command is already in flight."));
+    if (!this.hasPairings() && !UNSIGNED_MESSAGE_TYPES.includes(message.type)) {
+      return Promise.reject(new Error("No agent is paired. Pair one in Settings first."));
     }
+    const target = this.extractField(message, "targetAgentId") ?? BROADCAST_TARGET;
+    const runId = this.extractField(message, "runId");
     return new Promise<AgentAckMessage["payload"]>((resolve, reject) => {
-      this.pending.set(requestId, { resolve, reject, retriesLeft: retries, message, timeoutMs });
-      this.dispatchWithRetry(requestId);
+      this.cancelSuperseded(message.type, runId);
+      const command: QueuedCommand = {
+        entry: {
+          requestId,
+          type: message.type,
+          runId,
+          priority: COMMAND_PRIORITY[message.type] ?? DEFAULT_PRIORITY,
+          attempts: 0,
+        },
+        target,
+        message,
+        timeoutMs,
+        retriesLeft: retries,
+        retryTimer: null,
+        resolve,
+        reject,
+      };
+      const queue = this.getQueue(target);
+      const index = queue.queued.findIndex(
+        (queued) => queued.entry.priority > command.entry.priority,
+      );
+      queue.queued.splice(index < 0 ? queue.queued.length : index, 0, command);
+      this.pump(target);
     });
   }
 
+  createRequestId() {
+    return uuidv4();
+  }
+
+  private getQueue(target: string) {
+    let queue = this.queues.get(target);
+    if (!queue) {
+      queue = { inFlight: null, queued: [] };
+      this.queues.set(target, queue);
+    }
+    return queue;
+  }
+
+  private cancelSuperseded(type: ACPMessage["type"], runId: string | null) {
+    const superseded = SUPERSEDES[type] ?? [];
+    this.queues.forEach((queue) => {
+      queue.queued = queue.queued.filter((command) => {
+        if (command.entry.runId !== runId || !superseded.includes(command.entry.type)) {
+          return true;
+        }
+        command.reject(new CommandCancelledError(type));
+        return false;
+      });
+    });
+  }
+
+  private pump(target: string) {
+    const queue = this.getQueue(target);
+    if (!queue.inFlight) {
+      const next = queue.queued.shift();
+      if (next) {
+        queue.inFlight = next;
+        this.pending.set(next.entry.requestId, next);
+        this.dispatchWithRetry(next.entry.requestId);
+      } else {
+        this.queues.delete(target);
+      }
+    }
+    this.notifyQueue();
+  }
+
+  private finish(command: QueuedCommand) {
+    clearTimeout(command.retryTimer ?? undefined);
+    this.pending.delete(command.entry.requestId);
+    const queue = this.queues.get(command.target);
+    if (queue?.inFlight === command) {
+      queue.inFlight = null;
+    }
+    this.pump(command.target);
+  }
+
   private dispatchWithRetry(requestId: string) {
     const entry = this.pending.get(requestId);
     if (!entry) {
       return;
     }
+    entry.entry.attempts += 1;
     this.send(entry.message);
-    window.setTimeout(() => {
+    this.notifyQueue();
+    entry.retryTimer = setTimeout(() => {
       const current = this.pending.get(requestId);
       if (!current) {
         return;
       }
       if (current.retriesLeft <= 0) {
-        this.pending.delete(requestId);
+        this.finish(current);
         current.reject(new Error("No ACK received from agent."));
         return;
       }
@@ -92,28 +399,64 @@ export class ACPTransport {
     }, entry.timeoutMs);
   }
 
-  createRequestId() {
-    return uuidv4();
+  private notifyQueue() {
+    const state = this.getQueueState();
+    this.queueListeners.forEach((listener) => listener(state));
   }
 
-  private handleIncoming(message: unknown) {
-    if (!validateMessage(message)) {
+  private async handleIncoming(input: unknown, origin: string | null = null) {
+    const parsed = parseMessage(input);
+    if (!parsed.ok) {
+      if (isProtocolMessage(input)) {
+        this.reportRejection(`Invalid message (${parsed.error})`, input, origin);
+      }
+      return;
+    }
+    const { message } = parsed;
+    // window.postMessage also delivers our own messages back to us.
+    if (message.senderId === this.senderId) {
+      return;
+    }
+    // BroadcastChannel and storage events are same-origin by design; window messages are not.
+    if (origin !== null && origin !== this.origin) {
+      this.reportRejection("Message from another origin", message, origin);
       return;
     }
+    if (!UNSIGNED_MESSAGE_TYPES.includes(message.type)) {
+      const key = message.pairingId ? this.pairingKeys.get(message.pairingId) : undefined;
+      if (!key || !message.pairingId) {
+        this.reportRejection(
+          message.signature ? "Signed for an unknown pairing" : "Unsigned message",
+          message,
+          origin,
+        );
+        return;
+      }
+      // The signature covers the payload as sent, including fields this panel does not know.
+      if (!(await verifyMessage(key, input as SequencedMessage))) {
+        this.reportRejection("Bad signature", message, origin);
+        return;
+      }
+      this.agentPairings.set(message.senderId, message.pairingId);
+    }
+    this.sequence.accept(message).forEach((ready) => this.deliver(ready));
+  }
+
+  private deliver(message: SequencedMessage) {
     if (message.type === "AGENT_ACK") {
       const pending = this.pending.get(message.payload.requestId);
       if (pending) {
-        this.pending.delete(message.payload.requestId);
+        this.finish(pending);
         pending.resolve(message.payload);
       }
     }
     this.listeners.forEach((listener) => listener(message));
   }
 
-  private extractRequestId(message: ACPMessage) {
+  private extractField(message: ACPMessage, key: "requestId" | "targetAgentId" | "runId") {
     if ("payload" in message && typeof message.payload === "object" && message.payload) {
-      const payload = message.payload as { requestId?: string };
-      return payload.requestId ?? null;
+      const value = (message.payload as Record<string, unknown>)[key];
+      return typeof value === "string" ? value : null;
     }
     return null;
   }
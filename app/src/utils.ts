@@ -14,3 +14,24 @@ export const formatTimestamp = (value: string) =>
   new Date(value).toLocaleString();
 
 export const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Parses 1-based row numbers such as "2, 5-8" into sorted, unique 0-based indexes.
+export const parseRowSelection = (text: string, rowCount: number) => {
+  const indexes = new Set<number>();
+  text
+    .split(",")
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .forEach((part) => {
+      const match = /^(\d+)(?:\s*-\s*(\d+))?$/.exec(part);
+      const start = Number(match?.[1]);
+      const end = Number(match?.[2] ?? match?.[1]);
+      if (!match || start < 1 || end < start || end > rowCount) {
+        throw new Error(`"${part}" is not a row number between 1 and ${rowCount}.`);
+      }
+      for (let row = start; row <= end; row += 1) {
+        indexes.add(row - 1);
+      }
+    });
+  return Array.from(indexes).sort((a, b) => a - b);
+};
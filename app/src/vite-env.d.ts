@@ -0,0 +1,2 @@
+// The panel's package.json version, injected by vite.config.ts.
+declare const __APP_VERSION__: string;
@@ -0,0 +1,93 @@
+import type { SequencedMessage } from "@shared/schema";
+import type { TransportLink } from "./transport";
+
+export type RelayStatus = "connecting" | "open" | "closed";
+
+export type WebSocketLinkOptions = {
+  // Defaults to the browser WebSocket; Node callers pass the `ws` package's client.
+  WebSocketImpl?: typeof WebSocket;
+  // First reconnect delay; doubles up to 30 seconds while the relay stays down.
+  reconnectMs?: number;
+  onStatus?: (status: RelayStatus) => void;
+};
+
+const MAX_RECONNECT_MS = 30_000;
+// Messages sent while the socket is down wait here; the oldest are dropped past this.
+const MAX_QUEUED = 500;
+
+// Links the transport to agents outside this browser through the local relay (`npm run relay`).
+export const createWebSocketLink = (
+  url: string,
+  { WebSocketImpl = WebSocket, reconnectMs = 1000, onStatus }: WebSocketLinkOptions = {},
+): TransportLink => {
+  const receivers = new Set<(data: unknown, origin: string | null) => void>();
+  const queue: string[] = [];
+  let socket: WebSocket | null = null;
+  let retryMs = reconnectMs;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let closed = false;
+
+  const connect = () => {
+    onStatus?.("connecting");
+    const current = new WebSocketImpl(url);
+    socket = current;
+    current.onopen = () => {
+      retryMs = reconnectMs;
+      onStatus?.("open");
+      queue.splice(0).forEach((data) => current.send(data));
+    };
+    current.onmessage = (event) => {
+      if (typeof event.data !== "string") {
+        return;
+      }
+      try {
+        const data: unknown = JSON.parse(event.data);
+        receivers.forEach((receive) => receive(data, null));
+      } catch {
+        // ignore
+      }
+    };
+    current.onerror = () => {};
+    current.onclose = () => {
+      if (socket !== current) {
+        return;
+      }
+      socket = null;
+      onStatus?.("closed");
+      if (!closed) {
+        retryTimer = setTimeout(connect, retryMs);
+        retryMs = Math.min(retryMs * 2, MAX_RECONNECT_MS);
+      }
+    };
+  };
+
+  connect();
+
+  return {
+    send: (message: SequencedMessage) => {
+      const data = JSON.stringify(message);
+      if (socket?.readyState === WebSocketImpl.OPEN) {
+        socket.send(data);
+        return;
+      }
+      queue.push(data);
+      if (queue.length > MAX_QUEUED) {
+        queue.shift();
+      }
+    },
+    listen: (receive) => {
+      receivers.add(receive);
+      return () => receivers.delete(receive);
+    },
+    close: () => {
+      closed = true;
+      if (retryTimer) {
+        clearTimeout(retryTimer);
+      }
+      const current = socket;
+      socket = null;
+      current?.close();
+      onStatus?.("closed");
+    },
+  };
+};
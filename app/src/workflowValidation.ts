@@ -0,0 +1,41 @@
+import type { WorkflowDefinition, WorkflowStep } from "@shared/schema";
+import { controlFlowErrors, flattenSteps } from "@shared/steps";
+import { callWorkflowErrors } from "@shared/subworkflows";
+import { WorkflowStepSchema } from "@shared/validators";
+
+// Nested steps are checked on their own, so their problems are not repeated on the block.
+const NESTED_FIELDS = new Set(["then", "else", "steps"]);
+
+// The first problem with each field of the step, keyed by field name.
+export const stepFieldErrors = (step: WorkflowStep) => {
+  const result = WorkflowStepSchema.safeParse(step);
+  const errors: Record<string, string> = {};
+  if (!result.success) {
+    result.error.issues.forEach((issue) => {
+      const field = String(issue.path[0] ?? "step");
+      if (NESTED_FIELDS.has(field)) {
+        return;
+      }
+      errors[field] = errors[field] ?? issue.message;
+    });
+  }
+  return errors;
+};
+
+// Steps are numbered in document order, nested ones included, as in run logs. Calls are
+// checked against `library`, the saved workflows.
+export const validateWorkflowSteps = (
+  workflow: WorkflowDefinition,
+  library: WorkflowDefinition[] = [],
+) => {
+  const problems = [
+    ...flattenSteps(workflow.steps).flatMap((step, index) =>
+      Object.entries(stepFieldErrors(step)).map(
+        ([field, message]) => `step ${index + 1} (${step.type}) ${field}: ${message}`,
+      ),
+    ),
+    ...controlFlowErrors(workflow.steps),
+    ...callWorkflowErrors(workflow, library),
+  ];
+  return problems.length > 0 ? problems.join("; ") : null;
+};
@@ -1,10 +1,16 @@
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react";
 import path from "node:path";
+import { readFileSync } from "node:fs";
+
+const packageJson = JSON.parse(readFileSync(path.resolve(__dirname, "../package.json"), "utf8"));
 
 export default defineConfig({
   root: path.resolve(__dirname),
   plugins: [react()],
+  define: {
+    __APP_VERSION__: JSON.stringify(packageJson.version),
+  },
   resolve: {
     alias: {
       "@shared": path.resolve(__dirname, "../shared"),
@@ -0,0 +1,315 @@
+// Headless runner: npm run acp -- run --workflow wf.json --csv rows.csv [options]
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { WebSocket } from "ws";
+import { type ZodTypeAny, z } from "zod";
+import { decodeCsvBytes, formatCsvError, parseCsv, serializeCsv } from "@shared/csv";
+import { importPairingKey } from "@shared/pairing";
+import type { RunSettings } from "@shared/schema";
+import { RunSettingsSchema, WorkflowDefinitionSchema } from "@shared/validators";
+import { migrateWorkflowData } from "@shared/stepMigration";
+import { controlFlowErrors } from "@shared/steps";
+import { callWorkflowErrors, calledWorkflows } from "@shared/subworkflows";
+import { ACPTransport } from "../app/src/transport";
+import { createWebSocketLink } from "../app/src/webSocketLink";
+import { startPairing } from "../app/src/pairing";
+import type { StoredPairing } from "../app/src/storage/pairings";
+import { createDefaultSettings, createJob } from "../app/src/state";
+import {
+  groupFailures,
+  runOutputNames,
+  runReportFileName,
+  runReportHeaders,
+  runReportJson,
+  toReportRow,
+} from "../app/src/runReport";
+import { HeadlessRunError, runExitCode, runHeadless } from "./runner";
+
+// Exit codes besides the run outcome (0 all rows succeeded, 1 the run failed).
+const EXIT_USAGE = 2;
+const EXIT_NO_AGENT = 3;
+const EXIT_INTERRUPTED = 130;
+
+const USAGE = `Usage:
+  acp pair [--relay URL] [--pairing FILE]
+  acp run --workflow FILE --csv FILE [options]
+
+Options:
+  --relay URL        Relay to connect to (default ws://127.0.0.1:8787)
+  --pairing FILE     Pairing key file written by "acp pair" (default acp-pairing.json)
+  --workflows FILE   JSON array of the workflows call_workflow steps run
+  --agent ID         Run on this agent only
+  --settings FILE    Run settings JSON; missing fields use the panel defaults
+  --best-effort      Keep going after a failed row
+  --dry-run          Resolve templates without touching the page
+  --out DIR          Where the run report is written (default .)
+  --wait SECONDS     How long to wait for an agent (default 30)`;
+
+class UsageError extends Error {}
+
+type Args = { command: string; flags: Map<string, string | true> };
+
+const BOOLEAN_FLAGS = ["best-effort", "dry-run", "help"];
+
+const parseArgs = (argv: string[]): Args => {
+  const [command = "help", ...rest] = argv;
+  const flags = new Map<string, string | true>();
+  for (let index = 0; index < rest.length; index += 1) {
+    const arg = rest[index] ?? "";
+    if (!arg.startsWith("--")) {
+      throw new UsageError(`Unexpected argument: ${arg}`);
+    }
+    const name = arg.slice(2);
+    if (BOOLEAN_FLAGS.includes(name)) {
+      flags.set(name, true);
+      continue;
+    }
+    const value = rest[index + 1];
+    if (value === undefined || value.startsWith("--")) {
+      throw new UsageError(`--${name} needs a value`);
+    }
+    flags.set(name, value);
+    index += 1;
+  }
+  return { command, flags };
+};
+
+const stringFlag = (args: Args, name: string, fallback?: string) => {
+  const value = args.flags.get(name);
+  if (typeof value === "string") {
+    return value;
+  }
+  if (fallback === undefined) {
+    throw new UsageError(`--${name} is required`);
+  }
+  return fallback;
+};
+
+// npm scripts run from the package root; paths are relative to where the command was typed.
+const resolvePath = (file: string) => path.resolve(process.env.INIT_CWD ?? process.cwd(), file);
+
+const readJson = (file: string, label: string): unknown => {
+  try {
+    return JSON.parse(readFileSync(resolvePath(file), "utf8"));
+  } catch (error) {
+    throw new UsageError(`Cannot read ${label} ${file}: ${(error as Error).message}`);
+  }
+};
+
+const validate = <S extends ZodTypeAny>(
+  schema: S,
+  data: unknown,
+  file: string,
+  label: string,
+): z.infer<S> => {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new UsageError(
+      `Invalid ${label} ${file}: ${issue ? `${issue.path.join(".") || label}: ${issue.message}` : ""}`,
+    );
+  }
+  return result.data;
+};
+
+const readCsv = (file: string) => {
+  let bytes: Buffer;
+  try {
+    bytes = readFileSync(resolvePath(file));
+  } catch (error) {
+    throw new UsageError(`Cannot read CSV ${file}: ${(error as Error).message}`);
+  }
+  const { text, encoding, bom } = decodeCsvBytes(bytes);
+  const parsed = parseCsv(text, { encoding, bom });
+  if (parsed.errors.length > 0) {
+    throw new UsageError(
+      `Invalid CSV ${file}:\n${parsed.errors.slice(0, 10).map(formatCsvError).join("\n")}`,
+    );
+  }
+  return parsed;
+};
+
+const StoredPairingSchema = z.object({
+  pairingId: z.string().min(1),
+  site: z.string(),
+  key: z.record(z.unknown()),
+  createdAt: z.string(),
+});
+
+const connect = (args: Args) => {
+  const url = stringFlag(args, "relay", "ws://127.0.0.1:8787");
+  const link = createWebSocketLink(url, {
+    WebSocketImpl: WebSocket as unknown as typeof globalThis.WebSocket,
+  });
+  const transport = new ACPTransport({ links: [link] });
+  return { transport, close: () => transport.close() };
+};
+
+const pair = async (args: Args) => {
+  const file = stringFlag(args, "pairing", "acp-pairing.json");
+  const { transport, close } = connect(args);
+  try {
+    const session = await startPairing(transport);
+    console.log(`Pairing code: ${session.code}`);
+    console.log("Enter it in the agent tab when the userscript asks for it.");
+    const pairing = await session.done;
+    writeFileSync(resolvePath(file), `${JSON.stringify(pairing, null, 2)}\n`, { mode: 0o600 });
+    console.log(`Paired with ${pairing.site}; key saved to ${file}`);
+    return 0;
+  } finally {
+    close();
+  }
+};
+
+const run = async (args: Args) => {
+  const workflowFile = stringFlag(args, "workflow");
+  const csvFile = stringFlag(args, "csv");
+  const pairingFile = stringFlag(args, "pairing", "acp-pairing.json");
+  // Workflow files saved before typed steps or condition expressions are converted first.
+  const workflow = validate(
+    WorkflowDefinitionSchema,
+    migrateWorkflowData(readJson(workflowFile, "workflow"), "invalid"),
+    workflowFile,
+    "workflow",
+  );
+  const libraryFile = args.flags.has("workflows") ? stringFlag(args, "workflows") : null;
+  const libraryData = libraryFile ? readJson(libraryFile, "workflows") : [];
+  const library = validate(
+    z.array(WorkflowDefinitionSchema),
+    Array.isArray(libraryData)
+      ? libraryData.map((item) => migrateWorkflowData(item, "invalid"))
+      : libraryData,
+    libraryFile ?? "",
+    "workflows",
+  );
+  const flowErrors = [
+    ...controlFlowErrors(workflow.steps),
+    ...callWorkflowErrors(workflow, library),
+  ];
+  if (flowErrors.length > 0) {
+    throw new UsageError(`Invalid workflow ${workflowFile}: ${flowErrors.join("; ")}`);
+  }
+  const settingsFile = args.flags.has("settings") ? stringFlag(args, "settings") : null;
+  const overrides = settingsFile
+    ? validate(z.record(z.unknown()), readJson(settingsFile, "settings"), settingsFile, "settings")
+    : {};
+  const settings: RunSettings = validate(
+    RunSettingsSchema,
+    { ...createDefaultSettings(), ...overrides },
+    settingsFile ?? "",
+    "settings",
+  );
+  if (args.flags.has("best-effort")) {
+    settings.bestEffort = true;
+  }
+  if (args.flags.has("dry-run")) {
+    settings.dryRun = true;
+  }
+  const waitSeconds = Number(stringFlag(args, "wait", "30"));
+  if (!Number.isFinite(waitSeconds) || waitSeconds <= 0) {
+    throw new UsageError("--wait must be a positive number of seconds");
+  }
+  const csv = readCsv(csvFile);
+  if (!existsSync(resolvePath(pairingFile))) {
+    console.error(`No pairing key at ${pairingFile}. Run "acp pair" first.`);
+    return EXIT_NO_AGENT;
+  }
+  const pairing: StoredPairing = validate(
+    StoredPairingSchema,
+    readJson(pairingFile, "pairing"),
+    pairingFile,
+    "pairing",
+  );
+  const job = createJob(
+    path.basename(csvFile, path.extname(csvFile)),
+    workflow.id,
+    path.basename(csvFile),
+    csv.headers,
+    csv.rows.length,
+    csv.dialect,
+  );
+
+  const { transport, close } = connect(args);
+  transport.setPairingKey(pairing.pairingId, await importPairingKey(pairing.key));
+  const abort = new AbortController();
+  let interrupted = false;
+  const onSignal = () => {
+    if (interrupted) {
+      process.exit(EXIT_INTERRUPTED);
+    }
+    interrupted = true;
+    console.error("Stopping the run (press Ctrl+C again to quit at once)…");
+    abort.abort();
+  };
+  process.on("SIGINT", onSignal);
+  process.on("SIGTERM", onSignal);
+
+  try {
+    const result = await runHeadless({
+      transport,
+      workflow,
+      calledWorkflows: calledWorkflows(workflow, library),
+      job,
+      rows: csv.rows,
+      settings,
+      agentId: args.flags.has("agent") ? stringFlag(args, "agent") : undefined,
+      agentWaitMs: waitSeconds * 1000,
+      signal: abort.signal,
+      onLog: (log) =>
+        console.log(
+          `${log.timestamp} ${log.level.toUpperCase()} row ${log.rowIndex} step ${log.stepPath ?? log.stepIndex}: ${log.message}`,
+        ),
+    });
+    const { run: finishedRun } = result;
+    const resultsByRow = new Map(finishedRun.rowResults.map((item) => [item.rowIndex, item]));
+    const headers = runReportHeaders(job, runOutputNames(resultsByRow.values()));
+    const reportRows = csv.rows.map((row, index) =>
+      toReportRow(index, row, resultsByRow.get(index)),
+    );
+    const outDir = resolvePath(stringFlag(args, "out", "."));
+    const csvPath = path.join(outDir, runReportFileName(finishedRun, "csv"));
+    const jsonPath = path.join(outDir, runReportFileName(finishedRun, "json"));
+    writeFileSync(csvPath, serializeCsv(headers, reportRows));
+    writeFileSync(
+      jsonPath,
+      runReportJson(finishedRun, job, reportRows, groupFailures(resultsByRow.values())),
+    );
+    console.log(
+      `Run ${finishedRun.status} on agent ${result.agentId}: ${finishedRun.successCount} succeeded, ${finishedRun.failureCount} failed of ${job.rowCount}.`,
+    );
+    console.log(`Report: ${csvPath}\n        ${jsonPath}`);
+    return interrupted ? EXIT_INTERRUPTED : runExitCode(finishedRun);
+  } catch (error) {
+    if (error instanceof HeadlessRunError) {
+      console.error(error.message);
+      return interrupted ? EXIT_INTERRUPTED : EXIT_NO_AGENT;
+    }
+    throw error;
+  } finally {
+    process.off("SIGINT", onSignal);
+    process.off("SIGTERM", onSignal);
+    close();
+  }
+};
+
+const main = async (argv: string[]) => {
+  try {
+    const args = parseArgs(argv);
+    if (args.command === "run") {
+      return await run(args);
+    }
+    if (args.command === "pair") {
+      return await pair(args);
+    }
+    console.log(USAGE);
+    return args.command === "help" || args.flags.has("help") ? 0 : EXIT_USAGE;
+  } catch (error) {
+    if (error instanceof UsageError) {
+      console.error(`${error.message}\n\n${USAGE}`);
+      return EXIT_USAGE;
+    }
+    throw error;
+  }
+};
+
+process.exitCode = await main(process.argv.slice(2));
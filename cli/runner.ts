@@ -0,0 +1,318 @@
+import type { ACPMessage, CsvRow, RunSettings, WorkflowDefinition } from "@shared/schema";
+import {
+  PROTOCOL_VERSION,
+  RUN_ROW_PAGE_SIZE,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  assessAgent,
+  missingStepTypes,
+} from "@shared/protocol";
+import { prepareRowsForRun } from "@shared/similarity";
+import {
+  conditionsForProtocol,
+  unsupportedConditions,
+  workflowForProtocol,
+} from "@shared/stepMigration";
+import type { ACPTransport } from "../app/src/transport";
+import { AGENT_OFFLINE_MS } from "../app/src/agentPool";
+import {
+  type Job,
+  type RowResult,
+  type Run,
+  type RunLog,
+  createRun,
+  getLastCompletedRow,
+} from "../app/src/state";
+
+// Raised when the run cannot start; the message is meant for the terminal.
+export class HeadlessRunError extends Error {}
+
+export type HeadlessRunOptions = {
+  transport: ACPTransport;
+  workflow: WorkflowDefinition;
+  // The workflows its call_workflow steps reach (see calledWorkflows).
+  calledWorkflows?: WorkflowDefinition[];
+  job: Job;
+  rows: CsvRow[];
+  settings: RunSettings;
+  // Only this agent is used; otherwise the first idle agent that can run the workflow.
+  agentId?: string;
+  // How long to wait for a suitable agent to answer the hello.
+  agentWaitMs?: number;
+  onLog?: (log: RunLog) => void;
+  // Aborting stops the run on the agent; the result then has status "stopped".
+  signal?: AbortSignal;
+};
+
+export type HeadlessRunResult = {
+  run: Run;
+  agentId: string;
+};
+
+const PING_INTERVAL_MS = 5000;
+
+const FINAL_STATUSES: Run["status"][] = ["complete", "stopped", "error"];
+
+// Sends hellos until an agent that can execute the workflow answers.
+const findAgent = (
+  transport: ACPTransport,
+  workflow: WorkflowDefinition,
+  called: WorkflowDefinition[],
+  agentId: string | undefined,
+  waitMs: number,
+  signal: AbortSignal | undefined,
+) =>
+  new Promise<{ agentId: string; protocolVersion: string }>((resolve, reject) => {
+    const skipped = new Map<string, string>();
+    const sendHello = () =>
+      transport.send({
+        type: "CONTROL_HELLO",
+        payload: {
+          requestId: transport.createRequestId(),
+          appVersion: __APP_VERSION__,
+          protocolVersion: PROTOCOL_VERSION,
+          supportedProtocolVersions: SUPPORTED_PROTOCOL_VERSIONS,
+        },
+      });
+    const finish = () => {
+      clearInterval(interval);
+      clearTimeout(timeout);
+      unsubscribe();
+      signal?.removeEventListener("abort", cancel);
+    };
+    const cancel = () => {
+      finish();
+      reject(new HeadlessRunError("Interrupted while waiting for an agent."));
+    };
+    const unsubscribe = transport.subscribe((message) => {
+      if (message.type !== "AGENT_HELLO") {
+        return;
+      }
+      const hello = message.payload;
+      if (agentId && hello.agentId !== agentId) {
+        return;
+      }
+      const compatibility = assessAgent(hello);
+      const missing = missingStepTypes(workflow, compatibility.capabilities, called);
+      const conditions = unsupportedConditions(
+        [workflow, ...called],
+        compatibility.protocolVersion,
+      );
+      if (!compatibility.protocolVersion) {
+        skipped.set(hello.agentId, compatibility.warning ?? "incompatible");
+      } else if (missing.length > 0) {
+        skipped.set(hello.agentId, `cannot execute ${missing.join(", ")}`);
+      } else if (conditions.length > 0) {
+        const quoted = conditions.map((condition) => `conditional "${condition}"`).join(", ");
+        skipped.set(hello.agentId, `cannot check ${quoted}`);
+      } else if (hello.runId) {
+        skipped.set(hello.agentId, `busy with run ${hello.runId}`);
+      } else {
+        finish();
+        resolve({ agentId: hello.agentId, protocolVersion: compatibility.protocolVersion });
+      }
+    });
+    const interval = setInterval(sendHello, PING_INTERVAL_MS);
+    const timeout = setTimeout(() => {
+      finish();
+      const reasons = Array.from(skipped, ([id, reason]) => `\n  ${id}: ${reason}`).join("");
+      reject(
+        new HeadlessRunError(
+          `No ${agentId ? `agent ${agentId}` : "suitable agent"} answered within ${waitMs / 1000}s.${reasons}`,
+        ),
+      );
+    }, waitMs);
+    signal?.addEventListener("abort", cancel);
+    sendHello();
+  });
+
+// Runs a job on one agent, the way a single-agent run from the panel does, and resolves
+// once the agent reports the run finished.
+export const runHeadless = async ({
+  transport,
+  workflow,
+  calledWorkflows = [],
+  job,
+  rows,
+  settings,
+  agentId: requestedAgentId,
+  agentWaitMs = 30000,
+  onLog,
+  signal,
+}: HeadlessRunOptions): Promise<HeadlessRunResult> => {
+  const { agentId, protocolVersion } = await findAgent(
+    transport,
+    workflow,
+    calledWorkflows,
+    requestedAgentId,
+    agentWaitMs,
+    signal,
+  );
+  const prepared = prepareRowsForRun(rows);
+  let run: Run = {
+    ...createRun(job.id, { ...settings, concurrency: 1 }, job.revision),
+    status: "running",
+  };
+  const update = (changes: Partial<Run>) => {
+    run = { ...run, ...changes, updatedAt: new Date().toISOString() };
+  };
+  let lastSeenAt = Date.now();
+  let abandon = () => {};
+
+  const finished = new Promise<void>((resolve) => {
+    const finish = (changes: Partial<Run>) => {
+      update(changes);
+      clearInterval(ping);
+      unsubscribe();
+      signal?.removeEventListener("abort", stop);
+      resolve();
+    };
+
+    const unsubscribe = transport.subscribe((message) => {
+      if (!("agentId" in message.payload) || message.payload.agentId !== agentId) {
+        return;
+      }
+      lastSeenAt = Date.now();
+      if (!("runId" in message.payload) || message.payload.runId !== run.id) {
+        return;
+      }
+      switch (message.type) {
+        case "AGENT_REQUEST_ROWS": {
+          const { requestId, offset, limit } = message.payload;
+          transport.send({
+            type: "CONTROL_ROWS",
+            payload: {
+              requestId,
+              targetAgentId: agentId,
+              runId: run.id,
+              offset,
+              rows: prepared.slice(offset, offset + Math.min(limit, RUN_ROW_PAGE_SIZE)),
+            },
+          });
+          break;
+        }
+        case "AGENT_LOG": {
+          const log: RunLog = {
+            id: `${run.id}-${agentId}-${message.payload.rowIndex}-${message.payload.stepPath ?? message.payload.stepIndex}-${message.payload.timestamp}`,
+            runId: run.id,
+            agentId,
+            rowIndex: message.payload.rowIndex,
+            stepIndex: message.payload.stepIndex,
+            stepPath: message.payload.stepPath,
+            level: message.payload.level,
+            message: message.payload.message,
+            timestamp: message.payload.timestamp,
+          };
+          update({ logs: [log, ...run.logs], currentStepIndex: log.stepIndex + 1 });
+          onLog?.(log);
+          break;
+        }
+        case "AGENT_ROW_RESULT": {
+          const result: RowResult = {
+            runId: run.id,
+            rowIndex: message.payload.rowIndex,
+            status: message.payload.status,
+            error: message.payload.error,
+            artifacts: message.payload.artifacts,
+            durationMs: message.payload.durationMs,
+            outputs: message.payload.outputs,
+            failure: message.payload.failure,
+          };
+          const rowResults = [
+            result,
+            ...run.rowResults.filter((item) => item.rowIndex !== result.rowIndex),
+          ];
+          update({
+            rowResults,
+            lastCompletedRow: getLastCompletedRow(rowResults),
+            successCount: rowResults.filter((item) => item.status === "success").length,
+            failureCount: rowResults.filter((item) => item.status === "failed").length,
+          });
+          break;
+        }
+        case "AGENT_STATUS": {
+          const changes = {
+            status: message.payload.status,
+            currentRowIndex: message.payload.currentRowIndex,
+          };
+          if (FINAL_STATUSES.includes(message.payload.status)) {
+            finish(changes);
+          } else {
+            update(changes);
+          }
+          break;
+        }
+        default:
+          break;
+      }
+    });
+
+    const ping = setInterval(() => {
+      if (Date.now() - lastSeenAt > AGENT_OFFLINE_MS) {
+        onLog?.({
+          id: `${run.id}-offline`,
+          runId: run.id,
+          agentId,
+          rowIndex: run.currentRowIndex,
+          stepIndex: run.currentStepIndex,
+          level: "error",
+          message: `Agent stopped answering for ${AGENT_OFFLINE_MS / 1000}s`,
+          timestamp: new Date().toISOString(),
+        });
+        finish({ status: "error" });
+        return;
+      }
+      transport.send({ type: "CONTROL_PING", payload: { requestId: transport.createRequestId() } });
+    }, PING_INTERVAL_MS);
+
+    const stop = () => {
+      void transport
+        .sendCommand({
+          type: "CONTROL_STOP_RUN",
+          payload: {
+            requestId: transport.createRequestId(),
+            runId: run.id,
+            targetAgentId: agentId,
+          },
+        })
+        .catch(() => finish({ status: "stopped" }));
+    };
+    signal?.addEventListener("abort", stop);
+    abandon = () => finish({ status: "error" });
+  });
+
+  try {
+    const start: ACPMessage = {
+      type: "CONTROL_START_RUN",
+      payload: {
+        requestId: transport.createRequestId(),
+        targetAgentId: agentId,
+        runId: run.id,
+        jobId: job.id,
+        workflow: workflowForProtocol(workflow, protocolVersion),
+        rows: prepared.slice(0, RUN_ROW_PAGE_SIZE),
+        totalRows: prepared.length,
+        settings: run.settings,
+        resumeFrom: 0,
+        skipRowIndexes: [],
+        successCount: 0,
+        failureCount: 0,
+        rowIndexes: null,
+        workflows: calledWorkflows.map((called) =>
+          conditionsForProtocol(called, protocolVersion),
+        ),
+      },
+    };
+    await transport.sendCommand(start);
+  } catch (error) {
+    abandon();
+    throw new HeadlessRunError(
+      `Agent ${agentId} did not start the run: ${(error as Error).message}`,
+    );
+  }
+  await finished;
+  return { run, agentId };
+};
+
+// 0 when every row succeeded, 1 when the run ended early or any row failed.
+export const runExitCode = (run: Run) =>
+  run.status === "complete" && run.rowResults.every((result) => result.status !== "failed") ? 0 : 1;
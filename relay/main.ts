@@ -0,0 +1,30 @@
+// Starts the local WebSocket relay: npm run relay -- [--port 8787] [--allow-origin https://site]
+import { DEFAULT_RELAY_PORT, startRelay } from "./server";
+
+const args = process.argv.slice(2);
+const allowedOrigins: string[] = [];
+let port = DEFAULT_RELAY_PORT;
+
+for (let index = 0; index < args.length; index += 1) {
+  const arg = args[index];
+  const value = args[index + 1];
+  if (arg === "--port" && value) {
+    port = Number(value);
+    index += 1;
+  } else if (arg === "--allow-origin" && value) {
+    allowedOrigins.push(value);
+    index += 1;
+  } else {
+    console.error(`Unknown argument: ${arg}`);
+    process.exit(1);
+  }
+}
+
+const relay = await startRelay({ port, allowedOrigins });
+console.log(`ACP relay listening on ${relay.url}`);
+
+const stop = () => {
+  void relay.close().then(() => process.exit(0));
+};
+process.on("SIGINT", stop);
+process.on("SIGTERM", stop);
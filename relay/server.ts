@@ -0,0 +1,70 @@
+import type { IncomingMessage } from "node:http";
+import type { AddressInfo } from "node:net";
+import { WebSocket, WebSocketServer } from "ws";
+
+export type RelayOptions = {
+  // 0 picks a free port.
+  port?: number;
+  host?: string;
+  // Browser origins allowed to connect besides localhost. Clients without an Origin header
+  // (Node agents, the CLI) are always allowed.
+  allowedOrigins?: string[];
+};
+
+export type Relay = {
+  url: string;
+  port: number;
+  clientCount: () => number;
+  close: () => Promise<void>;
+};
+
+export const DEFAULT_RELAY_PORT = 8787;
+// Same order of magnitude as a page of CSV rows; larger frames close the connection.
+const MAX_PAYLOAD_BYTES = 16 * 1024 * 1024;
+
+const LOCAL_ORIGIN = /^https?:\/\/(localhost|127\.0\.0\.1|\[::1\])(:\d+)?$/;
+
+export const isAllowedOrigin = (origin: string | undefined, allowedOrigins: string[] = []) =>
+  !origin || LOCAL_ORIGIN.test(origin) || allowedOrigins.includes(origin);
+
+// Forwards every frame a client sends to all other clients. The relay does not read messages:
+// agents and panels check signatures themselves, as they do for browser channels.
+export const startRelay = ({
+  port = DEFAULT_RELAY_PORT,
+  host = "127.0.0.1",
+  allowedOrigins = [],
+}: RelayOptions = {}) =>
+  new Promise<Relay>((resolve, reject) => {
+    const server = new WebSocketServer({
+      port,
+      host,
+      maxPayload: MAX_PAYLOAD_BYTES,
+      verifyClient: ({ req }: { req: IncomingMessage }) =>
+        isAllowedOrigin(req.headers.origin, allowedOrigins),
+    });
+
+    server.on("connection", (socket) => {
+      socket.on("message", (data, isBinary) => {
+        server.clients.forEach((client) => {
+          if (client !== socket && client.readyState === WebSocket.OPEN) {
+            client.send(data, { binary: isBinary });
+          }
+        });
+      });
+    });
+
+    server.once("error", reject);
+    server.once("listening", () => {
+      const address = server.address() as AddressInfo;
+      resolve({
+        url: `ws://${host}:${address.port}`,
+        port: address.port,
+        clientCount: () => server.clients.size,
+        close: () =>
+          new Promise<void>((done) => {
+            server.clients.forEach((client) => client.terminate());
+            server.close(() => done());
+          }),
+      });
+    });
+  });
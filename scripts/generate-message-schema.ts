@@ -0,0 +1,12 @@
+// Regenerates shared/message-schema.json from the zod schemas in shared/schema.ts.
+import { writeFileSync } from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { buildMessageSchemaDocument } from "../shared/messageSchemaDocument";
+
+const target = path.resolve(
+  path.dirname(fileURLToPath(import.meta.url)),
+  "../shared/message-schema.json",
+);
+writeFileSync(target, `${JSON.stringify(buildMessageSchemaDocument(), null, 2)}\n`);
+console.log(`Wrote ${path.relative(process.cwd(), target)}`);
@@ -0,0 +1,152 @@
+import type { CsvRow, WorkflowDefinition, WorkflowStep } from "./schema";
+import { expressionNames } from "./expressions";
+import { flattenSteps, isExtractStep } from "./steps";
+import { templateNames } from "./template";
+
+export type ColumnRule = {
+  required: boolean;
+  url: boolean;
+  maxLength?: number;
+};
+
+export type ColumnMapping = Record<string, string>;
+
+export type RowIssue = {
+  rowIndex: number;
+  column: string;
+  message: string;
+};
+
+// Step fields that are never templated.
+const PLAIN_STEP_FIELDS = new Set([
+  "id",
+  "type",
+  "notes",
+  "varName",
+  "label",
+  "condition",
+  "expression",
+  "workflowId",
+]);
+
+const stepTemplateKeys = (step: WorkflowStep) => [
+  ...Object.entries(step).flatMap(([field, value]) =>
+    PLAIN_STEP_FIELDS.has(field) || typeof value !== "string" ? [] : templateNames(value),
+  ),
+  ...("condition" in step ? expressionNames(step.condition) : []),
+  ...(step.type === "conditional" ? expressionNames(step.expression) : []),
+  ...(step.type === "call_workflow" ? Object.values(step.params).flatMap(templateNames) : []),
+];
+
+// Variables set_var and extract steps write while the row runs.
+export const workflowVarNames = (workflow: WorkflowDefinition) =>
+  flattenSteps(workflow.steps).flatMap((step) =>
+    step.type === "set_var" || isExtractStep(step) ? [step.varName] : [],
+  );
+
+// Placeholders the workflow reads from rows, including names in if and while conditions and
+// call_workflow parameters. Keys written by set_var and extract steps are runtime vars, not
+// columns.
+export const extractTemplateKeys = (workflow: WorkflowDefinition) => {
+  const steps = flattenSteps(workflow.steps);
+  const varNames = new Set(workflowVarNames(workflow));
+  const keys = new Set<string>();
+  steps.forEach((step) => {
+    stepTemplateKeys(step).forEach((key) => {
+      if (key && !varNames.has(key)) {
+        keys.add(key);
+      }
+    });
+  });
+  return Array.from(keys);
+};
+
+const normalizeColumnName = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+export const suggestColumnMapping = (placeholders: string[], headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  placeholders.forEach((placeholder) => {
+    const match =
+      headers.find((header) => header === placeholder) ??
+      headers.find((header) => normalizeColumnName(header) === normalizeColumnName(placeholder));
+    if (match) {
+      mapping[placeholder] = match;
+    }
+  });
+  return mapping;
+};
+
+export const suggestColumnRule = (column: string, mapping: ColumnMapping): ColumnRule => {
+  const placeholders = Object.keys(mapping).filter((key) => mapping[key] === column);
+  return {
+    required: placeholders.length > 0,
+    url: [column, ...placeholders].some((name) => /url|link|href/i.test(name)),
+  };
+};
+
+export const isValidUrl = (value: string) => {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+};
+
+export const validateRows = (rows: CsvRow[], rules: Record<string, ColumnRule>) => {
+  const issues: RowIssue[] = [];
+  rows.forEach((row, rowIndex) => {
+    Object.entries(rules).forEach(([column, rule]) => {
+      const value = row[column] ?? "";
+      if (!value.trim()) {
+        if (rule.required) {
+          issues.push({ rowIndex, column, message: "Value is required" });
+        }
+        return;
+      }
+      if (rule.url && !isValidUrl(value.trim())) {
+        issues.push({ rowIndex, column, message: `"${value}" is not a valid http(s) URL` });
+      }
+      if (rule.maxLength !== undefined && value.length > rule.maxLength) {
+        issues.push({
+          rowIndex,
+          column,
+          message: `Value is ${value.length} characters (max ${rule.maxLength})`,
+        });
+      }
+    });
+  });
+  return issues;
+};
+
+// Renames mapped columns to their placeholder names so `{{placeholder}}` resolves at run time.
+// A column mapped to several placeholders, or whose target name is taken, is copied instead.
+export const applyColumnMapping = (headers: string[], rows: CsvRow[], mapping: ColumnMapping) => {
+  const renames = new Map<string, string>();
+  const copies: [string, string][] = [];
+  Object.entries(mapping).forEach(([placeholder, column]) => {
+    if (placeholder === column || !headers.includes(column)) {
+      return;
+    }
+    if (!renames.has(column) && !headers.includes(placeholder)) {
+      renames.set(column, placeholder);
+    } else {
+      copies.push([placeholder, column]);
+    }
+  });
+  const nextHeaders = [
+    ...headers.map((header) => renames.get(header) ?? header),
+    ...copies.map(([placeholder]) => placeholder).filter((key) => !headers.includes(key)),
+  ];
+  const nextRows = rows.map((row) => {
+    const next: CsvRow = {};
+    Object.entries(row).forEach(([key, value]) => {
+      next[renames.get(key) ?? key] = value;
+    });
+    copies.forEach(([placeholder, column]) => {
+      next[placeholder] = row[column] ?? "";
+    });
+    return next;
+  });
+  return { headers: nextHeaders, rows: nextRows };
+};
@@ -0,0 +1,52 @@
+import type { WorkflowStepType } from "./schema";
+
+// Protocol constants kept apart from the zod schemas in schema.ts, so the userscript can
+// import them without bundling zod.
+
+export const MESSAGE_CHANNEL = "acp-control";
+
+export const MESSAGE_VERSION = "1.14.0";
+
+// Agents older than this lack signed messages and cannot be driven by this panel.
+export const MIN_COMPATIBLE_VERSION = "1.8.0";
+
+// Every type of WorkflowStepSchema, in its order (schema.test.ts checks that they match).
+export const WORKFLOW_STEP_TYPES: WorkflowStepType[] = [
+  "goto",
+  "click",
+  "type",
+  "press",
+  "wait_for_selector",
+  "wait_time",
+  "screenshot",
+  "evaluate",
+  "set_var",
+  "extract_text",
+  "extract_attribute",
+  "extract_count",
+  "assert_text",
+  "assert_url_matches",
+  "assert_element_absent",
+  "assert_var_equals",
+  "conditional",
+  "break",
+  "skip_row",
+  "call_workflow",
+  "if",
+  "repeat",
+  "while",
+];
+
+// The step types before protocol 1.10.0 (LegacyWorkflowStepSchema).
+export const LEGACY_STEP_TYPES = [
+  "goto",
+  "click",
+  "type",
+  "press",
+  "wait_for_selector",
+  "wait_time",
+  "screenshot",
+  "evaluate",
+  "set_var",
+  "conditional",
+] as const;
@@ -1,65 +1,417 @@
+export type CsvParseError = {
+  line: number;
+  column: number;
+  message: string;
+};
+
+export type CsvDialect = {
+  delimiter: string;
+  quoteChar: string;
+  lineTerminator: "\n" | "\r\n";
+  encoding: string;
+  bom: boolean;
+};
+
 export type CsvParseResult = {
   headers: string[];
   rows: Record<string, string>[];
+  errors: CsvParseError[];
+  dialect: CsvDialect;
+};
+
+type CsvRecord = {
+  line: number;
+  fields: string[];
+  columns: number[];
+  endColumn: number;
+};
+
+const BYTE_ORDER_MARK = "\uFEFF";
+
+export const CSV_DELIMITERS = [",", ";", "\t", "|"];
+
+export const CSV_QUOTE_CHARS = ['"', "'"];
+
+export const DEFAULT_CSV_DIALECT: CsvDialect = {
+  delimiter: ",",
+  quoteChar: '"',
+  lineTerminator: "\n",
+  encoding: "utf-8",
+  bom: false,
+};
+
+export const SNIFF_SAMPLE_SIZE = 64 * 1024;
+const SNIFF_RECORD_LIMIT = 10;
+
+const stripBom = (value: string) =>
+  value.startsWith(BYTE_ORDER_MARK) ? value.slice(BYTE_ORDER_MARK.length) : value;
+
+const isBlankRecord = (record: CsvRecord, quoted: boolean) =>
+  !quoted && record.fields.length === 1 && record.fields[0] === "";
+
+type CsvTokenizer = {
+  push: (chunk: string) => void;
+  end: () => void;
+};
+
+// Character-level RFC 4180 tokenizer: quoted fields may contain delimiters, escaped
+// quotes ("") and line breaks. It keeps its state between chunks so files can be fed in
+// pieces; problems are collected with 1-based line/column positions.
+const createCsvTokenizer = (
+  dialect: Pick<CsvDialect, "delimiter" | "quoteChar">,
+  errors: CsvParseError[],
+  onRecord: (record: CsvRecord) => void,
+): CsvTokenizer => {
+  const { delimiter, quoteChar } = dialect;
+  let fields: string[] = [];
+  let columns: number[] = [];
+  let field = "";
+  let fieldQuoted = false;
+  let recordQuoted = false;
+  let inQuotes = false;
+  let pendingQuote = false;
+  let skipLineFeed = false;
+  let strayReported = false;
+  let line = 1;
+  let column = 1;
+  let recordLine = 1;
+  let fieldColumn = 1;
+  let quoteLine = 1;
+  let quoteColumn = 1;
+
+  const endField = () => {
+    fields.push(field);
+    columns.push(fieldColumn);
+    field = "";
+    fieldQuoted = false;
+    strayReported = false;
+  };
+
+  const endRecord = () => {
+    endField();
+    const record = { line: recordLine, fields, columns, endColumn: column };
+    if (!isBlankRecord(record, recordQuoted)) {
+      onRecord(record);
+    }
+    fields = [];
+    columns = [];
+    recordQuoted = false;
+  };
+
+  const newLine = () => {
+    line += 1;
+    column = 1;
+  };
+
+  const push = (chunk: string) => {
+    for (let i = 0; i < chunk.length; i += 1) {
+      const char = chunk[i] as string;
+      if (skipLineFeed) {
+        skipLineFeed = false;
+        if (char === "\n") {
+          continue;
+        }
+      }
+      if (pendingQuote) {
+        pendingQuote = false;
+        if (char === quoteChar) {
+          field += quoteChar;
+          column += 1;
+          continue;
+        }
+        inQuotes = false;
+      }
+      if (inQuotes) {
+        if (char === quoteChar) {
+          pendingQuote = true;
+          column += 1;
+        } else if (char === "\r" || char === "\n") {
+          field += "\n";
+          skipLineFeed = char === "\r";
+          newLine();
+        } else {
+          field += char;
+          column += 1;
+        }
+        continue;
+      }
+      if (char === delimiter) {
+        endField();
+        column += 1;
+        fieldColumn = column;
+        continue;
+      }
+      if (char === "\r" || char === "\n") {
+        endRecord();
+        skipLineFeed = char === "\r";
+        newLine();
+        recordLine = line;
+        fieldColumn = 1;
+        continue;
+      }
+      if (char === quoteChar && field === "" && !fieldQuoted) {
+        inQuotes = true;
+        fieldQuoted = true;
+        recordQuoted = true;
+        quoteLine = line;
+        quoteColumn = column;
+        column += 1;
+        continue;
+      }
+      if (!strayReported && (char === quoteChar || fieldQuoted)) {
+        errors.push({
+          line,
+          column,
+          message: fieldQuoted
+            ? "Unexpected character after closing quote"
+            : "Unexpected quote inside unquoted field",
+        });
+        strayReported = true;
+      }
+      field += char;
+      column += 1;
+    }
+  };
+
+  const end = () => {
+    if (pendingQuote) {
+      pendingQuote = false;
+      inQuotes = false;
+    }
+    if (inQuotes) {
+      errors.push({
+        line: quoteLine,
+        column: quoteColumn,
+        message: "Unterminated quoted field",
+      });
+    }
+    if (field !== "" || fieldQuoted || fields.length > 0) {
+      endRecord();
+    }
+  };
+
+  return { push, end };
+};
+
+const countQuotedFields = (sample: string, quoteChar: string) => {
+  const separators = CSV_DELIMITERS.map((delimiter) =>
+    delimiter === "\t" ? "\\t" : `\\${delimiter}`,
+  );
+  const boundary = `(?:^|${separators.join("|")})`;
+  const end = `(?=${separators.join("|")}|$)`;
+  const body = `(?:[^${quoteChar}]|${quoteChar}${quoteChar})*`;
+  const pattern = new RegExp(`${boundary}${quoteChar}${body}${quoteChar}${end}`, "gm");
+  return sample.match(pattern)?.length ?? 0;
+};
+
+const scoreDelimiter = (sample: string, delimiter: string, quoteChar: string) => {
+  const records: CsvRecord[] = [];
+  const tokenizer = createCsvTokenizer({ delimiter, quoteChar }, [], (record) => {
+    if (records.length < SNIFF_RECORD_LIMIT) {
+      records.push(record);
+    }
+  });
+  tokenizer.push(sample);
+  const width = records[0]?.fields.length ?? 0;
+  if (width < 2) {
+    return 0;
+  }
+  const consistent = records.filter((record) => record.fields.length === width).length;
+  return (consistent / records.length) * 1000 + width;
+};
+
+// Sniffs the delimiter and quote character from the first records of a decoded file.
+export const detectCsvDialect = (input: string): CsvDialect => {
+  const bom = input.startsWith(BYTE_ORDER_MARK);
+  const raw = stripBom(input).slice(0, SNIFF_SAMPLE_SIZE);
+  const sample = raw.replace(/\r\n?/g, "\n");
+  const quoteChar = CSV_QUOTE_CHARS.reduce((best, candidate) =>
+    countQuotedFields(sample, candidate) > countQuotedFields(sample, best) ? candidate : best,
+  );
+  let delimiter = DEFAULT_CSV_DIALECT.delimiter;
+  let bestScore = 0;
+  CSV_DELIMITERS.forEach((candidate) => {
+    const score = scoreDelimiter(sample, candidate, quoteChar);
+    if (score > bestScore) {
+      bestScore = score;
+      delimiter = candidate;
+    }
+  });
+  return {
+    ...DEFAULT_CSV_DIALECT,
+    delimiter,
+    quoteChar,
+    lineTerminator: raw.includes("\r\n") ? "\r\n" : "\n",
+    bom,
+  };
 };
 
-const normalizeLine = (value: string) =>
-  value.replace(/\r\n/g, "\n").replace(/\r/g, "\n");
+// Encoding implied by a UTF-16 byte order mark, otherwise UTF-8.
+export const encodingFromBom = (bytes: Uint8Array) => {
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return "utf-16le";
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return "utf-16be";
+  }
+  return "utf-8";
+};
+
+// Decodes an uploaded file, honouring UTF-16/UTF-8 byte order marks and falling back to
+// Windows-1252 when the bytes are not valid UTF-8 (typical of older spreadsheet exports).
+export const decodeCsvBytes = (buffer: ArrayBuffer | Uint8Array) => {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  let encoding: string = encodingFromBom(bytes);
+  let text: string;
+  try {
+    text = new TextDecoder(encoding, { fatal: true, ignoreBOM: true }).decode(bytes);
+  } catch {
+    encoding = "windows-1252";
+    text = decodeWindows1252(bytes);
+  }
+  return { text, encoding, bom: text.startsWith(BYTE_ORDER_MARK) };
+};
+
+// Windows-1252 differs from Latin-1 only in 0x80-0x9F; undefined slots map to themselves.
+const WINDOWS_1252_HIGH = [
+  0x20ac, 0x81, 0x201a, 0x192, 0x201e, 0x2026, 0x2020, 0x2021, 0x2c6, 0x2030, 0x160, 0x2039,
+  0x152, 0x8d, 0x17d, 0x8f, 0x90, 0x2018, 0x2019, 0x201c, 0x201d, 0x2022, 0x2013, 0x2014,
+  0x2dc, 0x2122, 0x161, 0x203a, 0x153, 0x9d, 0x17e, 0x178,
+];
+
+export const decodeWindows1252 = (bytes: Uint8Array) =>
+  Array.from(bytes, (byte) =>
+    String.fromCharCode(
+      byte >= 0x80 && byte <= 0x9f ? (WINDOWS_1252_HIGH[byte - 0x80] ?? byte) : byte,
+    ),
+  ).join("");
+
+const encodeWindows1252 = (text: string) =>
+  Uint8Array.from(Array.from(text), (char) => {
+    const code = char.charCodeAt(0);
+    const high = WINDOWS_1252_HIGH.indexOf(code);
+    if (high >= 0) {
+      return 0x80 + high;
+    }
+    return code < 0x100 && (code < 0x80 || code > 0x9f) ? code : 0x3f;
+  });
+
+const encodeUtf16 = (text: string, littleEndian: boolean) => {
+  const view = new DataView(new ArrayBuffer(text.length * 2));
+  for (let i = 0; i < text.length; i += 1) {
+    view.setUint16(i * 2, text.charCodeAt(i), littleEndian);
+  }
+  return new Uint8Array(view.buffer);
+};
 
-export const parseCsv = (input: string): CsvParseResult => {
-  const normalized = normalizeLine(input).trim();
-  if (!normalized) {
-    return { headers: [], rows: [] };
+export const encodeCsvText = (text: string, encoding: string) => {
+  switch (encoding) {
+    case "utf-16le":
+      return encodeUtf16(text, true);
+    case "utf-16be":
+      return encodeUtf16(text, false);
+    case "windows-1252":
+      return encodeWindows1252(text);
+    default:
+      return new TextEncoder().encode(text);
   }
-  const lines = normalized.split("\n");
-  const headers = parseCsvLine(lines[0] ?? "");
-  const rows = lines.slice(1).map((line) => {
-    const values = parseCsvLine(line);
+};
+
+export type CsvStreamParser = {
+  push: (chunk: string) => Record<string, string>[];
+  end: () => Record<string, string>[];
+  headers: () => string[];
+  errors: CsvParseError[];
+};
+
+// Incremental parser: each push returns the rows completed by that chunk. The first record
+// is the header row; records with the wrong number of fields are reported, not padded.
+export const createCsvStreamParser = (dialect: CsvDialect): CsvStreamParser => {
+  const errors: CsvParseError[] = [];
+  let headers: string[] | null = null;
+  let pending: Record<string, string>[] = [];
+  let started = false;
+  const tokenizer = createCsvTokenizer(dialect, errors, (record) => {
+    if (!headers) {
+      headers = record.fields;
+      return;
+    }
+    if (record.fields.length !== headers.length) {
+      const tooMany = record.fields.length > headers.length;
+      errors.push({
+        line: record.line,
+        column: tooMany ? (record.columns[headers.length] ?? 1) : record.endColumn,
+        message: `Expected ${headers.length} fields but found ${record.fields.length}`,
+      });
+      return;
+    }
     const row: Record<string, string> = {};
     headers.forEach((header, index) => {
-      row[header] = values[index] ?? "";
+      row[header] = record.fields[index] ?? "";
     });
-    return row;
+    pending.push(row);
   });
-  return { headers, rows };
+  const drain = () => {
+    const rows = pending;
+    pending = [];
+    return rows;
+  };
+  return {
+    push: (chunk) => {
+      tokenizer.push(started ? chunk : stripBom(chunk));
+      started = true;
+      return drain();
+    },
+    end: () => {
+      tokenizer.end();
+      return drain();
+    },
+    headers: () => headers ?? [],
+    errors,
+  };
 };
 
-export const serializeCsv = (headers: string[], rows: Record<string, string>[]) => {
-  const outputLines = [headers.map(escapeCsvValue).join(",")];
-  rows.forEach((row) => {
-    const line = headers.map((header) => escapeCsvValue(row[header] ?? "")).join(",");
-    outputLines.push(line);
-  });
-  return outputLines.join("\n");
+export const parseCsv = (input: string, overrides: Partial<CsvDialect> = {}): CsvParseResult => {
+  const dialect = { ...detectCsvDialect(input), ...overrides };
+  const parser = createCsvStreamParser(dialect);
+  const rows = [...parser.push(input), ...parser.end()];
+  const errors = [...parser.errors].sort((a, b) => a.line - b.line || a.column - b.column);
+  return { headers: parser.headers(), rows, errors, dialect };
 };
 
-const parseCsvLine = (line: string) => {
-  const values: string[] = [];
-  let current = "";
-  let inQuotes = false;
-  for (let i = 0; i < line.length; i += 1) {
-    const char = line[i];
-    if (char === '"') {
-      if (inQuotes && line[i + 1] === '"') {
-        current += '"';
-        i += 1;
-      } else {
-        inQuotes = !inQuotes;
-      }
-    } else if (char === "," && !inQuotes) {
-      values.push(current);
-      current = "";
-    } else {
-      current += char;
-    }
-  }
-  values.push(current);
-  return values;
+export const formatCsvError = (error: CsvParseError) =>
+  `Line ${error.line}, column ${error.column}: ${error.message}`;
+
+export const serializeCsvRows = (
+  headers: string[],
+  rows: Record<string, string>[],
+  dialect: Partial<CsvDialect> = {},
+) => {
+  const { delimiter, quoteChar, lineTerminator } = { ...DEFAULT_CSV_DIALECT, ...dialect };
+  const escape = (value: string) => escapeCsvValue(value, delimiter, quoteChar);
+  return rows
+    .map((row) => headers.map((header) => escape(row[header] ?? "")).join(delimiter))
+    .join(lineTerminator);
+};
+
+export const serializeCsv = (
+  headers: string[],
+  rows: Record<string, string>[],
+  dialect: Partial<CsvDialect> = {},
+) => {
+  const { delimiter, quoteChar, lineTerminator, bom } = { ...DEFAULT_CSV_DIALECT, ...dialect };
+  const headerLine = headers
+    .map((header) => escapeCsvValue(header, delimiter, quoteChar))
+    .join(delimiter);
+  const output = rows.length
+    ? `${headerLine}${lineTerminator}${serializeCsvRows(headers, rows, dialect)}`
+    : headerLine;
+  return bom ? `${BYTE_ORDER_MARK}${output}` : output;
 };
 
-const escapeCsvValue = (value: string) => {
-  if (value.includes(",") || value.includes('"') || value.includes("\n")) {
-    return `"${value.replace(/"/g, '""')}"`;
+const escapeCsvValue = (value: string, delimiter: string, quoteChar: string) => {
+  if (value.includes(delimiter) || value.includes(quoteChar) || /[\n\r]/.test(value)) {
+    return `${quoteChar}${value.split(quoteChar).join(quoteChar + quoteChar)}${quoteChar}`;
   }
   return value;
 };
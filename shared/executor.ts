@@ -0,0 +1,706 @@
+import type {
+  AssertionFailure,
+  CsvRow,
+  RunSettings,
+  WorkflowDefinition,
+  WorkflowStep,
+  WorkflowStepOf,
+} from "./schema";
+import { evaluateCondition } from "./expressions";
+import { type TemplateBuiltins, renderTemplate } from "./template";
+import { isBlockStep, isExtractStep, stepIndexes } from "./steps";
+
+// How workflow steps behave on a page. The userscript bundles this module; tests run it
+// against jsdom pages.
+
+export type StepVars = Record<string, string>;
+
+export type ExecutorLogLevel = "debug" | "info" | "warn" | "error";
+
+// Everything the executor reaches outside the page's DOM, so tests can replace it.
+export type ExecutorContext = {
+  document: Document;
+  navigate: (url: string) => void;
+  captureScreenshot: () => string;
+  sleep: (ms: number) => Promise<void>;
+  log: (level: ExecutorLogLevel, message: string, context?: unknown) => void;
+};
+
+// Thrown by assertion steps; the row result carries `failure` next to the message.
+export class AssertionError extends Error {
+  constructor(
+    message: string,
+    readonly failure: AssertionFailure,
+  ) {
+    super(message);
+  }
+}
+
+export const MAX_BACKOFF_MS = 8000;
+
+const SELECTOR_POLL_MS = 250;
+
+// How deep call_workflow steps may nest.
+export const MAX_CALL_DEPTH = 10;
+
+export const delay = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+export const captureHtmlSnapshot = (doc: Document) => doc.documentElement.outerHTML;
+
+// An SVG wrapping the serialized page, as an object URL; there is no real screenshot API.
+export const captureScreenshot = (doc: Document) => {
+  const { width, height } = doc.documentElement.getBoundingClientRect();
+  const svg = `
+      <svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+        <foreignObject width="100%" height="100%">
+          ${new XMLSerializer().serializeToString(doc.documentElement)}
+        </foreignObject>
+      </svg>
+    `;
+  const blob = new Blob([svg], { type: "image/svg+xml;charset=utf-8" });
+  return URL.createObjectURL(blob);
+};
+
+export const createExecutorContext = (
+  overrides: Partial<ExecutorContext> = {},
+): ExecutorContext => {
+  const doc = overrides.document ?? document;
+  return {
+    document: doc,
+    navigate: (url) => {
+      window.location.href = url;
+    },
+    captureScreenshot: () => captureScreenshot(doc),
+    sleep: delay,
+    log: () => {},
+    ...overrides,
+  };
+};
+
+export const withTimeout = async <T>(promise: Promise<T>, timeoutMs: number, message: string) => {
+  if (!timeoutMs) {
+    return promise;
+  }
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(() => reject(new Error(message)), timeoutMs);
+  });
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+};
+
+// Each attempt gets `timeoutMs`; failed attempts wait 500ms, 1s, 2s… (at most 8s) before the
+// next, up to `retries` extra attempts.
+export const retryWithBackoff = async <T>(
+  fn: () => Promise<T>,
+  retries: number,
+  timeoutMs: number,
+  ctx: Pick<ExecutorContext, "sleep" | "log">,
+) => {
+  let attempt = 0;
+  while (true) {
+    try {
+      return await withTimeout(fn(), timeoutMs, "Step timeout exceeded");
+    } catch (error) {
+      if (attempt >= retries) {
+        throw error;
+      }
+      const backoff = Math.min(500 * 2 ** attempt, MAX_BACKOFF_MS);
+      ctx.log("warn", `Retrying after ${backoff}ms`, { attempt, error });
+      await ctx.sleep(backoff);
+      attempt += 1;
+    }
+  }
+};
+
+// `{{key}}` reads a variable set by a step first, then the row, then a built-in; filters and
+// defaults are described in template.ts. A missing key fails the row.
+export const resolveTemplate = (
+  value: string | undefined,
+  row: CsvRow,
+  vars: StepVars,
+  builtins: TemplateBuiltins = {},
+) => (value ? renderTemplate(value, row, vars, builtins) : "");
+
+// Named selectors for Facebook's composer, whose markup changes often; the first match wins.
+export const SELECTOR_FALLBACKS: Record<string, string[]> = {
+  "fb:composer": [
+    "[role='textbox'][contenteditable='true']",
+    "div[aria-label*='on your mind']",
+    "div[aria-label*='Write something']",
+    "div[role='combobox'] div[contenteditable='true']",
+    "textarea[name='xhpc_message']",
+  ],
+  "fb:post-button": ["[aria-label*='Post']", "div[role='button'][aria-label*='Post']"],
+};
+
+const querySelectorWithFallback = (doc: Document, selectors: string[]) => {
+  for (const selector of selectors) {
+    const element = doc.querySelector<HTMLElement>(selector);
+    if (element) {
+      return element;
+    }
+  }
+  return null;
+};
+
+export const selectByText = (doc: Document, text: string) => {
+  const elements = Array.from(doc.querySelectorAll<HTMLElement>("button, [role='button'], a"));
+  return elements.find((element) => element.textContent?.trim().includes(text)) ?? null;
+};
+
+// Selectors are CSS, `a | b` alternatives, `text=Label` for buttons and links, or a named
+// fallback list.
+export const findElement = (doc: Document, selector: string | null) => {
+  if (!selector) {
+    return null;
+  }
+  const fallbacks = SELECTOR_FALLBACKS[selector];
+  if (fallbacks) {
+    return querySelectorWithFallback(doc, fallbacks);
+  }
+  if (selector.startsWith("text=")) {
+    return selectByText(doc, selector.replace("text=", ""));
+  }
+  return querySelectorWithFallback(
+    doc,
+    selector.split("|").map((item) => item.trim()),
+  );
+};
+
+const clickElement = (doc: Document, selector: string) => {
+  const element = findElement(doc, selector) || selectByText(doc, selector);
+  if (!element) {
+    throw new Error(`Unable to find element for selector: ${selector}`);
+  }
+  // jsdom does not implement scrolling.
+  element.scrollIntoView?.({ behavior: "smooth", block: "center" });
+  element.click();
+};
+
+const typeIntoElement = (doc: Document, selector: string, value: string) => {
+  const element = findElement(doc, selector);
+  if (!element) {
+    throw new Error(`Unable to find input for selector: ${selector}`);
+  }
+  element.focus();
+  (element as HTMLInputElement).value = value;
+  element.dispatchEvent(new Event("input", { bubbles: true }));
+};
+
+const pressKey = (doc: Document, selector: string | null, key: string) => {
+  const element = selector ? findElement(doc, selector) : doc.activeElement;
+  if (!element) {
+    throw new Error("No active element to send keypress");
+  }
+  element.dispatchEvent(new KeyboardEvent("keydown", { key, bubbles: true }));
+  element.dispatchEvent(new KeyboardEvent("keyup", { key, bubbles: true }));
+};
+
+// Elements a selector matches, counted in the first alternative that matches any.
+const countElements = (doc: Document, selector: string) => {
+  if (selector.startsWith("text=")) {
+    const text = selector.replace("text=", "");
+    return Array.from(doc.querySelectorAll("button, [role='button'], a")).filter((element) =>
+      element.textContent?.trim().includes(text),
+    ).length;
+  }
+  const selectors = SELECTOR_FALLBACKS[selector] ?? selector.split("|").map((item) => item.trim());
+  for (const candidate of selectors) {
+    const count = doc.querySelectorAll(candidate).length;
+    if (count > 0) {
+      return count;
+    }
+  }
+  return 0;
+};
+
+// Form fields hold their text in value.
+const elementText = (element: HTMLElement) =>
+  ["INPUT", "TEXTAREA", "SELECT"].includes(element.tagName)
+    ? (element as HTMLInputElement).value
+    : (element.textContent ?? "").trim();
+
+const quote = (value: string | null) => (value === null ? "nothing" : JSON.stringify(value));
+
+const extractElement = (doc: Document, selector: string) => {
+  const element = findElement(doc, selector);
+  if (!element) {
+    throw new Error(`Unable to find element to extract from: ${selector}`);
+  }
+  return element;
+};
+
+const waitForSelector = async (ctx: ExecutorContext, selector: string, timeoutMs: number) => {
+  const start = Date.now();
+  while (Date.now() - start < timeoutMs) {
+    if (findElement(ctx.document, selector)) {
+      return;
+    }
+    await ctx.sleep(SELECTOR_POLL_MS);
+  }
+  throw new Error(`Timeout waiting for selector: ${selector}`);
+};
+
+// The fields of a step with their templates resolved; numbers, varName and conditions are used
+// as they are.
+const resolveStep = (
+  step: WorkflowStep,
+  row: CsvRow,
+  vars: StepVars,
+  builtins: TemplateBuiltins,
+): WorkflowStep => {
+  const resolve = (value: string) => resolveTemplate(value, row, vars, builtins);
+  switch (step.type) {
+    case "goto":
+      return { ...step, url: resolve(step.url) };
+    case "click":
+    case "wait_for_selector":
+      return { ...step, selector: resolve(step.selector) };
+    case "type":
+      return { ...step, selector: resolve(step.selector), text: resolve(step.text) };
+    case "press":
+      return {
+        ...step,
+        key: resolve(step.key),
+        selector: step.selector ? resolve(step.selector) : undefined,
+      };
+    case "evaluate":
+      return { ...step, code: resolve(step.code) };
+    case "set_var":
+      return { ...step, value: resolve(step.value) };
+    case "extract_text":
+    case "extract_count":
+      return { ...step, selector: resolve(step.selector) };
+    case "extract_attribute":
+      return { ...step, selector: resolve(step.selector), attribute: resolve(step.attribute) };
+    case "assert_text":
+      return { ...step, selector: resolve(step.selector), text: resolve(step.text) };
+    case "assert_url_matches":
+      return { ...step, pattern: resolve(step.pattern) };
+    case "assert_element_absent":
+      return { ...step, selector: resolve(step.selector) };
+    case "assert_var_equals":
+      return { ...step, expected: resolve(step.expected) };
+    case "skip_row":
+      return { ...step, reason: step.reason ? resolve(step.reason) : undefined };
+    case "wait_time":
+    case "screenshot":
+    case "conditional":
+    case "break":
+    // Conditions and parameters are read by executeRow, and nested steps resolve as they run.
+    case "call_workflow":
+    case "if":
+    case "repeat":
+    case "while":
+      return step;
+    default: {
+      const unknown: never = step;
+      throw new Error(`Unknown step type: ${String((unknown as WorkflowStep).type)}`);
+    }
+  }
+};
+
+// Runs one step once. Templates are resolved even in a dry run, so missing values still fail.
+export const executeStep = async (
+  step: WorkflowStep,
+  row: CsvRow,
+  vars: StepVars,
+  settings: RunSettings,
+  ctx: ExecutorContext,
+  builtins: TemplateBuiltins = {},
+) => {
+  const resolved = resolveStep(step, row, vars, builtins);
+  if (settings.dryRun) {
+    ctx.log("info", "Dry run: skipping step execution", { step: resolved });
+    return;
+  }
+  switch (resolved.type) {
+    case "goto":
+      if (!resolved.url) {
+        throw new Error("goto requires a URL");
+      }
+      ctx.navigate(resolved.url);
+      break;
+    case "click":
+      if (!resolved.selector) {
+        throw new Error("click requires a selector");
+      }
+      clickElement(ctx.document, resolved.selector);
+      break;
+    case "type":
+      if (!resolved.selector) {
+        throw new Error("type requires a selector");
+      }
+      typeIntoElement(ctx.document, resolved.selector, resolved.text);
+      break;
+    case "press":
+      if (!resolved.key) {
+        throw new Error("press requires a key");
+      }
+      pressKey(ctx.document, resolved.selector || null, resolved.key);
+      break;
+    case "wait_for_selector":
+      if (!resolved.selector) {
+        throw new Error("wait_for_selector requires a selector");
+      }
+      await waitForSelector(ctx, resolved.selector, step.timeoutMs ?? settings.timeoutMs);
+      break;
+    case "wait_time":
+      await ctx.sleep(resolved.durationMs);
+      break;
+    case "screenshot":
+      ctx.captureScreenshot();
+      break;
+    case "evaluate": {
+      if (!resolved.code) {
+        throw new Error("evaluate requires code");
+      }
+      const fn = new Function("row", "vars", resolved.code);
+      fn(row, vars);
+      break;
+    }
+    case "set_var":
+      if (!resolved.varName) {
+        throw new Error("set_var requires a variable name");
+      }
+      vars[resolved.varName] = resolved.value;
+      break;
+    case "extract_text":
+      vars[resolved.varName] = elementText(extractElement(ctx.document, resolved.selector));
+      break;
+    case "extract_attribute": {
+      const value = extractElement(ctx.document, resolved.selector).getAttribute(
+        resolved.attribute,
+      );
+      if (value === null) {
+        throw new Error(`${resolved.selector} has no ${resolved.attribute} attribute`);
+      }
+      vars[resolved.varName] = value;
+      break;
+    }
+    case "extract_count":
+      vars[resolved.varName] = String(countElements(ctx.document, resolved.selector));
+      break;
+    case "assert_text": {
+      const element = findElement(ctx.document, resolved.selector);
+      const actual = element ? elementText(element) : null;
+      if (actual === null || !actual.includes(resolved.text)) {
+        throw new AssertionError(
+          `Expected ${resolved.selector} to contain ${quote(resolved.text)}, found ${quote(actual)}`,
+          {
+            assertion: resolved.type,
+            stepId: step.id,
+            expected: resolved.text,
+            actual,
+            selector: resolved.selector,
+          },
+        );
+      }
+      break;
+    }
+    case "assert_url_matches": {
+      const actual = ctx.document.URL;
+      const failure = {
+        assertion: resolved.type,
+        stepId: step.id,
+        expected: resolved.pattern,
+        actual,
+      };
+      // Row values can turn a valid pattern into an invalid one.
+      let pattern: RegExp;
+      try {
+        pattern = new RegExp(resolved.pattern);
+      } catch (error) {
+        throw new AssertionError(
+          `Invalid URL pattern /${resolved.pattern}/: ${(error as Error).message}`,
+          failure,
+        );
+      }
+      if (!pattern.test(actual)) {
+        throw new AssertionError(
+          `Expected the URL to match /${resolved.pattern}/, was ${actual}`,
+          failure,
+        );
+      }
+      break;
+    }
+    case "assert_element_absent": {
+      const element = findElement(ctx.document, resolved.selector);
+      if (element) {
+        const actual = elementText(element);
+        throw new AssertionError(`Expected no ${resolved.selector}, found ${quote(actual)}`, {
+          assertion: resolved.type,
+          stepId: step.id,
+          expected: "absent",
+          actual,
+          selector: resolved.selector,
+        });
+      }
+      break;
+    }
+    case "assert_var_equals": {
+      const actual = vars[resolved.varName] ?? null;
+      if (actual !== resolved.expected) {
+        throw new AssertionError(
+          `Expected ${resolved.varName} to equal ${quote(resolved.expected)}, was ${quote(actual)}`,
+          { assertion: resolved.type, stepId: step.id, expected: resolved.expected, actual },
+        );
+      }
+      break;
+    }
+    case "conditional":
+      if (!evaluateCondition(resolved.expression, row, vars, builtins)) {
+        throw new Error("Conditional failed");
+      }
+      break;
+    case "break":
+    case "skip_row":
+    case "call_workflow":
+    case "if":
+    case "repeat":
+    case "while":
+      throw new Error(`${resolved.type} steps only run as part of a row`);
+    default: {
+      const unknown: never = resolved;
+      throw new Error(`Unknown step type: ${String((unknown as WorkflowStep).type)}`);
+    }
+  }
+};
+
+const applyDelay = async (ctx: ExecutorContext, min: number, max: number) => {
+  const delayMs = Math.floor(min + Math.random() * (max - min));
+  if (delayMs > 0) {
+    await ctx.sleep(delayMs);
+  }
+};
+
+// Where a step is. stepIndex is in the run's workflow (for a step inside a called workflow,
+// the index of the call); path numbers steps from the run's workflow down, such as "2.3"
+// for step 3 of the workflow that step 2 calls.
+export type StepLocation = { stepIndex: number; path: string };
+
+export type RowHooks = {
+  // Awaited before each step; step-through mode waits for the panel here.
+  beforeStep?: (at: StepLocation) => Promise<void>;
+  onStepComplete?: (at: StepLocation, step: WorkflowStep) => void;
+  onStepError?: (at: StepLocation, step: WorkflowStep, message: string) => void;
+  // The branch an if step took, how often a loop ran, calls, breaks and skips, for the row log.
+  onControlFlow?: (at: StepLocation, step: WorkflowStep, message: string) => void;
+};
+
+export type RowOutcome = (
+  | { status: "success"; error: null }
+  | { status: "failed"; error: string; failure?: AssertionFailure }
+  // A skip_row step ended the row; error is its reason.
+  | { status: "skipped"; error: string | null }
+) & {
+  // What extract steps saved, by variable name, including those in called workflows.
+  outputs: StepVars;
+};
+
+// How a list of steps ended. "stop" is a failed step in a run that is not best effort.
+type Flow =
+  | { kind: "next" }
+  | { kind: "break"; label?: string }
+  | { kind: "skip_row"; reason: string | null }
+  | { kind: "stop" };
+
+const NEXT: Flow = { kind: "next" };
+
+// The workflow being run at one level of calls, with the row and vars its steps read.
+type Scope = {
+  workflow: WorkflowDefinition;
+  indexes: Map<WorkflowStep, number>;
+  row: CsvRow;
+  vars: StepVars;
+  // Path of the call step this workflow runs in, with a trailing dot, and its step index.
+  prefix: string;
+  callIndex: number | null;
+};
+
+const createScope = (
+  workflow: WorkflowDefinition,
+  row: CsvRow,
+  vars: StepVars,
+  caller: { prefix: string; callIndex: number | null } = { prefix: "", callIndex: null },
+): Scope => ({ workflow, indexes: stepIndexes(workflow.steps), row, vars, ...caller });
+
+const times = (count: number) => `${count} time${count === 1 ? "" : "s"}`;
+
+export type RowOptions = {
+  // The workflows call_workflow steps may run.
+  workflows?: WorkflowDefinition[];
+  // For the {{rowIndex}} and {{runId}} built-ins.
+  rowIndex?: number;
+  runId?: string;
+};
+
+// Runs every step of the workflow on one row, entering if, repeat and while blocks as their
+// conditions say and running call_workflow steps from `workflows`. A failed step (after its
+// retries) ends the row unless the run is best effort, in which case the remaining steps
+// still run and the row fails with the last error. Settings are read per step, so changes
+// apply mid-row.
+export const executeRow = async (
+  workflow: WorkflowDefinition,
+  row: CsvRow,
+  vars: StepVars,
+  settings: RunSettings,
+  ctx: ExecutorContext,
+  hooks: RowHooks = {},
+  { workflows = [], rowIndex, runId }: RowOptions = {},
+): Promise<RowOutcome> => {
+  // Every step of the row, called workflows included, sees the same {{now}}.
+  const builtins: TemplateBuiltins = { rowIndex, runId, now: new Date() };
+  let error: string | null = null;
+  // The failed assertion behind `error`, if an assertion set it.
+  let failure: AssertionFailure | undefined;
+  const outputs: StepVars = {};
+
+  const locate = (scope: Scope, step: WorkflowStep): StepLocation => {
+    const index = scope.indexes.get(step) ?? -1;
+    return { stepIndex: scope.callIndex ?? index, path: `${scope.prefix}${index + 1}` };
+  };
+
+  const runLoop = async (
+    scope: Scope,
+    step: Extract<WorkflowStep, { type: "repeat" | "while" }>,
+    at: StepLocation,
+    shouldContinue: (iteration: number) => boolean,
+  ): Promise<Flow> => {
+    let iteration = 0;
+    while (shouldContinue(iteration)) {
+      iteration += 1;
+      const flow = await runSteps(scope, step.steps);
+      if (flow.kind === "break" && (!flow.label || flow.label === step.label)) {
+        hooks.onControlFlow?.(at, step, `${step.type} ended by break after ${times(iteration)}`);
+        return NEXT;
+      }
+      if (flow.kind !== "next") {
+        return flow;
+      }
+    }
+    hooks.onControlFlow?.(at, step, `${step.type} ran ${times(iteration)}`);
+    return NEXT;
+  };
+
+  // The callee sees the resolved parameters as its row and starts with no vars. Its breaks
+  // stay inside it; skip_row skips the caller's row.
+  const runCall = async (
+    scope: Scope,
+    step: WorkflowStepOf<"call_workflow">,
+    at: StepLocation,
+  ): Promise<Flow> => {
+    const callee = workflows.find((item) => item.id === step.workflowId);
+    if (!callee) {
+      throw new Error(`call_workflow: no workflow with id ${step.workflowId}`);
+    }
+    // Saving rejects cycles; this keeps a hand-edited library from recursing forever.
+    if (at.path.split(".").length > MAX_CALL_DEPTH) {
+      throw new Error(`call_workflow: calls nested more than ${MAX_CALL_DEPTH} deep`);
+    }
+    const params = Object.fromEntries(
+      Object.entries(step.params).map(([key, value]) => [
+        key,
+        resolveTemplate(value, scope.row, scope.vars, builtins),
+      ]),
+    );
+    hooks.onControlFlow?.(at, step, `Calling ${callee.name}`);
+    const flow = await runSteps(
+      createScope(callee, params, {}, { prefix: `${at.path}.`, callIndex: at.stepIndex }),
+      callee.steps,
+    );
+    if (flow.kind === "break") {
+      throw new Error(`break outside a loop in ${callee.name}`);
+    }
+    return flow;
+  };
+
+  const runStep = async (scope: Scope, step: WorkflowStep, at: StepLocation): Promise<Flow> => {
+    const { row, vars } = scope;
+    switch (step.type) {
+      case "if": {
+        const branch = evaluateCondition(step.condition, row, vars, builtins) ? "then" : "else";
+        hooks.onControlFlow?.(at, step, `if took the ${branch} branch`);
+        return runSteps(scope, step[branch]);
+      }
+      case "repeat":
+        return runLoop(scope, step, at, (iteration) => iteration < step.times);
+      case "while":
+        return runLoop(scope, step, at, (iteration) => {
+          if (!evaluateCondition(step.condition, row, vars, builtins)) {
+            return false;
+          }
+          if (iteration >= step.maxIterations) {
+            throw new Error(`while still true after ${step.maxIterations} iterations`);
+          }
+          return true;
+        });
+      case "break":
+        hooks.onControlFlow?.(at, step, step.label ? `break out of ${step.label}` : "break");
+        return { kind: "break", label: step.label };
+      case "skip_row": {
+        const reason = step.reason ? resolveTemplate(step.reason, row, vars, builtins) : null;
+        hooks.onControlFlow?.(at, step, reason ? `Row skipped: ${reason}` : "Row skipped");
+        return { kind: "skip_row", reason };
+      }
+      case "call_workflow":
+        return runCall(scope, step, at);
+      default:
+        await retryWithBackoff(
+          async () => {
+            await executeStep(step, row, vars, settings, ctx, builtins);
+            if (isExtractStep(step) && !settings.dryRun) {
+              outputs[step.varName] = vars[step.varName] ?? "";
+            }
+            hooks.onStepComplete?.(at, step);
+          },
+          step.retries ?? 0,
+          step.timeoutMs ?? settings.timeoutMs,
+          ctx,
+        );
+        return NEXT;
+    }
+  };
+
+  const runSteps = async (scope: Scope, steps: WorkflowStep[]): Promise<Flow> => {
+    for (const step of steps) {
+      const at = locate(scope, step);
+      await hooks.beforeStep?.(at);
+      let flow: Flow = NEXT;
+      try {
+        flow = await runStep(scope, step, at);
+      } catch (caught) {
+        error = caught instanceof Error ? caught.message : "Unknown error";
+        failure = caught instanceof AssertionError ? caught.failure : undefined;
+        hooks.onStepError?.(at, step, error);
+        if (!settings.bestEffort) {
+          return { kind: "stop" };
+        }
+      }
+      if (flow.kind !== "next") {
+        return flow;
+      }
+      // Blocks and calls get no delay of their own; the steps inside them did.
+      if (!isBlockStep(step) && step.type !== "call_workflow") {
+        await applyDelay(ctx, settings.delayMinMs, settings.delayMaxMs);
+      }
+    }
+    return NEXT;
+  };
+
+  const flow = await runSteps(createScope(workflow, row, vars), workflow.steps);
+  if (flow.kind === "break") {
+    error = flow.label ? `No enclosing loop is labelled "${flow.label}"` : "break outside a loop";
+    failure = undefined;
+  }
+  if (error !== null) {
+    return { status: "failed", error, outputs, ...(failure && { failure }) };
+  }
+  return flow.kind === "skip_row"
+    ? { status: "skipped", error: flow.reason, outputs }
+    : { status: "success", error: null, outputs };
+};
@@ -0,0 +1,281 @@
+import type { CsvRow } from "./schema";
+import {
+  BUILTIN_NAMES,
+  type TemplateBuiltins,
+  lookupName,
+  renderTemplate,
+  templateError,
+  templateNames,
+} from "./template";
+
+// Conditions for conditional, if and while steps. Names read a variable set by a step first,
+// then the row, then a built-in such as rowIndex; `{{name}}` is a template (see template.ts),
+// for names with spaces or filters. Values compare as numbers when both sides are numeric and
+// as text otherwise. Nothing here runs page code.
+//
+//   status == "active" && retries < 3
+//   !(title contains "draft") || {{Force post}}
+//   {{title | trim}} != ""
+
+type Token =
+  | { kind: "string" | "number" | "name" | "template"; value: string }
+  | { kind: "op"; value: string };
+
+type Value = string | boolean;
+
+type Node =
+  | { kind: "literal"; value: Value }
+  | { kind: "name"; name: string }
+  | { kind: "template"; source: string }
+  | { kind: "not"; operand: Node }
+  | { kind: "binary"; op: string; left: Node; right: Node };
+
+const OPERATORS = ["==", "!=", "<=", ">=", "&&", "||", "<", ">", "!", "(", ")"];
+
+const COMPARISONS = new Set(["==", "!=", "<", "<=", ">", ">=", "contains"]);
+
+const tokenize = (source: string) => {
+  const tokens: Token[] = [];
+  let position = 0;
+  while (position < source.length) {
+    const rest = source.slice(position);
+    const space = /^\s+/.exec(rest);
+    if (space) {
+      position += space[0].length;
+      continue;
+    }
+    const quoted = /^(["'])((?:\\.|(?!\1).)*)\1/.exec(rest);
+    if (quoted) {
+      tokens.push({ kind: "string", value: (quoted[2] ?? "").replace(/\\(.)/g, "$1") });
+      position += quoted[0].length;
+      continue;
+    }
+    const template = /^{{(.*?)}}/.exec(rest);
+    if (template) {
+      const error = templateError(template[0]);
+      if (error) {
+        throw new Error(error);
+      }
+      tokens.push({ kind: "template", value: template[0] });
+      position += template[0].length;
+      continue;
+    }
+    const number = /^-?\d+(\.\d+)?/.exec(rest);
+    if (number) {
+      tokens.push({ kind: "number", value: number[0] });
+      position += number[0].length;
+      continue;
+    }
+    const name = /^[A-Za-z_][\w.]*/.exec(rest);
+    if (name) {
+      tokens.push(
+        name[0] === "contains" ? { kind: "op", value: name[0] } : { kind: "name", value: name[0] },
+      );
+      position += name[0].length;
+      continue;
+    }
+    const op = OPERATORS.find((candidate) => rest.startsWith(candidate));
+    if (!op) {
+      throw new Error(`Unexpected "${rest.charAt(0)}" at ${position + 1}`);
+    }
+    tokens.push({ kind: "op", value: op });
+    position += op.length;
+  }
+  return tokens;
+};
+
+// Precedence from loosest: ||, &&, !, comparisons.
+const parse = (source: string): Node => {
+  const tokens = tokenize(source);
+  let position = 0;
+  const peek = () => tokens[position];
+  const takeOp = (...ops: string[]) => {
+    const token = peek();
+    if (token?.kind === "op" && ops.includes(token.value)) {
+      position += 1;
+      return token.value;
+    }
+    return null;
+  };
+
+  const primary = (): Node => {
+    const token = peek();
+    if (!token) {
+      throw new Error("Unexpected end of expression");
+    }
+    position += 1;
+    if (token.kind === "op") {
+      if (token.value !== "(") {
+        throw new Error(`Unexpected "${token.value}"`);
+      }
+      const inner = or();
+      if (!takeOp(")")) {
+        throw new Error('Missing ")"');
+      }
+      return inner;
+    }
+    if (token.kind === "name") {
+      if (token.value === "true" || token.value === "false") {
+        return { kind: "literal", value: token.value === "true" };
+      }
+      return { kind: "name", name: token.value };
+    }
+    if (token.kind === "template") {
+      return { kind: "template", source: token.value };
+    }
+    return { kind: "literal", value: token.value };
+  };
+
+  const comparison = (): Node => {
+    const left = primary();
+    const token = peek();
+    if (token?.kind === "op" && COMPARISONS.has(token.value)) {
+      position += 1;
+      return { kind: "binary", op: token.value, left, right: primary() };
+    }
+    return left;
+  };
+
+  const not = (): Node => (takeOp("!") ? { kind: "not", operand: not() } : comparison());
+
+  const and = (): Node => {
+    let node = not();
+    while (takeOp("&&")) {
+      node = { kind: "binary", op: "&&", left: node, right: not() };
+    }
+    return node;
+  };
+
+  const or = (): Node => {
+    let node = and();
+    while (takeOp("||")) {
+      node = { kind: "binary", op: "||", left: node, right: and() };
+    }
+    return node;
+  };
+
+  const node = or();
+  const extra = peek();
+  if (extra) {
+    throw new Error(`Unexpected "${extra.value}"`);
+  }
+  return node;
+};
+
+// Empty text, "false" and "0" are false, like the conditional step.
+export const isTruthy = (value: Value) =>
+  typeof value === "boolean" ? value : value !== "" && value !== "false" && value !== "0";
+
+const asNumber = (value: Value) =>
+  typeof value === "string" && value.trim() !== "" ? Number(value) : NaN;
+
+const compare = (op: string, left: Value, right: Value) => {
+  if (op === "contains") {
+    return String(left).includes(String(right));
+  }
+  const a = asNumber(left);
+  const b = asNumber(right);
+  const numeric = !Number.isNaN(a) && !Number.isNaN(b);
+  const diff = numeric ? a - b : String(left).localeCompare(String(right));
+  const equal = numeric ? a === b : String(left) === String(right);
+  switch (op) {
+    case "==":
+      return equal;
+    case "!=":
+      return !equal;
+    case "<":
+      return diff < 0;
+    case "<=":
+      return diff <= 0;
+    case ">":
+      return diff > 0;
+    default:
+      return diff >= 0;
+  }
+};
+
+const evaluate = (
+  node: Node,
+  row: CsvRow,
+  vars: Record<string, string>,
+  builtins: TemplateBuiltins,
+): Value => {
+  const read = (operand: Node) => evaluate(operand, row, vars, builtins);
+  switch (node.kind) {
+    case "literal":
+      return node.value;
+    case "name": {
+      const value = lookupName(node.name, row, vars, builtins);
+      if (value === undefined) {
+        throw new Error(`Missing value for "${node.name}"`);
+      }
+      return value;
+    }
+    case "template":
+      return renderTemplate(node.source, row, vars, builtins);
+    case "not":
+      return !isTruthy(read(node.operand));
+    case "binary":
+      if (node.op === "&&" || node.op === "||") {
+        // The right side is only read when it decides the result.
+        const left = isTruthy(read(node.left));
+        if (left === (node.op === "||")) {
+          return left;
+        }
+        return isTruthy(read(node.right));
+      }
+      return compare(node.op, read(node.left), read(node.right));
+    default: {
+      const unknown: never = node;
+      throw new Error(`Unknown expression node: ${JSON.stringify(unknown)}`);
+    }
+  }
+};
+
+// The parse error for an expression, or null when it is well formed.
+export const expressionError = (source: string) => {
+  try {
+    parse(source);
+    return null;
+  } catch (error) {
+    return (error as Error).message;
+  }
+};
+
+export const evaluateCondition = (
+  source: string,
+  row: CsvRow,
+  vars: Record<string, string>,
+  builtins: TemplateBuiltins = {},
+) => {
+  let node: Node;
+  try {
+    node = parse(source);
+  } catch (error) {
+    throw new Error(`Invalid expression "${source}": ${(error as Error).message}`);
+  }
+  return isTruthy(evaluate(node, row, vars, builtins));
+};
+
+// Names the expression reads, for finding the columns a workflow needs. Built-ins are left out.
+export const expressionNames = (source: string) => {
+  const names: string[] = [];
+  const visit = (node: Node) => {
+    if (node.kind === "name" && !BUILTIN_NAMES.includes(node.name)) {
+      names.push(node.name);
+    } else if (node.kind === "template") {
+      names.push(...templateNames(node.source));
+    } else if (node.kind === "not") {
+      visit(node.operand);
+    } else if (node.kind === "binary") {
+      visit(node.left);
+      visit(node.right);
+    }
+  };
+  try {
+    visit(parse(source));
+  } catch {
+    return [];
+  }
+  return names;
+};
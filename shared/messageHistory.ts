@@ -0,0 +1,81 @@
+import type { MessageType } from "./schema";
+
+export type MessageVersionChange = { version: string; change: string };
+
+// When each message type was added or changed; message-schema.json publishes this as `history`.
+export const MESSAGE_HISTORY: Record<MessageType, MessageVersionChange[]> = {
+  CONTROL_HELLO: [
+    { version: "1.1.0", change: "Added." },
+    { version: "1.9.0", change: "Added optional supportedProtocolVersions." },
+  ],
+  AGENT_HELLO: [
+    { version: "1.1.0", change: "Added." },
+    { version: "1.6.0", change: "Added agentId and runId." },
+    { version: "1.9.0", change: "Added optional supportedProtocolVersions and capabilities." },
+  ],
+  CONTROL_PAIR_REQUEST: [{ version: "1.8.0", change: "Added." }],
+  AGENT_PAIR_RESPONSE: [{ version: "1.8.0", change: "Added." }],
+  CONTROL_PAIR_CONFIRM: [{ version: "1.8.0", change: "Added." }],
+  CONTROL_PING: [{ version: "1.1.0", change: "Added." }],
+  CONTROL_STEP_NEXT: [{ version: "1.1.0", change: "Added." }],
+  AGENT_PONG: [
+    { version: "1.1.0", change: "Added." },
+    { version: "1.6.0", change: "Added agentId and runId." },
+  ],
+  AGENT_ACK: [
+    { version: "1.1.0", change: "Added." },
+    { version: "1.6.0", change: "Added agentId." },
+  ],
+  CONTROL_START_RUN: [
+    { version: "1.1.0", change: "Added." },
+    { version: "1.2.0", change: "Added totalRows; rows are sent in pages." },
+    {
+      version: "1.4.0",
+      change: "Added skipRowIndexes, successCount and failureCount for resumed runs.",
+    },
+    { version: "1.5.0", change: "Added rowIndexes for retry runs." },
+    { version: "1.6.0", change: "Added targetAgentId." },
+    {
+      version: "1.10.0",
+      change: "Workflow steps have fields for their type instead of selector and value.",
+    },
+    { version: "1.11.0", change: "Added optional workflows for call_workflow steps." },
+    {
+      version: "1.14.0",
+      change:
+        "Conditional steps hold an expression instead of a template; templates have filters.",
+    },
+  ],
+  CONTROL_PAUSE_RUN: [{ version: "1.1.0", change: "Added." }],
+  CONTROL_RESUME_RUN: [{ version: "1.1.0", change: "Added." }],
+  CONTROL_STOP_RUN: [
+    { version: "1.1.0", change: "Added." },
+    { version: "1.6.0", change: "Added optional targetAgentId." },
+  ],
+  CONTROL_KILL_SWITCH: [{ version: "1.1.0", change: "Added." }],
+  CONTROL_UPDATE_SETTINGS: [{ version: "1.3.0", change: "Added." }],
+  CONTROL_ROWS: [
+    { version: "1.2.0", change: "Added." },
+    { version: "1.6.0", change: "Added targetAgentId." },
+  ],
+  CONTROL_REPLAY: [{ version: "1.7.0", change: "Added." }],
+  AGENT_STATUS: [
+    { version: "1.1.0", change: "Added." },
+    { version: "1.6.0", change: "Added agentId." },
+  ],
+  AGENT_LOG: [
+    { version: "1.1.0", change: "Added." },
+    { version: "1.6.0", change: "Added agentId." },
+    { version: "1.11.0", change: "Added optional stepPath." },
+  ],
+  AGENT_ROW_RESULT: [
+    { version: "1.1.0", change: "Added." },
+    { version: "1.6.0", change: "Added agentId." },
+    { version: "1.12.0", change: "Added optional outputs from extract steps." },
+    { version: "1.13.0", change: "Added optional failure from assertion steps." },
+  ],
+  AGENT_REQUEST_ROWS: [
+    { version: "1.2.0", change: "Added." },
+    { version: "1.6.0", change: "Added agentId." },
+  ],
+};
@@ -0,0 +1,57 @@
+import { z } from "zod";
+import {
+  MESSAGE_CHANNEL,
+  MESSAGE_VERSION,
+  MIN_COMPATIBLE_VERSION,
+  MessageEnvelopeSchema,
+  MessageSchemas,
+  type MessageType,
+} from "./schema";
+import { MESSAGE_HISTORY } from "./messageHistory";
+
+// The short type names message-schema.json has always used; "?" marks optional fields.
+const describeType = (schema: z.ZodTypeAny): string => {
+  if (schema instanceof z.ZodOptional) {
+    return `${describeType(schema.unwrap())}?`;
+  }
+  if (schema instanceof z.ZodNullable) {
+    return `${describeType(schema.unwrap())}|null`;
+  }
+  if (schema instanceof z.ZodDefault) {
+    return describeType(schema.removeDefault());
+  }
+  if (schema instanceof z.ZodEffects) {
+    return describeType(schema.innerType());
+  }
+  if (schema instanceof z.ZodString || schema instanceof z.ZodEnum) {
+    return "string";
+  }
+  if (schema instanceof z.ZodNumber) {
+    return "number";
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return "boolean";
+  }
+  if (schema instanceof z.ZodArray) {
+    return "array";
+  }
+  return "object";
+};
+
+const describeShape = (shape: z.ZodRawShape) =>
+  Object.fromEntries(Object.entries(shape).map(([key, schema]) => [key, describeType(schema)]));
+
+// What npm run schema:generate writes to shared/message-schema.json.
+export const buildMessageSchemaDocument = () => ({
+  version: MESSAGE_VERSION,
+  minCompatibleVersion: MIN_COMPATIBLE_VERSION,
+  channel: MESSAGE_CHANNEL,
+  envelope: describeShape(MessageEnvelopeSchema.shape),
+  types: Object.fromEntries(
+    Object.entries(MessageSchemas).map(([type, schema]) => [
+      type,
+      describeShape(schema.shape.payload.shape),
+    ]),
+  ) as Record<MessageType, Record<string, string>>,
+  history: MESSAGE_HISTORY,
+});
@@ -0,0 +1,104 @@
+import type { SequencedMessage } from "./schema";
+
+// Pairing: the panel shows a one-time code and offers an ECDH public key; the agent answers
+// with its own key and a proof made with the key derived from both keys and the code. The
+// derived HMAC key then signs every message between the two.
+
+const encoder = new TextEncoder();
+const PAIRING_INFO = "acp-pairing-v1";
+// 32 symbols without look-alikes (0/O, 1/I); 8 of them make a 40-bit code.
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 8;
+
+// The only messages accepted without a signature: enough to find agents and pair them.
+export const UNSIGNED_MESSAGE_TYPES: SequencedMessage["type"][] = [
+  "CONTROL_HELLO",
+  "AGENT_HELLO",
+  "CONTROL_PAIR_REQUEST",
+  "AGENT_PAIR_RESPONSE",
+];
+
+export const toBase64 = (bytes: ArrayBuffer) =>
+  btoa(String.fromCharCode(...new Uint8Array(bytes)));
+
+export const fromBase64 = (text: string) => Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+
+export const createPairingCode = () =>
+  Array.from(
+    crypto.getRandomValues(new Uint8Array(CODE_LENGTH)),
+    (value) => CODE_ALPHABET[value % CODE_ALPHABET.length],
+  ).join("");
+
+export const generatePairingKeys = () =>
+  crypto.subtle.generateKey({ name: "ECDH", namedCurve: "P-256" }, false, ["deriveBits"]);
+
+export const exportPublicKey = async (keys: CryptoKeyPair) =>
+  toBase64(await crypto.subtle.exportKey("raw", keys.publicKey));
+
+export const derivePairingKey = async (keys: CryptoKeyPair, peerPublicKey: string, code: string) => {
+  const peer = await crypto.subtle.importKey(
+    "raw",
+    fromBase64(peerPublicKey),
+    { name: "ECDH", namedCurve: "P-256" },
+    false,
+    [],
+  );
+  const bits = await crypto.subtle.deriveBits({ name: "ECDH", public: peer }, keys.privateKey, 256);
+  const material = await crypto.subtle.importKey("raw", bits, "HKDF", false, ["deriveKey"]);
+  return crypto.subtle.deriveKey(
+    {
+      name: "HKDF",
+      hash: "SHA-256",
+      salt: encoder.encode(code.trim().toUpperCase()),
+      info: encoder.encode(PAIRING_INFO),
+    },
+    material,
+    { name: "HMAC", hash: "SHA-256", length: 256 },
+    true,
+    ["sign", "verify"],
+  );
+};
+
+export const exportPairingKey = (key: CryptoKey) => crypto.subtle.exportKey("jwk", key);
+
+export const importPairingKey = (jwk: JsonWebKey) =>
+  crypto.subtle.importKey("jwk", jwk, { name: "HMAC", hash: "SHA-256" }, true, ["sign", "verify"]);
+
+const sign = async (key: CryptoKey, text: string) =>
+  toBase64(await crypto.subtle.sign("HMAC", key, encoder.encode(text)));
+
+const verify = async (key: CryptoKey, signature: string, text: string) => {
+  try {
+    return await crypto.subtle.verify("HMAC", key, fromBase64(signature), encoder.encode(text));
+  } catch {
+    return false;
+  }
+};
+
+// Shows the agent derived the same key, i.e. was given the same code.
+export const createPairingProof = (key: CryptoKey, requestId: string) => sign(key, `pair:${requestId}`);
+
+export const verifyPairingProof = (key: CryptoKey, requestId: string, proof: string) =>
+  verify(key, proof, `pair:${requestId}`);
+
+// Everything but the signature itself; JSON drops undefined fields the same way on both ends.
+const signingInput = (message: SequencedMessage) =>
+  JSON.stringify([
+    message.type,
+    message.senderId,
+    message.seq,
+    message.pairingId ?? null,
+    message.payload,
+  ]);
+
+export const signMessage = async (
+  key: CryptoKey,
+  pairingId: string,
+  message: SequencedMessage,
+): Promise<SequencedMessage> => {
+  const unsigned = { ...message, pairingId };
+  return { ...unsigned, signature: await sign(key, signingInput(unsigned)) };
+};
+
+export const verifyMessage = (key: CryptoKey, message: SequencedMessage) =>
+  message.signature ? verify(key, message.signature, signingInput(message)) : Promise.resolve(false);
@@ -0,0 +1,99 @@
+import type {
+  AgentCapabilities,
+  AgentHelloMessage,
+  ArtifactType,
+  WorkflowDefinition,
+} from "./schema";
+import { LEGACY_STEP_TYPES, MESSAGE_VERSION, MIN_COMPATIBLE_VERSION } from "./constants";
+import { MESSAGE_HISTORY } from "./messageHistory";
+import { flattenSteps } from "./steps";
+
+export { WORKFLOW_STEP_TYPES } from "./constants";
+
+export const PROTOCOL_VERSION = MESSAGE_VERSION;
+
+export const MIN_PROTOCOL_VERSION = MIN_COMPATIBLE_VERSION;
+
+// Rows go to agents in pages of this size (CONTROL_START_RUN, then CONTROL_ROWS on request).
+export const RUN_ROW_PAGE_SIZE = 500;
+
+export const ARTIFACT_TYPES: ArtifactType[] = ["screenshot", "htmlSnapshot", "consoleLogs"];
+
+// Agents from before capability reporting (protocol 1.8.0) could do all of this.
+export const LEGACY_CAPABILITIES: AgentCapabilities = {
+  stepTypes: [...LEGACY_STEP_TYPES],
+  artifactTypes: ARTIFACT_TYPES,
+};
+
+const parseVersion = (version: string) => version.split(".").map((part) => Number(part) || 0);
+
+export const compareVersions = (a: string, b: string) => {
+  const left = parseVersion(a);
+  const right = parseVersion(b);
+  for (let index = 0; index < Math.max(left.length, right.length); index += 1) {
+    const diff = (left[index] ?? 0) - (right[index] ?? 0);
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+  return 0;
+};
+
+// Every version in the message history, oldest first.
+export const PROTOCOL_VERSIONS = Array.from(
+  new Set(Object.values(MESSAGE_HISTORY).flatMap((changes) => changes.map((item) => item.version))),
+).sort(compareVersions);
+
+export const SUPPORTED_PROTOCOL_VERSIONS = PROTOCOL_VERSIONS.filter(
+  (version) => compareVersions(version, MIN_PROTOCOL_VERSION) >= 0,
+);
+
+// The highest version both sides speak, or null when they have none in common.
+export const negotiateProtocolVersion = (ours: string[], theirs: string[]) =>
+  ours
+    .filter((version) => theirs.includes(version))
+    .sort(compareVersions)
+    .pop() ?? null;
+
+export type AgentCompatibility = {
+  // Null when the agent speaks no version this panel supports.
+  protocolVersion: string | null;
+  capabilities: AgentCapabilities;
+  warning: string | null;
+};
+
+export const assessAgent = (hello: AgentHelloMessage["payload"]): AgentCompatibility => {
+  const theirs = hello.supportedProtocolVersions ?? [hello.protocolVersion];
+  const protocolVersion = negotiateProtocolVersion(SUPPORTED_PROTOCOL_VERSIONS, theirs);
+  const capabilities = hello.capabilities ?? LEGACY_CAPABILITIES;
+  if (!protocolVersion) {
+    return {
+      protocolVersion,
+      capabilities,
+      warning: `Userscript ${hello.agentVersion} speaks protocol ${hello.protocolVersion}; this panel needs ${MIN_PROTOCOL_VERSION} or later. Update the userscript.`,
+    };
+  }
+  const outdated = compareVersions(protocolVersion, PROTOCOL_VERSION) < 0;
+  return {
+    protocolVersion,
+    capabilities,
+    warning: outdated
+      ? `Userscript ${hello.agentVersion} is outdated (protocol ${protocolVersion}, panel ${PROTOCOL_VERSION}). Update it to use newer features.`
+      : null,
+  };
+};
+
+// Steps of called workflows count too; pass every workflow the calls reach.
+export const missingStepTypes = (
+  workflow: WorkflowDefinition,
+  capabilities: AgentCapabilities,
+  called: WorkflowDefinition[] = [],
+) =>
+  Array.from(
+    new Set(
+      [workflow, ...called]
+        .flatMap((item) => flattenSteps(item.steps))
+        .map((step) => step.type)
+        .filter((type) => !capabilities.stepTypes.includes(type)),
+    ),
+  );
@@ -0,0 +1,173 @@
+import type { CsvParseError, CsvParseResult } from "./csv";
+import type { CsvRow } from "./schema";
+
+export type RecordParseResult = Omit<CsvParseResult, "dialect">;
+
+export type RecordFormat = "csv" | "json" | "ndjson";
+
+const BYTE_ORDER_MARK = "\uFEFF";
+
+export const detectRecordFormat = (fileName: string): RecordFormat => {
+  const extension = fileName.toLowerCase().split(".").pop();
+  if (extension === "json") {
+    return "json";
+  }
+  if (extension === "ndjson" || extension === "jsonl") {
+    return "ndjson";
+  }
+  return "csv";
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const stringifyValue = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  if (Array.isArray(value)) {
+    // Arrays of primitives become pipe-separated lists, matching the post_options convention.
+    return value.every((item) => !isPlainObject(item) && !Array.isArray(item))
+      ? value.map(stringifyValue).join("|")
+      : JSON.stringify(value);
+  }
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+};
+
+// Nested objects become dotted column names so `{{author.name}}` resolves against the row.
+export const flattenRecord = (value: Record<string, unknown>, prefix = ""): CsvRow => {
+  const row: CsvRow = {};
+  Object.entries(value).forEach(([key, item]) => {
+    const column = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(item) && Object.keys(item).length > 0) {
+      Object.assign(row, flattenRecord(item, column));
+    } else {
+      row[column] = stringifyValue(item);
+    }
+  });
+  return row;
+};
+
+const positionToLocation = (text: string, position: number) => {
+  const before = text.slice(0, position).split("\n");
+  return { line: before.length, column: (before[before.length - 1]?.length ?? 0) + 1 };
+};
+
+const jsonErrorLocation = (text: string, error: unknown) => {
+  const message = error instanceof Error ? error.message : String(error);
+  const lineMatch = /line (\d+) column (\d+)/.exec(message);
+  if (lineMatch) {
+    return { line: Number(lineMatch[1]), column: Number(lineMatch[2]), message };
+  }
+  const positionMatch = /position (\d+)/.exec(message);
+  const location = positionMatch
+    ? positionToLocation(text, Number(positionMatch[1]))
+    : { line: 1, column: 1 };
+  return { ...location, message };
+};
+
+// Offsets of each top-level array element, so per-item problems can point at a line.
+const arrayElementOffsets = (text: string) => {
+  const offsets: number[] = [];
+  let depth = 0;
+  let inString = false;
+  let expectingValue = false;
+  for (let i = 0; i < text.length; i += 1) {
+    const char = text[i];
+    if (inString) {
+      if (char === "\\") {
+        i += 1;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+    if (expectingValue && char !== undefined && !/\s/.test(char) && char !== "]") {
+      offsets.push(i);
+      expectingValue = false;
+    }
+    if (char === '"') {
+      inString = true;
+    } else if (char === "[" || char === "{") {
+      depth += 1;
+      if (depth === 1 && char === "[") {
+        expectingValue = true;
+      }
+    } else if (char === "]" || char === "}") {
+      depth -= 1;
+    } else if (char === "," && depth === 1) {
+      expectingValue = true;
+    }
+  }
+  return offsets;
+};
+
+const collectRows = (items: { value: unknown; line: number; column: number }[]) => {
+  const errors: CsvParseError[] = [];
+  const rows: CsvRow[] = [];
+  const headers: string[] = [];
+  const seen = new Set<string>();
+  items.forEach(({ value, line, column }, index) => {
+    if (!isPlainObject(value)) {
+      errors.push({ line, column, message: `Record ${index + 1} is not an object` });
+      return;
+    }
+    const row = flattenRecord(value);
+    Object.keys(row).forEach((key) => {
+      if (!seen.has(key)) {
+        seen.add(key);
+        headers.push(key);
+      }
+    });
+    rows.push(row);
+  });
+  return {
+    headers,
+    rows: rows.map((row) =>
+      Object.fromEntries(headers.map((header) => [header, row[header] ?? ""])),
+    ),
+    errors,
+  };
+};
+
+export const parseJsonRecords = (input: string): RecordParseResult => {
+  const text = input.startsWith(BYTE_ORDER_MARK) ? input.slice(BYTE_ORDER_MARK.length) : input;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    return { headers: [], rows: [], errors: [jsonErrorLocation(text, error)] };
+  }
+  if (!Array.isArray(parsed)) {
+    return collectRows([{ value: parsed, line: 1, column: 1 }]);
+  }
+  const offsets = arrayElementOffsets(text);
+  return collectRows(
+    parsed.map((value, index) => ({
+      value,
+      ...positionToLocation(text, offsets[index] ?? 0),
+    })),
+  );
+};
+
+export const parseNdjson = (input: string): RecordParseResult => {
+  const text = input.startsWith(BYTE_ORDER_MARK) ? input.slice(BYTE_ORDER_MARK.length) : input;
+  const items: { value: unknown; line: number; column: number }[] = [];
+  const errors: CsvParseError[] = [];
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) {
+      return;
+    }
+    try {
+      items.push({ value: JSON.parse(line), line: index + 1, column: 1 });
+    } catch (error) {
+      const location = jsonErrorLocation(line, error);
+      errors.push({ ...location, line: index + 1 });
+    }
+  });
+  const result = collectRows(items);
+  return {
+    ...result,
+    errors: [...errors, ...result.errors].sort((a, b) => a.line - b.line || a.column - b.column),
+  };
+};
@@ -1,220 +1,339 @@
-import schema from "./message-schema.json";
-
-export type MessageType = keyof typeof schema.types;
-
-export type ControlStartRunMessage = {
-  type: "CONTROL_START_RUN";
-  payload: {
-    requestId: string;
-    runId: string;
-    jobId: string;
-    workflow: WorkflowDefinition;
-    rows: CsvRow[];
-    settings: RunSettings;
-    resumeFrom: number;
-  };
-};
+import { z } from "zod";
+import {
+  AssertionFailureSchema,
+  CsvRowSchema,
+  LegacyWorkflowDefinitionSchema,
+  LegacyWorkflowStepSchema,
+  RunSettingsSchema,
+  WorkflowDefinitionSchema,
+  WorkflowStepSchema,
+} from "./validators";
 
-export type ControlPauseRunMessage = {
-  type: "CONTROL_PAUSE_RUN";
-  payload: { requestId: string; runId: string };
-};
+// The protocol is defined here once: the message types are inferred from these schemas and
+// message-schema.json is generated from them (npm run schema:generate).
 
-export type ControlResumeRunMessage = {
-  type: "CONTROL_RESUME_RUN";
-  payload: { requestId: string; runId: string };
-};
+export { MESSAGE_CHANNEL, MESSAGE_VERSION, MIN_COMPATIBLE_VERSION } from "./constants";
 
-export type ControlStopRunMessage = {
-  type: "CONTROL_STOP_RUN";
-  payload: { requestId: string; runId: string };
-};
+const id = z.string().min(1);
+const count = z.number().int().nonnegative();
+// Row and step indexes; agents report -1 before their first row.
+const index = z.number().int().min(-1);
+const runStatus = z.enum(["idle", "running", "paused", "stopped", "error", "complete"]);
 
-export type ControlKillSwitchMessage = {
-  type: "CONTROL_KILL_SWITCH";
-  payload: { requestId: string; enabled: boolean };
-};
+const message = <T extends string, P extends z.ZodRawShape>(type: T, payload: P) =>
+  z.object({ type: z.literal(type), payload: z.object(payload) });
 
-export type ControlHelloMessage = {
-  type: "CONTROL_HELLO";
-  payload: {
-    requestId: string;
-    appVersion: string;
-    protocolVersion: string;
-  };
-};
+export const ControlStartRunSchema = message("CONTROL_START_RUN", {
+  requestId: id,
+  // Each agent in the pool gets its own share of the run's rows.
+  targetAgentId: id,
+  runId: id,
+  jobId: id,
+  // Agents on a protocol before 1.10.0 get their steps in the legacy shape.
+  workflow: z.union([WorkflowDefinitionSchema, LegacyWorkflowDefinitionSchema]),
+  rows: z.array(CsvRowSchema),
+  totalRows: count,
+  settings: RunSettingsSchema,
+  resumeFrom: count,
+  // Rows at or after resumeFrom that already finished in an earlier attempt.
+  skipRowIndexes: z.array(count),
+  successCount: count,
+  failureCount: count,
+  // When set, only these rows are executed (a retry of selected rows).
+  rowIndexes: z.array(count).nullable(),
+  // Every workflow the workflow's call_workflow steps reach, directly or through others.
+  workflows: z.array(WorkflowDefinitionSchema).optional(),
+});
 
-export type AgentHelloMessage = {
-  type: "AGENT_HELLO";
-  payload: {
-    requestId: string;
-    agentVersion: string;
-    protocolVersion: string;
-    tabUrl: string;
-    site: string;
-  };
-};
+export const ControlPauseRunSchema = message("CONTROL_PAUSE_RUN", { requestId: id, runId: id });
 
-export type ControlPingMessage = {
-  type: "CONTROL_PING";
-  payload: {
-    requestId: string;
-  };
-};
+export const ControlResumeRunSchema = message("CONTROL_RESUME_RUN", { requestId: id, runId: id });
 
-export type ControlStepNextMessage = {
-  type: "CONTROL_STEP_NEXT";
-  payload: {
-    requestId: string;
-    runId: string;
-    rowIndex: number;
-    stepIndex: number;
-  };
-};
+export const ControlStopRunSchema = message("CONTROL_STOP_RUN", {
+  requestId: id,
+  runId: id,
+  // Without a target every agent working on the run stops.
+  targetAgentId: id.optional(),
+});
 
-export type AgentPongMessage = {
-  type: "AGENT_PONG";
-  payload: {
-    requestId: string;
-    tabUrl: string;
-    site: string;
-    uptimeMs: number;
-  };
-};
+export const ControlKillSwitchSchema = message("CONTROL_KILL_SWITCH", {
+  requestId: id,
+  enabled: z.boolean(),
+});
 
-export type AgentAckMessage = {
-  type: "AGENT_ACK";
-  payload: {
-    requestId: string;
-    commandType: string;
-    ok: boolean;
-    error: string;
-  };
-};
+export const ControlUpdateSettingsSchema = message("CONTROL_UPDATE_SETTINGS", {
+  requestId: id,
+  runId: id,
+  settings: RunSettingsSchema,
+});
 
-export type AgentStatusMessage = {
-  type: "AGENT_STATUS";
-  payload: {
-    runId: string;
-    status: "idle" | "running" | "paused" | "stopped" | "error" | "complete";
-    currentRowIndex: number;
-    message: string;
-    successCount: number;
-    failureCount: number;
-  };
-};
+export const ControlRowsSchema = message("CONTROL_ROWS", {
+  requestId: id,
+  targetAgentId: id,
+  runId: id,
+  offset: count,
+  rows: z.array(CsvRowSchema),
+});
 
-export type AgentLogMessage = {
-  type: "AGENT_LOG";
-  payload: {
-    runId: string;
-    rowIndex: number;
-    stepIndex: number;
-    level: "debug" | "info" | "warn" | "error";
-    message: string;
-    timestamp: string;
-  };
-};
+// Asks an agent to send its messages with these sequence numbers again.
+export const ControlReplaySchema = message("CONTROL_REPLAY", {
+  requestId: id,
+  targetAgentId: id,
+  fromSeq: count,
+  toSeq: count,
+});
 
-export type AgentRowResultMessage = {
-  type: "AGENT_ROW_RESULT";
-  payload: {
-    runId: string;
-    rowIndex: number;
-    status: "success" | "failed" | "skipped";
-    error: string | null;
-    artifacts: {
-      screenshot?: string;
-      htmlSnapshot?: string;
-      consoleLogs?: string[];
-    };
-    durationMs?: number;
-  };
-};
+export const ControlHelloSchema = message("CONTROL_HELLO", {
+  requestId: id,
+  appVersion: z.string(),
+  protocolVersion: z.string(),
+  // Every protocol version the sender can speak; older senders only report protocolVersion.
+  supportedProtocolVersions: z.array(z.string()).optional(),
+});
 
-export type ACPMessage =
-  | ControlHelloMessage
-  | AgentHelloMessage
-  | ControlPingMessage
-  | ControlStepNextMessage
-  | AgentPongMessage
-  | AgentAckMessage
-  | ControlStartRunMessage
-  | ControlPauseRunMessage
-  | ControlResumeRunMessage
-  | ControlStopRunMessage
-  | ControlKillSwitchMessage
-  | AgentStatusMessage
-  | AgentLogMessage
-  | AgentRowResultMessage;
-
-export type WorkflowStepType =
-  | "goto"
-  | "click"
-  | "type"
-  | "press"
-  | "wait_for_selector"
-  | "wait_time"
-  | "screenshot"
-  | "evaluate"
-  | "set_var"
-  | "conditional";
-
-export type WorkflowStep = {
-  id: string;
-  type: WorkflowStepType;
-  selector?: string;
-  value?: string;
-  timeoutMs?: number;
-  retries?: number;
-  notes?: string;
-};
+// What an agent can execute and capture, reported in AGENT_HELLO since protocol 1.9.0. Plain
+// strings, so a newer agent's unknown step types do not get its hello rejected.
+export const AgentCapabilitiesSchema = z.object({
+  stepTypes: z.array(z.string()),
+  artifactTypes: z.array(z.string()),
+});
 
-export type WorkflowDefinition = {
-  id: string;
-  name: string;
-  steps: WorkflowStep[];
-  updatedAt: string;
-};
+export const AgentHelloSchema = message("AGENT_HELLO", {
+  requestId: id,
+  // Stable for the lifetime of the userscript tab.
+  agentId: id,
+  agentVersion: z.string(),
+  protocolVersion: z.string(),
+  supportedProtocolVersions: z.array(z.string()).optional(),
+  capabilities: AgentCapabilitiesSchema.optional(),
+  tabUrl: z.string(),
+  site: z.string(),
+  // The run the agent is executing, if any.
+  runId: id.nullable(),
+});
+
+// Offers the panel's ECDH key; the user types the code the panel shows into the agent tab.
+export const ControlPairRequestSchema = message("CONTROL_PAIR_REQUEST", {
+  requestId: id,
+  publicKey: id,
+});
+
+export const AgentPairResponseSchema = message("AGENT_PAIR_RESPONSE", {
+  requestId: id,
+  agentId: id,
+  pairingId: id,
+  publicKey: id,
+  // HMAC over the request id with the derived key; wrong codes give a wrong proof.
+  proof: id,
+  site: z.string(),
+});
+
+// Signed with the new key; the agent only keeps the pairing once this verifies.
+export const ControlPairConfirmSchema = message("CONTROL_PAIR_CONFIRM", {
+  requestId: id,
+  targetAgentId: id,
+  pairingId: id,
+});
+
+export const ControlPingSchema = message("CONTROL_PING", { requestId: id });
+
+export const ControlStepNextSchema = message("CONTROL_STEP_NEXT", {
+  requestId: id,
+  runId: id,
+  rowIndex: count,
+  stepIndex: count,
+});
+
+export const AgentPongSchema = message("AGENT_PONG", {
+  requestId: id,
+  agentId: id,
+  tabUrl: z.string(),
+  site: z.string(),
+  uptimeMs: z.number().nonnegative(),
+  runId: id.nullable(),
+});
+
+export const AgentAckSchema = message("AGENT_ACK", {
+  requestId: id,
+  agentId: id,
+  commandType: z.string(),
+  ok: z.boolean(),
+  error: z.string(),
+});
 
-export type RunSettings = {
-  headless: boolean;
-  slowMoMs: number;
-  timeoutMs: number;
-  delayMinMs: number;
-  delayMaxMs: number;
-  concurrency: number;
-  bestEffort: boolean;
-  dryRun: boolean;
-  stepThrough: boolean;
-  storageState?: string;
+export const AgentStatusSchema = message("AGENT_STATUS", {
+  agentId: id,
+  runId: id,
+  status: runStatus,
+  currentRowIndex: index,
+  message: z.string(),
+  successCount: count,
+  failureCount: count,
+});
+
+export const AgentLogSchema = message("AGENT_LOG", {
+  agentId: id,
+  runId: id,
+  rowIndex: index,
+  // In the run's workflow; a step inside a called workflow reports the call step.
+  stepIndex: index,
+  // Step numbers from the run's workflow down, such as "2.3" for step 3 of the workflow
+  // that step 2 calls.
+  stepPath: z.string().optional(),
+  level: z.enum(["debug", "info", "warn", "error"]),
+  message: z.string(),
+  timestamp: z.string(),
+});
+
+export const AgentRowResultSchema = message("AGENT_ROW_RESULT", {
+  agentId: id,
+  runId: id,
+  rowIndex: count,
+  status: z.enum(["success", "failed", "skipped"]),
+  error: z.string().nullable(),
+  artifacts: z.object({
+    screenshot: z.string().optional(),
+    htmlSnapshot: z.string().optional(),
+    consoleLogs: z.array(z.string()).optional(),
+  }),
+  durationMs: z.number().nonnegative().optional(),
+  // Values extract steps saved, by variable name. Added in 1.12.0.
+  outputs: z.record(z.string()).optional(),
+  // Set when an assertion step failed the row. Added in 1.13.0.
+  failure: AssertionFailureSchema.optional(),
+});
+
+export const AgentRequestRowsSchema = message("AGENT_REQUEST_ROWS", {
+  requestId: id,
+  agentId: id,
+  runId: id,
+  offset: count,
+  limit: z.number().int().positive(),
+});
+
+// In the order message-schema.json lists them.
+export const MessageSchemas = {
+  CONTROL_HELLO: ControlHelloSchema,
+  AGENT_HELLO: AgentHelloSchema,
+  CONTROL_PAIR_REQUEST: ControlPairRequestSchema,
+  AGENT_PAIR_RESPONSE: AgentPairResponseSchema,
+  CONTROL_PAIR_CONFIRM: ControlPairConfirmSchema,
+  CONTROL_PING: ControlPingSchema,
+  CONTROL_STEP_NEXT: ControlStepNextSchema,
+  AGENT_PONG: AgentPongSchema,
+  AGENT_ACK: AgentAckSchema,
+  CONTROL_START_RUN: ControlStartRunSchema,
+  CONTROL_PAUSE_RUN: ControlPauseRunSchema,
+  CONTROL_RESUME_RUN: ControlResumeRunSchema,
+  CONTROL_STOP_RUN: ControlStopRunSchema,
+  CONTROL_KILL_SWITCH: ControlKillSwitchSchema,
+  CONTROL_UPDATE_SETTINGS: ControlUpdateSettingsSchema,
+  CONTROL_ROWS: ControlRowsSchema,
+  CONTROL_REPLAY: ControlReplaySchema,
+  AGENT_STATUS: AgentStatusSchema,
+  AGENT_LOG: AgentLogSchema,
+  AGENT_ROW_RESULT: AgentRowResultSchema,
+  AGENT_REQUEST_ROWS: AgentRequestRowsSchema,
 };
 
-export type CsvRow = Record<string, string>;
+export type MessageType = keyof typeof MessageSchemas;
 
-export const MESSAGE_CHANNEL = schema.channel;
+export const ACPMessageSchema = z.discriminatedUnion("type", [
+  ControlHelloSchema,
+  AgentHelloSchema,
+  ControlPairRequestSchema,
+  AgentPairResponseSchema,
+  ControlPairConfirmSchema,
+  ControlPingSchema,
+  ControlStepNextSchema,
+  AgentPongSchema,
+  AgentAckSchema,
+  ControlStartRunSchema,
+  ControlPauseRunSchema,
+  ControlResumeRunSchema,
+  ControlStopRunSchema,
+  ControlKillSwitchSchema,
+  ControlUpdateSettingsSchema,
+  ControlRowsSchema,
+  ControlReplaySchema,
+  AgentStatusSchema,
+  AgentLogSchema,
+  AgentRowResultSchema,
+  AgentRequestRowsSchema,
+]);
 
-export const MESSAGE_VERSION = schema.version;
+// Added by the sending transport: who sent the message and its place in that sender's stream.
+export const MessageEnvelopeSchema = z.object({
+  senderId: id,
+  seq: z.number().int().positive(),
+  // Set on signed messages: the pairing whose key produced the HMAC signature.
+  pairingId: id.optional(),
+  signature: id.optional(),
+});
 
-const baseTypeKeys = Object.keys(schema.types);
+export const SequencedMessageSchema = z.intersection(ACPMessageSchema, MessageEnvelopeSchema);
 
-const isObject = (value: unknown): value is Record<string, unknown> =>
-  typeof value === "object" && value !== null;
+export type ControlStartRunMessage = z.infer<typeof ControlStartRunSchema>;
+export type ControlPauseRunMessage = z.infer<typeof ControlPauseRunSchema>;
+export type ControlResumeRunMessage = z.infer<typeof ControlResumeRunSchema>;
+export type ControlStopRunMessage = z.infer<typeof ControlStopRunSchema>;
+export type ControlKillSwitchMessage = z.infer<typeof ControlKillSwitchSchema>;
+export type ControlUpdateSettingsMessage = z.infer<typeof ControlUpdateSettingsSchema>;
+export type ControlRowsMessage = z.infer<typeof ControlRowsSchema>;
+export type ControlReplayMessage = z.infer<typeof ControlReplaySchema>;
+export type ControlHelloMessage = z.infer<typeof ControlHelloSchema>;
+export type AgentCapabilities = z.infer<typeof AgentCapabilitiesSchema>;
+export type AgentHelloMessage = z.infer<typeof AgentHelloSchema>;
+export type ControlPairRequestMessage = z.infer<typeof ControlPairRequestSchema>;
+export type AgentPairResponseMessage = z.infer<typeof AgentPairResponseSchema>;
+export type ControlPairConfirmMessage = z.infer<typeof ControlPairConfirmSchema>;
+export type ControlPingMessage = z.infer<typeof ControlPingSchema>;
+export type ControlStepNextMessage = z.infer<typeof ControlStepNextSchema>;
+export type AgentPongMessage = z.infer<typeof AgentPongSchema>;
+export type AgentAckMessage = z.infer<typeof AgentAckSchema>;
+export type AgentStatusMessage = z.infer<typeof AgentStatusSchema>;
+export type AgentLogMessage = z.infer<typeof AgentLogSchema>;
+export type AgentRowResultMessage = z.infer<typeof AgentRowResultSchema>;
+export type AgentRequestRowsMessage = z.infer<typeof AgentRequestRowsSchema>;
 
-const hasKeys = (value: Record<string, unknown>, keys: string[]) =>
-  keys.every((key) => key in value);
+export type ArtifactType = keyof AgentRowResultMessage["payload"]["artifacts"];
 
-export const validateMessage = (message: unknown): message is ACPMessage => {
-  if (!isObject(message) || typeof message.type !== "string") {
-    return false;
-  }
-  if (!baseTypeKeys.includes(message.type)) {
-    return false;
-  }
-  if (!("payload" in message) || !isObject(message.payload)) {
-    return false;
+export type ACPMessage = z.infer<typeof ACPMessageSchema>;
+export type MessageEnvelope = z.infer<typeof MessageEnvelopeSchema>;
+export type SequencedMessage = ACPMessage & MessageEnvelope;
+
+export type WorkflowStepType = z.infer<typeof WorkflowStepSchema>["type"];
+export type WorkflowStep = z.infer<typeof WorkflowStepSchema>;
+export type WorkflowStepOf<T extends WorkflowStepType> = Extract<WorkflowStep, { type: T }>;
+export type LegacyWorkflowStep = z.infer<typeof LegacyWorkflowStepSchema>;
+export type LegacyWorkflowDefinition = z.infer<typeof LegacyWorkflowDefinitionSchema>;
+export type WorkflowDefinition = z.infer<typeof WorkflowDefinitionSchema>;
+export type RunSettings = z.infer<typeof RunSettingsSchema>;
+export type CsvRow = z.infer<typeof CsvRowSchema>;
+export type AssertionFailure = z.infer<typeof AssertionFailureSchema>;
+
+// Parses an incoming message; unknown payload keys are dropped. Errors name the first bad field.
+export const parseMessage = (
+  input: unknown,
+): { ok: true; message: SequencedMessage } | { ok: false; error: string } => {
+  const result = SequencedMessageSchema.safeParse(input);
+  if (result.success) {
+    return { ok: true, message: result.data };
   }
-  const payloadSchema = schema.types[message.type as MessageType];
-  const requiredKeys = Object.keys(payloadSchema);
-  return hasKeys(message.payload, requiredKeys);
+  const issue = result.error.issues[0];
+  return {
+    ok: false,
+    error: issue ? `${issue.path.join(".") || "message"}: ${issue.message}` : "Invalid message",
+  };
 };
+
+// Only something claiming one of our message types is worth reporting when it fails to parse;
+// pages post plenty of unrelated window messages.
+export const isProtocolMessage = (input: unknown) =>
+  typeof input === "object" &&
+  input !== null &&
+  typeof (input as { type?: unknown }).type === "string" &&
+  (input as { type: string }).type in MessageSchemas;
+
+export const validateMessage = (input: unknown): input is SequencedMessage =>
+  SequencedMessageSchema.safeParse(input).success;
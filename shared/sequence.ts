@@ -0,0 +1,89 @@
+export type Sequenced = { senderId: string; seq: number };
+
+export type SequenceTrackerOptions = {
+  // Buffered messages per sender before a gap is given up on.
+  windowSize?: number;
+  // How long the oldest buffered message may wait for the gap before it.
+  maxWaitMs?: number;
+  // Called once per newly detected gap with the inclusive range of missing sequence numbers.
+  onGap?: (senderId: string, fromSeq: number, toSeq: number) => void;
+};
+
+type SenderState<T> = {
+  next: number;
+  requestedThrough: number;
+  buffer: Map<number, { message: T; receivedAt: number }>;
+};
+
+// Delivers each sender's messages once and in sequence order. The first message seen from a
+// sender sets where its sequence starts; anything older is treated as a duplicate.
+export const createSequenceTracker = <T extends Sequenced>(options: SequenceTrackerOptions = {}) => {
+  const windowSize = options.windowSize ?? 100;
+  const maxWaitMs = options.maxWaitMs ?? 3000;
+  const senders = new Map<string, SenderState<T>>();
+
+  const drain = (state: SenderState<T>) => {
+    const ready: T[] = [];
+    for (let entry = state.buffer.get(state.next); entry; entry = state.buffer.get(state.next)) {
+      state.buffer.delete(state.next);
+      ready.push(entry.message);
+      state.next += 1;
+    }
+    return ready;
+  };
+
+  const oldestSeq = (state: SenderState<T>) => Math.min(...state.buffer.keys());
+
+  // Stops waiting for the current gap and delivers from the next buffered message on.
+  const skipGap = (state: SenderState<T>) => {
+    state.next = oldestSeq(state);
+    return drain(state);
+  };
+
+  const accept = (message: T, now = Date.now()) => {
+    let state = senders.get(message.senderId);
+    if (!state) {
+      state = { next: message.seq, requestedThrough: message.seq - 1, buffer: new Map() };
+      senders.set(message.senderId, state);
+    }
+    if (message.seq < state.next || state.buffer.has(message.seq)) {
+      return [];
+    }
+    state.buffer.set(message.seq, { message, receivedAt: now });
+    if (message.seq > state.next && message.seq - 1 > state.requestedThrough) {
+      options.onGap?.(
+        message.senderId,
+        Math.max(state.next, state.requestedThrough + 1),
+        message.seq - 1,
+      );
+      state.requestedThrough = message.seq - 1;
+    }
+    const ready = drain(state);
+    while (state.buffer.size > windowSize) {
+      ready.push(...skipGap(state));
+    }
+    return ready;
+  };
+
+  const expire = (now = Date.now()) => {
+    const ready: T[] = [];
+    senders.forEach((state) => {
+      while (state.buffer.size > 0) {
+        const oldest = state.buffer.get(oldestSeq(state));
+        if (!oldest || now - oldest.receivedAt < maxWaitMs) {
+          break;
+        }
+        ready.push(...skipGap(state));
+      }
+    });
+    return ready;
+  };
+
+  const forget = (senderId: string) => {
+    senders.delete(senderId);
+  };
+
+  return { accept, expire, forget };
+};
+
+export type SequenceTracker<T extends Sequenced> = ReturnType<typeof createSequenceTracker<T>>;
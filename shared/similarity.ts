@@ -38,3 +38,31 @@ export const pickNextPost = (
     reason: "fallback: no unique candidates under similarity threshold",
   };
 };
+
+// Picks each row's post from `post_options` (or `post`), avoiding repeats of the last few
+// posts. The returned function keeps that history, so rows can be prepared page by page.
+export const createRowPreparer = (historySize = 5) => {
+  const recentPosts: string[] = [];
+  return (row: Record<string, string>) => {
+    const postOptions = row.post_options
+      ? row.post_options.split("|").map((value) => value.trim()).filter(Boolean)
+      : row.post
+        ? [row.post]
+        : [];
+    if (postOptions.length === 0) {
+      return row;
+    }
+    const selection = pickNextPost(postOptions, recentPosts);
+    recentPosts.unshift(selection.value);
+    if (recentPosts.length > historySize) {
+      recentPosts.pop();
+    }
+    return {
+      ...row,
+      post: selection.value,
+      post_reason: selection.reason,
+    };
+  };
+};
+
+export const prepareRowsForRun = (rows: Record<string, string>[]) => rows.map(createRowPreparer());
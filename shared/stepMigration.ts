@@ -0,0 +1,328 @@
+import type {
+  LegacyWorkflowDefinition,
+  LegacyWorkflowStep,
+  WorkflowDefinition,
+  WorkflowStep,
+} from "./schema";
+import { expressionError } from "./expressions";
+import { WORKFLOW_STEP_TYPES, compareVersions } from "./protocol";
+import { childStepLists, flattenSteps } from "./steps";
+import { BUILTIN_NAMES } from "./template";
+
+// The protocol version whose steps have type-specific fields.
+export const TYPED_STEPS_VERSION = "1.10.0";
+
+// The protocol version whose conditional steps hold an expression instead of a template.
+export const CONDITION_EXPRESSIONS_VERSION = "1.14.0";
+
+type StepInput = Record<string, unknown> & { id: string; type: WorkflowStep["type"] };
+
+const text = (value: unknown) => (typeof value === "string" ? value : undefined);
+
+const STEP_TYPES = new Set<string>(WORKFLOW_STEP_TYPES);
+
+const isStepInput = (value: unknown): value is StepInput =>
+  Boolean(value) &&
+  typeof value === "object" &&
+  typeof (value as StepInput).id === "string" &&
+  STEP_TYPES.has((value as StepInput).type);
+
+// Nested steps are migrated too; anything that is not a step is left for validation.
+const stepList = (value: unknown) =>
+  (Array.isArray(value)
+    ? value.map((item) => (isStepInput(item) ? migrateStep(item) : item))
+    : []) as WorkflowStep[];
+
+// Converts a legacy step (selector and value) to its typed shape. Typed steps come back
+// unchanged, so it is safe to run on workflows of either shape. Templated wait_time values
+// cannot be kept and become 0.
+export const migrateStep = (step: StepInput): WorkflowStep => {
+  const { id, type } = step;
+  const base = {
+    id,
+    ...(typeof step.timeoutMs === "number" && { timeoutMs: step.timeoutMs }),
+    ...(typeof step.retries === "number" && { retries: step.retries }),
+    ...(typeof step.notes === "string" && { notes: step.notes }),
+  };
+  const selector = text(step.selector);
+  const value = text(step.value);
+  switch (type) {
+    case "goto":
+      return { ...base, type, url: text(step.url) ?? value ?? "" };
+    case "click":
+      // Legacy clicks fell back to the value, which is matched as button text.
+      return { ...base, type, selector: selector || value || "" };
+    case "type":
+      return { ...base, type, selector: selector ?? "", text: text(step.text) ?? value ?? "" };
+    case "press":
+      return {
+        ...base,
+        type,
+        key: text(step.key) ?? value ?? "",
+        ...(selector && { selector }),
+      };
+    case "wait_for_selector":
+      return { ...base, type, selector: selector ?? "" };
+    case "wait_time":
+      return {
+        ...base,
+        type,
+        durationMs:
+          typeof step.durationMs === "number" ? step.durationMs : Math.max(0, Number(value) || 0),
+      };
+    case "screenshot":
+      return { ...base, type };
+    case "evaluate":
+      return { ...base, type, code: text(step.code) ?? value ?? "" };
+    case "set_var":
+      return { ...base, type, varName: text(step.varName) ?? selector ?? "", value: value ?? "" };
+    case "conditional":
+      return { ...base, type, expression: text(step.expression) ?? value ?? "" };
+    case "extract_text":
+    case "extract_count":
+      return { ...base, type, selector: selector ?? "", varName: text(step.varName) ?? "" };
+    case "extract_attribute":
+      return {
+        ...base,
+        type,
+        selector: selector ?? "",
+        attribute: text(step.attribute) ?? "",
+        varName: text(step.varName) ?? "",
+      };
+    case "assert_text":
+      return { ...base, type, selector: selector ?? "", text: text(step.text) ?? "" };
+    case "assert_url_matches":
+      return { ...base, type, pattern: text(step.pattern) ?? "" };
+    case "assert_element_absent":
+      return { ...base, type, selector: selector ?? "" };
+    case "assert_var_equals":
+      return {
+        ...base,
+        type,
+        varName: text(step.varName) ?? "",
+        expected: text(step.expected) ?? value ?? "",
+      };
+    case "break":
+      return { ...base, type, ...(text(step.label) && { label: text(step.label) }) };
+    case "skip_row":
+      return { ...base, type, ...(text(step.reason) && { reason: text(step.reason) }) };
+    case "call_workflow": {
+      const params = step.params && typeof step.params === "object" ? step.params : {};
+      return {
+        ...base,
+        type,
+        workflowId: text(step.workflowId) ?? "",
+        params: Object.fromEntries(Object.entries(params).map(([key, item]) => [key, String(item)])),
+      };
+    }
+    case "if":
+      return {
+        ...base,
+        type,
+        condition: text(step.condition) ?? text(step.expression) ?? "",
+        then: stepList(step.then ?? step.steps),
+        else: stepList(step.else),
+      };
+    case "repeat":
+      return {
+        ...base,
+        type,
+        times: typeof step.times === "number" ? step.times : 1,
+        ...(text(step.label) && { label: text(step.label) }),
+        steps: stepList(step.steps ?? step.then),
+      };
+    case "while":
+      return {
+        ...base,
+        type,
+        condition: text(step.condition) ?? text(step.expression) ?? "",
+        maxIterations: typeof step.maxIterations === "number" ? step.maxIterations : 100,
+        ...(text(step.label) && { label: text(step.label) }),
+        steps: stepList(step.steps ?? step.then),
+      };
+    default: {
+      const unknown: never = type;
+      throw new Error(`Unknown step type: ${String(unknown)}`);
+    }
+  }
+};
+
+export const migrateWorkflow = <W extends { steps: StepInput[] }>(
+  workflow: W,
+): Omit<W, "steps"> & { steps: WorkflowStep[] } => ({
+  ...workflow,
+  steps: workflow.steps.map(migrateStep),
+});
+
+const TEMPLATE_TOKEN = /{{.*?}}/g;
+
+// Before 1.14.0 a conditional rendered its value as a template and failed the row when that
+// was "" or "false", or when a field it named was missing. Returns the expression that checks
+// the same thing.
+export const conditionFromTemplate = (value: string) => {
+  const tokens = Array.from(new Set(value.match(TEMPLATE_TOKEN) ?? []));
+  if (tokens.length === 0) {
+    return value === "" || value === "false" ? "false" : "true";
+  }
+  if (value === tokens[0]) {
+    return `${value} != "" && ${value} != "false"`;
+  }
+  if (value.replace(TEMPLATE_TOKEN, "") !== "") {
+    // Text around the fields keeps the value from being empty, so only a missing field fails.
+    return tokens.map((token) => `${token} == ${token}`).join(" && ");
+  }
+  return tokens.map((token) => `${token} != ""`).join(" || ");
+};
+
+const mapChildSteps = (step: WorkflowStep, map: (steps: WorkflowStep[]) => WorkflowStep[]) => {
+  const lists = childStepLists(step);
+  return lists.length === 0
+    ? step
+    : ({ ...step, ...Object.fromEntries(lists.map(([field, steps]) => [field, map(steps)])) } as
+        WorkflowStep);
+};
+
+// Rewrites conditionals saved before 1.14.0, nested ones included. `all` is for data known to
+// be older (the database upgrade and older exports); otherwise only values that do not parse
+// are rewritten, since one that does may have been written as an expression. Empty values are
+// left for validation.
+export const migrateConditionals = (steps: WorkflowStep[], all: boolean): WorkflowStep[] =>
+  steps.map((step) =>
+    step.type === "conditional"
+      ? step.expression !== "" && (all || expressionError(step.expression))
+        ? { ...step, expression: conditionFromTemplate(step.expression) }
+        : step
+      : mapChildSteps(step, (children) => migrateConditionals(children, all)),
+  );
+
+// For workflows from storage, files and imports before they are validated: steps of a known
+// type are migrated and anything else is left for validation to report. `conditionals` says
+// which conditionals to rewrite (see migrateConditionals); by default none are.
+export const migrateWorkflowData = (data: unknown, conditionals?: "all" | "invalid"): unknown => {
+  if (!data || typeof data !== "object" || !Array.isArray((data as { steps?: unknown }).steps)) {
+    return data;
+  }
+  const steps = stepList((data as { steps: unknown[] }).steps);
+  return {
+    ...data,
+    steps: conditionals ? migrateConditionals(steps, conditionals === "all") : steps,
+  };
+};
+
+// The selector and value an agent before protocol 1.10.0 reads for this step.
+export const toLegacyStep = (step: WorkflowStep): LegacyWorkflowStep => {
+  const { id, timeoutMs, retries, notes } = step;
+  const legacy = { id, timeoutMs, retries, notes };
+  switch (step.type) {
+    case "goto":
+      return { ...legacy, type: step.type, value: step.url };
+    case "click":
+    case "wait_for_selector":
+      return { ...legacy, type: step.type, selector: step.selector };
+    case "type":
+      return { ...legacy, type: step.type, selector: step.selector, value: step.text };
+    case "press":
+      return { ...legacy, type: step.type, selector: step.selector, value: step.key };
+    case "wait_time":
+      return { ...legacy, type: step.type, value: String(step.durationMs) };
+    case "screenshot":
+      return { ...legacy, type: step.type };
+    case "evaluate":
+      return { ...legacy, type: step.type, value: step.code };
+    case "set_var":
+      return { ...legacy, type: step.type, selector: step.varName, value: step.value };
+    case "conditional":
+      return { ...legacy, type: step.type, value: step.expression };
+    case "extract_text":
+    case "extract_attribute":
+    case "extract_count":
+    case "assert_text":
+    case "assert_url_matches":
+    case "assert_element_absent":
+    case "assert_var_equals":
+    case "break":
+    case "skip_row":
+    case "call_workflow":
+    case "if":
+    case "repeat":
+    case "while":
+      // Agents report their step types, so runs never send these to an older agent.
+      throw new Error(
+        `Agents before protocol ${TYPED_STEPS_VERSION} cannot run ${step.type} steps`,
+      );
+    default: {
+      const unknown: never = step;
+      throw new Error(`Unknown step type: ${String((unknown as WorkflowStep).type)}`);
+    }
+  }
+};
+
+const PLAIN_FIELD = /^{{\s*([^{}|]+?)\s*}}$|^([A-Za-z_][\w.]*)$/;
+
+// The template an agent before 1.14.0 checks for a conditional, or null when it has none: only
+// true, false and a single field (bare, in a template without filters, or checked against ""
+// and "false") carry over. A field reading "0" passed there and fails here.
+const conditionTemplate = (expression: string) => {
+  const source = expression.trim();
+  if (source === "true" || source === "false") {
+    return source;
+  }
+  const single = /^({{[^{}]*}}) != "" && \1 != "false"$/.exec(source)?.[1] ?? source;
+  const match = PLAIN_FIELD.exec(single);
+  const name = match?.[1] ?? match?.[2];
+  return name && name !== "contains" && !BUILTIN_NAMES.includes(name) ? `{{${name}}}` : null;
+};
+
+const needsConditionTemplates = (protocolVersion: string | null | undefined) =>
+  Boolean(protocolVersion) &&
+  compareVersions(protocolVersion as string, CONDITION_EXPRESSIONS_VERSION) < 0;
+
+// Conditionals an agent speaking `protocolVersion` cannot check, in the workflows given.
+export const unsupportedConditions = (
+  workflows: WorkflowDefinition[],
+  protocolVersion: string | null | undefined,
+) =>
+  needsConditionTemplates(protocolVersion)
+    ? workflows
+        .flatMap((workflow) => flattenSteps(workflow.steps))
+        .flatMap((step) =>
+          step.type === "conditional" && conditionTemplate(step.expression) === null
+            ? [step.expression]
+            : [],
+        )
+    : [];
+
+const toConditionTemplates = (steps: WorkflowStep[]): WorkflowStep[] =>
+  steps.map((step) => {
+    if (step.type !== "conditional") {
+      return mapChildSteps(step, toConditionTemplates);
+    }
+    const template = conditionTemplate(step.expression);
+    if (template === null) {
+      throw new Error(
+        `Agents before protocol ${CONDITION_EXPRESSIONS_VERSION} cannot check the condition "${step.expression}"`,
+      );
+    }
+    return { ...step, expression: template };
+  });
+
+// The workflow with its conditionals as an agent speaking `protocolVersion` checks them. Throws
+// when one cannot be written for that agent (see unsupportedConditions).
+export const conditionsForProtocol = (
+  workflow: WorkflowDefinition,
+  protocolVersion: string | null | undefined,
+): WorkflowDefinition =>
+  needsConditionTemplates(protocolVersion)
+    ? { ...workflow, steps: toConditionTemplates(workflow.steps) }
+    : workflow;
+
+// The workflow as an agent speaking `protocolVersion` expects it.
+export const workflowForProtocol = (
+  workflow: WorkflowDefinition,
+  protocolVersion: string | null | undefined,
+): WorkflowDefinition | LegacyWorkflowDefinition => {
+  const checked = conditionsForProtocol(workflow, protocolVersion);
+  return protocolVersion && compareVersions(protocolVersion, TYPED_STEPS_VERSION) < 0
+    ? { ...checked, steps: checked.steps.map(toLegacyStep) }
+    : checked;
+};
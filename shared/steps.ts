@@ -0,0 +1,70 @@
+import type { WorkflowStep } from "./schema";
+
+// Helpers for workflows whose if, repeat and while steps contain further steps.
+
+export type BlockStep = Extract<WorkflowStep, { type: "if" | "repeat" | "while" }>;
+
+export const isBlockStep = (step: WorkflowStep): step is BlockStep =>
+  step.type === "if" || step.type === "repeat" || step.type === "while";
+
+export const isLoopStep = (
+  step: WorkflowStep,
+): step is Extract<WorkflowStep, { type: "repeat" | "while" }> =>
+  step.type === "repeat" || step.type === "while";
+
+// Steps that save what they read from the page into a variable and the row's outputs.
+export const isExtractStep = (
+  step: WorkflowStep,
+): step is Extract<WorkflowStep, { type: `extract_${string}` }> => step.type.startsWith("extract_");
+
+export type StepListField = "then" | "else" | "steps";
+
+// The step lists inside a block, keyed by the field that holds them.
+export const childStepLists = (step: WorkflowStep): [StepListField, WorkflowStep[]][] => {
+  switch (step.type) {
+    case "if":
+      return [
+        ["then", step.then],
+        ["else", step.else],
+      ];
+    case "repeat":
+    case "while":
+      return [["steps", step.steps]];
+    default:
+      return [];
+  }
+};
+
+// Every step in document order, blocks before their contents. A step's position here is
+// its step index in logs and step-through signals.
+export const flattenSteps = (steps: WorkflowStep[]): WorkflowStep[] =>
+  steps.flatMap((step) => [
+    step,
+    ...childStepLists(step).flatMap(([, children]) => flattenSteps(children)),
+  ]);
+
+export const stepIndexes = (steps: WorkflowStep[]) =>
+  new Map(flattenSteps(steps).map((step, index) => [step, index]));
+
+// Problems validation of single steps cannot see: break outside a loop or naming a label no
+// enclosing loop has.
+export const controlFlowErrors = (steps: WorkflowStep[]) => {
+  const indexes = stepIndexes(steps);
+  const errors: string[] = [];
+  const visit = (list: WorkflowStep[], loops: (string | undefined)[]) => {
+    list.forEach((step) => {
+      const number = (indexes.get(step) ?? 0) + 1;
+      if (step.type === "break") {
+        if (loops.length === 0) {
+          errors.push(`step ${number} (break): not inside a repeat or while step`);
+        } else if (step.label && !loops.includes(step.label)) {
+          errors.push(`step ${number} (break): no enclosing loop is labelled "${step.label}"`);
+        }
+      }
+      const inner = isLoopStep(step) ? [...loops, step.label] : loops;
+      childStepLists(step).forEach(([, children]) => visit(children, inner));
+    });
+  };
+  visit(steps, []);
+  return errors;
+};
@@ -0,0 +1,75 @@
+import type { WorkflowDefinition } from "./schema";
+import { extractTemplateKeys } from "./columns";
+import { flattenSteps } from "./steps";
+
+// call_workflow steps run another saved workflow with named parameters as its row.
+
+const callSteps = (workflow: WorkflowDefinition) =>
+  flattenSteps(workflow.steps).flatMap((step, index) =>
+    step.type === "call_workflow" ? [{ step, number: index + 1 }] : [],
+  );
+
+// The names a called workflow's templates and conditions read, which callers must pass.
+export const workflowParameters = (workflow: WorkflowDefinition) => extractTemplateKeys(workflow);
+
+// Every workflow the calls reach, directly or through other calls, once each. Ids that are
+// not in the library are left out.
+export const calledWorkflows = (workflow: WorkflowDefinition, library: WorkflowDefinition[]) => {
+  const byId = new Map(library.map((item) => [item.id, item]));
+  const found = new Map<string, WorkflowDefinition>();
+  const visit = (current: WorkflowDefinition) => {
+    callSteps(current).forEach(({ step }) => {
+      const callee = byId.get(step.workflowId);
+      if (callee && callee.id !== workflow.id && !found.has(callee.id)) {
+        found.set(callee.id, callee);
+        visit(callee);
+      }
+    });
+  };
+  visit(workflow);
+  return Array.from(found.values());
+};
+
+// The names along the first chain of calls that comes back to a workflow already on it,
+// such as ["Post", "Compose", "Post"], or null. `workflow` replaces its saved copy in the
+// library, so an edit can be checked before it is saved.
+export const findCallCycle = (workflow: WorkflowDefinition, library: WorkflowDefinition[]) => {
+  const byId = new Map(library.map((item) => [item.id, item]));
+  byId.set(workflow.id, workflow);
+  const visit = (chain: WorkflowDefinition[]): WorkflowDefinition[] | null => {
+    const current = chain[chain.length - 1];
+    for (const { step } of current ? callSteps(current) : []) {
+      const callee = byId.get(step.workflowId);
+      if (!callee) {
+        continue;
+      }
+      if (chain.some((item) => item.id === callee.id)) {
+        return [...chain, callee];
+      }
+      const cycle = visit([...chain, callee]);
+      if (cycle) {
+        return cycle;
+      }
+    }
+    return null;
+  };
+  return visit([workflow])?.map((item) => item.name) ?? null;
+};
+
+// Calls that cannot run: unknown workflows, parameters the callee reads but the call does not
+// pass, and cycles. Steps are numbered as in the editor.
+export const callWorkflowErrors = (workflow: WorkflowDefinition, library: WorkflowDefinition[]) => {
+  const byId = new Map(library.map((item) => [item.id, item]));
+  const errors = callSteps(workflow).flatMap(({ step, number }) => {
+    const callee = byId.get(step.workflowId);
+    if (!callee) {
+      return [`step ${number} (call_workflow): no workflow with id ${step.workflowId}`];
+    }
+    const missing = workflowParameters(callee).filter((key) => !(key in step.params));
+    return missing.length > 0
+      ? [`step ${number} (call_workflow): no value for ${missing.join(", ")}`]
+      : [];
+  });
+  const cycle = findCallCycle(workflow, library);
+  return cycle ? [...errors, `workflows call each other: ${cycle.join(" → ")}`] : errors;
+};
@@ -0,0 +1,195 @@
+import type { CsvRow } from "./schema";
+
+// `{{name}}` templates in step fields. A name reads a variable set by a step first, then the
+// row, then a built-in. Filters after `|` transform the value left to right:
+//
+//   {{title | default:"n/a" | truncate:80}}
+//   https://example.com/search?q={{query | trim | urlencode}}
+//   {{now | date:"YYYY-MM-DD"}}
+//
+// A missing value fails the row unless a default filter supplies one.
+
+// Values the executor knows about the row rather than reading from it. `now` is the current
+// time when not given.
+export type TemplateBuiltins = { rowIndex?: number; runId?: string; now?: Date };
+
+export const BUILTIN_NAMES = ["rowIndex", "runId", "now"];
+
+type Filter = { name: string; arg?: string };
+
+type Segment = string | { name: string; filters: Filter[] };
+
+type FilterSpec = {
+  arg: "none" | "required";
+  apply: (value: string, arg: string) => string;
+};
+
+// Dates are formatted in UTC, so every agent and the preview agree.
+const formatDate = (value: string, format: string) => {
+  const date = new Date(/^-?\d+$/.test(value.trim()) ? Number(value) : value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`date: "${value}" is not a date`);
+  }
+  const pad = (part: number, length = 2) => String(part).padStart(length, "0");
+  const parts: Record<string, string> = {
+    YYYY: pad(date.getUTCFullYear(), 4),
+    MM: pad(date.getUTCMonth() + 1),
+    DD: pad(date.getUTCDate()),
+    HH: pad(date.getUTCHours()),
+    mm: pad(date.getUTCMinutes()),
+    ss: pad(date.getUTCSeconds()),
+  };
+  return format.replace(/YYYY|MM|DD|HH|mm|ss/g, (token) => parts[token] ?? token);
+};
+
+const FILTERS: Record<string, FilterSpec> = {
+  trim: { arg: "none", apply: (value) => value.trim() },
+  upper: { arg: "none", apply: (value) => value.toUpperCase() },
+  lower: { arg: "none", apply: (value) => value.toLowerCase() },
+  urlencode: { arg: "none", apply: (value) => encodeURIComponent(value) },
+  truncate: { arg: "required", apply: (value, arg) => value.slice(0, Number(arg)) },
+  date: { arg: "required", apply: formatDate },
+};
+
+const checkFilter = ({ name, arg }: Filter) => {
+  if (name === "default") {
+    if (arg === undefined) {
+      throw new Error("default needs a value, such as default:\"n/a\"");
+    }
+    return;
+  }
+  const spec = FILTERS[name];
+  if (!spec) {
+    throw new Error(`Unknown filter "${name}"`);
+  }
+  if (spec.arg === "none" && arg !== undefined) {
+    throw new Error(`${name} takes no value`);
+  }
+  if (spec.arg === "required" && arg === undefined) {
+    throw new Error(`${name} needs a value`);
+  }
+  if (name === "truncate" && !/^\d+$/.test(arg ?? "")) {
+    throw new Error("truncate needs a length, such as truncate:80");
+  }
+};
+
+// The filter chain after the name: `| name` or `| name:value`, where the value is quoted or
+// runs to the next `|`.
+const parseFilters = (source: string) => {
+  const filters: Filter[] = [];
+  let rest = source;
+  while (rest.trim()) {
+    const head = /^\s*\|\s*([A-Za-z_]\w*)\s*/.exec(rest);
+    if (!head) {
+      throw new Error(`Expected a filter after "|" in "${source.trim()}"`);
+    }
+    rest = rest.slice(head[0].length);
+    let arg: string | undefined;
+    if (rest.startsWith(":")) {
+      rest = rest.slice(1).trimStart();
+      const quoted = /^(["'])((?:\\.|(?!\1).)*)\1/.exec(rest);
+      const bare = quoted ? null : /^[^|]*/.exec(rest);
+      arg = quoted ? (quoted[2] ?? "").replace(/\\(.)/g, "$1") : (bare?.[0] ?? "").trim();
+      rest = rest.slice((quoted ?? bare)?.[0].length ?? 0);
+    }
+    const filter = { name: head[1] ?? "", arg };
+    checkFilter(filter);
+    filters.push(filter);
+  }
+  return filters;
+};
+
+const parseTemplate = (source: string): Segment[] => {
+  const segments: Segment[] = [];
+  let position = 0;
+  for (const match of source.matchAll(/{{(.*?)}}/g)) {
+    const index = match.index ?? 0;
+    segments.push(source.slice(position, index));
+    const body = match[1] ?? "";
+    const pipe = body.indexOf("|");
+    const name = (pipe === -1 ? body : body.slice(0, pipe)).trim();
+    if (!name) {
+      throw new Error(`Empty placeholder in "${match[0]}"`);
+    }
+    segments.push({ name, filters: pipe === -1 ? [] : parseFilters(body.slice(pipe)) });
+    position = index + match[0].length;
+  }
+  segments.push(source.slice(position));
+  return segments.filter((segment) => segment !== "");
+};
+
+// Own keys only, so names like `constructor` are missing rather than read off the prototype.
+// (Object.hasOwn is ES2022.)
+const hasOwn = (object: object, key: string) => Object.prototype.hasOwnProperty.call(object, key);
+
+// The value of a name, or undefined when neither vars, the row nor the built-ins have it.
+export const lookupName = (
+  name: string,
+  row: CsvRow,
+  vars: Record<string, string>,
+  builtins: TemplateBuiltins = {},
+) => {
+  if (hasOwn(vars, name)) {
+    return String(vars[name]);
+  }
+  if (hasOwn(row, name)) {
+    return String(row[name]);
+  }
+  switch (name) {
+    case "rowIndex":
+      return builtins.rowIndex === undefined ? undefined : String(builtins.rowIndex);
+    case "runId":
+      return builtins.runId;
+    case "now":
+      return (builtins.now ?? new Date()).toISOString();
+    default:
+      return undefined;
+  }
+};
+
+export const renderTemplate = (
+  source: string,
+  row: CsvRow,
+  vars: Record<string, string>,
+  builtins: TemplateBuiltins = {},
+) =>
+  parseTemplate(source)
+    .map((segment) => {
+      if (typeof segment === "string") {
+        return segment;
+      }
+      let value = lookupName(segment.name, row, vars, builtins);
+      for (const { name, arg } of segment.filters) {
+        if (name === "default") {
+          value = value === undefined || value === "" ? arg : value;
+        } else if (value !== undefined) {
+          value = FILTERS[name]?.apply(value, arg ?? "") ?? value;
+        }
+      }
+      if (value === undefined) {
+        throw new Error(`Missing template value for "${segment.name}"`);
+      }
+      return value;
+    })
+    .join("");
+
+// The syntax error in a template, such as an unknown filter, or null.
+export const templateError = (source: string) => {
+  try {
+    parseTemplate(source);
+    return null;
+  } catch (error) {
+    return (error as Error).message;
+  }
+};
+
+// Names the template reads that rows may supply; built-ins are left out.
+export const templateNames = (source: string) => {
+  try {
+    return parseTemplate(source).flatMap((segment) =>
+      typeof segment === "string" || BUILTIN_NAMES.includes(segment.name) ? [] : [segment.name],
+    );
+  } catch {
+    return [];
+  }
+};
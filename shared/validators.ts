@@ -1,26 +1,109 @@
 import { z } from "zod";
+import { LEGACY_STEP_TYPES } from "./constants";
+import { expressionError } from "./expressions";
+import { templateError } from "./template";
 
-export const WorkflowStepSchema = z.object({
+// Fields every step has, whatever its type.
+const stepBase = {
   id: z.string().min(1),
-  type: z.enum([
-    "goto",
-    "click",
-    "type",
-    "press",
-    "wait_for_selector",
-    "wait_time",
-    "screenshot",
-    "evaluate",
-    "set_var",
-    "conditional",
-  ]),
-  selector: z.string().optional(),
-  value: z.string().optional(),
   timeoutMs: z.number().int().nonnegative().optional(),
   retries: z.number().int().nonnegative().optional(),
   notes: z.string().optional(),
+};
+
+const step = <T extends string, F extends z.ZodRawShape>(type: T, fields: F) =>
+  z.object({ ...stepBase, type: z.literal(type), ...fields });
+
+const required = z.string().min(1, "Required");
+
+// Variable and parameter names, which templates refer to.
+const name = required.regex(/^[^{}\s]+$/, "No spaces or braces");
+
+const issue = (ctx: z.RefinementCtx, message: string | null) => {
+  if (message) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+  }
+};
+
+// Text that may contain {{templates}} (see template.ts). Code is not checked, since braces are
+// common in it.
+const template = z.string().superRefine((value, ctx) => issue(ctx, templateError(value)));
+const requiredTemplate = required.superRefine((value, ctx) => issue(ctx, templateError(value)));
+
+// Conditions are expressions over row fields and vars (see expressions.ts).
+const condition = required.superRefine((value, ctx) => issue(ctx, expressionError(value)));
+
+const pattern = requiredTemplate.superRefine((value, ctx) => {
+  try {
+    new RegExp(value);
+  } catch {
+    issue(ctx, "Not a valid regular expression");
+  }
 });
 
+const LeafStepSchema = z.discriminatedUnion("type", [
+  step("goto", { url: requiredTemplate }),
+  step("click", { selector: requiredTemplate }),
+  step("type", { selector: requiredTemplate, text: template }),
+  // Without a selector the key goes to the focused element.
+  step("press", { key: requiredTemplate, selector: template.optional() }),
+  step("wait_for_selector", { selector: requiredTemplate }),
+  step("wait_time", { durationMs: z.number().int().nonnegative() }),
+  step("screenshot", {}),
+  step("evaluate", { code: required }),
+  step("set_var", { varName: name, value: template }),
+  // Save what the page shows into varName and the row's outputs.
+  step("extract_text", { selector: requiredTemplate, varName: name }),
+  step("extract_attribute", {
+    selector: requiredTemplate,
+    attribute: requiredTemplate,
+    varName: name,
+  }),
+  // The number of elements the selector matches, which may be 0.
+  step("extract_count", { selector: requiredTemplate, varName: name }),
+  // Assertions fail the row with what they expected and what they found. assert_text passes
+  // when the element's text contains `text`; `pattern` is a regular expression.
+  step("assert_text", { selector: requiredTemplate, text: requiredTemplate }),
+  step("assert_url_matches", { pattern }),
+  step("assert_element_absent", { selector: requiredTemplate }),
+  step("assert_var_equals", { varName: name, expected: template }),
+  // Fails the row when the expression is false.
+  step("conditional", { expression: condition }),
+  // Leaves the innermost loop, or the loop with this label.
+  step("break", { label: z.string().optional() }),
+  // Ends the row without running the rest of it; the row counts as skipped.
+  step("skip_row", { reason: template.optional() }),
+  // Runs another workflow with these parameters as its row; values may be templates.
+  step("call_workflow", { workflowId: required, params: z.record(name, template) }),
+]);
+
+type StepBase = z.infer<z.ZodObject<typeof stepBase>>;
+
+// Block steps contain steps, which zod cannot infer, so their types are spelled out.
+type Step =
+  | z.infer<typeof LeafStepSchema>
+  | (StepBase & { type: "if"; condition: string; then: Step[]; else: Step[] })
+  | (StepBase & { type: "repeat"; times: number; label?: string; steps: Step[] })
+  | (StepBase & {
+      type: "while";
+      condition: string;
+      maxIterations: number;
+      label?: string;
+      steps: Step[];
+    });
+
+const steps: z.ZodType<Step[]> = z.lazy(() => z.array(WorkflowStepSchema));
+
+const label = z.string().optional();
+
+export const WorkflowStepSchema = z.discriminatedUnion("type", [
+  ...LeafStepSchema.options,
+  step("if", { condition, then: steps, else: steps }),
+  step("repeat", { times: z.number().int().min(1), label, steps }),
+  // Runs while the condition holds; going past maxIterations fails the row.
+  step("while", { condition, maxIterations: z.number().int().min(1), label, steps }),
+]);
+
 export const WorkflowDefinitionSchema = z.object({
   id: z.string().min(1),
   name: z.string().min(1),
@@ -28,31 +111,78 @@ export const WorkflowDefinitionSchema = z.object({
   updatedAt: z.string().min(1),
 });
 
-export const RunSettingsSchema = z.object({
-  headless: z.boolean(),
-  slowMoMs: z.number().int().nonnegative(),
-  timeoutMs: z.number().int().nonnegative(),
-  delayMinMs: z.number().int().nonnegative(),
-  delayMaxMs: z.number().int().nonnegative(),
-  concurrency: z.number().int().positive(),
-  bestEffort: z.boolean(),
-  dryRun: z.boolean().default(false),
-  stepThrough: z.boolean().default(false),
-  storageState: z.string().optional(),
+// Steps before protocol 1.10.0: every type shared `selector` and `value`. Older saved
+// workflows and exports use it, and agents on those protocol versions still expect it.
+export const LegacyWorkflowStepSchema = z.object({
+  ...stepBase,
+  type: z.enum(LEGACY_STEP_TYPES),
+  selector: z.string().optional(),
+  value: z.string().optional(),
+});
+
+export const LegacyWorkflowDefinitionSchema = WorkflowDefinitionSchema.extend({
+  steps: z.array(LegacyWorkflowStepSchema),
+});
+
+export const RunSettingsSchema = z
+  .object({
+    headless: z.boolean(),
+    slowMoMs: z.number().int().nonnegative(),
+    timeoutMs: z.number().int().nonnegative(),
+    delayMinMs: z.number().int().nonnegative(),
+    delayMaxMs: z.number().int().nonnegative(),
+    concurrency: z.number().int().positive(),
+    bestEffort: z.boolean(),
+    dryRun: z.boolean().default(false),
+    stepThrough: z.boolean().default(false),
+    storageState: z.string().optional(),
+  })
+  .refine((settings) => settings.delayMaxMs >= settings.delayMinMs, {
+    message: "Delay max must be at least delay min",
+    path: ["delayMaxMs"],
+  });
+
+export const RunPresetSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  settings: RunSettingsSchema,
+  updatedAt: z.string().min(1),
 });
 
 export const CsvRowSchema = z.record(z.string());
 
+export const CsvDialectSchema = z.object({
+  delimiter: z.string().length(1),
+  quoteChar: z.string().length(1),
+  lineTerminator: z.enum(["\n", "\r\n"]),
+  encoding: z.string().min(1),
+  bom: z.boolean(),
+});
+
 export const JobSchema = z.object({
   id: z.string().min(1),
   name: z.string().min(1),
   workflowId: z.string().min(1),
   csvFileName: z.string().min(1),
   headers: z.array(z.string()),
-  rows: z.array(CsvRowSchema),
+  rowCount: z.number().int().nonnegative().default(0),
+  // Only present on jobs saved before rows moved to their own table.
+  rows: z.array(CsvRowSchema).optional(),
+  dialect: CsvDialectSchema.optional(),
+  revision: z.number().int().nonnegative().default(0),
+  defaultPresetId: z.string().optional(),
   createdAt: z.string().min(1),
 });
 
+export const RunAssignmentSchema = z.object({
+  agentId: z.string().min(1).nullable(),
+  fromRow: z.number().int().nonnegative(),
+  toRow: z.number().int().nonnegative(),
+  rowIndexes: z.array(z.number().int().nonnegative()).nullable(),
+  status: z.enum(["idle", "running", "paused", "stopped", "error", "complete"]),
+  currentRowIndex: z.number().int(),
+});
+
 export const RunSchema = z.object({
   id: z.string().min(1),
   jobId: z.string().min(1),
@@ -63,6 +193,10 @@ export const RunSchema = z.object({
   successCount: z.number().int().nonnegative(),
   failureCount: z.number().int().nonnegative(),
   settings: RunSettingsSchema,
+  jobRevision: z.number().int().nonnegative().default(0),
+  parentRunId: z.string().min(1).optional(),
+  rowIndexes: z.array(z.number().int().nonnegative()).optional(),
+  assignments: z.array(RunAssignmentSchema).default([]),
   createdAt: z.string().min(1),
   updatedAt: z.string().min(1),
 });
@@ -70,13 +204,25 @@ export const RunSchema = z.object({
 export const RunLogSchema = z.object({
   id: z.string().min(1),
   runId: z.string().min(1),
+  agentId: z.string().min(1).optional(),
   rowIndex: z.number().int(),
   stepIndex: z.number().int(),
+  stepPath: z.string().optional(),
   level: z.enum(["debug", "info", "warn", "error"]),
   message: z.string(),
   timestamp: z.string(),
 });
 
+// Why an assertion step failed a row. `actual` is null when there was nothing to compare,
+// such as a missing element or an unset variable.
+export const AssertionFailureSchema = z.object({
+  assertion: z.string().min(1),
+  stepId: z.string().min(1),
+  expected: z.string(),
+  actual: z.string().nullable(),
+  selector: z.string().optional(),
+});
+
 export const RowResultSchema = z.object({
   id: z.string().min(1),
   runId: z.string().min(1),
@@ -84,6 +230,8 @@ export const RowResultSchema = z.object({
   status: z.enum(["success", "failed", "skipped"]),
   error: z.string().nullable(),
   durationMs: z.number().int().nonnegative().optional(),
+  outputs: z.record(z.string()).optional(),
+  failure: AssertionFailureSchema.optional(),
   artifacts: z
     .object({
       screenshot: z.string().optional(),
@@ -97,7 +245,11 @@ export const ACPExportSchema = z.object({
   version: z.number().int().positive(),
   exportedAt: z.string().min(1),
   workflows: z.array(WorkflowDefinitionSchema),
+  presets: z.array(RunPresetSchema).default([]),
   jobs: z.array(JobSchema),
+  jobRows: z
+    .array(z.object({ jobId: z.string().min(1), index: z.number().int().nonnegative(), row: CsvRowSchema }))
+    .default([]),
   runs: z.array(RunSchema),
   logs: z.array(RunLogSchema),
   rowResults: z.array(RowResultSchema),
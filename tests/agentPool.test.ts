@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+import {
+  type AgentConnection,
+  advanceAssignments,
+  dispatchAssignments,
+  planAssignment,
+  splitRunAssignments,
+} from "../app/src/agentPool";
+import { type Run, createDefaultSettings, createRun } from "../app/src/state";
+
+const agent = (agentId: string, status: AgentConnection["status"] = "connected"): AgentConnection => ({
+  agentId,
+  status,
+  lastHelloAt: null,
+  lastPingAt: null,
+  tabUrl: "https://example.com/",
+  site: "example.com",
+  runId: null,
+  agentVersion: null,
+  compatibility: null,
+});
+
+const startRun = (totalRows: number, concurrency: number, agentCount: number): Run => {
+  const run = createRun("job-1", { ...createDefaultSettings(), concurrency });
+  return {
+    ...run,
+    status: "running",
+    assignments: splitRunAssignments(run, totalRows, agentCount),
+  };
+};
+
+describe("agent pool", () => {
+  it("splits rows across no more agents than the concurrency allows", () => {
+    expect(
+      startRun(10, 3, 5).assignments.map(({ fromRow, toRow }) => [fromRow, toRow]),
+    ).toEqual([
+      [0, 4],
+      [4, 8],
+      [8, 10],
+    ]);
+    expect(startRun(10, 3, 0).assignments).toHaveLength(1);
+    const retry = {
+      ...createRun("job-1", { ...createDefaultSettings(), concurrency: 2 }),
+      rowIndexes: [1, 4, 7],
+    };
+    expect(splitRunAssignments(retry, 10, 2).map((share) => share.rowIndexes)).toEqual([
+      [1, 4],
+      [7],
+    ]);
+  });
+
+  it("hands waiting shares to idle agents only", () => {
+    const run = startRun(10, 3, 3);
+    const { changed, commands } = dispatchAssignments(
+      [run],
+      [agent("a"), { ...agent("b"), runId: "other-run" }, agent("c")],
+      false,
+    );
+    expect(commands).toEqual([
+      { type: "start", runId: run.id, assignmentIndex: 0, agentId: "a" },
+      { type: "start", runId: run.id, assignmentIndex: 1, agentId: "c" },
+    ]);
+    expect(changed[0]?.assignments.map((share) => share.agentId)).toEqual(["a", "c", null]);
+    expect(dispatchAssignments(changed, [agent("a"), agent("c")], false).commands).toEqual([]);
+  });
+
+  it("resumes a share after its finished rows and keeps their counts", () => {
+    const run = createRun("job-1", createDefaultSettings());
+    const stopped: Run = {
+      ...run,
+      rowResults: [
+        { runId: run.id, rowIndex: 0, status: "success", error: null },
+        { runId: run.id, rowIndex: 1, status: "failed", error: "boom" },
+        { runId: run.id, rowIndex: 2, status: "success", error: null },
+        { runId: run.id, rowIndex: 4, status: "skipped", error: null },
+      ],
+    };
+    const [share] = splitRunAssignments(stopped, 5, 1);
+    expect(planAssignment({ ...stopped, assignments: [share!] }, share!)).toEqual({
+      resumeFrom: 1,
+      totalRows: 5,
+      skipRowIndexes: [2, 4],
+      rowIndexes: null,
+      // Row 1 runs again, so only rows 0 and 2 count.
+      successCount: 2,
+      failureCount: 0,
+    });
+  });
+
+  it("skips agents that cannot execute the run", () => {
+    const run = startRun(10, 2, 2);
+    const { commands } = dispatchAssignments(
+      [run],
+      [agent("old"), agent("a")],
+      false,
+      (_, candidate) => candidate.agentId !== "old",
+    );
+    expect(commands).toEqual([{ type: "start", runId: run.id, assignmentIndex: 0, agentId: "a" }]);
+  });
+
+  it("reassigns the unfinished rows of an agent that went offline", () => {
+    const started = dispatchAssignments([startRun(10, 2, 2)], [agent("a"), agent("b")], false)
+      .changed[0] as Run;
+    const progressed: Run = {
+      ...started,
+      rowResults: [
+        { runId: started.id, rowIndex: 0, status: "success", error: null },
+        { runId: started.id, rowIndex: 1, status: "failed", error: "boom" },
+      ],
+      assignments: advanceAssignments(
+        { ...started, assignments: advanceAssignments(started, "a", 0) },
+        "a",
+        1,
+      ),
+    };
+    const { changed, commands } = dispatchAssignments(
+      [progressed],
+      [agent("a", "offline"), agent("b"), agent("c")],
+      false,
+    );
+    expect(commands).toEqual([
+      { type: "stop", runId: started.id, agentId: "a" },
+      { type: "start", runId: started.id, assignmentIndex: 0, agentId: "c" },
+    ]);
+    const share = changed[0]?.assignments[0];
+    expect(share).toMatchObject({ agentId: "c", status: "running", fromRow: 2 });
+    // Row 1 failed before the takeover; it is not run twice, and the share's counters keep it.
+    expect(planAssignment(progressed, share!)).toMatchObject({
+      resumeFrom: 2,
+      totalRows: 5,
+      successCount: 1,
+      failureCount: 1,
+    });
+  });
+
+  it("leaves shares of unknown agents alone until the pool has settled", () => {
+    const started = dispatchAssignments([startRun(4, 1, 1)], [agent("a")], false)
+      .changed[0] as Run;
+    expect(dispatchAssignments([started], [], false).changed).toEqual([]);
+    expect(dispatchAssignments([started], [], true).commands).toEqual([
+      { type: "stop", runId: started.id, agentId: "a" },
+    ]);
+  });
+});
@@ -0,0 +1,223 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { WebSocket } from "ws";
+import type { ACPMessage, SequencedMessage } from "@shared/schema";
+import { PROTOCOL_VERSION, WORKFLOW_STEP_TYPES } from "@shared/protocol";
+import { UNSIGNED_MESSAGE_TYPES, signMessage } from "@shared/pairing";
+import { ACPTransport, type TransportLink } from "../app/src/transport";
+import { createWebSocketLink } from "../app/src/webSocketLink";
+import { createDefaultSettings, createJob } from "../app/src/state";
+import { type Relay, startRelay } from "../relay/server";
+import { HeadlessRunError, runExitCode, runHeadless } from "../cli/runner";
+
+let relay: Relay;
+let pairingKey: CryptoKey;
+let link: TransportLink;
+let transport: ACPTransport;
+const sockets: WebSocket[] = [];
+
+const workflow = {
+  id: "wf-1",
+  name: "Post",
+  updatedAt: "2024-01-01T00:00:00.000Z",
+  steps: [{ id: "s1", type: "type" as const, selector: "#post", text: "{{post}}" }],
+};
+
+const rows = [
+  { name: "Ada", post_options: "Hello|Hi there" },
+  { name: "Bob", post_options: "Hello|Hi there" },
+];
+
+const job = createJob("rows", workflow.id, "rows.csv", ["name", "post_options"], rows.length);
+
+// Plays an agent over the relay: says hello, acks commands and runs each row with `outcome`.
+const startScriptedAgent = async (
+  stepTypes: string[],
+  outcome: (rowIndex: number) => boolean,
+  protocolVersion = PROTOCOL_VERSION,
+) => {
+  const socket = new WebSocket(relay.url);
+  sockets.push(socket);
+  await new Promise((resolve) => socket.once("open", resolve));
+  const started: ACPMessage[] = [];
+  let seq = 0;
+  const send = async (message: ACPMessage) => {
+    const sequenced = { ...message, senderId: "agent-1", seq: (seq += 1) } as SequencedMessage;
+    const signed = UNSIGNED_MESSAGE_TYPES.includes(message.type)
+      ? sequenced
+      : await signMessage(pairingKey, "pairing-1", sequenced);
+    socket.send(JSON.stringify(signed));
+  };
+  socket.on("message", async (data) => {
+    const message = JSON.parse(String(data)) as SequencedMessage;
+    if (message.type === "CONTROL_HELLO") {
+      await send({
+        type: "AGENT_HELLO",
+        payload: {
+          requestId: message.payload.requestId,
+          agentId: "agent-1",
+          agentVersion: protocolVersion,
+          protocolVersion,
+          supportedProtocolVersions: [protocolVersion],
+          capabilities: { stepTypes, artifactTypes: [] },
+          tabUrl: "https://example.com",
+          site: "example.com",
+          runId: null,
+        },
+      });
+    }
+    if (message.type !== "CONTROL_START_RUN") {
+      return;
+    }
+    started.push(message);
+    const { requestId, runId, rows: page } = message.payload;
+    await send({
+      type: "AGENT_ACK",
+      payload: { requestId, agentId: "agent-1", commandType: message.type, ok: true, error: "" },
+    });
+    for (const [rowIndex, row] of page.entries()) {
+      const ok = outcome(rowIndex);
+      await send({
+        type: "AGENT_LOG",
+        payload: {
+          agentId: "agent-1",
+          runId,
+          rowIndex,
+          stepIndex: 0,
+          level: ok ? "info" : "error",
+          message: `Typed ${row.post}`,
+          timestamp: new Date().toISOString(),
+        },
+      });
+      await send({
+        type: "AGENT_ROW_RESULT",
+        payload: {
+          agentId: "agent-1",
+          runId,
+          rowIndex,
+          status: ok ? "success" : "failed",
+          error: ok ? null : "Selector not found",
+          artifacts: {},
+        },
+      });
+    }
+    await send({
+      type: "AGENT_STATUS",
+      payload: {
+        agentId: "agent-1",
+        runId,
+        status: "complete",
+        currentRowIndex: page.length - 1,
+        message: "",
+        successCount: 0,
+        failureCount: 0,
+      },
+    });
+  });
+  return started;
+};
+
+describe("headless runner", () => {
+  beforeEach(async () => {
+    relay = await startRelay({ port: 0 });
+    pairingKey = await crypto.subtle.generateKey({ name: "HMAC", hash: "SHA-256" }, true, [
+      "sign",
+      "verify",
+    ]);
+    link = createWebSocketLink(relay.url, {
+      WebSocketImpl: WebSocket as unknown as typeof globalThis.WebSocket,
+    });
+    transport = new ACPTransport({ links: [link] });
+    transport.setPairingKey("pairing-1", pairingKey);
+  });
+
+  afterEach(async () => {
+    transport.close();
+    sockets.splice(0).forEach((socket) => socket.terminate());
+    await relay.close();
+  });
+
+  it("runs prepared rows on an agent and collects logs and results", async () => {
+    const started = await startScriptedAgent(WORKFLOW_STEP_TYPES, (rowIndex) => rowIndex === 0);
+    const logs: string[] = [];
+    const { run, agentId } = await runHeadless({
+      transport,
+      workflow,
+      job,
+      rows,
+      settings: createDefaultSettings(),
+      onLog: (log) => logs.push(`${log.rowIndex}: ${log.message}`),
+    });
+
+    expect(agentId).toBe("agent-1");
+    const start = started[0];
+    expect(start?.type === "CONTROL_START_RUN" && start.payload.rows.map((row) => row.post)).toEqual(
+      ["Hello", "Hi there"],
+    );
+    expect(logs).toEqual(["0: Typed Hello", "1: Typed Hi there"]);
+    expect(run.status).toBe("complete");
+    expect(run.rowResults.map((result) => [result.rowIndex, result.status])).toEqual([
+      [1, "failed"],
+      [0, "success"],
+    ]);
+    expect([run.successCount, run.failureCount]).toEqual([1, 1]);
+    expect(runExitCode(run)).toBe(1);
+    expect(runExitCode({ ...run, rowResults: run.rowResults.slice(1) })).toBe(0);
+  });
+
+  it("fails when no connected agent can execute the workflow", async () => {
+    await startScriptedAgent(["goto", "click"], () => true);
+    const attempt = runHeadless({
+      transport,
+      workflow,
+      job,
+      rows,
+      settings: createDefaultSettings(),
+      agentWaitMs: 200,
+    });
+    await expect(attempt).rejects.toThrow(HeadlessRunError);
+    await expect(attempt).rejects.toThrow("agent-1: cannot execute type");
+  });
+
+  it("writes conditionals as templates for an agent before 1.14.0 or skips it", async () => {
+    const started = await startScriptedAgent(WORKFLOW_STEP_TYPES, () => true, "1.13.0");
+    const checked = {
+      ...workflow,
+      steps: [
+        { id: "c1", type: "conditional" as const, expression: "name" },
+        { id: "c2", type: "call_workflow" as const, workflowId: "wf-2", params: {} },
+      ],
+    };
+    const called = {
+      id: "wf-2",
+      name: "Check",
+      updatedAt: workflow.updatedAt,
+      steps: [{ id: "c3", type: "conditional" as const, expression: "ready" }],
+    };
+    await runHeadless({
+      transport,
+      workflow: checked,
+      calledWorkflows: [called],
+      job,
+      rows,
+      settings: createDefaultSettings(),
+    });
+    const start = started[0];
+    expect(start?.type === "CONTROL_START_RUN" && start.payload).toMatchObject({
+      workflow: { steps: [{ expression: "{{name}}" }, { workflowId: "wf-2" }] },
+      workflows: [{ steps: [{ expression: "{{ready}}" }] }],
+    });
+
+    const attempt = runHeadless({
+      transport,
+      workflow: checked,
+      calledWorkflows: [{ ...called, steps: [{ ...called.steps[0]!, expression: "ready == 1" }] }],
+      job,
+      rows,
+      settings: createDefaultSettings(),
+      agentWaitMs: 200,
+    });
+    await expect(attempt).rejects.toThrow(HeadlessRunError);
+    await expect(attempt).rejects.toThrow('agent-1: cannot check conditional "ready == 1"');
+  });
+});
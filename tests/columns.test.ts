@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyColumnMapping,
+  extractTemplateKeys,
+  suggestColumnMapping,
+  validateRows,
+} from "@shared/columns";
+import type { WorkflowDefinition } from "@shared/schema";
+
+const workflow: WorkflowDefinition = {
+  id: "wf",
+  name: "Post",
+  updatedAt: "2024-01-01T00:00:00.000Z",
+  steps: [
+    { id: "1", type: "goto", url: "{{ url }}", notes: "Not a {{column}}" },
+    { id: "2", type: "set_var", varName: "greeting", value: "Hi {{name}}" },
+    { id: "3", type: "type", selector: "fb:composer", text: "{{greeting}} {{post}}" },
+    { id: "4", type: "extract_text", selector: "{{target}}", varName: "title" },
+    { id: "5", type: "goto", url: "{{title}}" },
+  ],
+};
+
+describe("columns", () => {
+  it("collects placeholders from every step, excluding vars", () => {
+    expect(extractTemplateKeys(workflow)).toEqual(["url", "name", "post", "target"]);
+  });
+
+  it("suggests mappings by normalized header name", () => {
+    expect(suggestColumnMapping(["url", "post"], ["URL", "Post Text", "post"])).toEqual({
+      url: "URL",
+      post: "post",
+    });
+  });
+
+  it("reports required, URL and length problems per row", () => {
+    const issues = validateRows(
+      [
+        { link: "https://example.com", post: "ok" },
+        { link: "example.com", post: "" },
+        { link: "", post: "far too long" },
+      ],
+      {
+        link: { required: true, url: true },
+        post: { required: false, url: false, maxLength: 5 },
+      },
+    );
+    expect(issues).toEqual([
+      { rowIndex: 1, column: "link", message: '"example.com" is not a valid http(s) URL' },
+      { rowIndex: 2, column: "link", message: "Value is required" },
+      { rowIndex: 2, column: "post", message: "Value is 12 characters (max 5)" },
+    ]);
+  });
+
+  it("renames mapped columns to their placeholders", () => {
+    const result = applyColumnMapping(
+      ["Link", "text"],
+      [{ Link: "https://a.com", text: "Hello" }],
+      { url: "Link", post: "text", caption: "text" },
+    );
+    expect(result.headers).toEqual(["url", "post", "caption"]);
+    expect(result.rows).toEqual([{ url: "https://a.com", post: "Hello", caption: "Hello" }]);
+  });
+});
@@ -1,5 +1,13 @@
 import { describe, expect, it } from "vitest";
-import { parseCsv, serializeCsv } from "@shared/csv";
+import {
+  DEFAULT_CSV_DIALECT,
+  createCsvStreamParser,
+  decodeCsvBytes,
+  detectCsvDialect,
+  encodeCsvText,
+  parseCsv,
+  serializeCsv,
+} from "@shared/csv";
 
 describe("csv", () => {
   it("parses headers and rows", () => {
@@ -7,6 +15,53 @@ describe("csv", () => {
     const result = parseCsv(input);
     expect(result.headers).toEqual(["url", "post"]);
     expect(result.rows).toEqual([{ url: "https://example.com", post: "Hello" }]);
+    expect(result.errors).toEqual([]);
+  });
+
+  it("keeps line breaks inside quoted fields", () => {
+    const input = 'url,post\r\nhttps://example.com,"Line one\r\nLine ""two"", done"\r\n';
+    const result = parseCsv(input);
+    expect(result.rows).toEqual([
+      { url: "https://example.com", post: 'Line one\nLine "two", done' },
+    ]);
+    expect(result.errors).toEqual([]);
+  });
+
+  it("strips a UTF-8 BOM and ignores blank trailing lines", () => {
+    const result = parseCsv("\uFEFFurl,post\nhttps://example.com,Hi\n\n\n");
+    expect(result.headers).toEqual(["url", "post"]);
+    expect(result.rows).toHaveLength(1);
+    expect(result.errors).toEqual([]);
+  });
+
+  it("reports rows with the wrong number of columns", () => {
+    const input = 'url,post\nhttps://a.com,"multi\nline"\nhttps://b.com\nhttps://c.com,x,extra';
+    const result = parseCsv(input);
+    expect(result.rows).toEqual([{ url: "https://a.com", post: "multi\nline" }]);
+    expect(result.errors).toEqual([
+      { line: 4, column: 14, message: "Expected 2 fields but found 1" },
+      { line: 5, column: 17, message: "Expected 2 fields but found 3" },
+    ]);
+  });
+
+  it("reports unterminated and stray quotes", () => {
+    expect(parseCsv('a,b\n1,"open').errors).toEqual([
+      { line: 2, column: 3, message: "Unterminated quoted field" },
+    ]);
+    expect(parseCsv('a,b\n1,x"y').errors).toEqual([
+      { line: 2, column: 4, message: "Unexpected quote inside unquoted field" },
+    ]);
+  });
+
+  it("parses the same rows when fed one character at a time", () => {
+    const input = '\uFEFFurl,post\r\nhttps://a.com,"Say ""hi""\r\nthere"\r\nhttps://b.com,x\r';
+    const parser = createCsvStreamParser(DEFAULT_CSV_DIALECT);
+    const rows = [...input].flatMap((char) => parser.push(char));
+    rows.push(...parser.end());
+    expect(parser.headers()).toEqual(["url", "post"]);
+    expect(rows).toEqual(parseCsv(input).rows);
+    expect(rows[0]?.post).toBe('Say "hi"\nthere');
+    expect(parser.errors).toEqual([]);
   });
 
   it("serializes rows", () => {
@@ -16,4 +71,44 @@ describe("csv", () => {
     );
     expect(csv).toContain('"Hello, world"');
   });
+
+  it("round-trips multi-line values", () => {
+    const rows = [{ url: "https://example.com", post: 'Say "hi"\nthen leave' }];
+    expect(parseCsv(serializeCsv(["url", "post"], rows)).rows).toEqual(rows);
+  });
+
+  it("detects semicolon, tab and pipe delimiters", () => {
+    expect(detectCsvDialect("url;post\nhttps://a.com;Hallo, Welt").delimiter).toBe(";");
+    expect(detectCsvDialect("url\tpost\nhttps://a.com\tHi, there").delimiter).toBe("\t");
+    expect(detectCsvDialect("url|post\r\nhttps://a.com|Hi").lineTerminator).toBe("\r\n");
+    expect(parseCsv("url|post\nhttps://a.com|Hi; there").rows).toEqual([
+      { url: "https://a.com", post: "Hi; there" },
+    ]);
+  });
+
+  it("detects single-quoted fields", () => {
+    const result = parseCsv("url;post\nhttps://a.com;'Hi; it''s me'");
+    expect(result.dialect.quoteChar).toBe("'");
+    expect(result.rows).toEqual([{ url: "https://a.com", post: "Hi; it's me" }]);
+  });
+
+  it("honours a manual delimiter override", () => {
+    const result = parseCsv("a;b\n1;2", { delimiter: "," });
+    expect(result.headers).toEqual(["a;b"]);
+  });
+
+  it("decodes UTF-16 and Windows-1252 uploads", () => {
+    const utf16 = encodeCsvText("\uFEFFurl,post\nhttps://a.com,Café", "utf-16le");
+    expect(decodeCsvBytes(utf16)).toMatchObject({ encoding: "utf-16le", bom: true });
+    const legacy = encodeCsvText("url;post\nhttps://a.com;Café €5", "windows-1252");
+    const decoded = decodeCsvBytes(legacy);
+    expect(decoded.encoding).toBe("windows-1252");
+    expect(parseCsv(decoded.text).rows[0]?.post).toBe("Café €5");
+  });
+
+  it("serializes in the dialect a file came in", () => {
+    const input = '\uFEFFurl;post\r\nhttps://a.com;"Hi; there"';
+    const { headers, rows, dialect } = parseCsv(input);
+    expect(serializeCsv(headers, rows, dialect)).toBe(input);
+  });
 });
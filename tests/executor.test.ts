@@ -0,0 +1,550 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { RunSettings, WorkflowStep, WorkflowStepOf, WorkflowStepType } from "@shared/schema";
+import {
+  AssertionError,
+  type ExecutorContext,
+  createExecutorContext,
+  executeRow,
+  executeStep,
+  findElement,
+  resolveTemplate,
+  retryWithBackoff,
+} from "@shared/executor";
+import { evaluateCondition, expressionError } from "@shared/expressions";
+import { controlFlowErrors } from "@shared/steps";
+import { createDefaultSettings } from "../app/src/state";
+
+const settings = (overrides: Partial<RunSettings> = {}): RunSettings => ({
+  ...createDefaultSettings(),
+  delayMinMs: 0,
+  delayMaxMs: 0,
+  ...overrides,
+});
+
+const step = <T extends WorkflowStepType>(
+  type: T,
+  fields: Omit<WorkflowStepOf<T>, "id" | "type"> & { id?: string },
+) => ({ id: `${type}-1`, type, ...fields }) as WorkflowStep;
+
+let ctx: ExecutorContext;
+
+// Sleeping moves the fake clock, so polling and backoff finish at once.
+const createContext = () =>
+  createExecutorContext({
+    document,
+    navigate: vi.fn(),
+    captureScreenshot: vi.fn(() => "blob:shot"),
+    sleep: vi.fn(async (ms: number) => {
+      vi.advanceTimersByTime(ms);
+    }),
+    log: vi.fn(),
+  });
+
+const run = (item: WorkflowStep, row = {}, vars = {}, runSettings = settings()) =>
+  executeStep(item, row, vars, runSettings, ctx);
+
+describe("step executor", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    document.body.innerHTML = `
+      <form>
+        <input id="name" />
+        <button type="button" class="send">Send message</button>
+        <div role="textbox" contenteditable="true" id="composer"></div>
+      </form>
+    `;
+    ctx = createContext();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("resolves templates from vars first, then the row", () => {
+    expect(resolveTemplate("{{ name }} / {{greeting}}", { name: "Ada" }, { greeting: "Hi" })).toBe(
+      "Ada / Hi",
+    );
+    expect(resolveTemplate("{{name}}", { name: "Ada" }, { name: "Var" })).toBe("Var");
+    expect(() => resolveTemplate("{{missing}}", {}, {})).toThrow(
+      'Missing template value for "missing"',
+    );
+  });
+
+  it("finds elements by alternatives, button text and named fallbacks", () => {
+    expect(findElement(document, "#missing | #name")?.id).toBe("name");
+    expect(findElement(document, "text=Send")?.className).toBe("send");
+    expect(findElement(document, "fb:composer")?.id).toBe("composer");
+    expect(findElement(document, "#missing")).toBeNull();
+  });
+
+  it("navigates, clicks and types", async () => {
+    await run(step("goto", { url: "https://example.com/{{slug}}" }), { slug: "a" });
+    expect(ctx.navigate).toHaveBeenCalledWith("https://example.com/a");
+
+    const clicked = vi.fn();
+    document.querySelector(".send")?.addEventListener("click", clicked);
+    await run(step("click", { selector: ".send" }));
+    await run(step("click", { selector: "Send message" }));
+    expect(clicked).toHaveBeenCalledTimes(2);
+    await expect(run(step("click", { selector: ".nope" }))).rejects.toThrow(
+      "Unable to find element for selector: .nope",
+    );
+
+    const input = document.querySelector<HTMLInputElement>("#name");
+    const typed = vi.fn();
+    input?.addEventListener("input", typed);
+    await run(step("type", { selector: "#name", text: "{{name}}" }), { name: "Ada" });
+    expect(input?.value).toBe("Ada");
+    expect(typed).toHaveBeenCalled();
+    await expect(run(step("type", { selector: "", text: "x" }))).rejects.toThrow(
+      "type requires a selector",
+    );
+  });
+
+  it("presses keys on the focused element", async () => {
+    const input = document.querySelector<HTMLInputElement>("#name");
+    const keys: string[] = [];
+    input?.addEventListener("keydown", (event) => keys.push(`down:${event.key}`));
+    input?.addEventListener("keyup", (event) => keys.push(`up:${event.key}`));
+    input?.focus();
+    await run(step("press", { key: "Enter" }));
+    expect(keys).toEqual(["down:Enter", "up:Enter"]);
+    await expect(run(step("press", { key: "" }))).rejects.toThrow("press requires a key");
+  });
+
+  it("waits for selectors and time", async () => {
+    const late = Object.assign(document.createElement("p"), { id: "late" });
+    setTimeout(() => document.body.append(late), 600);
+    await run(step("wait_for_selector", { selector: "#late", timeoutMs: 2000 }));
+    await expect(
+      run(step("wait_for_selector", { selector: "#never", timeoutMs: 1000 })),
+    ).rejects.toThrow("Timeout waiting for selector: #never");
+    await run(step("wait_time", { durationMs: 1500 }));
+    expect(ctx.sleep).toHaveBeenLastCalledWith(1500);
+  });
+
+  it("captures screenshots, evaluates code and sets variables", async () => {
+    await run(step("screenshot", {}));
+    expect(ctx.captureScreenshot).toHaveBeenCalled();
+
+    const vars: Record<string, string> = {};
+    const row = { name: "Ada" };
+    await run(step("set_var", { varName: "greeting", value: "Hi {{name}}" }), row, vars);
+    expect(vars).toEqual({ greeting: "Hi Ada" });
+    await run(step("evaluate", { code: "vars.copy = row.name + vars.greeting;" }), row, vars);
+    expect(vars.copy).toBe("AdaHi Ada");
+  });
+
+  it("extracts text, attributes and counts into variables", async () => {
+    const vars: Record<string, string> = {};
+    document.querySelector<HTMLInputElement>("#name")!.value = "Ada";
+    await run(step("extract_text", { selector: "text=Send", varName: "label" }), {}, vars);
+    await run(step("extract_text", { selector: "#name", varName: "name" }), {}, vars);
+    await run(
+      step("extract_attribute", { selector: ".send", attribute: "type", varName: "kind" }),
+      {},
+      vars,
+    );
+    await run(step("extract_count", { selector: "a | button", varName: "buttons" }), {}, vars);
+    await run(step("extract_count", { selector: ".missing", varName: "missing" }), {}, vars);
+    expect(vars).toEqual({
+      label: "Send message",
+      name: "Ada",
+      kind: "button",
+      buttons: "1",
+      missing: "0",
+    });
+    await expect(
+      run(step("extract_attribute", { selector: ".send", attribute: "href", varName: "x" })),
+    ).rejects.toThrow(".send has no href attribute");
+    await expect(run(step("extract_text", { selector: ".missing", varName: "x" }))).rejects.toThrow(
+      "Unable to find element to extract from: .missing",
+    );
+  });
+
+  it("fails assertions with what they expected and what they found", async () => {
+    const failureOf = (item: WorkflowStep, vars = {}) =>
+      run(item, {}, vars).then(
+        () => null,
+        (error) => (error instanceof AssertionError ? error.failure : error),
+      );
+    await run(step("assert_text", { selector: ".send", text: "Send" }));
+    await run(step("assert_element_absent", { selector: ".banner" }));
+    await run(step("assert_url_matches", { pattern: "^https?://" }));
+    const vars = { id: "7" };
+    await run(step("assert_var_equals", { varName: "id", expected: "{{id}}" }), vars, vars);
+
+    await expect(
+      failureOf(step("assert_text", { selector: ".send", text: "Posted" })),
+    ).resolves.toEqual({
+      assertion: "assert_text",
+      stepId: "assert_text-1",
+      expected: "Posted",
+      actual: "Send message",
+      selector: ".send",
+    });
+    await expect(
+      run(step("assert_text", { selector: ".banner", text: "Posted" })),
+    ).rejects.toThrow('Expected .banner to contain "Posted", found nothing');
+    await expect(
+      failureOf(step("assert_element_absent", { selector: "text=Send" })),
+    ).resolves.toMatchObject({ expected: "absent", actual: "Send message", selector: "text=Send" });
+    await expect(
+      failureOf(step("assert_url_matches", { pattern: "/posts/\\d+" })),
+    ).resolves.toMatchObject({ expected: "/posts/\\d+", actual: document.URL });
+    await expect(
+      failureOf(step("assert_url_matches", { pattern: "/posts/{{id}}" }), { id: "(7" }),
+    ).resolves.toEqual({
+      assertion: "assert_url_matches",
+      stepId: "assert_url_matches-1",
+      expected: "/posts/(7",
+      actual: document.URL,
+    });
+    await expect(
+      failureOf(step("assert_var_equals", { varName: "id", expected: "7" })),
+    ).resolves.toMatchObject({ expected: "7", actual: null });
+  });
+
+  it("fails conditionals that resolve to false or nothing", async () => {
+    await run(step("conditional", { expression: "{{ok}}" }), { ok: "yes" });
+    await expect(
+      run(step("conditional", { expression: "{{ok}}" }), { ok: "false" }),
+    ).rejects.toThrow("Conditional failed");
+    await expect(run(step("conditional", { expression: "{{ok}}" }), { ok: "" })).rejects.toThrow(
+      "Conditional failed",
+    );
+  });
+
+  it("skips page effects in a dry run but still resolves templates", async () => {
+    const dryRun = settings({ dryRun: true });
+    await run(step("goto", { url: "https://example.com" }), {}, {}, dryRun);
+    await run(step("type", { selector: "#name", text: "Ada" }), {}, {}, dryRun);
+    expect(ctx.navigate).not.toHaveBeenCalled();
+    expect(document.querySelector<HTMLInputElement>("#name")?.value).toBe("");
+    await expect(
+      run(step("type", { selector: "#name", text: "{{x}}" }), {}, {}, dryRun),
+    ).rejects.toThrow('Missing template value for "x"');
+  });
+});
+
+describe("retries and rows", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    document.body.innerHTML = `<input id="name" />`;
+    ctx = createContext();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("retries with doubling backoff and gives up after the last attempt", async () => {
+    const attempt = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("flaky"))
+      .mockResolvedValueOnce("done");
+    await expect(retryWithBackoff(attempt, 1, 0, ctx)).resolves.toBe("done");
+
+    vi.mocked(ctx.sleep).mockClear();
+    const failing = vi.fn().mockRejectedValue(new Error("broken"));
+    await expect(retryWithBackoff(failing, 3, 0, ctx)).rejects.toThrow("broken");
+    expect(failing).toHaveBeenCalledTimes(4);
+    expect(vi.mocked(ctx.sleep).mock.calls.map(([ms]) => ms)).toEqual([500, 1000, 2000]);
+  });
+
+  it("times out each attempt", async () => {
+    const result = retryWithBackoff(() => new Promise(() => {}), 0, 1000, ctx);
+    const assertion = expect(result).rejects.toThrow("Step timeout exceeded");
+    await vi.advanceTimersByTimeAsync(1000);
+    await assertion;
+  });
+
+  const workflow = {
+    id: "wf-1",
+    name: "Flow",
+    updatedAt: "2024-01-01T00:00:00.000Z",
+    steps: [
+      step("conditional", { id: "check", expression: "{{ok}}" }),
+      step("type", { id: "fill", selector: "#name", text: "filled" }),
+    ],
+  };
+
+  it("stops a row at the first failed step", async () => {
+    const completed: number[] = [];
+    const errors: string[] = [];
+    const outcome = await executeRow(workflow, { ok: "false" }, {}, settings(), ctx, {
+      onStepComplete: (at) => completed.push(at.stepIndex),
+      onStepError: (at, _step, message) => errors.push(`${at.stepIndex}: ${message}`),
+    });
+    expect(outcome).toEqual({ status: "failed", error: "Conditional failed", outputs: {} });
+    expect(errors).toEqual(["0: Conditional failed"]);
+    expect(completed).toEqual([]);
+    expect(document.querySelector<HTMLInputElement>("#name")?.value).toBe("");
+  });
+
+  it("runs the remaining steps of a best-effort row", async () => {
+    const completed: number[] = [];
+    const outcome = await executeRow(
+      workflow,
+      { ok: "false" },
+      {},
+      settings({ bestEffort: true }),
+      ctx,
+      { onStepComplete: (at) => completed.push(at.stepIndex) },
+    );
+    expect(outcome).toEqual({ status: "failed", error: "Conditional failed", outputs: {} });
+    expect(completed).toEqual([1]);
+    expect(document.querySelector<HTMLInputElement>("#name")?.value).toBe("filled");
+
+    await expect(executeRow(workflow, { ok: "yes" }, {}, settings(), ctx)).resolves.toEqual({
+      status: "success",
+      error: null,
+      outputs: {},
+    });
+  });
+
+  it("fills built-ins and filters into templates", async () => {
+    const filling = {
+      ...workflow,
+      steps: [
+        step("conditional", { id: "check", expression: "rowIndex < 5" }),
+        step("type", {
+          id: "fill",
+          selector: "#name",
+          text: "{{runId}}-{{rowIndex}} {{ok | upper}}",
+        }),
+      ],
+    };
+    const options = { rowIndex: 2, runId: "run-7" };
+    await executeRow(filling, { ok: "yes" }, {}, settings(), ctx, {}, options);
+    expect(document.querySelector<HTMLInputElement>("#name")?.value).toBe("run-7-2 YES");
+
+    const late = await executeRow(filling, { ok: "yes" }, {}, settings(), ctx, {}, { rowIndex: 5 });
+    expect(late).toEqual({ status: "failed", error: "Conditional failed", outputs: {} });
+  });
+
+  it("reports what extract steps saved as the row's outputs", async () => {
+    document.querySelector<HTMLInputElement>("#name")!.value = "Ada";
+    const extracting = {
+      ...workflow,
+      steps: [
+        step("extract_text", { id: "read", selector: "#name", varName: "name" }),
+        step("type", { id: "fill", selector: "#name", text: "Hi {{name}}" }),
+      ],
+    };
+    await expect(executeRow(extracting, {}, {}, settings(), ctx)).resolves.toEqual({
+      status: "success",
+      error: null,
+      outputs: { name: "Ada" },
+    });
+    expect(document.querySelector<HTMLInputElement>("#name")?.value).toBe("Hi Ada");
+  });
+
+  it("carries the failed assertion with the row's error", async () => {
+    const asserting = {
+      ...workflow,
+      steps: [step("assert_element_absent", { id: "no-input", selector: "#name" })],
+    };
+    await expect(executeRow(asserting, {}, {}, settings(), ctx)).resolves.toEqual({
+      status: "failed",
+      error: 'Expected no #name, found ""',
+      outputs: {},
+      failure: {
+        assertion: "assert_element_absent",
+        stepId: "no-input",
+        expected: "absent",
+        actual: "",
+        selector: "#name",
+      },
+    });
+  });
+});
+
+describe("control flow", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    document.body.innerHTML = `<input id="name" />`;
+    ctx = createContext();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const flow = (...steps: WorkflowStep[]) => ({
+    id: "wf-1",
+    name: "Flow",
+    updatedAt: "2024-01-01T00:00:00.000Z",
+    steps,
+  });
+
+  // Runs a row and returns its outcome with the control flow and completion log, by step path.
+  const runRow = async (
+    workflow: ReturnType<typeof flow>,
+    row: Record<string, string> = {},
+    vars: Record<string, string> = {},
+    workflows: ReturnType<typeof flow>[] = [],
+  ) => {
+    const log: string[] = [];
+    const outcome = await executeRow(
+      workflow,
+      row,
+      vars,
+      settings(),
+      ctx,
+      {
+        onStepComplete: (at, item) => log.push(`${at.path} ${item.id}`),
+        onControlFlow: (at, _item, message) => log.push(`${at.path} ${message}`),
+        onStepError: (at, _item, message) => log.push(`${at.path} error: ${message}`),
+      },
+      { workflows },
+    );
+    return { outcome, log };
+  };
+
+  it("evaluates conditions over row fields and vars", () => {
+    const row = { status: "active", count: "10", "Force post": "false" };
+    const vars = { count: "2" };
+    expect(evaluateCondition('status == "active" && count < 3', row, vars)).toBe(true);
+    expect(evaluateCondition("count >= 10 || {{Force post}}", row, vars)).toBe(false);
+    expect(evaluateCondition('!(status contains "act")', row, vars)).toBe(false);
+    expect(evaluateCondition("status", row, vars)).toBe(true);
+    expect(() => evaluateCondition("missing == 1", row, vars)).toThrow('Missing value for "missing"');
+    expect(expressionError("status ==")).toBe("Unexpected end of expression");
+    expect(expressionError("(a || b")).toBe('Missing ")"');
+  });
+
+  it("runs the branch an if step picks and logs it", async () => {
+    const workflow = flow(
+      step("if", {
+        id: "check",
+        condition: 'mode == "fill"',
+        then: [step("type", { id: "fill", selector: "#name", text: "{{name}}" })],
+        else: [step("set_var", { id: "note", varName: "skipped", value: "yes" })],
+      }),
+      step("screenshot", { id: "shot" }),
+    );
+    const filled = await runRow(workflow, { mode: "fill", name: "Ada" });
+    expect(filled.outcome).toEqual({ status: "success", error: null, outputs: {} });
+    expect(filled.log).toEqual(["1 if took the then branch", "2 fill", "4 shot"]);
+    expect(document.querySelector<HTMLInputElement>("#name")?.value).toBe("Ada");
+
+    const vars: Record<string, string> = {};
+    const other = await runRow(workflow, { mode: "view" }, vars);
+    expect(other.log).toEqual(["1 if took the else branch", "3 note", "4 shot"]);
+    expect(vars.skipped).toBe("yes");
+  });
+
+  it("repeats steps and breaks out of labelled loops", async () => {
+    const counter = step("evaluate", { id: "count", code: "vars.n = String(Number(vars.n) + 1);" });
+    const workflow = flow(
+      step("repeat", {
+        id: "outer",
+        times: 3,
+        label: "outer",
+        steps: [
+          step("repeat", {
+            id: "inner",
+            times: 5,
+            steps: [
+              counter,
+              step("if", {
+                id: "done",
+                condition: "n >= 4",
+                then: [step("break", { id: "stop", label: "outer" })],
+                else: [],
+              }),
+            ],
+          }),
+        ],
+      }),
+    );
+    const vars = { n: "0" };
+    const { outcome, log } = await runRow(workflow, {}, vars);
+    expect(outcome.status).toBe("success");
+    expect(vars.n).toBe("4");
+    expect(log.slice(-3)).toEqual([
+      "4 if took the then branch",
+      "5 break out of outer",
+      "1 repeat ended by break after 1 time",
+    ]);
+  });
+
+  it("stops while loops at their condition or fails them at the cap", async () => {
+    const loop = (maxIterations: number) =>
+      flow(
+        step("while", {
+          id: "loop",
+          condition: "n < 3",
+          maxIterations,
+          steps: [step("evaluate", { id: "count", code: "vars.n = String(Number(vars.n) + 1);" })],
+        }),
+      );
+    const done = await runRow(loop(5), {}, { n: "0" });
+    expect(done.outcome.status).toBe("success");
+    expect(done.log.pop()).toBe("1 while ran 3 times");
+
+    const capped = await runRow(loop(2), {}, { n: "0" });
+    expect(capped.outcome).toEqual({
+      status: "failed",
+      error: "while still true after 2 iterations",
+      outputs: {},
+    });
+  });
+
+  it("skips the rest of a row and rejects breaks outside loops", async () => {
+    const skipped = await runRow(
+      flow(
+        step("skip_row", { id: "skip", reason: "Already posted to {{page}}" }),
+        step("type", { id: "fill", selector: "#name", text: "never" }),
+      ),
+      { page: "News" },
+    );
+    expect(skipped.outcome).toEqual({
+      status: "skipped",
+      error: "Already posted to News",
+      outputs: {},
+    });
+    expect(skipped.log).toEqual(["1 Row skipped: Already posted to News"]);
+
+    const stray = flow(step("break", { id: "stop" }));
+    await expect(runRow(stray)).resolves.toMatchObject({
+      outcome: { status: "failed", error: "break outside a loop" },
+    });
+    expect(controlFlowErrors(stray.steps)).toEqual([
+      "step 1 (break): not inside a repeat or while step",
+    ]);
+  });
+
+  it("runs called workflows with their parameters and logs nested paths", async () => {
+    const compose = {
+      ...flow(
+        step("type", { id: "fill", selector: "#name", text: "{{message}}" }),
+        step("skip_row", { id: "done", reason: "{{message}} sent" }),
+      ),
+      id: "wf-compose",
+      name: "Compose",
+    };
+    const main = flow(
+      step("set_var", { id: "greeting", varName: "greeting", value: "Hi" }),
+      step("call_workflow", {
+        id: "call",
+        workflowId: "wf-compose",
+        params: { message: "{{greeting}} {{name}}" },
+      }),
+    );
+    const { outcome, log } = await runRow(main, { name: "Ada" }, {}, [compose]);
+    expect(outcome).toEqual({ status: "skipped", error: "Hi Ada sent", outputs: {} });
+    expect(log).toEqual([
+      "1 greeting",
+      "2 Calling Compose",
+      "2.1 fill",
+      "2.2 Row skipped: Hi Ada sent",
+    ]);
+    expect(document.querySelector<HTMLInputElement>("#name")?.value).toBe("Hi Ada");
+
+    await expect(runRow(main, { name: "Ada" })).resolves.toMatchObject({
+      outcome: { status: "failed", error: "call_workflow: no workflow with id wf-compose" },
+    });
+  });
+});
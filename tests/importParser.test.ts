@@ -0,0 +1,40 @@
+// @vitest-environment node
+import { describe, expect, it } from "vitest";
+import { ROW_BATCH_SIZE, type ImportEvent, streamRecords } from "../app/src/import/parser";
+
+const collect = async (bytes: BlobPart) => {
+  const events: ImportEvent[] = [];
+  await streamRecords({ file: new Blob([bytes]), format: "csv", dialectOverrides: {} }, (event) =>
+    events.push(event),
+  );
+  return events;
+};
+
+describe("import parser", () => {
+  it("streams large files in row batches", async () => {
+    const lines = ["url;post"];
+    for (let i = 0; i < 5000; i += 1) {
+      lines.push(`https://example.com/${i};"Post ""${i}"""`);
+    }
+    const events = await collect(new TextEncoder().encode(lines.join("\r\n")));
+    const batches = events.filter((event) => event.type === "rows");
+    const rows = batches.flatMap((event) => (event.type === "rows" ? event.rows : []));
+    expect(batches[0]?.type === "rows" && batches[0].rows).toHaveLength(ROW_BATCH_SIZE);
+    expect(rows).toHaveLength(5000);
+    expect(rows[4999]).toEqual({ url: "https://example.com/4999", post: 'Post "4999"' });
+    expect(events[events.length - 1]).toMatchObject({
+      type: "done",
+      headers: ["url", "post"],
+      errors: [],
+      dialect: { delimiter: ";", lineTerminator: "\r\n" },
+    });
+  });
+
+  it("falls back to Windows-1252 for invalid UTF-8", async () => {
+    const events = await collect(new Uint8Array([0x61, 0x0a, 0x80, 0xe9]));
+    expect(events).toMatchObject([
+      { type: "rows", rows: [{ a: "€é" }] },
+      { type: "done", encoding: "windows-1252" },
+    ]);
+  });
+});
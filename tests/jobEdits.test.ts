@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import {
+  addColumn,
+  duplicateRow,
+  findReplace,
+  moveRow,
+  renameColumn,
+} from "../app/src/jobEdits";
+
+const table = {
+  headers: ["url", "post"],
+  rows: [
+    { url: "https://a.com", post: "Hello World" },
+    { url: "https://b.com", post: "hello again" },
+  ],
+};
+
+describe("job edits", () => {
+  it("moves and duplicates rows", () => {
+    expect(moveRow(table, 0, 1).rows.map((row) => row.url)).toEqual([
+      "https://b.com",
+      "https://a.com",
+    ]);
+    expect(duplicateRow(table, 0).rows).toHaveLength(3);
+  });
+
+  it("adds and renames columns across every row", () => {
+    const renamed = renameColumn(addColumn(table, "tag"), "post", "message");
+    expect(renamed.headers).toEqual(["url", "message", "tag"]);
+    expect(renamed.rows[0]).toEqual({ url: "https://a.com", message: "Hello World", tag: "" });
+    expect(() => renameColumn(table, "post", "url")).toThrow('Column "url" already exists.');
+  });
+
+  it("refuses empty column names", () => {
+    expect(() => addColumn(table, "")).toThrow("Column name cannot be empty.");
+    expect(() => renameColumn(table, "post", "")).toThrow("Column name cannot be empty.");
+  });
+
+  it("finds and replaces with optional case matching", () => {
+    expect(findReplace(table, "hello", "Hi").count).toBe(2);
+    const result = findReplace(table, "hello", "Hi", { matchCase: true, column: "post" });
+    expect(result.count).toBe(1);
+    expect(result.table.rows[1]?.post).toBe("Hi again");
+    expect(findReplace(table, "missing", "x").table).toBe(table);
+  });
+});
@@ -0,0 +1,271 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { ACPMessage, CsvRow, RunSettings, WorkflowDefinition } from "@shared/schema";
+import { PROTOCOL_VERSION, RUN_ROW_PAGE_SIZE, WORKFLOW_STEP_TYPES } from "@shared/protocol";
+import { ACPTransport } from "../app/src/transport";
+import { type MockAgent, type MockAgentOptions, startMockAgent } from "../app/src/mockAgent";
+import { type AgentConnection, dispatchAssignments } from "../app/src/agentPool";
+import {
+  type RowLoader,
+  type RunCommand,
+  appendRowResult,
+  appendRunLog,
+  commandRun,
+  connectAgent,
+  launchRun,
+  sendAssignment,
+  sendRunRows,
+  sendStepNext,
+  updateRunStatus,
+} from "../app/src/runControl";
+import {
+  type ACPState,
+  type Run,
+  createDefaultSettings,
+  createJob,
+  createRun,
+} from "../app/src/state";
+
+let transport: ACPTransport;
+let agent: MockAgent;
+let received: ACPMessage[];
+// The panel's side: what App keeps in state as agents report.
+let state: ACPState;
+let agents: Record<string, AgentConnection>;
+let pageSize: number;
+
+const workflow: WorkflowDefinition = {
+  id: "wf-1",
+  name: "Post",
+  updatedAt: "2024-01-01T00:00:00.000Z",
+  steps: [
+    { id: "s1", type: "goto", url: "https://example.com" },
+    { id: "s2", type: "type", selector: "#post", text: "{{post}}" },
+  ],
+};
+
+const rows: CsvRow[] = [{ post: "a" }, { post: "b" }, { post: "c" }];
+
+const job = createJob("Posts", workflow.id, "posts.csv", ["post"], rows.length);
+
+// Stands in for the job's rows in IndexedDB; pages are capped so later pages are requested.
+const loadRows: RowLoader = async (_runId, _agentId, _jobId, offset, limit = RUN_ROW_PAGE_SIZE) =>
+  rows.slice(offset, offset + Math.min(limit, pageSize));
+
+const start = async (options: Partial<MockAgentOptions>, random?: () => number) => {
+  agent = await startMockAgent(
+    transport,
+    { latencyMs: 0, stepMs: 0, failureRate: 0, artifactBytes: 0, ...options },
+    random,
+  );
+};
+
+const waitFor = async <T>(find: () => T | undefined, timeoutMs = 2000) => {
+  const startedAt = Date.now();
+  while (Date.now() - startedAt < timeoutMs) {
+    const found = find();
+    if (found !== undefined) {
+      return found;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+  throw new Error("Timed out waiting for the mock agent");
+};
+
+const statuses = () =>
+  received.flatMap((message) => (message.type === "AGENT_STATUS" ? [message.payload.status] : []));
+
+const lastStatus = (status: string) => () => {
+  const all = statuses();
+  return all[all.length - 1] === status ? status : undefined;
+};
+
+const findRun = (runId: string) => state.runs.find((run) => run.id === runId) as Run;
+
+const runStatus = (runId: string, status: Run["status"]) => () =>
+  findRun(runId).status === status ? status : undefined;
+
+const saveRun = (run: Run) => {
+  state = { ...state, runs: state.runs.map((item) => (item.id === run.id ? run : item)) };
+};
+
+// App's dispatcher effect: hands waiting shares to idle agents and starts them.
+const dispatch = async () => {
+  const { changed, commands } = dispatchAssignments(state.runs, Object.values(agents), true);
+  changed.forEach(saveRun);
+  const context = { jobs: [job], workflows: [workflow], agents, loadRows };
+  await Promise.all(
+    commands.map((command) =>
+      command.type === "start"
+        ? sendAssignment(
+            transport,
+            context,
+            findRun(command.runId),
+            command.assignmentIndex,
+            command.agentId,
+          )
+        : null,
+    ),
+  );
+};
+
+// App's handleStartRun once the agent has said hello.
+const startRun = async (settings: Partial<RunSettings> = {}) => {
+  await waitFor(() => agents[agent.agentId]);
+  const run = launchRun(
+    createRun(job.id, { ...createDefaultSettings(), delayMinMs: 0, delayMaxMs: 0, ...settings }),
+    job,
+    [workflow],
+    1,
+  );
+  state = { ...state, runs: [run, ...state.runs] };
+  await dispatch();
+  return run.id;
+};
+
+const command = (runId: string, type: RunCommand) => {
+  const run = findRun(runId);
+  const { updates, sent } = commandRun(transport, run, type);
+  saveRun({ ...run, ...updates });
+  return sent;
+};
+
+describe("mock agent", () => {
+  beforeEach(() => {
+    transport = new ACPTransport({ links: [] });
+    received = [];
+    state = {
+      workflows: [workflow],
+      presets: [],
+      jobs: [job],
+      runs: [],
+      debugEnabled: false,
+      killSwitchEnabled: false,
+    };
+    agents = {};
+    pageSize = RUN_ROW_PAGE_SIZE;
+    // What App's transport subscription does with each agent message.
+    transport.subscribe((message) => {
+      received.push(message);
+      switch (message.type) {
+        case "AGENT_HELLO":
+          agents = { ...agents, [message.payload.agentId]: connectAgent(message.payload) };
+          break;
+        case "AGENT_REQUEST_ROWS":
+          void sendRunRows(transport, message, job.id, loadRows);
+          break;
+        case "AGENT_STATUS":
+          state = updateRunStatus(state, message).nextState;
+          break;
+        case "AGENT_LOG":
+          state = appendRunLog(state, message).nextState;
+          break;
+        case "AGENT_ROW_RESULT":
+          state = appendRowResult(state, message).nextState;
+          break;
+        default:
+          break;
+      }
+    });
+  });
+
+  afterEach(() => {
+    agent.stop();
+    transport.close();
+  });
+
+  it("says hello with every capability and answers pings", async () => {
+    await start({});
+    const hello = await waitFor(() => received.find((message) => message.type === "AGENT_HELLO"));
+    expect(hello.type === "AGENT_HELLO" && hello.payload.capabilities?.stepTypes).toEqual(
+      WORKFLOW_STEP_TYPES,
+    );
+    expect(agents[agent.agentId]?.compatibility).toMatchObject({
+      protocolVersion: PROTOCOL_VERSION,
+      warning: null,
+    });
+    transport.send({ type: "CONTROL_PING", payload: { requestId: "ping-1" } });
+    const pong = await waitFor(() => received.find((message) => message.type === "AGENT_PONG"));
+    expect(pong.type === "AGENT_PONG" && pong.payload.agentId).toBe(agent.agentId);
+  });
+
+  it("runs rows, requests later pages and reports failures with artifacts", async () => {
+    // The second row fails at its second step.
+    const draws = [0.9, 0, 0.5, 0.9];
+    await start({ failureRate: 0.5, artifactBytes: 64 }, () => draws.shift() ?? 0.9);
+    pageSize = 1;
+    const runId = await startRun({ bestEffort: true });
+    await waitFor(runStatus(runId, "complete"));
+
+    const requests = received.flatMap((message) =>
+      message.type === "AGENT_REQUEST_ROWS" ? [message.payload.offset] : [],
+    );
+    expect(requests).toEqual([1, 2]);
+    const run = findRun(runId);
+    expect(
+      run.rowResults
+        .map((result) => [result.rowIndex, result.status, result.error])
+        .sort(([a], [b]) => Number(a) - Number(b)),
+    ).toEqual([
+      [0, "success", null],
+      [1, "failed", "Simulated type failure"],
+      [2, "success", null],
+    ]);
+    const first = run.rowResults.find((result) => result.rowIndex === 0);
+    expect(first?.artifacts?.htmlSnapshot).toHaveLength(64);
+    expect([run.successCount, run.failureCount, run.lastCompletedRow]).toEqual([2, 1, 0]);
+    expect(run.assignments).toMatchObject([{ agentId: agent.agentId, status: "complete" }]);
+    const final = received.filter((message) => message.type === "AGENT_STATUS").pop();
+    expect(final?.type === "AGENT_STATUS" && final.payload).toMatchObject({
+      successCount: 2,
+      failureCount: 1,
+    });
+  });
+
+  it("ends a strict run at the first failed row", async () => {
+    await start({ failureRate: 1 });
+    const runId = await startRun();
+    await waitFor(runStatus(runId, "error"));
+    expect(findRun(runId).rowResults).toHaveLength(1);
+  });
+
+  it("pauses, resumes and stops", async () => {
+    await start({ stepMs: 20 });
+    const runId = await startRun();
+    await command(runId, "pause");
+    await waitFor(lastStatus("paused"));
+    expect(findRun(runId).status).toBe("paused");
+    const resultsWhilePaused = findRun(runId).rowResults;
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(findRun(runId).rowResults).toEqual(resultsWhilePaused);
+
+    await command(runId, "resume");
+    await command(runId, "stop");
+    await waitFor(lastStatus("stopped"));
+    expect(statuses()).toContain("running");
+    expect(findRun(runId).status).toBe("stopped");
+
+    const next = await startRun();
+    await waitFor(runStatus(next, "complete"));
+  });
+
+  it("waits for a step signal before each step in step-through mode", async () => {
+    await start({});
+    const runId = await startRun({ stepThrough: true });
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(findRun(runId).logs).toEqual([]);
+
+    await sendStepNext(transport, findRun(runId));
+    await waitFor(() => findRun(runId).logs[0]);
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(findRun(runId).logs.map((log) => [log.rowIndex, log.stepIndex])).toEqual([[0, 0]]);
+
+    // The panel asks for the step after the last one logged.
+    await sendStepNext(transport, findRun(runId));
+    await waitFor(() => findRun(runId).logs[1]);
+    expect(findRun(runId).logs.map((log) => [log.rowIndex, log.stepIndex])).toEqual([
+      [0, 1],
+      [0, 0],
+    ]);
+  });
+});
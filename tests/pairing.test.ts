@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import type { SequencedMessage } from "@shared/schema";
+import {
+  createPairingCode,
+  createPairingProof,
+  derivePairingKey,
+  exportPairingKey,
+  exportPublicKey,
+  generatePairingKeys,
+  importPairingKey,
+  signMessage,
+  verifyMessage,
+  verifyPairingProof,
+} from "@shared/pairing";
+
+const ack: SequencedMessage = {
+  senderId: "agent-1",
+  seq: 3,
+  type: "AGENT_ACK",
+  payload: { requestId: "req-1", agentId: "agent-1", commandType: "", ok: true, error: "" },
+};
+
+const pair = async (panelCode: string, agentCode: string) => {
+  const panel = await generatePairingKeys();
+  const agent = await generatePairingKeys();
+  return {
+    panelKey: await derivePairingKey(panel, await exportPublicKey(agent), panelCode),
+    agentKey: await derivePairingKey(agent, await exportPublicKey(panel), agentCode),
+  };
+};
+
+describe("pairing", () => {
+  it("creates readable one-time codes", () => {
+    expect(createPairingCode()).toMatch(/^[A-HJ-NP-Z2-9]{8}$/);
+  });
+
+  it("derives the same key on both ends when the codes match", async () => {
+    const code = createPairingCode();
+    const { panelKey, agentKey } = await pair(code, code.toLowerCase());
+    const proof = await createPairingProof(agentKey, "req-1");
+    expect(await verifyPairingProof(panelKey, "req-1", proof)).toBe(true);
+    expect(await verifyPairingProof(panelKey, "req-2", proof)).toBe(false);
+  });
+
+  it("fails the proof when the agent was given another code", async () => {
+    const { panelKey, agentKey } = await pair("ABCD2345", "ABCD2346");
+    const proof = await createPairingProof(agentKey, "req-1");
+    expect(await verifyPairingProof(panelKey, "req-1", proof)).toBe(false);
+  });
+
+  it("signs messages and detects tampering", async () => {
+    const code = createPairingCode();
+    const { panelKey, agentKey } = await pair(code, code);
+    const signed = await signMessage(agentKey, "pairing-1", ack);
+    expect(signed.pairingId).toBe("pairing-1");
+    expect(await verifyMessage(panelKey, signed)).toBe(true);
+
+    const stored = await importPairingKey(await exportPairingKey(panelKey));
+    expect(await verifyMessage(stored, signed)).toBe(true);
+
+    expect(await verifyMessage(panelKey, { ...signed, seq: 4 })).toBe(false);
+    expect(await verifyMessage(panelKey, { ...signed, pairingId: "pairing-2" })).toBe(false);
+    const tampered = { ...signed, payload: { ...ack.payload, ok: false } } as SequencedMessage;
+    expect(await verifyMessage(panelKey, tampered)).toBe(false);
+    expect(await verifyMessage(panelKey, ack)).toBe(false);
+  });
+});
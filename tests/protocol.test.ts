@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { type AgentHelloMessage, MessageSchemas } from "@shared/schema";
+import { MESSAGE_HISTORY } from "@shared/messageHistory";
+import {
+  LEGACY_CAPABILITIES,
+  PROTOCOL_VERSION,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  assessAgent,
+  compareVersions,
+  missingStepTypes,
+  negotiateProtocolVersion,
+} from "@shared/protocol";
+
+const hello = (extra: Partial<AgentHelloMessage["payload"]> = {}): AgentHelloMessage["payload"] => ({
+  requestId: "req-1",
+  agentId: "agent-1",
+  agentVersion: PROTOCOL_VERSION,
+  protocolVersion: PROTOCOL_VERSION,
+  tabUrl: "https://example.com/",
+  site: "example.com",
+  runId: null,
+  ...extra,
+});
+
+describe("protocol negotiation", () => {
+  it("picks the highest version both sides speak", () => {
+    expect(compareVersions("1.10.0", "1.9.0")).toBeGreaterThan(0);
+    expect(negotiateProtocolVersion(["1.8.0", "1.9.0", "1.10.0"], ["1.9.0", "1.8.0"])).toBe("1.9.0");
+    expect(negotiateProtocolVersion(["1.8.0"], ["1.6.0", "1.7.0"])).toBeNull();
+  });
+
+  it("warns about outdated and incompatible agents", () => {
+    expect(assessAgent(hello({ supportedProtocolVersions: SUPPORTED_PROTOCOL_VERSIONS }))).toEqual({
+      protocolVersion: PROTOCOL_VERSION,
+      capabilities: LEGACY_CAPABILITIES,
+      warning: null,
+    });
+    const outdated = assessAgent(hello({ agentVersion: "1.8.0", protocolVersion: "1.8.0" }));
+    expect(outdated.protocolVersion).toBe("1.8.0");
+    expect(outdated.warning).toContain("outdated");
+    const incompatible = assessAgent(hello({ agentVersion: "1.6.0", protocolVersion: "1.6.0" }));
+    expect(incompatible.protocolVersion).toBeNull();
+    expect(incompatible.warning).toContain("Update the userscript");
+  });
+
+  it("lists the step types an agent cannot execute", () => {
+    const workflow = {
+      id: "wf-1",
+      name: "Workflow",
+      updatedAt: "",
+      steps: [
+        { id: "s1", type: "goto" as const, url: "https://example.com" },
+        { id: "s2", type: "evaluate" as const, code: "1" },
+        { id: "s3", type: "evaluate" as const, code: "2" },
+        {
+          id: "s4",
+          type: "repeat" as const,
+          times: 2,
+          steps: [{ id: "s5", type: "screenshot" as const }],
+        },
+      ],
+    };
+    expect(missingStepTypes(workflow, { stepTypes: ["goto"], artifactTypes: [] })).toEqual([
+      "evaluate",
+      "repeat",
+      "screenshot",
+    ]);
+  });
+
+  it("keeps a version history for every message type", () => {
+    expect(Object.keys(MESSAGE_HISTORY).sort()).toEqual(Object.keys(MessageSchemas).sort());
+    Object.values(MESSAGE_HISTORY).forEach((changes) => {
+      expect(changes.length).toBeGreaterThan(0);
+      expect(changes.every((item) => compareVersions(item.version, PROTOCOL_VERSION) <= 0)).toBe(true);
+    });
+  });
+});
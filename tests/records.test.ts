@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { detectRecordFormat, parseJsonRecords, parseNdjson } from "@shared/records";
+
+describe("records", () => {
+  it("detects the format from the file name", () => {
+    expect(detectRecordFormat("rows.JSON")).toBe("json");
+    expect(detectRecordFormat("rows.jsonl")).toBe("ndjson");
+    expect(detectRecordFormat("rows.tsv")).toBe("csv");
+  });
+
+  it("flattens nested objects into dotted columns", () => {
+    const result = parseJsonRecords(
+      JSON.stringify([
+        { url: "https://a.com", author: { name: "Ada", handle: null }, tags: ["x", "y"] },
+        { url: "https://b.com", extra: 3 },
+      ]),
+    );
+    expect(result.headers).toEqual(["url", "author.name", "author.handle", "tags", "extra"]);
+    expect(result.rows[0]).toEqual({
+      url: "https://a.com",
+      "author.name": "Ada",
+      "author.handle": "",
+      tags: "x|y",
+      extra: "",
+    });
+    expect(result.rows[1]?.extra).toBe("3");
+  });
+
+  it("reports non-object items with their line", () => {
+    const result = parseJsonRecords('[\n  {"url": "https://a.com"},\n  "oops"\n]');
+    expect(result.rows).toHaveLength(1);
+    expect(result.errors).toEqual([{ line: 3, column: 3, message: "Record 2 is not an object" }]);
+  });
+
+  it("parses NDJSON line by line", () => {
+    const result = parseNdjson('{"url":"https://a.com"}\n\n{"url":\n{"url":"https://c.com"}\n');
+    expect(result.rows).toEqual([{ url: "https://a.com" }, { url: "https://c.com" }]);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]?.line).toBe(3);
+  });
+});
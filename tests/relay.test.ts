@@ -0,0 +1,99 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { WebSocket } from "ws";
+import type { SequencedMessage } from "@shared/schema";
+import { signMessage } from "@shared/pairing";
+import { ACPTransport } from "../app/src/transport";
+import { createWebSocketLink } from "../app/src/webSocketLink";
+import { type Relay, startRelay } from "../relay/server";
+
+let relay: Relay;
+let pairingKey: CryptoKey;
+const sockets: WebSocket[] = [];
+
+const connect = (url: string, headers: Record<string, string> = {}) =>
+  new Promise<WebSocket>((resolve, reject) => {
+    const socket = new WebSocket(url, { headers });
+    sockets.push(socket);
+    socket.once("open", () => resolve(socket));
+    socket.once("error", reject);
+  });
+
+// A minimal agent outside the browser: acknowledges every command it receives.
+const startMockAgent = async () => {
+  const socket = await connect(relay.url);
+  const received: SequencedMessage[] = [];
+  let seq = 0;
+  socket.on("message", async (data) => {
+    const message = JSON.parse(String(data)) as SequencedMessage;
+    received.push(message);
+    if (!message.type.startsWith("CONTROL_") || !("requestId" in message.payload)) {
+      return;
+    }
+    const ack: SequencedMessage = {
+      senderId: "agent-1",
+      seq: (seq += 1),
+      type: "AGENT_ACK",
+      payload: {
+        requestId: message.payload.requestId,
+        agentId: "agent-1",
+        commandType: message.type,
+        ok: true,
+        error: "",
+      },
+    };
+    socket.send(JSON.stringify(await signMessage(pairingKey, "pairing-1", ack)));
+  });
+  return received;
+};
+
+describe("websocket relay", () => {
+  beforeEach(async () => {
+    relay = await startRelay({ port: 0 });
+    pairingKey = await crypto.subtle.generateKey({ name: "HMAC", hash: "SHA-256" }, true, [
+      "sign",
+      "verify",
+    ]);
+  });
+
+  afterEach(async () => {
+    sockets.splice(0).forEach((socket) => socket.terminate());
+    await relay.close();
+  });
+
+  it("carries commands and acks between the panel and an agent", async () => {
+    const received = await startMockAgent();
+    const link = createWebSocketLink(relay.url, {
+      WebSocketImpl: WebSocket as unknown as typeof globalThis.WebSocket,
+    });
+    const transport = new ACPTransport({ links: [link] });
+    transport.setPairingKey("pairing-1", pairingKey);
+
+    await transport.sendCommand({
+      type: "CONTROL_PAUSE_RUN",
+      payload: { requestId: "pause-1", runId: "run-1" },
+    });
+    expect(received.map((message) => message.type)).toEqual(["CONTROL_PAUSE_RUN"]);
+    expect(received[0]?.pairingId).toBe("pairing-1");
+    transport.close();
+  });
+
+  it("does not echo frames back to their sender", async () => {
+    const sender = await connect(relay.url);
+    const other = await connect(relay.url);
+    const echoes: string[] = [];
+    sender.on("message", (data) => echoes.push(String(data)));
+    const delivered = new Promise<string>((resolve) =>
+      other.once("message", (data) => resolve(String(data))),
+    );
+    sender.send("hello");
+    expect(await delivered).toBe("hello");
+    expect(echoes).toEqual([]);
+    expect(relay.clientCount()).toBe(2);
+  });
+
+  it("refuses browser origins other than localhost", async () => {
+    await expect(connect(relay.url, { Origin: "https://evil.example" })).rejects.toThrow();
+    await expect(connect(relay.url, { Origin: "http://localhost:5173" })).resolves.toBeDefined();
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { createJob, type RowResult } from "../app/src/state";
+import { groupFailures, runOutputNames, runReportHeaders, toReportRow } from "../app/src/runReport";
+
+const result = (rowIndex: number, fields: Partial<RowResult> = {}): RowResult => ({
+  runId: "run-1",
+  rowIndex,
+  status: "success",
+  error: null,
+  ...fields,
+});
+
+const banner = (rowIndex: number, actual: string | null): RowResult =>
+  result(rowIndex, {
+    status: "failed",
+    error: "Expected no .error-banner",
+    failure: {
+      assertion: "assert_element_absent",
+      stepId: "banner",
+      expected: "absent",
+      actual,
+      selector: ".error-banner",
+    },
+  });
+
+describe("run report", () => {
+  it("adds a column per extract output and the failed assertion", () => {
+    const job = createJob("Posts", "wf-1", "posts.csv", ["url", "expected"], 2);
+    const results = [
+      result(0, { outputs: { title: "Hello", price: "3" } }),
+      banner(1, "Try again later"),
+      result(2, { outputs: { title: "Bye", author: "Ada" } }),
+    ];
+    const names = runOutputNames(results);
+    expect(names).toEqual(["title", "price", "author"]);
+    expect(runReportHeaders(job, names)).toEqual([
+      "rowIndex",
+      "status",
+      "error",
+      "assert.type",
+      "assert.expected",
+      "assert.actual",
+      "assert.selector",
+      "durationMs",
+      "runId",
+      "url",
+      "expected",
+      "output.title",
+      "output.price",
+      "output.author",
+    ]);
+    expect(toReportRow(0, { url: "https://a.test", expected: "" }, results[0])).toMatchObject({
+      url: "https://a.test",
+      "output.title": "Hello",
+      "output.price": "3",
+      "assert.type": "",
+    });
+    // The job's own `expected` column keeps its value next to the assertion's.
+    expect(toReportRow(1, { url: "https://b.test", expected: "Posted" }, results[1])).toEqual({
+      rowIndex: "1",
+      status: "failed",
+      error: "Expected no .error-banner",
+      "assert.type": "assert_element_absent",
+      "assert.expected": "absent",
+      "assert.actual": "Try again later",
+      "assert.selector": ".error-banner",
+      durationMs: "",
+      runId: "run-1",
+      url: "https://b.test",
+      expected: "Posted",
+    });
+  });
+
+  it("groups failed rows by the assertion that failed them", () => {
+    const groups = groupFailures([
+      banner(4, "Try again later"),
+      result(0),
+      result(1, { status: "failed", error: "Step timeout exceeded" }),
+      banner(2, null),
+      result(3, { status: "skipped", error: "Already posted" }),
+    ]);
+    expect(groups).toEqual([
+      {
+        stepId: "banner",
+        assertion: "assert_element_absent",
+        rowIndexes: [2, 4],
+        example: banner(4, "Try again later").failure,
+      },
+      { stepId: null, assertion: null, rowIndexes: [1], example: null },
+    ]);
+  });
+});
@@ -1,28 +1,116 @@
 import { describe, expect, it } from "vitest";
-import { validateMessage } from "@shared/schema";
+import { parseMessage, validateMessage } from "@shared/schema";
+import { LEGACY_STEP_TYPES, WORKFLOW_STEP_TYPES } from "@shared/constants";
+import { LegacyWorkflowStepSchema, WorkflowStepSchema } from "@shared/validators";
+import { buildMessageSchemaDocument } from "@shared/messageSchemaDocument";
+import schemaJson from "@shared/message-schema.json";
+
+const envelope = { senderId: "panel-1", seq: 1 };
+
+const settings = {
+  headless: false,
+  slowMoMs: 0,
+  timeoutMs: 15000,
+  delayMinMs: 300,
+  delayMaxMs: 900,
+  concurrency: 1,
+  bestEffort: false,
+  dryRun: false,
+  stepThrough: false,
+};
+
+const startRun = (workflow: unknown) => ({
+  ...envelope,
+  type: "CONTROL_START_RUN",
+  payload: {
+    requestId: "req-1",
+    targetAgentId: "agent-1",
+    runId: "run-1",
+    jobId: "job-1",
+    workflow,
+    rows: [{ name: "Ada" }],
+    totalRows: 1,
+    settings,
+    resumeFrom: 0,
+    skipRowIndexes: [],
+    successCount: 0,
+    failureCount: 0,
+    rowIndexes: null,
+  },
+});
 
 describe("schema validation", () => {
   it("accepts valid messages", () => {
     const message = {
+      ...envelope,
       type: "CONTROL_PAUSE_RUN",
-      payload: { runId: "run-123" },
+      payload: { requestId: "req-1", runId: "run-123" },
     };
     expect(validateMessage(message)).toBe(true);
   });
 
   it("accepts kill switch messages", () => {
     const message = {
+      ...envelope,
       type: "CONTROL_KILL_SWITCH",
-      payload: { enabled: true },
+      payload: { requestId: "req-1", enabled: true },
     };
     expect(validateMessage(message)).toBe(true);
   });
 
   it("rejects invalid messages", () => {
     const message = {
+      ...envelope,
       type: "CONTROL_PAUSE_RUN",
       payload: {},
     };
     expect(validateMessage(message)).toBe(false);
   });
+
+  it("checks payload field types and names the bad field", () => {
+    const result = parseMessage({
+      ...envelope,
+      type: "AGENT_LOG",
+      payload: {
+        agentId: "agent-1",
+        runId: "run-1",
+        rowIndex: "abc",
+        stepIndex: 0,
+        level: "info",
+        message: "Step done",
+        timestamp: "2024-01-01T00:00:00.000Z",
+      },
+    });
+    expect(result).toEqual({
+      ok: false,
+      error: "payload.rowIndex: Expected number, received string",
+    });
+  });
+
+  it("lists the step types of the step schemas without zod", () => {
+    expect(WORKFLOW_STEP_TYPES).toEqual(
+      WorkflowStepSchema.options.map((option) => option.shape.type.value),
+    );
+    expect(LEGACY_STEP_TYPES).toEqual(LegacyWorkflowStepSchema.shape.type.options);
+  });
+
+  it("validates nested workflows and drops unknown fields", () => {
+    const workflow = {
+      id: "wf-1",
+      name: "Flow",
+      updatedAt: "2024-01-01T00:00:00.000Z",
+      steps: [{ id: "s1", type: "goto", value: "https://example.com" }],
+    };
+    expect(validateMessage(startRun({ ...workflow, steps: [{ id: "s1", type: "hover" }] }))).toBe(
+      false,
+    );
+    const parsed = parseMessage({ ...startRun(workflow), extra: true });
+    expect(parsed.ok && parsed.message).toEqual(startRun(workflow));
+  });
+});
+
+describe("message-schema.json", () => {
+  it("matches the zod schemas (run npm run schema:generate after changing them)", () => {
+    expect(schemaJson).toEqual(buildMessageSchemaDocument());
+  });
 });
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { createSequenceTracker } from "@shared/sequence";
+
+const message = (seq: number, senderId = "agent-1") => ({ senderId, seq });
+const seqs = (messages: { seq: number }[]) => messages.map((item) => item.seq);
+
+describe("sequence tracker", () => {
+  it("drops duplicates and keeps senders apart", () => {
+    const tracker = createSequenceTracker();
+    expect(seqs(tracker.accept(message(7)))).toEqual([7]);
+    expect(tracker.accept(message(7))).toEqual([]);
+    expect(seqs(tracker.accept(message(1, "agent-2")))).toEqual([1]);
+    expect(seqs(tracker.accept(message(8)))).toEqual([8]);
+    expect(tracker.accept(message(6))).toEqual([]);
+  });
+
+  it("reorders within the window and reports each gap once", () => {
+    const gaps: number[][] = [];
+    const tracker = createSequenceTracker({
+      onGap: (_senderId, fromSeq, toSeq) => gaps.push([fromSeq, toSeq]),
+    });
+    tracker.accept(message(1));
+    expect(tracker.accept(message(4))).toEqual([]);
+    expect(tracker.accept(message(3))).toEqual([]);
+    expect(tracker.accept(message(4))).toEqual([]);
+    expect(gaps).toEqual([[2, 3]]);
+    expect(seqs(tracker.accept(message(2)))).toEqual([2, 3, 4]);
+    tracker.accept(message(6));
+    expect(gaps).toEqual([
+      [2, 3],
+      [5, 5],
+    ]);
+  });
+
+  it("gives up on a gap when the window fills or the wait runs out", () => {
+    const tracker = createSequenceTracker({ windowSize: 2, maxWaitMs: 1000 });
+    tracker.accept(message(1), 0);
+    tracker.accept(message(3), 0);
+    tracker.accept(message(4), 0);
+    expect(seqs(tracker.accept(message(5), 0))).toEqual([3, 4, 5]);
+    expect(tracker.accept(message(2), 0)).toEqual([]);
+
+    tracker.accept(message(7), 100);
+    expect(tracker.expire(500)).toEqual([]);
+    expect(seqs(tracker.expire(1100))).toEqual([7]);
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { jaccardSimilarity, pickNextPost } from "@shared/similarity";
+import { jaccardSimilarity, pickNextPost, prepareRowsForRun } from "@shared/similarity";
 
 describe("similarity", () => {
   it("detects high similarity", () => {
@@ -12,4 +12,13 @@ describe("similarity", () => {
     const result = pickNextPost(pool, ["A quick update"]);
     expect(result.value).toBe("Different news");
   });
+
+  it("rotates post options across consecutive rows", () => {
+    const rows = prepareRowsForRun([
+      { url: "a", post_options: "Big sale today|Fresh arrivals" },
+      { url: "b", post_options: "Big sale today|Fresh arrivals" },
+      { url: "c" },
+    ]);
+    expect(rows.map((row) => row.post)).toEqual(["Big sale today", "Fresh arrivals", undefined]);
+  });
 });
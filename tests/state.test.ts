@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import {
+  type RowResult,
+  canResumeRun,
+  combineRowResults,
+  createDefaultSettings,
+  createRun,
+  getLastCompletedRow,
+  hasActiveRun,
+  planResume,
+} from "../app/src/state";
+
+const result = (rowIndex: number, status: RowResult["status"]): RowResult => ({
+  runId: "run-1",
+  rowIndex,
+  status,
+  error: status === "failed" ? "boom" : null,
+});
+
+describe("run resume", () => {
+  it("tracks the contiguous prefix of finished rows", () => {
+    expect(getLastCompletedRow([])).toBe(-1);
+    expect(
+      getLastCompletedRow([result(0, "success"), result(1, "skipped"), result(3, "success")]),
+    ).toBe(1);
+    expect(getLastCompletedRow([result(0, "failed"), result(1, "success")])).toBe(-1);
+  });
+
+  it("resumes after the prefix of finished rows", () => {
+    const run = {
+      ...createRun("job-1", createDefaultSettings()),
+      status: "complete" as const,
+      rowResults: [
+        result(0, "success"),
+        result(1, "failed"),
+        result(2, "success"),
+        result(3, "failed"),
+        result(4, "skipped"),
+      ],
+    };
+    expect(canResumeRun(run)).toBe(true);
+    expect(planResume(run)).toEqual({ resumeFrom: 1 });
+  });
+
+  it("does not offer resume for clean or active runs", () => {
+    const run = createRun("job-1", createDefaultSettings());
+    expect(canResumeRun({ ...run, status: "running" })).toBe(false);
+    expect(canResumeRun({ ...run, status: "complete", rowResults: [result(0, "success")] })).toBe(
+      false,
+    );
+    expect(canResumeRun({ ...run, status: "stopped" })).toBe(true);
+  });
+
+  it("locks a job's rows while one of its runs is running or paused", () => {
+    const run = createRun("job-1", createDefaultSettings());
+    expect(hasActiveRun([{ ...run, status: "paused" }], "job-1")).toBe(true);
+    expect(hasActiveRun([{ ...run, status: "running" }], "job-2")).toBe(false);
+    expect(hasActiveRun([{ ...run, status: "stopped" }, run], "job-1")).toBe(false);
+  });
+});
+
+describe("retry runs", () => {
+  it("combines results so retries override the original run", () => {
+    const parent = {
+      ...createRun("job-1", createDefaultSettings()),
+      createdAt: "2024-01-01T00:00:00.000Z",
+      rowResults: [result(0, "success"), result(1, "failed"), result(2, "failed")],
+    };
+    const retry = {
+      ...createRun("job-1", createDefaultSettings()),
+      createdAt: "2024-01-02T00:00:00.000Z",
+      parentRunId: parent.id,
+      rowIndexes: [1, 2],
+      rowResults: [{ ...result(1, "success"), runId: "retry" }],
+    };
+    const combined = combineRowResults(retry, [retry, parent]);
+    expect([0, 1, 2].map((index) => combined.get(index)?.status)).toEqual([
+      "success",
+      "success",
+      "failed",
+    ]);
+    expect(combined.get(1)?.runId).toBe("retry");
+  });
+});
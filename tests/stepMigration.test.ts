@@ -0,0 +1,197 @@
+import { describe, expect, it } from "vitest";
+import type { LegacyWorkflowStep, WorkflowDefinition } from "@shared/schema";
+import { evaluateCondition } from "@shared/expressions";
+import { WorkflowDefinitionSchema, WorkflowStepSchema } from "@shared/validators";
+import {
+  conditionFromTemplate,
+  conditionsForProtocol,
+  migrateConditionals,
+  migrateStep,
+  migrateWorkflowData,
+  toLegacyStep,
+  unsupportedConditions,
+  workflowForProtocol,
+} from "@shared/stepMigration";
+import { validateWorkflowSteps } from "../app/src/workflowValidation";
+
+const legacySteps: LegacyWorkflowStep[] = [
+  { id: "1", type: "goto", value: "{{url}}", retries: 2, timeoutMs: 15000, notes: "Open" },
+  { id: "2", type: "click", value: "Post" },
+  { id: "3", type: "type", selector: "fb:composer", value: "{{post}}" },
+  { id: "4", type: "press", value: "Enter" },
+  { id: "5", type: "wait_for_selector", selector: "body" },
+  { id: "6", type: "wait_time", value: "1500" },
+  { id: "7", type: "screenshot", value: "page" },
+  { id: "8", type: "evaluate", value: "vars.x = row.name;" },
+  { id: "9", type: "set_var", selector: "greeting", value: "Hi {{name}}" },
+  { id: "10", type: "conditional", value: "{{should_post}}" },
+];
+
+const workflow: WorkflowDefinition = {
+  id: "wf-1",
+  name: "Post",
+  updatedAt: "2024-01-01T00:00:00.000Z",
+  steps: legacySteps.map(migrateStep),
+};
+
+describe("step migration", () => {
+  it("moves legacy selector and value into the fields of each type", () => {
+    expect(workflow.steps).toEqual([
+      { id: "1", type: "goto", url: "{{url}}", retries: 2, timeoutMs: 15000, notes: "Open" },
+      { id: "2", type: "click", selector: "Post" },
+      { id: "3", type: "type", selector: "fb:composer", text: "{{post}}" },
+      { id: "4", type: "press", key: "Enter" },
+      { id: "5", type: "wait_for_selector", selector: "body" },
+      { id: "6", type: "wait_time", durationMs: 1500 },
+      { id: "7", type: "screenshot" },
+      { id: "8", type: "evaluate", code: "vars.x = row.name;" },
+      { id: "9", type: "set_var", varName: "greeting", value: "Hi {{name}}" },
+      { id: "10", type: "conditional", expression: "{{should_post}}" },
+    ]);
+    expect(WorkflowDefinitionSchema.safeParse(workflow).success).toBe(true);
+    expect(workflow.steps.map(migrateStep)).toEqual(workflow.steps);
+  });
+
+  it("migrates stored data and leaves unknown steps to validation", () => {
+    const data = { name: "Flow", steps: [legacySteps[0], { id: "x", type: "hover" }, null] };
+    expect(migrateWorkflowData(data)).toEqual({
+      name: "Flow",
+      steps: [workflow.steps[0], { id: "x", type: "hover" }, null],
+    });
+    expect(migrateWorkflowData("not a workflow")).toBe("not a workflow");
+  });
+
+  it("sends legacy steps to agents before protocol 1.10.0", () => {
+    expect(workflowForProtocol(workflow, "1.14.0")).toBe(workflow);
+    expect(workflowForProtocol(workflow, "1.10.0")).toEqual(workflow);
+    expect(workflowForProtocol(workflow, null)).toBe(workflow);
+    const legacy = workflowForProtocol(workflow, "1.9.0");
+    expect(legacy.steps.map((step) => migrateStep(step))).toEqual(workflow.steps);
+    expect(toLegacyStep(workflow.steps[8]!)).toMatchObject({
+      selector: "greeting",
+      value: "Hi {{name}}",
+    });
+  });
+
+  it("rewrites conditionals saved as templates into expressions", () => {
+    expect(conditionFromTemplate("{{ok}}")).toBe('{{ok}} != "" && {{ok}} != "false"');
+    expect(conditionFromTemplate("{{a}}{{b}}")).toBe('{{a}} != "" || {{b}} != ""');
+    expect(conditionFromTemplate("Post {{x}}")).toBe("{{x}} == {{x}}");
+    expect(conditionFromTemplate("yes")).toBe("true");
+    expect(conditionFromTemplate("false")).toBe("false");
+    // The old check: the rendered value is neither "" nor "false", and every field is present.
+    const check = (value: string, row: Record<string, string>) => {
+      try {
+        return evaluateCondition(conditionFromTemplate(value), row, {});
+      } catch {
+        return false;
+      }
+    };
+    expect(check("{{ok}}", { ok: "0" })).toBe(true);
+    expect(check("{{ok}}", { ok: "false" })).toBe(false);
+    expect(check("{{a}}{{b}}", { a: "", b: "x" })).toBe(true);
+    expect(check("{{a}}{{b}}", { a: "", b: "" })).toBe(false);
+    expect(check("Post {{x}}", { x: "" })).toBe(true);
+    expect(check("Post {{x}}", {})).toBe(false);
+
+    const saved = {
+      id: "wf-2",
+      name: "Saved",
+      updatedAt: "2024-01-01T00:00:00.000Z",
+      steps: [
+        { id: "1", type: "conditional", expression: "{{a}}{{b}}" },
+        { id: "2", type: "conditional", expression: "yes" },
+        {
+          id: "3",
+          type: "if",
+          condition: "a == 1",
+          then: [{ id: "4", type: "conditional", expression: "Post {{x}}" }],
+          else: [],
+        },
+        { id: "5", type: "conditional", expression: "" },
+      ],
+    };
+    const all = migrateWorkflowData(saved, "all") as WorkflowDefinition;
+    expect(all.steps.map((step) => (step.type === "conditional" ? step.expression : null))).toEqual(
+      ['{{a}} != "" || {{b}} != ""', "true", null, ""],
+    );
+    expect(all.steps[2]).toMatchObject({ then: [{ expression: "{{x}} == {{x}}" }] });
+    const filled = { ...all, steps: all.steps.slice(0, 3) };
+    expect(WorkflowDefinitionSchema.safeParse(filled).success).toBe(true);
+    // Without `all`, values that parse as expressions are kept.
+    const invalid = migrateConditionals(all.steps, false);
+    expect(invalid).toEqual(all.steps);
+    const { steps } = migrateWorkflowData(saved, "invalid") as WorkflowDefinition;
+    expect(steps.slice(0, 2)).toMatchObject([
+      { expression: '{{a}} != "" || {{b}} != ""' },
+      { expression: "yes" },
+    ]);
+    expect(migrateWorkflowData(saved)).toEqual(saved);
+  });
+
+  it("writes conditionals as templates for agents before 1.14.0 or refuses them", () => {
+    const checks: WorkflowDefinition = {
+      ...workflow,
+      steps: [
+        { id: "1", type: "conditional", expression: '{{ok}} != "" && {{ok}} != "false"' },
+        { id: "2", type: "conditional", expression: "ready" },
+        {
+          id: "3",
+          type: "repeat",
+          times: 2,
+          steps: [{ id: "4", type: "conditional", expression: "{{Force post}}" }],
+        },
+        { id: "5", type: "conditional", expression: "false" },
+      ],
+    };
+    expect(conditionsForProtocol(checks, "1.14.0")).toBe(checks);
+    expect(conditionsForProtocol(checks, "1.13.0").steps).toEqual([
+      { id: "1", type: "conditional", expression: "{{ok}}" },
+      { id: "2", type: "conditional", expression: "{{ready}}" },
+      {
+        id: "3",
+        type: "repeat",
+        times: 2,
+        steps: [{ id: "4", type: "conditional", expression: "{{Force post}}" }],
+      },
+      { id: "5", type: "conditional", expression: "false" },
+    ]);
+    expect(unsupportedConditions([checks], "1.13.0")).toEqual([]);
+
+    const strict: WorkflowDefinition = {
+      ...workflow,
+      steps: [
+        { id: "1", type: "conditional", expression: 'status == "active"' },
+        { id: "2", type: "conditional", expression: "{{title | trim}}" },
+        { id: "3", type: "conditional", expression: "rowIndex" },
+      ],
+    };
+    expect(unsupportedConditions([strict], "1.14.0")).toEqual([]);
+    expect(unsupportedConditions([strict], "1.13.0")).toEqual([
+      'status == "active"',
+      "{{title | trim}}",
+      "rowIndex",
+    ]);
+    expect(() => workflowForProtocol(strict, "1.9.0")).toThrow(
+      'Agents before protocol 1.14.0 cannot check the condition "status == \"active\""',
+    );
+  });
+
+  it("reports the fields a step is missing", () => {
+    expect(validateWorkflowSteps(workflow)).toBeNull();
+    const broken = {
+      ...workflow,
+      steps: [migrateStep({ id: "a", type: "goto" }), migrateStep({ id: "b", type: "set_var" })],
+    };
+    expect(validateWorkflowSteps(broken)).toBe(
+      "step 1 (goto) url: Required; step 2 (set_var) varName: Required",
+    );
+    expect(
+      WorkflowStepSchema.safeParse({ id: "c", type: "set_var", varName: "a b", value: "" }).success,
+    ).toBe(false);
+    expect(
+      WorkflowStepSchema.safeParse({ id: "d", type: "assert_url_matches", pattern: "(posts" })
+        .success,
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import type { WorkflowDefinition, WorkflowStep } from "@shared/schema";
+import { migrateStep } from "@shared/stepMigration";
+import { callWorkflowErrors, calledWorkflows, findCallCycle } from "@shared/subworkflows";
+import { validateWorkflowSteps } from "../app/src/workflowValidation";
+
+const workflow = (id: string, steps: WorkflowStep[]): WorkflowDefinition => ({
+  id,
+  name: id.toUpperCase(),
+  updatedAt: "2024-01-01T00:00:00.000Z",
+  steps,
+});
+
+const call = (id: string, workflowId: string, params: Record<string, string> = {}) =>
+  migrateStep({ id, type: "call_workflow", workflowId, params });
+
+const compose = workflow("compose", [
+  { id: "c1", type: "type", selector: "fb:composer", text: "{{post}}" },
+  { id: "c2", type: "click", selector: "fb:post-button" },
+]);
+const share = workflow("share", [
+  { id: "s1", type: "goto", url: "{{url}}" },
+  { id: "s2", type: "if", condition: "post", then: [call("s3", "compose", { post: "{{post}}" })], else: [] },
+]);
+const main = workflow("main", [call("m1", "share", { url: "{{link}}", post: "{{text}}" })]);
+
+describe("call_workflow", () => {
+  it("finds the workflows a call reaches and the parameters it must pass", () => {
+    const library = [compose, share, main];
+    expect(calledWorkflows(main, library).map((item) => item.id)).toEqual(["share", "compose"]);
+    expect(callWorkflowErrors(main, library)).toEqual([]);
+    expect(validateWorkflowSteps(main, library)).toBeNull();
+
+    const partial = workflow("partial", [call("p1", "share", { url: "{{link}}" }), call("p2", "gone")]);
+    expect(callWorkflowErrors(partial, library)).toEqual([
+      "step 1 (call_workflow): no value for post",
+      "step 2 (call_workflow): no workflow with id gone",
+    ]);
+  });
+
+  it("detects workflows that call each other before they are saved", () => {
+    const library = [compose, share, main];
+    expect(findCallCycle(main, library)).toBeNull();
+    // Compose edited to call main: main → share → compose → main.
+    const edited = { ...compose, steps: [...compose.steps, call("c3", "main")] };
+    expect(findCallCycle(edited, library)).toEqual(["COMPOSE", "MAIN", "SHARE", "COMPOSE"]);
+    expect(findCallCycle(workflow("self", [call("x", "self")]), [])).toEqual(["SELF", "SELF"]);
+    expect(callWorkflowErrors(edited, library)).toContain(
+      "workflows call each other: COMPOSE → MAIN → SHARE → COMPOSE",
+    );
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { evaluateCondition, expressionNames } from "@shared/expressions";
+import { renderTemplate, templateError, templateNames } from "@shared/template";
+
+const row = { title: "  Hello world  ", empty: "", query: "a&b c", posted: "2024-03-05T14:07:09Z" };
+const builtins = { rowIndex: 4, runId: "run-1", now: new Date("2024-06-01T08:30:00Z") };
+
+describe("templates", () => {
+  it("applies defaults and filters left to right", () => {
+    const render = (source: string) => renderTemplate(source, row, {}, builtins);
+    expect(render("{{title | trim | upper}}!")).toBe("HELLO WORLD!");
+    expect(render('{{missing | default:"n/a"}} / {{empty | default:n/a}}')).toBe("n/a / n/a");
+    expect(render("?q={{query | urlencode}}")).toBe("?q=a%26b%20c");
+    expect(render("{{title | trim | truncate:5}}")).toBe("Hello");
+    expect(render('{{posted | date:"YYYY-MM-DD HH:mm:ss"}}')).toBe("2024-03-05 14:07:09");
+    expect(render('{{missing | default:"x" | upper}}')).toBe("X");
+  });
+
+  it("reads vars before the row and the row before built-ins", () => {
+    expect(renderTemplate("{{title}}", row, { title: "Var" })).toBe("Var");
+    expect(renderTemplate("{{rowIndex}} {{runId}}", row, {}, builtins)).toBe("4 run-1");
+    expect(renderTemplate('{{now | date:"YYYY-MM-DD"}}', row, {}, builtins)).toBe("2024-06-01");
+    expect(renderTemplate("{{now}}", { now: "column" }, {}, builtins)).toBe("column");
+    expect(() => renderTemplate("{{runId}}", row, {})).toThrow(
+      'Missing template value for "runId"',
+    );
+    expect(() => renderTemplate("{{missing | trim}}", row, {})).toThrow(
+      'Missing template value for "missing"',
+    );
+    // Names are only read from the row's and vars' own keys.
+    expect(() => renderTemplate("{{constructor}}", row, {})).toThrow(
+      'Missing template value for "constructor"',
+    );
+    expect(renderTemplate('{{toString | default:"none"}}', row, {})).toBe("none");
+    expect(() => evaluateCondition("hasOwnProperty", row, {})).toThrow(
+      'Missing value for "hasOwnProperty"',
+    );
+    expect(() => renderTemplate('{{title | date:"YYYY"}}', row, {})).toThrow(
+      'date: "  Hello world  " is not a date',
+    );
+  });
+
+  it("reports syntax errors and the names rows must supply", () => {
+    expect(templateError("{{title | trim}}")).toBeNull();
+    expect(templateError("{{title | shout}}")).toBe('Unknown filter "shout"');
+    expect(templateError("{{title | truncate}}")).toBe("truncate needs a value");
+    expect(templateError("{{title | truncate:many}}")).toBe(
+      "truncate needs a length, such as truncate:80",
+    );
+    expect(templateError("{{title | upper:1}}")).toBe("upper takes no value");
+    expect(templateError("{{ | trim}}")).toBe('Empty placeholder in "{{ | trim}}"');
+    expect(templateNames('{{Post text | default:"hi"}} {{rowIndex}} {{now}} {{url}}')).toEqual([
+      "Post text",
+      "url",
+    ]);
+  });
+
+  it("lets conditions use templates and built-ins", () => {
+    expect(evaluateCondition('{{title | trim}} == "Hello world"', row, {})).toBe(true);
+    expect(evaluateCondition("{{empty | default:0}}", row, {})).toBe(false);
+    expect(evaluateCondition("rowIndex >= 3", row, {}, builtins)).toBe(true);
+    expect(() => evaluateCondition("{{title | shout}}", row, {})).toThrow(
+      'Invalid expression "{{title | shout}}": Unknown filter "shout"',
+    );
+    expect(expressionNames('{{title | trim}} != "" && rowIndex < 3')).toEqual(["title"]);
+  });
+});
@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { ACPMessage, SequencedMessage } from "@shared/schema";
+import { signMessage } from "@shared/pairing";
+import { ACPTransport, CommandCancelledError, type RejectedMessage } from "../app/src/transport";
+
+const command = (type: ACPMessage["type"], requestId: string, extra: object = {}) =>
+  ({ type, payload: { requestId, runId: "run-1", ...extra } }) as ACPMessage;
+
+let seq = 0;
+let pairingKey: CryptoKey;
+
+const createTransport = () => {
+  const transport = new ACPTransport();
+  transport.setPairingKey("pairing-1", pairingKey);
+  return transport;
+};
+
+const ackMessage = (requestId: string): SequencedMessage => ({
+  senderId: "agent-1",
+  seq: (seq += 1),
+  type: "AGENT_ACK",
+  payload: { requestId, agentId: "agent-1", commandType: "", ok: true, error: "" },
+});
+
+const dispatch = (data: unknown, origin = window.location.origin) =>
+  window.dispatchEvent(new MessageEvent("message", { data, origin }));
+
+const ack = async (requestId: string) =>
+  dispatch(await signMessage(pairingKey, "pairing-1", ackMessage(requestId)));
+
+const queued = (transport: ACPTransport, target = "*") => {
+  const queue = transport.getQueueState().find((item) => item.target === target);
+  return {
+    inFlight: queue?.inFlight?.requestId ?? null,
+    queued: queue?.queued.map((entry) => entry.requestId) ?? [],
+  };
+};
+
+describe("command queue", () => {
+  beforeEach(async () => {
+    pairingKey = await crypto.subtle.generateKey({ name: "HMAC", hash: "SHA-256" }, true, [
+      "sign",
+      "verify",
+    ]);
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("queues commands per target and runs stop and kill switch first", async () => {
+    const transport = createTransport();
+    const pause = transport.sendCommand(command("CONTROL_PAUSE_RUN", "pause"));
+    void transport.sendCommand(command("CONTROL_STEP_NEXT", "step", { rowIndex: 0, stepIndex: 0 }));
+    void transport.sendCommand(command("CONTROL_START_RUN", "start", { targetAgentId: "agent-2" }));
+    void transport.sendCommand(
+      command("CONTROL_KILL_SWITCH", "kill", { runId: undefined, enabled: true }),
+    );
+    expect(queued(transport)).toEqual({ inFlight: "pause", queued: ["kill", "step"] });
+    expect(queued(transport, "agent-2")).toEqual({ inFlight: "start", queued: [] });
+
+    await ack("pause");
+    await expect(pause).resolves.toMatchObject({ requestId: "pause", ok: true });
+    expect(queued(transport)).toEqual({ inFlight: "kill", queued: ["step"] });
+  });
+
+  it("cancels queued commands a stop supersedes", async () => {
+    const transport = createTransport();
+    void transport.sendCommand(command("CONTROL_UPDATE_SETTINGS", "settings", { settings: {} }));
+    const pause = transport.sendCommand(command("CONTROL_PAUSE_RUN", "pause"));
+    const other = transport.sendCommand(command("CONTROL_PAUSE_RUN", "other", { runId: "run-2" }));
+    void transport.sendCommand(command("CONTROL_STOP_RUN", "stop"));
+
+    await expect(pause).rejects.toBeInstanceOf(CommandCancelledError);
+    expect(queued(transport)).toEqual({ inFlight: "settings", queued: ["stop", "other"] });
+    await ack("settings");
+    await ack("stop");
+    await ack("other");
+    await expect(other).resolves.toMatchObject({ requestId: "other" });
+    expect(transport.getQueueState()).toEqual([]);
+  });
+
+  it("moves on to the next command when an agent never answers", async () => {
+    const transport = createTransport();
+    const first = transport.sendCommand(command("CONTROL_PAUSE_RUN", "first"), 100, 1);
+    void transport.sendCommand(command("CONTROL_RESUME_RUN", "second", { runId: "run-2" }));
+    const failed = expect(first).rejects.toThrow("No ACK received from agent.");
+    vi.advanceTimersByTime(100);
+    expect(transport.getQueueState()[0]?.inFlight).toMatchObject({ requestId: "first", attempts: 2 });
+    vi.advanceTimersByTime(100);
+    await failed;
+    expect(queued(transport)).toEqual({ inFlight: "second", queued: [] });
+  });
+
+  it("rejects unacknowledged commands and stops listening once closed", async () => {
+    const transport = createTransport();
+    const received: ACPMessage[] = [];
+    transport.subscribe((message) => received.push(message));
+    const pause = transport.sendCommand(command("CONTROL_PAUSE_RUN", "pause"));
+    transport.close();
+    await expect(pause).rejects.toThrow("Transport closed.");
+    expect(transport.getQueueState()).toEqual([]);
+    await ack("pause");
+    expect(received).toEqual([]);
+  });
+
+  it("refuses commands until an agent is paired", async () => {
+    const transport = new ACPTransport();
+    await expect(transport.sendCommand(command("CONTROL_PAUSE_RUN", "pause"))).rejects.toThrow(
+      "No agent is paired.",
+    );
+  });
+
+  it("rejects unsigned messages and messages from other origins", async () => {
+    const transport = createTransport();
+    const rejections: RejectedMessage[][] = [];
+    transport.subscribeRejections((next) => rejections.push(next));
+    const pause = transport.sendCommand(command("CONTROL_PAUSE_RUN", "pause"));
+
+    dispatch(ackMessage("pause"));
+    dispatch(await signMessage(pairingKey, "pairing-1", ackMessage("pause")), "https://evil.test");
+    expect(rejections[rejections.length - 1]?.map((rejection) => rejection.reason)).toEqual([
+      "Message from another origin",
+      "Unsigned message",
+    ]);
+    expect(queued(transport)).toEqual({ inFlight: "pause", queued: [] });
+
+    await ack("pause");
+    await expect(pause).resolves.toMatchObject({ requestId: "pause" });
+  });
+});
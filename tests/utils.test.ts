@@ -0,0 +1,14 @@
+import { describe, expect, it } from "vitest";
+import { parseRowSelection } from "../app/src/utils";
+
+describe("parseRowSelection", () => {
+  it("parses row numbers and ranges into 0-based indexes", () => {
+    expect(parseRowSelection("5-7, 2, 6", 10)).toEqual([1, 4, 5, 6]);
+  });
+
+  it("rejects rows outside the job", () => {
+    expect(() => parseRowSelection("0", 10)).toThrow('"0" is not a row number between 1 and 10.');
+    expect(() => parseRowSelection("9-11", 10)).toThrow();
+    expect(() => parseRowSelection("two", 10)).toThrow();
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { RunPresetSchema, RunSettingsSchema } from "@shared/validators";
+
+const settings = {
+  headless: false,
+  slowMoMs: 0,
+  timeoutMs: 15000,
+  delayMinMs: 300,
+  delayMaxMs: 900,
+  concurrency: 1,
+  bestEffort: false,
+  dryRun: false,
+  stepThrough: false,
+};
+
+describe("run settings validation", () => {
+  it("accepts a preset with valid settings", () => {
+    const preset = { id: "p1", name: "Slow", settings, updatedAt: "2024-01-01T00:00:00.000Z" };
+    expect(RunPresetSchema.safeParse(preset).success).toBe(true);
+  });
+
+  it("rejects a delay range that is reversed", () => {
+    const result = RunSettingsSchema.safeParse({ ...settings, delayMinMs: 1000, delayMaxMs: 10 });
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0]?.path).toEqual(["delayMaxMs"]);
+  });
+
+  it("rejects zero concurrency", () => {
+    expect(RunSettingsSchema.safeParse({ ...settings, concurrency: 0 }).success).toBe(false);
+  });
+});
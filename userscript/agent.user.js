@@ -1,7 +1,7 @@
 // ==UserScript==
 // @name         Agent Control Panel Runner
 // @namespace    https://local.acp
-// @version      1.1.0
+// @version      1.14.0
 // @description  Executes ACP workflows on Facebook-style pages with resilient selectors.
 // @author       ACP
 // @match        *://*.facebook.com/*
@@ -9,22 +9,1193 @@
 // @match        *://*/*
 // @grant        none
 // ==/UserScript==
+// Generated from userscript/src by npm run build:userscript; do not edit by hand.
 
-(() => {
+(function() {
+  "use strict";
   const MESSAGE_CHANNEL = "acp-control";
+  const MESSAGE_VERSION = "1.14.0";
+  const MIN_COMPATIBLE_VERSION = "1.8.0";
+  const WORKFLOW_STEP_TYPES = [
+    "goto",
+    "click",
+    "type",
+    "press",
+    "wait_for_selector",
+    "wait_time",
+    "screenshot",
+    "evaluate",
+    "set_var",
+    "extract_text",
+    "extract_attribute",
+    "extract_count",
+    "assert_text",
+    "assert_url_matches",
+    "assert_element_absent",
+    "assert_var_equals",
+    "conditional",
+    "break",
+    "skip_row",
+    "call_workflow",
+    "if",
+    "repeat",
+    "while"
+  ];
+  const MESSAGE_HISTORY = {
+    CONTROL_HELLO: [
+      { version: "1.1.0", change: "Added." },
+      { version: "1.9.0", change: "Added optional supportedProtocolVersions." }
+    ],
+    AGENT_HELLO: [
+      { version: "1.1.0", change: "Added." },
+      { version: "1.6.0", change: "Added agentId and runId." },
+      { version: "1.9.0", change: "Added optional supportedProtocolVersions and capabilities." }
+    ],
+    CONTROL_PAIR_REQUEST: [{ version: "1.8.0", change: "Added." }],
+    AGENT_PAIR_RESPONSE: [{ version: "1.8.0", change: "Added." }],
+    CONTROL_PAIR_CONFIRM: [{ version: "1.8.0", change: "Added." }],
+    CONTROL_PING: [{ version: "1.1.0", change: "Added." }],
+    CONTROL_STEP_NEXT: [{ version: "1.1.0", change: "Added." }],
+    AGENT_PONG: [
+      { version: "1.1.0", change: "Added." },
+      { version: "1.6.0", change: "Added agentId and runId." }
+    ],
+    AGENT_ACK: [
+      { version: "1.1.0", change: "Added." },
+      { version: "1.6.0", change: "Added agentId." }
+    ],
+    CONTROL_START_RUN: [
+      { version: "1.1.0", change: "Added." },
+      { version: "1.2.0", change: "Added totalRows; rows are sent in pages." },
+      {
+        version: "1.4.0",
+        change: "Added skipRowIndexes, successCount and failureCount for resumed runs."
+      },
+      { version: "1.5.0", change: "Added rowIndexes for retry runs." },
+      { version: "1.6.0", change: "Added targetAgentId." },
+      {
+        version: "1.10.0",
+        change: "Workflow steps have fields for their type instead of selector and value."
+      },
+      { version: "1.11.0", change: "Added optional workflows for call_workflow steps." },
+      {
+        version: "1.14.0",
+        change: "Conditional steps hold an expression instead of a template; templates have filters."
+      }
+    ],
+    CONTROL_PAUSE_RUN: [{ version: "1.1.0", change: "Added." }],
+    CONTROL_RESUME_RUN: [{ version: "1.1.0", change: "Added." }],
+    CONTROL_STOP_RUN: [
+      { version: "1.1.0", change: "Added." },
+      { version: "1.6.0", change: "Added optional targetAgentId." }
+    ],
+    CONTROL_KILL_SWITCH: [{ version: "1.1.0", change: "Added." }],
+    CONTROL_UPDATE_SETTINGS: [{ version: "1.3.0", change: "Added." }],
+    CONTROL_ROWS: [
+      { version: "1.2.0", change: "Added." },
+      { version: "1.6.0", change: "Added targetAgentId." }
+    ],
+    CONTROL_REPLAY: [{ version: "1.7.0", change: "Added." }],
+    AGENT_STATUS: [
+      { version: "1.1.0", change: "Added." },
+      { version: "1.6.0", change: "Added agentId." }
+    ],
+    AGENT_LOG: [
+      { version: "1.1.0", change: "Added." },
+      { version: "1.6.0", change: "Added agentId." },
+      { version: "1.11.0", change: "Added optional stepPath." }
+    ],
+    AGENT_ROW_RESULT: [
+      { version: "1.1.0", change: "Added." },
+      { version: "1.6.0", change: "Added agentId." },
+      { version: "1.12.0", change: "Added optional outputs from extract steps." },
+      { version: "1.13.0", change: "Added optional failure from assertion steps." }
+    ],
+    AGENT_REQUEST_ROWS: [
+      { version: "1.2.0", change: "Added." },
+      { version: "1.6.0", change: "Added agentId." }
+    ]
+  };
+  const isBlockStep = (step) => step.type === "if" || step.type === "repeat" || step.type === "while";
+  const isExtractStep = (step) => step.type.startsWith("extract_");
+  const childStepLists = (step) => {
+    switch (step.type) {
+      case "if":
+        return [
+          ["then", step.then],
+          ["else", step.else]
+        ];
+      case "repeat":
+      case "while":
+        return [["steps", step.steps]];
+      default:
+        return [];
+    }
+  };
+  const flattenSteps = (steps) => steps.flatMap((step) => [
+    step,
+    ...childStepLists(step).flatMap(([, children]) => flattenSteps(children))
+  ]);
+  const stepIndexes = (steps) => new Map(flattenSteps(steps).map((step, index) => [step, index]));
+  const PROTOCOL_VERSION = MESSAGE_VERSION;
+  const MIN_PROTOCOL_VERSION = MIN_COMPATIBLE_VERSION;
+  const RUN_ROW_PAGE_SIZE = 500;
+  const ARTIFACT_TYPES = ["screenshot", "htmlSnapshot", "consoleLogs"];
+  const parseVersion = (version) => version.split(".").map((part) => Number(part) || 0);
+  const compareVersions = (a, b) => {
+    const left = parseVersion(a);
+    const right = parseVersion(b);
+    for (let index = 0; index < Math.max(left.length, right.length); index += 1) {
+      const diff = (left[index] ?? 0) - (right[index] ?? 0);
+      if (diff !== 0) {
+        return diff;
+      }
+    }
+    return 0;
+  };
+  const PROTOCOL_VERSIONS = Array.from(
+    new Set(Object.values(MESSAGE_HISTORY).flatMap((changes) => changes.map((item) => item.version)))
+  ).sort(compareVersions);
+  const SUPPORTED_PROTOCOL_VERSIONS = PROTOCOL_VERSIONS.filter(
+    (version) => compareVersions(version, MIN_PROTOCOL_VERSION) >= 0
+  );
+  const encoder = new TextEncoder();
+  const PAIRING_INFO = "acp-pairing-v1";
+  const UNSIGNED_MESSAGE_TYPES = [
+    "CONTROL_HELLO",
+    "AGENT_HELLO",
+    "CONTROL_PAIR_REQUEST",
+    "AGENT_PAIR_RESPONSE"
+  ];
+  const toBase64 = (bytes) => btoa(String.fromCharCode(...new Uint8Array(bytes)));
+  const fromBase64 = (text2) => Uint8Array.from(atob(text2), (char) => char.charCodeAt(0));
+  const generatePairingKeys = () => crypto.subtle.generateKey({ name: "ECDH", namedCurve: "P-256" }, false, ["deriveBits"]);
+  const exportPublicKey = async (keys) => toBase64(await crypto.subtle.exportKey("raw", keys.publicKey));
+  const derivePairingKey = async (keys, peerPublicKey, code) => {
+    const peer = await crypto.subtle.importKey(
+      "raw",
+      fromBase64(peerPublicKey),
+      { name: "ECDH", namedCurve: "P-256" },
+      false,
+      []
+    );
+    const bits = await crypto.subtle.deriveBits({ name: "ECDH", public: peer }, keys.privateKey, 256);
+    const material = await crypto.subtle.importKey("raw", bits, "HKDF", false, ["deriveKey"]);
+    return crypto.subtle.deriveKey(
+      {
+        name: "HKDF",
+        hash: "SHA-256",
+        salt: encoder.encode(code.trim().toUpperCase()),
+        info: encoder.encode(PAIRING_INFO)
+      },
+      material,
+      { name: "HMAC", hash: "SHA-256", length: 256 },
+      true,
+      ["sign", "verify"]
+    );
+  };
+  const exportPairingKey = (key) => crypto.subtle.exportKey("jwk", key);
+  const importPairingKey = (jwk) => crypto.subtle.importKey("jwk", jwk, { name: "HMAC", hash: "SHA-256" }, true, ["sign", "verify"]);
+  const sign = async (key, text2) => toBase64(await crypto.subtle.sign("HMAC", key, encoder.encode(text2)));
+  const verify = async (key, signature, text2) => {
+    try {
+      return await crypto.subtle.verify("HMAC", key, fromBase64(signature), encoder.encode(text2));
+    } catch {
+      return false;
+    }
+  };
+  const createPairingProof = (key, requestId) => sign(key, `pair:${requestId}`);
+  const signingInput = (message) => JSON.stringify([
+    message.type,
+    message.senderId,
+    message.seq,
+    message.pairingId ?? null,
+    message.payload
+  ]);
+  const signMessage = async (key, pairingId, message) => {
+    const unsigned = { ...message, pairingId };
+    return { ...unsigned, signature: await sign(key, signingInput(unsigned)) };
+  };
+  const verifyMessage = (key, message) => message.signature ? verify(key, message.signature, signingInput(message)) : Promise.resolve(false);
+  const formatDate = (value, format) => {
+    const date = new Date(/^-?\d+$/.test(value.trim()) ? Number(value) : value);
+    if (Number.isNaN(date.getTime())) {
+      throw new Error(`date: "${value}" is not a date`);
+    }
+    const pad = (part, length = 2) => String(part).padStart(length, "0");
+    const parts = {
+      YYYY: pad(date.getUTCFullYear(), 4),
+      MM: pad(date.getUTCMonth() + 1),
+      DD: pad(date.getUTCDate()),
+      HH: pad(date.getUTCHours()),
+      mm: pad(date.getUTCMinutes()),
+      ss: pad(date.getUTCSeconds())
+    };
+    return format.replace(/YYYY|MM|DD|HH|mm|ss/g, (token) => parts[token] ?? token);
+  };
+  const FILTERS = {
+    trim: { arg: "none", apply: (value) => value.trim() },
+    upper: { arg: "none", apply: (value) => value.toUpperCase() },
+    lower: { arg: "none", apply: (value) => value.toLowerCase() },
+    urlencode: { arg: "none", apply: (value) => encodeURIComponent(value) },
+    truncate: { arg: "required", apply: (value, arg) => value.slice(0, Number(arg)) },
+    date: { arg: "required", apply: formatDate }
+  };
+  const checkFilter = ({ name, arg }) => {
+    if (name === "default") {
+      if (arg === void 0) {
+        throw new Error('default needs a value, such as default:"n/a"');
+      }
+      return;
+    }
+    const spec = FILTERS[name];
+    if (!spec) {
+      throw new Error(`Unknown filter "${name}"`);
+    }
+    if (spec.arg === "none" && arg !== void 0) {
+      throw new Error(`${name} takes no value`);
+    }
+    if (spec.arg === "required" && arg === void 0) {
+      throw new Error(`${name} needs a value`);
+    }
+    if (name === "truncate" && !/^\d+$/.test(arg ?? "")) {
+      throw new Error("truncate needs a length, such as truncate:80");
+    }
+  };
+  const parseFilters = (source) => {
+    var _a;
+    const filters = [];
+    let rest = source;
+    while (rest.trim()) {
+      const head = /^\s*\|\s*([A-Za-z_]\w*)\s*/.exec(rest);
+      if (!head) {
+        throw new Error(`Expected a filter after "|" in "${source.trim()}"`);
+      }
+      rest = rest.slice(head[0].length);
+      let arg;
+      if (rest.startsWith(":")) {
+        rest = rest.slice(1).trimStart();
+        const quoted = /^(["'])((?:\\.|(?!\1).)*)\1/.exec(rest);
+        const bare = quoted ? null : /^[^|]*/.exec(rest);
+        arg = quoted ? (quoted[2] ?? "").replace(/\\(.)/g, "$1") : ((bare == null ? void 0 : bare[0]) ?? "").trim();
+        rest = rest.slice(((_a = quoted ?? bare) == null ? void 0 : _a[0].length) ?? 0);
+      }
+      const filter = { name: head[1] ?? "", arg };
+      checkFilter(filter);
+      filters.push(filter);
+    }
+    return filters;
+  };
+  const parseTemplate = (source) => {
+    const segments = [];
+    let position = 0;
+    for (const match of source.matchAll(/{{(.*?)}}/g)) {
+      const index = match.index ?? 0;
+      segments.push(source.slice(position, index));
+      const body = match[1] ?? "";
+      const pipe = body.indexOf("|");
+      const name = (pipe === -1 ? body : body.slice(0, pipe)).trim();
+      if (!name) {
+        throw new Error(`Empty placeholder in "${match[0]}"`);
+      }
+      segments.push({ name, filters: pipe === -1 ? [] : parseFilters(body.slice(pipe)) });
+      position = index + match[0].length;
+    }
+    segments.push(source.slice(position));
+    return segments.filter((segment) => segment !== "");
+  };
+  const hasOwn = (object, key) => Object.prototype.hasOwnProperty.call(object, key);
+  const lookupName = (name, row, vars, builtins = {}) => {
+    if (hasOwn(vars, name)) {
+      return String(vars[name]);
+    }
+    if (hasOwn(row, name)) {
+      return String(row[name]);
+    }
+    switch (name) {
+      case "rowIndex":
+        return builtins.rowIndex === void 0 ? void 0 : String(builtins.rowIndex);
+      case "runId":
+        return builtins.runId;
+      case "now":
+        return (builtins.now ?? /* @__PURE__ */ new Date()).toISOString();
+      default:
+        return void 0;
+    }
+  };
+  const renderTemplate = (source, row, vars, builtins = {}) => parseTemplate(source).map((segment) => {
+    var _a;
+    if (typeof segment === "string") {
+      return segment;
+    }
+    let value = lookupName(segment.name, row, vars, builtins);
+    for (const { name, arg } of segment.filters) {
+      if (name === "default") {
+        value = value === void 0 || value === "" ? arg : value;
+      } else if (value !== void 0) {
+        value = ((_a = FILTERS[name]) == null ? void 0 : _a.apply(value, arg ?? "")) ?? value;
+      }
+    }
+    if (value === void 0) {
+      throw new Error(`Missing template value for "${segment.name}"`);
+    }
+    return value;
+  }).join("");
+  const templateError = (source) => {
+    try {
+      parseTemplate(source);
+      return null;
+    } catch (error) {
+      return error.message;
+    }
+  };
+  const OPERATORS = ["==", "!=", "<=", ">=", "&&", "||", "<", ">", "!", "(", ")"];
+  const COMPARISONS = /* @__PURE__ */ new Set(["==", "!=", "<", "<=", ">", ">=", "contains"]);
+  const tokenize = (source) => {
+    const tokens = [];
+    let position = 0;
+    while (position < source.length) {
+      const rest = source.slice(position);
+      const space = /^\s+/.exec(rest);
+      if (space) {
+        position += space[0].length;
+        continue;
+      }
+      const quoted = /^(["'])((?:\\.|(?!\1).)*)\1/.exec(rest);
+      if (quoted) {
+        tokens.push({ kind: "string", value: (quoted[2] ?? "").replace(/\\(.)/g, "$1") });
+        position += quoted[0].length;
+        continue;
+      }
+      const template = /^{{(.*?)}}/.exec(rest);
+      if (template) {
+        const error = templateError(template[0]);
+        if (error) {
+          throw new Error(error);
+        }
+        tokens.push({ kind: "template", value: template[0] });
+        position += template[0].length;
+        continue;
+      }
+      const number = /^-?\d+(\.\d+)?/.exec(rest);
+      if (number) {
+        tokens.push({ kind: "number", value: number[0] });
+        position += number[0].length;
+        continue;
+      }
+      const name = /^[A-Za-z_][\w.]*/.exec(rest);
+      if (name) {
+        tokens.push(
+          name[0] === "contains" ? { kind: "op", value: name[0] } : { kind: "name", value: name[0] }
+        );
+        position += name[0].length;
+        continue;
+      }
+      const op = OPERATORS.find((candidate) => rest.startsWith(candidate));
+      if (!op) {
+        throw new Error(`Unexpected "${rest.charAt(0)}" at ${position + 1}`);
+      }
+      tokens.push({ kind: "op", value: op });
+      position += op.length;
+    }
+    return tokens;
+  };
+  const parse = (source) => {
+    const tokens = tokenize(source);
+    let position = 0;
+    const peek = () => tokens[position];
+    const takeOp = (...ops) => {
+      const token = peek();
+      if ((token == null ? void 0 : token.kind) === "op" && ops.includes(token.value)) {
+        position += 1;
+        return token.value;
+      }
+      return null;
+    };
+    const primary = () => {
+      const token = peek();
+      if (!token) {
+        throw new Error("Unexpected end of expression");
+      }
+      position += 1;
+      if (token.kind === "op") {
+        if (token.value !== "(") {
+          throw new Error(`Unexpected "${token.value}"`);
+        }
+        const inner = or();
+        if (!takeOp(")")) {
+          throw new Error('Missing ")"');
+        }
+        return inner;
+      }
+      if (token.kind === "name") {
+        if (token.value === "true" || token.value === "false") {
+          return { kind: "literal", value: token.value === "true" };
+        }
+        return { kind: "name", name: token.value };
+      }
+      if (token.kind === "template") {
+        return { kind: "template", source: token.value };
+      }
+      return { kind: "literal", value: token.value };
+    };
+    const comparison = () => {
+      const left = primary();
+      const token = peek();
+      if ((token == null ? void 0 : token.kind) === "op" && COMPARISONS.has(token.value)) {
+        position += 1;
+        return { kind: "binary", op: token.value, left, right: primary() };
+      }
+      return left;
+    };
+    const not = () => takeOp("!") ? { kind: "not", operand: not() } : comparison();
+    const and = () => {
+      let node2 = not();
+      while (takeOp("&&")) {
+        node2 = { kind: "binary", op: "&&", left: node2, right: not() };
+      }
+      return node2;
+    };
+    const or = () => {
+      let node2 = and();
+      while (takeOp("||")) {
+        node2 = { kind: "binary", op: "||", left: node2, right: and() };
+      }
+      return node2;
+    };
+    const node = or();
+    const extra = peek();
+    if (extra) {
+      throw new Error(`Unexpected "${extra.value}"`);
+    }
+    return node;
+  };
+  const isTruthy = (value) => typeof value === "boolean" ? value : value !== "" && value !== "false" && value !== "0";
+  const asNumber = (value) => typeof value === "string" && value.trim() !== "" ? Number(value) : NaN;
+  const compare = (op, left, right) => {
+    if (op === "contains") {
+      return String(left).includes(String(right));
+    }
+    const a = asNumber(left);
+    const b = asNumber(right);
+    const numeric = !Number.isNaN(a) && !Number.isNaN(b);
+    const diff = numeric ? a - b : String(left).localeCompare(String(right));
+    const equal = numeric ? a === b : String(left) === String(right);
+    switch (op) {
+      case "==":
+        return equal;
+      case "!=":
+        return !equal;
+      case "<":
+        return diff < 0;
+      case "<=":
+        return diff <= 0;
+      case ">":
+        return diff > 0;
+      default:
+        return diff >= 0;
+    }
+  };
+  const evaluate = (node, row, vars, builtins) => {
+    const read = (operand) => evaluate(operand, row, vars, builtins);
+    switch (node.kind) {
+      case "literal":
+        return node.value;
+      case "name": {
+        const value = lookupName(node.name, row, vars, builtins);
+        if (value === void 0) {
+          throw new Error(`Missing value for "${node.name}"`);
+        }
+        return value;
+      }
+      case "template":
+        return renderTemplate(node.source, row, vars, builtins);
+      case "not":
+        return !isTruthy(read(node.operand));
+      case "binary":
+        if (node.op === "&&" || node.op === "||") {
+          const left = isTruthy(read(node.left));
+          if (left === (node.op === "||")) {
+            return left;
+          }
+          return isTruthy(read(node.right));
+        }
+        return compare(node.op, read(node.left), read(node.right));
+      default: {
+        const unknown = node;
+        throw new Error(`Unknown expression node: ${JSON.stringify(unknown)}`);
+      }
+    }
+  };
+  const evaluateCondition = (source, row, vars, builtins = {}) => {
+    let node;
+    try {
+      node = parse(source);
+    } catch (error) {
+      throw new Error(`Invalid expression "${source}": ${error.message}`);
+    }
+    return isTruthy(evaluate(node, row, vars, builtins));
+  };
+  class AssertionError extends Error {
+    constructor(message, failure) {
+      super(message);
+      this.failure = failure;
+    }
+  }
+  const MAX_BACKOFF_MS = 8e3;
+  const SELECTOR_POLL_MS = 250;
+  const MAX_CALL_DEPTH = 10;
+  const delay = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+  const captureHtmlSnapshot = (doc) => doc.documentElement.outerHTML;
+  const captureScreenshot = (doc) => {
+    const { width, height } = doc.documentElement.getBoundingClientRect();
+    const svg = `
+      <svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+        <foreignObject width="100%" height="100%">
+          ${new XMLSerializer().serializeToString(doc.documentElement)}
+        </foreignObject>
+      </svg>
+    `;
+    const blob = new Blob([svg], { type: "image/svg+xml;charset=utf-8" });
+    return URL.createObjectURL(blob);
+  };
+  const createExecutorContext = (overrides = {}) => {
+    const doc = overrides.document ?? document;
+    return {
+      document: doc,
+      navigate: (url) => {
+        window.location.href = url;
+      },
+      captureScreenshot: () => captureScreenshot(doc),
+      sleep: delay,
+      log: () => {
+      },
+      ...overrides
+    };
+  };
+  const withTimeout = async (promise, timeoutMs, message) => {
+    if (!timeoutMs) {
+      return promise;
+    }
+    let timeoutId;
+    const timeout = new Promise((_, reject2) => {
+      timeoutId = setTimeout(() => reject2(new Error(message)), timeoutMs);
+    });
+    try {
+      return await Promise.race([promise, timeout]);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  };
+  const retryWithBackoff = async (fn, retries, timeoutMs, ctx) => {
+    let attempt = 0;
+    while (true) {
+      try {
+        return await withTimeout(fn(), timeoutMs, "Step timeout exceeded");
+      } catch (error) {
+        if (attempt >= retries) {
+          throw error;
+        }
+        const backoff = Math.min(500 * 2 ** attempt, MAX_BACKOFF_MS);
+        ctx.log("warn", `Retrying after ${backoff}ms`, { attempt, error });
+        await ctx.sleep(backoff);
+        attempt += 1;
+      }
+    }
+  };
+  const resolveTemplate = (value, row, vars, builtins = {}) => value ? renderTemplate(value, row, vars, builtins) : "";
+  const SELECTOR_FALLBACKS = {
+    "fb:composer": [
+      "[role='textbox'][contenteditable='true']",
+      "div[aria-label*='on your mind']",
+      "div[aria-label*='Write something']",
+      "div[role='combobox'] div[contenteditable='true']",
+      "textarea[name='xhpc_message']"
+    ],
+    "fb:post-button": ["[aria-label*='Post']", "div[role='button'][aria-label*='Post']"]
+  };
+  const querySelectorWithFallback = (doc, selectors) => {
+    for (const selector of selectors) {
+      const element = doc.querySelector(selector);
+      if (element) {
+        return element;
+      }
+    }
+    return null;
+  };
+  const selectByText = (doc, text2) => {
+    const elements = Array.from(doc.querySelectorAll("button, [role='button'], a"));
+    return elements.find((element) => {
+      var _a;
+      return (_a = element.textContent) == null ? void 0 : _a.trim().includes(text2);
+    }) ?? null;
+  };
+  const findElement = (doc, selector) => {
+    if (!selector) {
+      return null;
+    }
+    const fallbacks = SELECTOR_FALLBACKS[selector];
+    if (fallbacks) {
+      return querySelectorWithFallback(doc, fallbacks);
+    }
+    if (selector.startsWith("text=")) {
+      return selectByText(doc, selector.replace("text=", ""));
+    }
+    return querySelectorWithFallback(
+      doc,
+      selector.split("|").map((item) => item.trim())
+    );
+  };
+  const clickElement = (doc, selector) => {
+    var _a;
+    const element = findElement(doc, selector) || selectByText(doc, selector);
+    if (!element) {
+      throw new Error(`Unable to find element for selector: ${selector}`);
+    }
+    (_a = element.scrollIntoView) == null ? void 0 : _a.call(element, { behavior: "smooth", block: "center" });
+    element.click();
+  };
+  const typeIntoElement = (doc, selector, value) => {
+    const element = findElement(doc, selector);
+    if (!element) {
+      throw new Error(`Unable to find input for selector: ${selector}`);
+    }
+    element.focus();
+    element.value = value;
+    element.dispatchEvent(new Event("input", { bubbles: true }));
+  };
+  const pressKey = (doc, selector, key) => {
+    const element = selector ? findElement(doc, selector) : doc.activeElement;
+    if (!element) {
+      throw new Error("No active element to send keypress");
+    }
+    element.dispatchEvent(new KeyboardEvent("keydown", { key, bubbles: true }));
+    element.dispatchEvent(new KeyboardEvent("keyup", { key, bubbles: true }));
+  };
+  const countElements = (doc, selector) => {
+    if (selector.startsWith("text=")) {
+      const text2 = selector.replace("text=", "");
+      return Array.from(doc.querySelectorAll("button, [role='button'], a")).filter(
+        (element) => {
+          var _a;
+          return (_a = element.textContent) == null ? void 0 : _a.trim().includes(text2);
+        }
+      ).length;
+    }
+    const selectors = SELECTOR_FALLBACKS[selector] ?? selector.split("|").map((item) => item.trim());
+    for (const candidate of selectors) {
+      const count = doc.querySelectorAll(candidate).length;
+      if (count > 0) {
+        return count;
+      }
+    }
+    return 0;
+  };
+  const elementText = (element) => ["INPUT", "TEXTAREA", "SELECT"].includes(element.tagName) ? element.value : (element.textContent ?? "").trim();
+  const quote = (value) => value === null ? "nothing" : JSON.stringify(value);
+  const extractElement = (doc, selector) => {
+    const element = findElement(doc, selector);
+    if (!element) {
+      throw new Error(`Unable to find element to extract from: ${selector}`);
+    }
+    return element;
+  };
+  const waitForSelector = async (ctx, selector, timeoutMs) => {
+    const start = Date.now();
+    while (Date.now() - start < timeoutMs) {
+      if (findElement(ctx.document, selector)) {
+        return;
+      }
+      await ctx.sleep(SELECTOR_POLL_MS);
+    }
+    throw new Error(`Timeout waiting for selector: ${selector}`);
+  };
+  const resolveStep = (step, row, vars, builtins) => {
+    const resolve = (value) => resolveTemplate(value, row, vars, builtins);
+    switch (step.type) {
+      case "goto":
+        return { ...step, url: resolve(step.url) };
+      case "click":
+      case "wait_for_selector":
+        return { ...step, selector: resolve(step.selector) };
+      case "type":
+        return { ...step, selector: resolve(step.selector), text: resolve(step.text) };
+      case "press":
+        return {
+          ...step,
+          key: resolve(step.key),
+          selector: step.selector ? resolve(step.selector) : void 0
+        };
+      case "evaluate":
+        return { ...step, code: resolve(step.code) };
+      case "set_var":
+        return { ...step, value: resolve(step.value) };
+      case "extract_text":
+      case "extract_count":
+        return { ...step, selector: resolve(step.selector) };
+      case "extract_attribute":
+        return { ...step, selector: resolve(step.selector), attribute: resolve(step.attribute) };
+      case "assert_text":
+        return { ...step, selector: resolve(step.selector), text: resolve(step.text) };
+      case "assert_url_matches":
+        return { ...step, pattern: resolve(step.pattern) };
+      case "assert_element_absent":
+        return { ...step, selector: resolve(step.selector) };
+      case "assert_var_equals":
+        return { ...step, expected: resolve(step.expected) };
+      case "skip_row":
+        return { ...step, reason: step.reason ? resolve(step.reason) : void 0 };
+      case "wait_time":
+      case "screenshot":
+      case "conditional":
+      case "break":
+      case "call_workflow":
+      case "if":
+      case "repeat":
+      case "while":
+        return step;
+      default: {
+        const unknown = step;
+        throw new Error(`Unknown step type: ${String(unknown.type)}`);
+      }
+    }
+  };
+  const executeStep = async (step, row, vars, settings, ctx, builtins = {}) => {
+    const resolved = resolveStep(step, row, vars, builtins);
+    if (settings.dryRun) {
+      ctx.log("info", "Dry run: skipping step execution", { step: resolved });
+      return;
+    }
+    switch (resolved.type) {
+      case "goto":
+        if (!resolved.url) {
+          throw new Error("goto requires a URL");
+        }
+        ctx.navigate(resolved.url);
+        break;
+      case "click":
+        if (!resolved.selector) {
+          throw new Error("click requires a selector");
+        }
+        clickElement(ctx.document, resolved.selector);
+        break;
+      case "type":
+        if (!resolved.selector) {
+          throw new Error("type requires a selector");
+        }
+        typeIntoElement(ctx.document, resolved.selector, resolved.text);
+        break;
+      case "press":
+        if (!resolved.key) {
+          throw new Error("press requires a key");
+        }
+        pressKey(ctx.document, resolved.selector || null, resolved.key);
+        break;
+      case "wait_for_selector":
+        if (!resolved.selector) {
+          throw new Error("wait_for_selector requires a selector");
+        }
+        await waitForSelector(ctx, resolved.selector, step.timeoutMs ?? settings.timeoutMs);
+        break;
+      case "wait_time":
+        await ctx.sleep(resolved.durationMs);
+        break;
+      case "screenshot":
+        ctx.captureScreenshot();
+        break;
+      case "evaluate": {
+        if (!resolved.code) {
+          throw new Error("evaluate requires code");
+        }
+        const fn = new Function("row", "vars", resolved.code);
+        fn(row, vars);
+        break;
+      }
+      case "set_var":
+        if (!resolved.varName) {
+          throw new Error("set_var requires a variable name");
+        }
+        vars[resolved.varName] = resolved.value;
+        break;
+      case "extract_text":
+        vars[resolved.varName] = elementText(extractElement(ctx.document, resolved.selector));
+        break;
+      case "extract_attribute": {
+        const value = extractElement(ctx.document, resolved.selector).getAttribute(
+          resolved.attribute
+        );
+        if (value === null) {
+          throw new Error(`${resolved.selector} has no ${resolved.attribute} attribute`);
+        }
+        vars[resolved.varName] = value;
+        break;
+      }
+      case "extract_count":
+        vars[resolved.varName] = String(countElements(ctx.document, resolved.selector));
+        break;
+      case "assert_text": {
+        const element = findElement(ctx.document, resolved.selector);
+        const actual = element ? elementText(element) : null;
+        if (actual === null || !actual.includes(resolved.text)) {
+          throw new AssertionError(
+            `Expected ${resolved.selector} to contain ${quote(resolved.text)}, found ${quote(actual)}`,
+            {
+              assertion: resolved.type,
+              stepId: step.id,
+              expected: resolved.text,
+              actual,
+              selector: resolved.selector
+            }
+          );
+        }
+        break;
+      }
+      case "assert_url_matches": {
+        const actual = ctx.document.URL;
+        const failure = {
+          assertion: resolved.type,
+          stepId: step.id,
+          expected: resolved.pattern,
+          actual
+        };
+        let pattern;
+        try {
+          pattern = new RegExp(resolved.pattern);
+        } catch (error) {
+          throw new AssertionError(
+            `Invalid URL pattern /${resolved.pattern}/: ${error.message}`,
+            failure
+          );
+        }
+        if (!pattern.test(actual)) {
+          throw new AssertionError(
+            `Expected the URL to match /${resolved.pattern}/, was ${actual}`,
+            failure
+          );
+        }
+        break;
+      }
+      case "assert_element_absent": {
+        const element = findElement(ctx.document, resolved.selector);
+        if (element) {
+          const actual = elementText(element);
+          throw new AssertionError(`Expected no ${resolved.selector}, found ${quote(actual)}`, {
+            assertion: resolved.type,
+            stepId: step.id,
+            expected: "absent",
+            actual,
+            selector: resolved.selector
+          });
+        }
+        break;
+      }
+      case "assert_var_equals": {
+        const actual = vars[resolved.varName] ?? null;
+        if (actual !== resolved.expected) {
+          throw new AssertionError(
+            `Expected ${resolved.varName} to equal ${quote(resolved.expected)}, was ${quote(actual)}`,
+            { assertion: resolved.type, stepId: step.id, expected: resolved.expected, actual }
+          );
+        }
+        break;
+      }
+      case "conditional":
+        if (!evaluateCondition(resolved.expression, row, vars, builtins)) {
+          throw new Error("Conditional failed");
+        }
+        break;
+      case "break":
+      case "skip_row":
+      case "call_workflow":
+      case "if":
+      case "repeat":
+      case "while":
+        throw new Error(`${resolved.type} steps only run as part of a row`);
+      default: {
+        const unknown = resolved;
+        throw new Error(`Unknown step type: ${String(unknown.type)}`);
+      }
+    }
+  };
+  const applyDelay = async (ctx, min, max) => {
+    const delayMs = Math.floor(min + Math.random() * (max - min));
+    if (delayMs > 0) {
+      await ctx.sleep(delayMs);
+    }
+  };
+  const NEXT = { kind: "next" };
+  const createScope = (workflow, row, vars, caller = { prefix: "", callIndex: null }) => ({ workflow, indexes: stepIndexes(workflow.steps), row, vars, ...caller });
+  const times = (count) => `${count} time${count === 1 ? "" : "s"}`;
+  const executeRow = async (workflow, row, vars, settings, ctx, hooks = {}, { workflows = [], rowIndex, runId } = {}) => {
+    const builtins = { rowIndex, runId, now: /* @__PURE__ */ new Date() };
+    let error = null;
+    let failure;
+    const outputs = {};
+    const locate = (scope, step) => {
+      const index = scope.indexes.get(step) ?? -1;
+      return { stepIndex: scope.callIndex ?? index, path: `${scope.prefix}${index + 1}` };
+    };
+    const runLoop = async (scope, step, at, shouldContinue) => {
+      var _a, _b;
+      let iteration = 0;
+      while (shouldContinue(iteration)) {
+        iteration += 1;
+        const flow2 = await runSteps(scope, step.steps);
+        if (flow2.kind === "break" && (!flow2.label || flow2.label === step.label)) {
+          (_a = hooks.onControlFlow) == null ? void 0 : _a.call(hooks, at, step, `${step.type} ended by break after ${times(iteration)}`);
+          return NEXT;
+        }
+        if (flow2.kind !== "next") {
+          return flow2;
+        }
+      }
+      (_b = hooks.onControlFlow) == null ? void 0 : _b.call(hooks, at, step, `${step.type} ran ${times(iteration)}`);
+      return NEXT;
+    };
+    const runCall = async (scope, step, at) => {
+      var _a;
+      const callee = workflows.find((item) => item.id === step.workflowId);
+      if (!callee) {
+        throw new Error(`call_workflow: no workflow with id ${step.workflowId}`);
+      }
+      if (at.path.split(".").length > MAX_CALL_DEPTH) {
+        throw new Error(`call_workflow: calls nested more than ${MAX_CALL_DEPTH} deep`);
+      }
+      const params = Object.fromEntries(
+        Object.entries(step.params).map(([key, value]) => [
+          key,
+          resolveTemplate(value, scope.row, scope.vars, builtins)
+        ])
+      );
+      (_a = hooks.onControlFlow) == null ? void 0 : _a.call(hooks, at, step, `Calling ${callee.name}`);
+      const flow2 = await runSteps(
+        createScope(callee, params, {}, { prefix: `${at.path}.`, callIndex: at.stepIndex }),
+        callee.steps
+      );
+      if (flow2.kind === "break") {
+        throw new Error(`break outside a loop in ${callee.name}`);
+      }
+      return flow2;
+    };
+    const runStep = async (scope, step, at) => {
+      var _a, _b, _c;
+      const { row: row2, vars: vars2 } = scope;
+      switch (step.type) {
+        case "if": {
+          const branch = evaluateCondition(step.condition, row2, vars2, builtins) ? "then" : "else";
+          (_a = hooks.onControlFlow) == null ? void 0 : _a.call(hooks, at, step, `if took the ${branch} branch`);
+          return runSteps(scope, step[branch]);
+        }
+        case "repeat":
+          return runLoop(scope, step, at, (iteration) => iteration < step.times);
+        case "while":
+          return runLoop(scope, step, at, (iteration) => {
+            if (!evaluateCondition(step.condition, row2, vars2, builtins)) {
+              return false;
+            }
+            if (iteration >= step.maxIterations) {
+              throw new Error(`while still true after ${step.maxIterations} iterations`);
+            }
+            return true;
+          });
+        case "break":
+          (_b = hooks.onControlFlow) == null ? void 0 : _b.call(hooks, at, step, step.label ? `break out of ${step.label}` : "break");
+          return { kind: "break", label: step.label };
+        case "skip_row": {
+          const reason = step.reason ? resolveTemplate(step.reason, row2, vars2, builtins) : null;
+          (_c = hooks.onControlFlow) == null ? void 0 : _c.call(hooks, at, step, reason ? `Row skipped: ${reason}` : "Row skipped");
+          return { kind: "skip_row", reason };
+        }
+        case "call_workflow":
+          return runCall(scope, step, at);
+        default:
+          await retryWithBackoff(
+            async () => {
+              var _a2;
+              await executeStep(step, row2, vars2, settings, ctx, builtins);
+              if (isExtractStep(step) && !settings.dryRun) {
+                outputs[step.varName] = vars2[step.varName] ?? "";
+              }
+              (_a2 = hooks.onStepComplete) == null ? void 0 : _a2.call(hooks, at, step);
+            },
+            step.retries ?? 0,
+            step.timeoutMs ?? settings.timeoutMs,
+            ctx
+          );
+          return NEXT;
+      }
+    };
+    const runSteps = async (scope, steps) => {
+      var _a, _b;
+      for (const step of steps) {
+        const at = locate(scope, step);
+        await ((_a = hooks.beforeStep) == null ? void 0 : _a.call(hooks, at));
+        let flow2 = NEXT;
+        try {
+          flow2 = await runStep(scope, step, at);
+        } catch (caught) {
+          error = caught instanceof Error ? caught.message : "Unknown error";
+          failure = caught instanceof AssertionError ? caught.failure : void 0;
+          (_b = hooks.onStepError) == null ? void 0 : _b.call(hooks, at, step, error);
+          if (!settings.bestEffort) {
+            return { kind: "stop" };
+          }
+        }
+        if (flow2.kind !== "next") {
+          return flow2;
+        }
+        if (!isBlockStep(step) && step.type !== "call_workflow") {
+          await applyDelay(ctx, settings.delayMinMs, settings.delayMaxMs);
+        }
+      }
+      return NEXT;
+    };
+    const flow = await runSteps(createScope(workflow, row, vars), workflow.steps);
+    if (flow.kind === "break") {
+      error = flow.label ? `No enclosing loop is labelled "${flow.label}"` : "break outside a loop";
+      failure = void 0;
+    }
+    if (error !== null) {
+      return { status: "failed", error, outputs, ...failure && { failure } };
+    }
+    return flow.kind === "skip_row" ? { status: "skipped", error: flow.reason, outputs } : { status: "success", error: null, outputs };
+  };
+  const text = (value) => typeof value === "string" ? value : void 0;
+  const STEP_TYPES = new Set(WORKFLOW_STEP_TYPES);
+  const isStepInput = (value) => Boolean(value) && typeof value === "object" && typeof value.id === "string" && STEP_TYPES.has(value.type);
+  const stepList = (value) => Array.isArray(value) ? value.map((item) => isStepInput(item) ? migrateStep(item) : item) : [];
+  const migrateStep = (step) => {
+    const { id, type } = step;
+    const base = {
+      id,
+      ...typeof step.timeoutMs === "number" && { timeoutMs: step.timeoutMs },
+      ...typeof step.retries === "number" && { retries: step.retries },
+      ...typeof step.notes === "string" && { notes: step.notes }
+    };
+    const selector = text(step.selector);
+    const value = text(step.value);
+    switch (type) {
+      case "goto":
+        return { ...base, type, url: text(step.url) ?? value ?? "" };
+      case "click":
+        return { ...base, type, selector: selector || value || "" };
+      case "type":
+        return { ...base, type, selector: selector ?? "", text: text(step.text) ?? value ?? "" };
+      case "press":
+        return {
+          ...base,
+          type,
+          key: text(step.key) ?? value ?? "",
+          ...selector && { selector }
+        };
+      case "wait_for_selector":
+        return { ...base, type, selector: selector ?? "" };
+      case "wait_time":
+        return {
+          ...base,
+          type,
+          durationMs: typeof step.durationMs === "number" ? step.durationMs : Math.max(0, Number(value) || 0)
+        };
+      case "screenshot":
+        return { ...base, type };
+      case "evaluate":
+        return { ...base, type, code: text(step.code) ?? value ?? "" };
+      case "set_var":
+        return { ...base, type, varName: text(step.varName) ?? selector ?? "", value: value ?? "" };
+      case "conditional":
+        return { ...base, type, expression: text(step.expression) ?? value ?? "" };
+      case "extract_text":
+      case "extract_count":
+        return { ...base, type, selector: selector ?? "", varName: text(step.varName) ?? "" };
+      case "extract_attribute":
+        return {
+          ...base,
+          type,
+          selector: selector ?? "",
+          attribute: text(step.attribute) ?? "",
+          varName: text(step.varName) ?? ""
+        };
+      case "assert_text":
+        return { ...base, type, selector: selector ?? "", text: text(step.text) ?? "" };
+      case "assert_url_matches":
+        return { ...base, type, pattern: text(step.pattern) ?? "" };
+      case "assert_element_absent":
+        return { ...base, type, selector: selector ?? "" };
+      case "assert_var_equals":
+        return {
+          ...base,
+          type,
+          varName: text(step.varName) ?? "",
+          expected: text(step.expected) ?? value ?? ""
+        };
+      case "break":
+        return { ...base, type, ...text(step.label) && { label: text(step.label) } };
+      case "skip_row":
+        return { ...base, type, ...text(step.reason) && { reason: text(step.reason) } };
+      case "call_workflow": {
+        const params = step.params && typeof step.params === "object" ? step.params : {};
+        return {
+          ...base,
+          type,
+          workflowId: text(step.workflowId) ?? "",
+          params: Object.fromEntries(Object.entries(params).map(([key, item]) => [key, String(item)]))
+        };
+      }
+      case "if":
+        return {
+          ...base,
+          type,
+          condition: text(step.condition) ?? text(step.expression) ?? "",
+          then: stepList(step.then ?? step.steps),
+          else: stepList(step.else)
+        };
+      case "repeat":
+        return {
+          ...base,
+          type,
+          times: typeof step.times === "number" ? step.times : 1,
+          ...text(step.label) && { label: text(step.label) },
+          steps: stepList(step.steps ?? step.then)
+        };
+      case "while":
+        return {
+          ...base,
+          type,
+          condition: text(step.condition) ?? text(step.expression) ?? "",
+          maxIterations: typeof step.maxIterations === "number" ? step.maxIterations : 100,
+          ...text(step.label) && { label: text(step.label) },
+          steps: stepList(step.steps ?? step.then)
+        };
+      default: {
+        const unknown = type;
+        throw new Error(`Unknown step type: ${String(unknown)}`);
+      }
+    }
+  };
+  const migrateWorkflow = (workflow) => ({
+    ...workflow,
+    steps: workflow.steps.map(migrateStep)
+  });
   const STORAGE_KEY = "acp:message";
   const DEBUG_KEY = "acp:debug";
-  const MAX_BACKOFF_MS = 8000;
-  const PROTOCOL_VERSION = "1.1.0";
-  const AGENT_VERSION = "1.1.0";
+  const PAIRING_KEY = "acp:pairing";
+  const RELAY_KEY = "acp:relay";
+  const MAX_RELAY_BACKOFF_MS = 3e4;
+  const AGENT_VERSION = "1.14.0";
+  const CAPABILITIES = {
+    stepTypes: WORKFLOW_STEP_TYPES,
+    artifactTypes: ARTIFACT_TYPES
+  };
+  const ROW_REQUEST_TIMEOUT_MS = 5e3;
+  const ROW_REQUEST_RETRIES = 3;
+  const OUTBOX_SIZE = 200;
+  const SEEN_MESSAGES_SIZE = 500;
   const STARTED_AT = Date.now();
-
-  const createRequestId = () =>
-    `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
-
+  const createRequestId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  const AGENT_ID = createRequestId();
   const consoleBuffer = [];
   const captureConsole = (level, args) => {
-    const entry = `[${new Date().toISOString()}] ${level}: ${args.map(String).join(" ")}`;
+    const entry = `[${(/* @__PURE__ */ new Date()).toISOString()}] ${level}: ${args.map(String).join(" ")}`;
     consoleBuffer.push(entry);
     if (consoleBuffer.length > 50) {
       consoleBuffer.shift();
@@ -37,7 +1208,6 @@
       original(...args);
     };
   });
-
   const log = (level, message, context = {}) => {
     const debugEnabled = JSON.parse(localStorage.getItem(DEBUG_KEY) ?? "false");
     if (level === "debug" && !debugEnabled) {
@@ -46,264 +1216,295 @@
     const prefix = `[ACP ${level.toUpperCase()}]`;
     console[level === "error" ? "error" : "log"](prefix, message, context);
   };
-
+  const executor = createExecutorContext({ log });
   const storageState = {
     status: "idle",
     runId: null,
     currentRowIndex: -1,
-    paused: false,
-    stopped: false,
-    killSwitchEnabled: false,
-    stepSignal: null,
-  };
-
-  const listeners = new Set();
-
-  const broadcast = (message) => {
-    if (window.BroadcastChannel) {
-      const channel = new BroadcastChannel(MESSAGE_CHANNEL);
-      channel.postMessage(message);
-      channel.close();
-    }
-    window.postMessage(message, "*");
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(message));
-    localStorage.removeItem(STORAGE_KEY);
-  };
-
-  const handleIncoming = (message) => {
-    if (!message || typeof message !== "object" || !message.type) {
-      return;
-    }
-    listeners.forEach((listener) => listener(message));
-  };
-
-  if (window.BroadcastChannel) {
-    const channel = new BroadcastChannel(MESSAGE_CHANNEL);
-    channel.onmessage = (event) => handleIncoming(event.data);
-  }
-
-  window.addEventListener("message", (event) => handleIncoming(event.data));
-  window.addEventListener("storage", (event) => {
-    if (event.key === STORAGE_KEY && event.newValue) {
-      try {
-        const payload = JSON.parse(event.newValue);
-        handleIncoming(payload);
-      } catch {
-        // ignore
-      }
-    }
-  });
-
-  const delay = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
-
-  const withTimeout = async (promise, timeoutMs, timeoutMessage) => {
-    if (!timeoutMs) {
-      return promise;
-    }
-    let timeoutId;
-    const timeoutPromise = new Promise((_, reject) => {
-      timeoutId = setTimeout(() => reject(new Error(timeoutMessage)), timeoutMs);
-    });
+    paused: false,
+    stopped: false,
+    killSwitchEnabled: false,
+    stepSignal: null,
+    settings: null
+  };
+  const listeners = /* @__PURE__ */ new Set();
+  let pairing = null;
+  let pendingPairing = null;
+  const loadPairing = async () => {
     try {
-      return await Promise.race([promise, timeoutPromise]);
-    } finally {
-      clearTimeout(timeoutId);
+      const stored = JSON.parse(localStorage.getItem(PAIRING_KEY) ?? "null");
+      pairing = stored ? { pairingId: stored.pairingId, key: await importPairingKey(stored.key) } : null;
+    } catch (error) {
+      pairing = null;
+      log("warn", "Stored pairing could not be loaded", error);
     }
   };
-
-  const retryWithBackoff = async (fn, retries = 0, timeoutMs = 0) => {
-    let attempt = 0;
-    while (true) {
-      try {
-        return await withTimeout(fn(), timeoutMs, "Step timeout exceeded");
-      } catch (error) {
-        if (attempt >= retries) {
-          throw error;
-        }
-        const backoff = Math.min(500 * 2 ** attempt, MAX_BACKOFF_MS);
-        log("warn", `Retrying after ${backoff}ms`, { attempt, error });
-        await delay(backoff);
-        attempt += 1;
-      }
+  const savePairing = async (next) => {
+    const key = await exportPairingKey(next.key);
+    localStorage.setItem(PAIRING_KEY, JSON.stringify({ pairingId: next.pairingId, key }));
+  };
+  let seq = 0;
+  const outbox = /* @__PURE__ */ new Map();
+  let relaySocket = null;
+  const post = (message) => {
+    if (window.BroadcastChannel) {
+      const channel = new BroadcastChannel(MESSAGE_CHANNEL);
+      channel.postMessage(message);
+      channel.close();
+    }
+    window.postMessage(message, window.location.origin);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(message));
+    localStorage.removeItem(STORAGE_KEY);
+    if (relaySocket && relaySocket.readyState === WebSocket.OPEN) {
+      relaySocket.send(JSON.stringify(message));
     }
   };
-
-  const resolveTemplate = (value, row, vars) => {
-    if (!value) {
-      return "";
+  const broadcast = (message) => {
+    const unsigned = UNSIGNED_MESSAGE_TYPES.includes(message.type);
+    if (!unsigned && !pairing) {
+      log("debug", "Not paired with a panel; message dropped", { type: message.type });
+      return;
     }
-    return value.replace(/{{(.*?)}}/g, (_, rawKey) => {
-      const key = rawKey.trim();
-      if (key in vars) {
-        return String(vars[key]);
-      }
-      if (!(key in row)) {
-        throw new Error(`Missing template value for "${key}"`);
-      }
-      return String(row[key]);
-    });
+    seq += 1;
+    const sequenced = { ...message, senderId: AGENT_ID, seq };
+    const ready = unsigned || !pairing ? Promise.resolve(sequenced) : signMessage(pairing.key, pairing.pairingId, sequenced);
+    outbox.set(seq, ready);
+    outbox.delete(seq - OUTBOX_SIZE);
+    ready.then(post).catch((error) => log("error", "Message could not be signed", error));
   };
-
-  const querySelectorWithFallback = (selectors) => {
-    for (const selector of selectors) {
-      const element = document.querySelector(selector);
-      if (element) {
-        return element;
+  const replay = (fromSeq, toSeq) => {
+    for (let index = Math.max(fromSeq, seq - OUTBOX_SIZE + 1); index <= toSeq; index += 1) {
+      const message = outbox.get(index);
+      if (message) {
+        message.then(post).catch(() => {
+        });
       }
     }
-    return null;
-  };
-
-  const selectByText = (text) => {
-    const elements = Array.from(document.querySelectorAll("button, [role='button'], a"));
-    return elements.find((element) => element.textContent?.trim().includes(text)) ?? null;
   };
-
-  const fbFallbacks = {
-    "fb:composer": [
-      "[role='textbox'][contenteditable='true']",
-      "div[aria-label*='on your mind']",
-      "div[aria-label*='Write something']",
-      "div[role='combobox'] div[contenteditable='true']",
-      "textarea[name='xhpc_message']",
-    ],
-    "fb:post-button": [
-      "[aria-label*='Post']",
-      "div[role='button'][aria-label*='Post']",
-    ],
+  const reject = (reason, message, origin = null) => {
+    log("warn", `Rejected message: ${reason}`, {
+      type: message.type,
+      senderId: message.senderId,
+      origin
+    });
   };
-
-  const findElement = (selector) => {
-    if (!selector) {
-      return null;
+  const verifyIncoming = async (message, origin) => {
+    if (UNSIGNED_MESSAGE_TYPES.includes(message.type)) {
+      return true;
     }
-    if (selector in fbFallbacks) {
-      return querySelectorWithFallback(fbFallbacks[selector]);
+    if (!message.signature) {
+      reject("unsigned", message, origin);
+      return false;
     }
-    if (selector.startsWith("text=")) {
-      return selectByText(selector.replace("text=", ""));
+    const candidate = [pairing, pendingPairing].find(
+      (item) => item && item.pairingId === message.pairingId
+    );
+    if (!candidate) {
+      return false;
     }
-    const selectorList = selector.split("|").map((item) => item.trim());
-    return querySelectorWithFallback(selectorList);
-  };
-
-  const clickElement = (selector) => {
-    const element = findElement(selector) || selectByText(selector);
-    if (!element) {
-      throw new Error(`Unable to find element for selector: ${selector}`);
+    if (!await verifyMessage(candidate.key, message)) {
+      reject("bad signature", message, origin);
+      return false;
     }
-    element.scrollIntoView({ behavior: "smooth", block: "center" });
-    element.click();
+    return candidate === pairing || message.type === "CONTROL_PAIR_CONFIRM";
   };
-
-  const typeIntoElement = (selector, value) => {
-    const element = findElement(selector);
-    if (!element) {
-      throw new Error(`Unable to find input for selector: ${selector}`);
+  const seenMessages = /* @__PURE__ */ new Set();
+  const handleIncoming = async (input, origin = null) => {
+    if (!input || typeof input !== "object" || !("type" in input)) {
+      return;
     }
-    element.focus();
-    element.value = value;
-    element.dispatchEvent(new Event("input", { bubbles: true }));
-  };
-
-  const pressKey = (selector, key) => {
-    const element = selector ? findElement(selector) : document.activeElement;
-    if (!element) {
-      throw new Error("No active element to send keypress");
+    const message = input;
+    if (message.senderId === AGENT_ID) {
+      return;
     }
-    element.dispatchEvent(new KeyboardEvent("keydown", { key, bubbles: true }));
-    element.dispatchEvent(new KeyboardEvent("keyup", { key, bubbles: true }));
+    if (origin !== null && origin !== window.location.origin) {
+      reject("another origin", message, origin);
+      return;
+    }
+    if (!await verifyIncoming(message, origin)) {
+      return;
+    }
+    const key = `${message.senderId}:${message.seq}`;
+    if (seenMessages.has(key)) {
+      return;
+    }
+    seenMessages.add(key);
+    const oldest = seenMessages.values().next().value;
+    if (seenMessages.size > SEEN_MESSAGES_SIZE && oldest !== void 0) {
+      seenMessages.delete(oldest);
+    }
+    listeners.forEach((listener) => listener(message));
   };
-
-  const waitForSelector = async (selector, timeoutMs = 10000) => {
-    const start = Date.now();
-    while (Date.now() - start < timeoutMs) {
-      if (findElement(selector)) {
-        return;
+  if (window.BroadcastChannel) {
+    const channel = new BroadcastChannel(MESSAGE_CHANNEL);
+    channel.onmessage = (event) => void handleIncoming(event.data);
+  }
+  window.addEventListener("message", (event) => void handleIncoming(event.data, event.origin));
+  window.addEventListener("storage", (event) => {
+    if (event.key === PAIRING_KEY) {
+      void loadPairing();
+      return;
+    }
+    if (event.key === STORAGE_KEY && event.newValue) {
+      try {
+        void handleIncoming(JSON.parse(event.newValue));
+      } catch {
       }
-      await delay(250);
     }
-    throw new Error(`Timeout waiting for selector: ${selector}`);
-  };
-
-  const captureHtmlSnapshot = () => document.documentElement.outerHTML;
-
-  const captureScreenshot = () => {
-    const { width, height } = document.documentElement.getBoundingClientRect();
-    const svg = `
-      <svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
-        <foreignObject width="100%" height="100%">
-          ${new XMLSerializer().serializeToString(document.documentElement)}
-        </foreignObject>
-      </svg>
-    `;
-    const blob = new Blob([svg], { type: "image/svg+xml;charset=utf-8" });
-    return URL.createObjectURL(blob);
-  };
-
-  const applyDelay = async (min, max) => {
-    const delayMs = Math.floor(min + Math.random() * (max - min));
-    if (delayMs > 0) {
-      await delay(delayMs);
+  });
+  const connectRelay = (backoffMs = 1e3) => {
+    const url = localStorage.getItem(RELAY_KEY);
+    if (!url) {
+      return;
     }
+    const socket = new WebSocket(url);
+    relaySocket = socket;
+    socket.onopen = () => {
+      log("info", "Connected to relay", { url });
+      backoffMs = 1e3;
+      sendHello(createRequestId());
+    };
+    socket.onmessage = (event) => {
+      try {
+        void handleIncoming(JSON.parse(event.data));
+      } catch {
+      }
+    };
+    socket.onclose = () => {
+      if (relaySocket !== socket) {
+        return;
+      }
+      relaySocket = null;
+      setTimeout(() => connectRelay(Math.min(backoffMs * 2, MAX_RELAY_BACKOFF_MS)), backoffMs);
+    };
   };
-
   const sendStatus = (runId, status, state, message) => {
     broadcast({
       type: "AGENT_STATUS",
       payload: {
+        agentId: AGENT_ID,
         runId,
         status,
         currentRowIndex: state.currentRowIndex,
         message,
-        successCount: state.successCount,
-        failureCount: state.failureCount,
-      },
+        // storageState (used when a start is refused) has no counts; the panel requires numbers.
+        successCount: state.successCount ?? 0,
+        failureCount: state.failureCount ?? 0
+      }
     });
   };
-
   const sendAck = (requestId, commandType, ok, error = "") => {
     broadcast({
       type: "AGENT_ACK",
       payload: {
         requestId,
+        agentId: AGENT_ID,
         commandType,
         ok,
-        error,
-      },
+        error
+      }
     });
   };
-
-  const sendLog = (runId, rowIndex, stepIndex, level, message) => {
+  const sendLog = (runId, rowIndex, stepIndex, level, message, stepPath) => {
     broadcast({
       type: "AGENT_LOG",
       payload: {
+        agentId: AGENT_ID,
         runId,
         rowIndex,
         stepIndex,
+        stepPath,
         level,
         message,
-        timestamp: new Date().toISOString(),
-      },
+        timestamp: (/* @__PURE__ */ new Date()).toISOString()
+      }
     });
   };
-
-  const sendRowResult = (runId, rowIndex, status, error, artifacts) => {
+  const sendRowResult = (runId, rowIndex, status, error, durationMs, outputs, failure) => {
     broadcast({
       type: "AGENT_ROW_RESULT",
       payload: {
+        agentId: AGENT_ID,
         runId,
         rowIndex,
         status,
         error,
-        artifacts,
-        durationMs: artifacts?.durationMs ?? undefined,
-      },
+        artifacts: {
+          screenshot: captureScreenshot(document),
+          htmlSnapshot: captureHtmlSnapshot(document),
+          consoleLogs: consoleBuffer.slice(-50)
+        },
+        durationMs,
+        outputs,
+        ...failure && { failure }
+      }
     });
   };
-
+  const rowCache = /* @__PURE__ */ new Map();
+  const rowWaiters = /* @__PURE__ */ new Map();
+  const cacheRows = (offset, rows) => {
+    rows.forEach((row, index) => rowCache.set(offset + index, row));
+  };
+  const requestRows = async (runId, offset) => {
+    const key = `${runId}:${offset}`;
+    for (let attempt = 0; attempt < ROW_REQUEST_RETRIES; attempt += 1) {
+      const received = new Promise((resolve) => rowWaiters.set(key, resolve));
+      broadcast({
+        type: "AGENT_REQUEST_ROWS",
+        payload: {
+          requestId: createRequestId(),
+          agentId: AGENT_ID,
+          runId,
+          offset,
+          limit: RUN_ROW_PAGE_SIZE
+        }
+      });
+      const rows = await Promise.race([
+        received,
+        delay(ROW_REQUEST_TIMEOUT_MS).then(() => null)
+      ]);
+      rowWaiters.delete(key);
+      if (rows) {
+        return rows;
+      }
+      log("warn", "Row page request timed out", { runId, offset, attempt });
+    }
+    throw new Error(`Rows from ${offset} were not received from the control panel`);
+  };
+  const getRow = async (runId, rowIndex) => {
+    if (!rowCache.has(rowIndex)) {
+      Array.from(rowCache.keys()).forEach((index) => {
+        if (index < rowIndex) {
+          rowCache.delete(index);
+        }
+      });
+      cacheRows(rowIndex, await requestRows(runId, rowIndex));
+    }
+    const row = rowCache.get(rowIndex);
+    if (!row) {
+      throw new Error(`Row ${rowIndex} was not received from the control panel`);
+    }
+    return row;
+  };
+  const waitForStepSignal = (runId, rowIndex) => new Promise((resolve) => {
+    const interval = setInterval(() => {
+      if (storageState.stepSignal && storageState.stepSignal.runId === runId && storageState.stepSignal.rowIndex === rowIndex) {
+        storageState.stepSignal = null;
+        clearInterval(interval);
+        resolve();
+      }
+    }, 200);
+  });
   const runWorkflow = async (payload) => {
-    const { runId, workflow, rows, settings, resumeFrom } = payload;
+    const { runId, rows, resumeFrom, totalRows } = payload;
+    const workflow = migrateWorkflow(payload.workflow);
+    const workflows = payload.workflows ?? [];
+    const settings = { ...payload.settings };
+    const skipRows = new Set(payload.skipRowIndexes);
+    const rowIndexes = payload.rowIndexes ? payload.rowIndexes.filter((index) => index >= resumeFrom && index < totalRows) : null;
+    const rowCount = rowIndexes ? rowIndexes.length : totalRows - resumeFrom;
+    rowCache.clear();
+    cacheRows(resumeFrom, rows);
     if (storageState.killSwitchEnabled) {
       sendStatus(runId, "stopped", storageState, "Kill switch enabled");
       sendLog(runId, 0, 0, "error", "Run blocked by kill switch");
@@ -311,21 +1512,22 @@
     }
     storageState.status = "running";
     storageState.runId = runId;
+    storageState.settings = settings;
     storageState.currentRowIndex = resumeFrom;
     storageState.paused = false;
     storageState.stopped = false;
-
     const state = {
       currentRowIndex: resumeFrom,
-      successCount: 0,
-      failureCount: 0,
+      successCount: payload.successCount,
+      failureCount: payload.failureCount
     };
-
     sendStatus(runId, "running", state, "Run started");
-
     const vars = {};
-
-    for (let rowIndex = resumeFrom; rowIndex < rows.length; rowIndex += 1) {
+    for (let position = 0; position < rowCount; position += 1) {
+      const rowIndex = rowIndexes ? rowIndexes[position] ?? 0 : resumeFrom + position;
+      if (skipRows.has(rowIndex)) {
+        continue;
+      }
       if (storageState.killSwitchEnabled) {
         storageState.stopped = true;
       }
@@ -344,210 +1546,176 @@
       }
       state.currentRowIndex = rowIndex;
       sendStatus(runId, "running", state, "Processing row");
-      const row = rows[rowIndex];
-      let rowFailed = false;
-      let rowErrorMessage = "";
+      const row = await getRow(runId, rowIndex);
       const rowStartedAt = Date.now();
-      for (let stepIndex = 0; stepIndex < workflow.steps.length; stepIndex += 1) {
-        if (settings.stepThrough) {
-          await waitForStepSignal(runId, rowIndex, stepIndex);
-        }
-        const step = workflow.steps[stepIndex];
-        const retries = step.retries ?? 0;
-        const timeoutMs = step.timeoutMs ?? settings.timeoutMs;
-        try {
-          await retryWithBackoff(
-            async () => {
-              await executeStep(step, row, vars, settings);
-              sendLog(runId, rowIndex, stepIndex, "info", `Step ${step.type} completed`);
-            },
-            retries,
-            timeoutMs,
-          );
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : "Unknown error";
-          rowErrorMessage = errorMessage;
-          sendLog(runId, rowIndex, stepIndex, "error", errorMessage);
-          rowFailed = true;
-          if (!settings.bestEffort) {
-            break;
-          }
-        }
-        await applyDelay(settings.delayMinMs, settings.delayMaxMs);
-      }
-      if (rowFailed) {
+      const outcome = await executeRow(
+        workflow,
+        row,
+        vars,
+        settings,
+        executor,
+        {
+          beforeStep: () => settings.stepThrough ? waitForStepSignal(runId, rowIndex) : Promise.resolve(),
+          onStepComplete: (at, step) => sendLog(runId, rowIndex, at.stepIndex, "info", `Step ${step.type} completed`, at.path),
+          onStepError: (at, _step, message) => sendLog(runId, rowIndex, at.stepIndex, "error", message, at.path),
+          onControlFlow: (at, _step, message) => sendLog(runId, rowIndex, at.stepIndex, "info", message, at.path)
+        },
+        { workflows, rowIndex, runId }
+      );
+      if (outcome.status === "skipped") {
+        sendRowResult(
+          runId,
+          rowIndex,
+          "skipped",
+          outcome.error,
+          Date.now() - rowStartedAt,
+          outcome.outputs
+        );
+      } else if (outcome.status === "failed") {
         state.failureCount += 1;
-        const artifacts = {
-          screenshot: captureScreenshot(),
-          htmlSnapshot: captureHtmlSnapshot(),
-          consoleLogs: consoleBuffer.slice(-50),
-          durationMs: Date.now() - rowStartedAt,
-        };
-        sendRowResult(runId, rowIndex, "failed", rowErrorMessage || "Row failed during execution", artifacts);
+        sendRowResult(
+          runId,
+          rowIndex,
+          "failed",
+          outcome.error || "Row failed during execution",
+          Date.now() - rowStartedAt,
+          outcome.outputs,
+          outcome.failure
+        );
         if (!settings.bestEffort) {
           sendStatus(runId, "error", state, "Row failed");
           return;
         }
       } else {
         state.successCount += 1;
-        sendRowResult(runId, rowIndex, "success", null, {
-          screenshot: captureScreenshot(),
-          htmlSnapshot: captureHtmlSnapshot(),
-          consoleLogs: consoleBuffer.slice(-50),
-          durationMs: Date.now() - rowStartedAt,
-        });
+        sendRowResult(
+          runId,
+          rowIndex,
+          "success",
+          null,
+          Date.now() - rowStartedAt,
+          outcome.outputs
+        );
       }
     }
-
     storageState.status = "complete";
     storageState.runId = null;
     sendStatus(runId, "complete", state, "Run complete");
   };
-
-  const executeStep = async (step, row, vars, settings) => {
-    const resolvedSelector = step.selector ? resolveTemplate(step.selector, row, vars) : null;
-    const resolvedValue = step.value ? resolveTemplate(step.value, row, vars) : null;
-    if (settings.dryRun) {
-      log("info", "Dry run: skipping step execution", {
-        stepType: step.type,
-        resolvedSelector,
-        resolvedValue,
-      });
+  const sendHello = (requestId) => {
+    broadcast({
+      type: "AGENT_HELLO",
+      payload: {
+        requestId,
+        agentId: AGENT_ID,
+        agentVersion: AGENT_VERSION,
+        protocolVersion: PROTOCOL_VERSION,
+        supportedProtocolVersions: SUPPORTED_PROTOCOL_VERSIONS,
+        capabilities: CAPABILITIES,
+        tabUrl: window.location.href,
+        site: window.location.hostname,
+        runId: storageState.runId
+      }
+    });
+  };
+  const pairWithPanel = async ({ requestId, publicKey }) => {
+    const code = window.prompt(
+      "Agent Control Panel wants to pair with this tab. Enter the code it shows:"
+    );
+    if (!code) {
       return;
     }
-    switch (step.type) {
-      case "goto":
-        if (!resolvedValue) {
-          throw new Error("goto requires a value");
-        }
-        window.location.href = resolvedValue;
-        break;
-      case "click":
-        if (!resolvedSelector && !resolvedValue) {
-          throw new Error("click requires selector or value");
-        }
-        clickElement(resolvedSelector ?? resolvedValue);
-        break;
-      case "type":
-        if (!resolvedSelector) {
-          throw new Error("type requires selector");
-        }
-        typeIntoElement(resolvedSelector, resolvedValue ?? "");
-        break;
-      case "press":
-        if (!resolvedValue) {
-          throw new Error("press requires a key value");
-        }
-        pressKey(resolvedSelector, resolvedValue);
-        break;
-      case "wait_for_selector":
-        if (!resolvedSelector) {
-          throw new Error("wait_for_selector requires selector");
-        }
-        await waitForSelector(resolvedSelector, step.timeoutMs ?? settings.timeoutMs);
-        break;
-      case "wait_time":
-        await delay(Number(resolvedValue ?? step.value ?? 0));
-        break;
-      case "screenshot":
-        captureScreenshot();
-        break;
-      case "evaluate": {
-        if (!resolvedValue) {
-          throw new Error("evaluate requires code");
-        }
-        const fn = new Function("row", "vars", resolvedValue);
-        fn(row, vars);
-        break;
-      }
-      case "set_var":
-        if (!resolvedValue || !step.selector) {
-          throw new Error("set_var requires selector as key and value");
-        }
-        vars[step.selector] = resolvedValue;
-        break;
-      case "conditional": {
-        if (!resolvedValue) {
-          throw new Error("conditional requires value");
-        }
-        if (!resolvedValue || resolvedValue === "false") {
-          throw new Error("Conditional failed");
-        }
-        break;
+    const keys = await generatePairingKeys();
+    const key = await derivePairingKey(keys, publicKey, code);
+    pendingPairing = { pairingId: createRequestId(), key };
+    broadcast({
+      type: "AGENT_PAIR_RESPONSE",
+      payload: {
+        requestId,
+        agentId: AGENT_ID,
+        pairingId: pendingPairing.pairingId,
+        publicKey: await exportPublicKey(keys),
+        proof: await createPairingProof(key, requestId),
+        site: window.location.hostname
       }
-      default:
-        throw new Error(`Unknown step type: ${step.type}`);
-    }
-  };
-
-  const waitForStepSignal = (runId, rowIndex, stepIndex) =>
-    new Promise((resolve) => {
-      const interval = setInterval(() => {
-        if (
-          storageState.stepSignal &&
-          storageState.stepSignal.runId === runId &&
-          storageState.stepSignal.rowIndex === rowIndex &&
-          storageState.stepSignal.stepIndex === stepIndex
-        ) {
-          storageState.stepSignal = null;
-          clearInterval(interval);
-          resolve();
-        }
-      }, 200);
     });
-
+  };
+  const isOtherRun = (runId) => storageState.runId !== runId;
   const handleMessage = (message) => {
+    const targetAgentId = "targetAgentId" in message.payload ? message.payload.targetAgentId : null;
+    if (targetAgentId && targetAgentId !== AGENT_ID) {
+      return;
+    }
     switch (message.type) {
-      case "CONTROL_HELLO":
+      case "CONTROL_HELLO": {
+        const panelVersions = message.payload.supportedProtocolVersions ?? [
+          message.payload.protocolVersion
+        ];
+        if (!panelVersions.some((version) => SUPPORTED_PROTOCOL_VERSIONS.includes(version))) {
+          log("warn", "Control panel speaks an incompatible protocol; update the panel", {
+            panelVersions,
+            supported: SUPPORTED_PROTOCOL_VERSIONS
+          });
+        }
         sendAck(message.payload.requestId, message.type, true);
-        broadcast({
-          type: "AGENT_HELLO",
-          payload: {
-            requestId: message.payload.requestId,
-            agentVersion: AGENT_VERSION,
-            protocolVersion: PROTOCOL_VERSION,
-            tabUrl: window.location.href,
-            site: window.location.hostname,
-          },
-        });
+        sendHello(message.payload.requestId);
         break;
+      }
       case "CONTROL_PING":
         broadcast({
           type: "AGENT_PONG",
           payload: {
             requestId: message.payload.requestId,
+            agentId: AGENT_ID,
             tabUrl: window.location.href,
             site: window.location.hostname,
             uptimeMs: Date.now() - STARTED_AT,
-          },
+            runId: storageState.runId
+          }
         });
         break;
-      case "CONTROL_START_RUN":
+      case "CONTROL_START_RUN": {
+        const { payload } = message;
         if (storageState.killSwitchEnabled) {
-          sendStatus(message.payload.runId, "stopped", storageState, "Kill switch enabled");
-          sendLog(message.payload.runId, 0, 0, "error", "Run blocked by kill switch");
-          sendAck(message.payload.requestId, message.type, false, "Kill switch enabled");
+          sendStatus(payload.runId, "stopped", storageState, "Kill switch enabled");
+          sendLog(payload.runId, 0, 0, "error", "Run blocked by kill switch");
+          sendAck(payload.requestId, message.type, false, "Kill switch enabled");
           return;
         }
         if (storageState.status === "running") {
-          sendAck(message.payload.requestId, message.type, false, "Run already in progress");
+          sendAck(payload.requestId, message.type, false, "Run already in progress");
           return;
         }
-        sendAck(message.payload.requestId, message.type, true);
-        runWorkflow(message.payload).catch((error) => {
+        sendAck(payload.requestId, message.type, true);
+        runWorkflow(payload).catch((error) => {
           log("error", "Run failed", error);
-          sendStatus(message.payload.runId, "error", storageState, "Run error");
+          sendStatus(payload.runId, "error", storageState, "Run error");
+        }).finally(() => {
+          if (storageState.status === "running") {
+            storageState.status = "idle";
+            storageState.runId = null;
+          }
         });
         break;
+      }
       case "CONTROL_PAUSE_RUN":
+        if (isOtherRun(message.payload.runId)) {
+          return;
+        }
         storageState.paused = true;
         sendAck(message.payload.requestId, message.type, true);
         break;
       case "CONTROL_RESUME_RUN":
+        if (isOtherRun(message.payload.runId)) {
+          return;
+        }
         storageState.paused = false;
         sendAck(message.payload.requestId, message.type, true);
         break;
       case "CONTROL_STOP_RUN":
+        if (isOtherRun(message.payload.runId)) {
+          return;
+        }
         storageState.stopped = true;
         sendAck(message.payload.requestId, message.type, true);
         break;
@@ -559,31 +1727,53 @@
         }
         sendAck(message.payload.requestId, message.type, true);
         break;
+      case "CONTROL_UPDATE_SETTINGS":
+        if (isOtherRun(message.payload.runId) || !storageState.settings) {
+          return;
+        }
+        Object.assign(storageState.settings, message.payload.settings);
+        log("info", "Run settings updated", message.payload.settings);
+        sendAck(message.payload.requestId, message.type, true);
+        break;
+      case "CONTROL_PAIR_REQUEST":
+        pairWithPanel(message.payload).catch((error) => log("error", "Pairing failed", error));
+        break;
+      case "CONTROL_PAIR_CONFIRM":
+        if (!pendingPairing || pendingPairing.pairingId !== message.payload.pairingId) {
+          return;
+        }
+        pairing = pendingPairing;
+        pendingPairing = null;
+        void savePairing(pairing);
+        log("info", "Paired with the control panel", { pairingId: pairing.pairingId });
+        break;
+      case "CONTROL_REPLAY":
+        replay(message.payload.fromSeq, message.payload.toSeq);
+        break;
+      case "CONTROL_ROWS": {
+        const resolve = rowWaiters.get(`${message.payload.runId}:${message.payload.offset}`);
+        if (resolve) {
+          resolve(message.payload.rows);
+        }
+        break;
+      }
       case "CONTROL_STEP_NEXT":
+        if (isOtherRun(message.payload.runId)) {
+          return;
+        }
         storageState.stepSignal = {
           runId: message.payload.runId,
           rowIndex: message.payload.rowIndex,
-          stepIndex: message.payload.stepIndex,
+          stepIndex: message.payload.stepIndex
         };
         sendAck(message.payload.requestId, message.type, true);
         break;
-      default:
-        break;
     }
   };
-
   listeners.add((message) => handleMessage(message));
-
-  broadcast({
-    type: "AGENT_HELLO",
-    payload: {
-      requestId: createRequestId(),
-      agentVersion: AGENT_VERSION,
-      protocolVersion: PROTOCOL_VERSION,
-      tabUrl: window.location.href,
-      site: window.location.hostname,
-    },
+  void loadPairing().finally(() => {
+    sendHello(createRequestId());
+    connectRelay();
   });
-
   log("info", "ACP userscript initialized");
 })();
@@ -0,0 +1,756 @@
+// Source of userscript/agent.user.js; build it with `npm run build:userscript`.
+import type {
+  ACPMessage,
+  AgentCapabilities,
+  AssertionFailure,
+  ControlPairRequestMessage,
+  ControlStartRunMessage,
+  CsvRow,
+  RunSettings,
+  SequencedMessage,
+} from "@shared/schema";
+import { MESSAGE_CHANNEL } from "@shared/constants";
+import {
+  ARTIFACT_TYPES,
+  PROTOCOL_VERSION,
+  RUN_ROW_PAGE_SIZE,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  WORKFLOW_STEP_TYPES,
+} from "@shared/protocol";
+import {
+  UNSIGNED_MESSAGE_TYPES,
+  createPairingProof,
+  derivePairingKey,
+  exportPairingKey,
+  exportPublicKey,
+  generatePairingKeys,
+  importPairingKey,
+  signMessage,
+  verifyMessage,
+} from "@shared/pairing";
+import {
+  type StepVars,
+  captureHtmlSnapshot,
+  captureScreenshot,
+  createExecutorContext,
+  delay,
+  executeRow,
+} from "@shared/executor";
+import { migrateWorkflow } from "@shared/stepMigration";
+
+const STORAGE_KEY = "acp:message";
+const DEBUG_KEY = "acp:debug";
+const PAIRING_KEY = "acp:pairing";
+// Optional ws:// URL of the local relay (npm run relay), for panels outside this browser.
+const RELAY_KEY = "acp:relay";
+const MAX_RELAY_BACKOFF_MS = 30000;
+const AGENT_VERSION = __AGENT_VERSION__;
+// Reported in AGENT_HELLO; the executor handles every step type the protocol defines.
+const CAPABILITIES: AgentCapabilities = {
+  stepTypes: WORKFLOW_STEP_TYPES,
+  artifactTypes: ARTIFACT_TYPES,
+};
+const ROW_REQUEST_TIMEOUT_MS = 5000;
+const ROW_REQUEST_RETRIES = 3;
+// Row results carry page snapshots, so the replay outbox stays small.
+const OUTBOX_SIZE = 200;
+const SEEN_MESSAGES_SIZE = 500;
+const STARTED_AT = Date.now();
+
+type LogLevel = "debug" | "info" | "warn" | "error";
+type Pairing = { pairingId: string; key: CryptoKey };
+type RunStatus = "idle" | "running" | "paused" | "stopped" | "error" | "complete";
+type RunCounts = { currentRowIndex: number; successCount?: number; failureCount?: number };
+
+const createRequestId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Every page load registers as a new agent; the panel reassigns rows left by the old one.
+const AGENT_ID = createRequestId();
+
+const consoleBuffer: string[] = [];
+const captureConsole = (level: string, args: unknown[]) => {
+  const entry = `[${new Date().toISOString()}] ${level}: ${args.map(String).join(" ")}`;
+  consoleBuffer.push(entry);
+  if (consoleBuffer.length > 50) {
+    consoleBuffer.shift();
+  }
+};
+(["log", "warn", "error"] as const).forEach((method) => {
+  const original = console[method].bind(console);
+  console[method] = (...args: unknown[]) => {
+    captureConsole(method, args);
+    original(...args);
+  };
+});
+
+const log = (level: LogLevel, message: string, context: unknown = {}) => {
+  const debugEnabled = JSON.parse(localStorage.getItem(DEBUG_KEY) ?? "false");
+  if (level === "debug" && !debugEnabled) {
+    return;
+  }
+  const prefix = `[ACP ${level.toUpperCase()}]`;
+  console[level === "error" ? "error" : "log"](prefix, message, context);
+};
+
+const executor = createExecutorContext({ log });
+
+const storageState: {
+  status: RunStatus;
+  runId: string | null;
+  currentRowIndex: number;
+  paused: boolean;
+  stopped: boolean;
+  killSwitchEnabled: boolean;
+  stepSignal: { runId: string; rowIndex: number; stepIndex: number } | null;
+  settings: RunSettings | null;
+} = {
+  status: "idle",
+  runId: null,
+  currentRowIndex: -1,
+  paused: false,
+  stopped: false,
+  killSwitchEnabled: false,
+  stepSignal: null,
+  settings: null,
+};
+
+const listeners = new Set<(message: SequencedMessage) => void>();
+
+// Shared by every tab on this site; a pending pairing only accepts the panel's confirmation.
+let pairing: Pairing | null = null;
+let pendingPairing: Pairing | null = null;
+
+const loadPairing = async () => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PAIRING_KEY) ?? "null");
+    pairing = stored
+      ? { pairingId: stored.pairingId, key: await importPairingKey(stored.key) }
+      : null;
+  } catch (error) {
+    pairing = null;
+    log("warn", "Stored pairing could not be loaded", error);
+  }
+};
+
+const savePairing = async (next: Pairing) => {
+  const key = await exportPairingKey(next.key);
+  localStorage.setItem(PAIRING_KEY, JSON.stringify({ pairingId: next.pairingId, key }));
+};
+
+// Sent messages are kept by sequence number so the panel can ask for the ones it missed.
+let seq = 0;
+const outbox = new Map<number, Promise<SequencedMessage>>();
+let relaySocket: WebSocket | null = null;
+
+const post = (message: SequencedMessage) => {
+  if (window.BroadcastChannel) {
+    const channel = new BroadcastChannel(MESSAGE_CHANNEL);
+    channel.postMessage(message);
+    channel.close();
+  }
+  window.postMessage(message, window.location.origin);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(message));
+  localStorage.removeItem(STORAGE_KEY);
+  if (relaySocket && relaySocket.readyState === WebSocket.OPEN) {
+    relaySocket.send(JSON.stringify(message));
+  }
+};
+
+// Signing is async, so the outbox holds promises; the sequence number is taken up front.
+const broadcast = (message: ACPMessage) => {
+  const unsigned = UNSIGNED_MESSAGE_TYPES.includes(message.type);
+  if (!unsigned && !pairing) {
+    log("debug", "Not paired with a panel; message dropped", { type: message.type });
+    return;
+  }
+  seq += 1;
+  const sequenced: SequencedMessage = { ...message, senderId: AGENT_ID, seq };
+  const ready =
+    unsigned || !pairing
+      ? Promise.resolve(sequenced)
+      : signMessage(pairing.key, pairing.pairingId, sequenced);
+  outbox.set(seq, ready);
+  outbox.delete(seq - OUTBOX_SIZE);
+  ready.then(post).catch((error) => log("error", "Message could not be signed", error));
+};
+
+const replay = (fromSeq: number, toSeq: number) => {
+  for (let index = Math.max(fromSeq, seq - OUTBOX_SIZE + 1); index <= toSeq; index += 1) {
+    const message = outbox.get(index);
+    if (message) {
+      message.then(post).catch(() => {});
+    }
+  }
+};
+
+const reject = (reason: string, message: SequencedMessage, origin: string | null = null) => {
+  log("warn", `Rejected message: ${reason}`, {
+    type: message.type,
+    senderId: message.senderId,
+    origin,
+  });
+};
+
+// Copies signed for another pairing are meant for other agents and are skipped quietly.
+const verifyIncoming = async (message: SequencedMessage, origin: string | null) => {
+  if (UNSIGNED_MESSAGE_TYPES.includes(message.type)) {
+    return true;
+  }
+  if (!message.signature) {
+    reject("unsigned", message, origin);
+    return false;
+  }
+  const candidate = [pairing, pendingPairing].find(
+    (item) => item && item.pairingId === message.pairingId,
+  );
+  if (!candidate) {
+    return false;
+  }
+  if (!(await verifyMessage(candidate.key, message))) {
+    reject("bad signature", message, origin);
+    return false;
+  }
+  return candidate === pairing || message.type === "CONTROL_PAIR_CONFIRM";
+};
+
+// Each message arrives once per channel; only the first copy is handled.
+const seenMessages = new Set<string>();
+
+const handleIncoming = async (input: unknown, origin: string | null = null) => {
+  if (!input || typeof input !== "object" || !("type" in input)) {
+    return;
+  }
+  const message = input as SequencedMessage;
+  if (message.senderId === AGENT_ID) {
+    return;
+  }
+  // BroadcastChannel and storage events are same-origin by design; window messages are not.
+  if (origin !== null && origin !== window.location.origin) {
+    reject("another origin", message, origin);
+    return;
+  }
+  if (!(await verifyIncoming(message, origin))) {
+    return;
+  }
+  const key = `${message.senderId}:${message.seq}`;
+  if (seenMessages.has(key)) {
+    return;
+  }
+  seenMessages.add(key);
+  const oldest = seenMessages.values().next().value;
+  if (seenMessages.size > SEEN_MESSAGES_SIZE && oldest !== undefined) {
+    seenMessages.delete(oldest);
+  }
+  listeners.forEach((listener) => listener(message));
+};
+
+if (window.BroadcastChannel) {
+  const channel = new BroadcastChannel(MESSAGE_CHANNEL);
+  channel.onmessage = (event) => void handleIncoming(event.data);
+}
+
+window.addEventListener("message", (event) => void handleIncoming(event.data, event.origin));
+window.addEventListener("storage", (event) => {
+  if (event.key === PAIRING_KEY) {
+    void loadPairing();
+    return;
+  }
+  if (event.key === STORAGE_KEY && event.newValue) {
+    try {
+      void handleIncoming(JSON.parse(event.newValue));
+    } catch {
+      // ignore
+    }
+  }
+});
+
+// The relay carries no origin; messages from it are trusted only through their signatures.
+const connectRelay = (backoffMs = 1000) => {
+  const url = localStorage.getItem(RELAY_KEY);
+  if (!url) {
+    return;
+  }
+  const socket = new WebSocket(url);
+  relaySocket = socket;
+  socket.onopen = () => {
+    log("info", "Connected to relay", { url });
+    backoffMs = 1000;
+    sendHello(createRequestId());
+  };
+  socket.onmessage = (event) => {
+    try {
+      void handleIncoming(JSON.parse(event.data));
+    } catch {
+      // ignore
+    }
+  };
+  socket.onclose = () => {
+    if (relaySocket !== socket) {
+      return;
+    }
+    relaySocket = null;
+    setTimeout(() => connectRelay(Math.min(backoffMs * 2, MAX_RELAY_BACKOFF_MS)), backoffMs);
+  };
+};
+
+const sendStatus = (runId: string, status: RunStatus, state: RunCounts, message: string) => {
+  broadcast({
+    type: "AGENT_STATUS",
+    payload: {
+      agentId: AGENT_ID,
+      runId,
+      status,
+      currentRowIndex: state.currentRowIndex,
+      message,
+      // storageState (used when a start is refused) has no counts; the panel requires numbers.
+      successCount: state.successCount ?? 0,
+      failureCount: state.failureCount ?? 0,
+    },
+  });
+};
+
+const sendAck = (requestId: string, commandType: string, ok: boolean, error = "") => {
+  broadcast({
+    type: "AGENT_ACK",
+    payload: {
+      requestId,
+      agentId: AGENT_ID,
+      commandType,
+      ok,
+      error,
+    },
+  });
+};
+
+const sendLog = (
+  runId: string,
+  rowIndex: number,
+  stepIndex: number,
+  level: LogLevel,
+  message: string,
+  stepPath?: string,
+) => {
+  broadcast({
+    type: "AGENT_LOG",
+    payload: {
+      agentId: AGENT_ID,
+      runId,
+      rowIndex,
+      stepIndex,
+      stepPath,
+      level,
+      message,
+      timestamp: new Date().toISOString(),
+    },
+  });
+};
+
+const sendRowResult = (
+  runId: string,
+  rowIndex: number,
+  status: "success" | "failed" | "skipped",
+  error: string | null,
+  durationMs: number,
+  outputs: Record<string, string>,
+  failure?: AssertionFailure,
+) => {
+  broadcast({
+    type: "AGENT_ROW_RESULT",
+    payload: {
+      agentId: AGENT_ID,
+      runId,
+      rowIndex,
+      status,
+      error,
+      artifacts: {
+        screenshot: captureScreenshot(document),
+        htmlSnapshot: captureHtmlSnapshot(document),
+        consoleLogs: consoleBuffer.slice(-50),
+      },
+      durationMs,
+      outputs,
+      ...(failure && { failure }),
+    },
+  });
+};
+
+// Only the first page of rows arrives with CONTROL_START_RUN; later pages are requested
+// from the control panel as the run reaches them.
+const rowCache = new Map<number, CsvRow>();
+const rowWaiters = new Map<string, (rows: CsvRow[]) => void>();
+
+const cacheRows = (offset: number, rows: CsvRow[]) => {
+  rows.forEach((row, index) => rowCache.set(offset + index, row));
+};
+
+const requestRows = async (runId: string, offset: number) => {
+  const key = `${runId}:${offset}`;
+  for (let attempt = 0; attempt < ROW_REQUEST_RETRIES; attempt += 1) {
+    const received = new Promise<CsvRow[]>((resolve) => rowWaiters.set(key, resolve));
+    broadcast({
+      type: "AGENT_REQUEST_ROWS",
+      payload: {
+        requestId: createRequestId(),
+        agentId: AGENT_ID,
+        runId,
+        offset,
+        limit: RUN_ROW_PAGE_SIZE,
+      },
+    });
+    const rows = await Promise.race([
+      received,
+      delay(ROW_REQUEST_TIMEOUT_MS).then(() => null),
+    ]);
+    rowWaiters.delete(key);
+    if (rows) {
+      return rows;
+    }
+    log("warn", "Row page request timed out", { runId, offset, attempt });
+  }
+  throw new Error(`Rows from ${offset} were not received from the control panel`);
+};
+
+const getRow = async (runId: string, rowIndex: number) => {
+  if (!rowCache.has(rowIndex)) {
+    Array.from(rowCache.keys()).forEach((index) => {
+      if (index < rowIndex) {
+        rowCache.delete(index);
+      }
+    });
+    cacheRows(rowIndex, await requestRows(runId, rowIndex));
+  }
+  const row = rowCache.get(rowIndex);
+  if (!row) {
+    throw new Error(`Row ${rowIndex} was not received from the control panel`);
+  }
+  return row;
+};
+
+// The panel cannot tell which step comes next once a row branches or loops, so a signal for
+// the current row releases whichever step is waiting.
+const waitForStepSignal = (runId: string, rowIndex: number) =>
+  new Promise<void>((resolve) => {
+    const interval = setInterval(() => {
+      if (
+        storageState.stepSignal &&
+        storageState.stepSignal.runId === runId &&
+        storageState.stepSignal.rowIndex === rowIndex
+      ) {
+        storageState.stepSignal = null;
+        clearInterval(interval);
+        resolve();
+      }
+    }, 200);
+  });
+
+const runWorkflow = async (payload: ControlStartRunMessage["payload"]) => {
+  const { runId, rows, resumeFrom, totalRows } = payload;
+  // Panels send typed steps to this protocol version; legacy ones are converted all the same.
+  const workflow = migrateWorkflow(payload.workflow);
+  const workflows = payload.workflows ?? [];
+  // Settings updates replace fields on this object, so the executor sees them on the next step.
+  const settings = { ...payload.settings };
+  const skipRows = new Set(payload.skipRowIndexes);
+  // Retry runs execute only the listed rows; other runs go through every row in order.
+  const rowIndexes = payload.rowIndexes
+    ? payload.rowIndexes.filter((index) => index >= resumeFrom && index < totalRows)
+    : null;
+  const rowCount = rowIndexes ? rowIndexes.length : totalRows - resumeFrom;
+  rowCache.clear();
+  cacheRows(resumeFrom, rows);
+  if (storageState.killSwitchEnabled) {
+    sendStatus(runId, "stopped", storageState, "Kill switch enabled");
+    sendLog(runId, 0, 0, "error", "Run blocked by kill switch");
+    return;
+  }
+  storageState.status = "running";
+  storageState.runId = runId;
+  storageState.settings = settings;
+  storageState.currentRowIndex = resumeFrom;
+  storageState.paused = false;
+  storageState.stopped = false;
+
+  // A resumed run keeps counting from the totals it already had.
+  const state = {
+    currentRowIndex: resumeFrom,
+    successCount: payload.successCount,
+    failureCount: payload.failureCount,
+  };
+
+  sendStatus(runId, "running", state, "Run started");
+
+  const vars: StepVars = {};
+
+  for (let position = 0; position < rowCount; position += 1) {
+    const rowIndex = rowIndexes ? (rowIndexes[position] ?? 0) : resumeFrom + position;
+    if (skipRows.has(rowIndex)) {
+      continue;
+    }
+    if (storageState.killSwitchEnabled) {
+      storageState.stopped = true;
+    }
+    if (storageState.stopped) {
+      sendStatus(runId, "stopped", state, "Run stopped");
+      return;
+    }
+    while (storageState.paused) {
+      sendStatus(runId, "paused", state, "Run paused");
+      await delay(500);
+    }
+    if (storageState.killSwitchEnabled) {
+      storageState.stopped = true;
+      sendStatus(runId, "stopped", state, "Kill switch enabled");
+      return;
+    }
+    state.currentRowIndex = rowIndex;
+    sendStatus(runId, "running", state, "Processing row");
+    const row = await getRow(runId, rowIndex);
+    const rowStartedAt = Date.now();
+    const outcome = await executeRow(
+      workflow,
+      row,
+      vars,
+      settings,
+      executor,
+      {
+        beforeStep: () =>
+          settings.stepThrough ? waitForStepSignal(runId, rowIndex) : Promise.resolve(),
+        onStepComplete: (at, step) =>
+          sendLog(runId, rowIndex, at.stepIndex, "info", `Step ${step.type} completed`, at.path),
+        onStepError: (at, _step, message) =>
+          sendLog(runId, rowIndex, at.stepIndex, "error", message, at.path),
+        onControlFlow: (at, _step, message) =>
+          sendLog(runId, rowIndex, at.stepIndex, "info", message, at.path),
+      },
+      { workflows, rowIndex, runId },
+    );
+    if (outcome.status === "skipped") {
+      sendRowResult(
+        runId,
+        rowIndex,
+        "skipped",
+        outcome.error,
+        Date.now() - rowStartedAt,
+        outcome.outputs,
+      );
+    } else if (outcome.status === "failed") {
+      state.failureCount += 1;
+      sendRowResult(
+        runId,
+        rowIndex,
+        "failed",
+        outcome.error || "Row failed during execution",
+        Date.now() - rowStartedAt,
+        outcome.outputs,
+        outcome.failure,
+      );
+      if (!settings.bestEffort) {
+        sendStatus(runId, "error", state, "Row failed");
+        return;
+      }
+    } else {
+      state.successCount += 1;
+      sendRowResult(
+        runId,
+        rowIndex,
+        "success",
+        null,
+        Date.now() - rowStartedAt,
+        outcome.outputs,
+      );
+    }
+  }
+
+  storageState.status = "complete";
+  storageState.runId = null;
+  sendStatus(runId, "complete", state, "Run complete");
+};
+
+const sendHello = (requestId: string) => {
+  broadcast({
+    type: "AGENT_HELLO",
+    payload: {
+      requestId,
+      agentId: AGENT_ID,
+      agentVersion: AGENT_VERSION,
+      protocolVersion: PROTOCOL_VERSION,
+      supportedProtocolVersions: SUPPORTED_PROTOCOL_VERSIONS,
+      capabilities: CAPABILITIES,
+      tabUrl: window.location.href,
+      site: window.location.hostname,
+      runId: storageState.runId,
+    },
+  });
+};
+
+const pairWithPanel = async ({ requestId, publicKey }: ControlPairRequestMessage["payload"]) => {
+  const code = window.prompt(
+    "Agent Control Panel wants to pair with this tab. Enter the code it shows:",
+  );
+  if (!code) {
+    return;
+  }
+  const keys = await generatePairingKeys();
+  const key = await derivePairingKey(keys, publicKey, code);
+  pendingPairing = { pairingId: createRequestId(), key };
+  broadcast({
+    type: "AGENT_PAIR_RESPONSE",
+    payload: {
+      requestId,
+      agentId: AGENT_ID,
+      pairingId: pendingPairing.pairingId,
+      publicKey: await exportPublicKey(keys),
+      proof: await createPairingProof(key, requestId),
+      site: window.location.hostname,
+    },
+  });
+};
+
+// Run commands are broadcast to the whole pool; only the agents executing that run act.
+const isOtherRun = (runId: string) => storageState.runId !== runId;
+
+const handleMessage = (message: SequencedMessage) => {
+  const targetAgentId = "targetAgentId" in message.payload ? message.payload.targetAgentId : null;
+  if (targetAgentId && targetAgentId !== AGENT_ID) {
+    return;
+  }
+  switch (message.type) {
+    case "CONTROL_HELLO": {
+      const panelVersions = message.payload.supportedProtocolVersions ?? [
+        message.payload.protocolVersion,
+      ];
+      if (!panelVersions.some((version) => SUPPORTED_PROTOCOL_VERSIONS.includes(version))) {
+        log("warn", "Control panel speaks an incompatible protocol; update the panel", {
+          panelVersions,
+          supported: SUPPORTED_PROTOCOL_VERSIONS,
+        });
+      }
+      sendAck(message.payload.requestId, message.type, true);
+      sendHello(message.payload.requestId);
+      break;
+    }
+    case "CONTROL_PING":
+      broadcast({
+        type: "AGENT_PONG",
+        payload: {
+          requestId: message.payload.requestId,
+          agentId: AGENT_ID,
+          tabUrl: window.location.href,
+          site: window.location.hostname,
+          uptimeMs: Date.now() - STARTED_AT,
+          runId: storageState.runId,
+        },
+      });
+      break;
+    case "CONTROL_START_RUN": {
+      const { payload } = message;
+      if (storageState.killSwitchEnabled) {
+        sendStatus(payload.runId, "stopped", storageState, "Kill switch enabled");
+        sendLog(payload.runId, 0, 0, "error", "Run blocked by kill switch");
+        sendAck(payload.requestId, message.type, false, "Kill switch enabled");
+        return;
+      }
+      if (storageState.status === "running") {
+        sendAck(payload.requestId, message.type, false, "Run already in progress");
+        return;
+      }
+      sendAck(payload.requestId, message.type, true);
+      runWorkflow(payload)
+        .catch((error) => {
+          log("error", "Run failed", error);
+          sendStatus(payload.runId, "error", storageState, "Run error");
+        })
+        .finally(() => {
+          // Stopped and failed runs end here too; without this a resume would be refused.
+          if (storageState.status === "running") {
+            storageState.status = "idle";
+            storageState.runId = null;
+          }
+        });
+      break;
+    }
+    case "CONTROL_PAUSE_RUN":
+      if (isOtherRun(message.payload.runId)) {
+        return;
+      }
+      storageState.paused = true;
+      sendAck(message.payload.requestId, message.type, true);
+      break;
+    case "CONTROL_RESUME_RUN":
+      if (isOtherRun(message.payload.runId)) {
+        return;
+      }
+      storageState.paused = false;
+      sendAck(message.payload.requestId, message.type, true);
+      break;
+    case "CONTROL_STOP_RUN":
+      if (isOtherRun(message.payload.runId)) {
+        return;
+      }
+      storageState.stopped = true;
+      sendAck(message.payload.requestId, message.type, true);
+      break;
+    case "CONTROL_KILL_SWITCH":
+      storageState.killSwitchEnabled = Boolean(message.payload.enabled);
+      if (storageState.killSwitchEnabled) {
+        storageState.stopped = true;
+        storageState.paused = false;
+      }
+      sendAck(message.payload.requestId, message.type, true);
+      break;
+    case "CONTROL_UPDATE_SETTINGS":
+      if (isOtherRun(message.payload.runId) || !storageState.settings) {
+        return;
+      }
+      // runWorkflow reads this same object, so the next step picks up the new values.
+      Object.assign(storageState.settings, message.payload.settings);
+      log("info", "Run settings updated", message.payload.settings);
+      sendAck(message.payload.requestId, message.type, true);
+      break;
+    case "CONTROL_PAIR_REQUEST":
+      pairWithPanel(message.payload).catch((error) => log("error", "Pairing failed", error));
+      break;
+    case "CONTROL_PAIR_CONFIRM":
+      if (!pendingPairing || pendingPairing.pairingId !== message.payload.pairingId) {
+        return;
+      }
+      pairing = pendingPairing;
+      pendingPairing = null;
+      void savePairing(pairing);
+      log("info", "Paired with the control panel", { pairingId: pairing.pairingId });
+      break;
+    case "CONTROL_REPLAY":
+      replay(message.payload.fromSeq, message.payload.toSeq);
+      break;
+    case "CONTROL_ROWS": {
+      const resolve = rowWaiters.get(`${message.payload.runId}:${message.payload.offset}`);
+      if (resolve) {
+        resolve(message.payload.rows);
+      }
+      break;
+    }
+    case "CONTROL_STEP_NEXT":
+      if (isOtherRun(message.payload.runId)) {
+        return;
+      }
+      storageState.stepSignal = {
+        runId: message.payload.runId,
+        rowIndex: message.payload.rowIndex,
+        stepIndex: message.payload.stepIndex,
+      };
+      sendAck(message.payload.requestId, message.type, true);
+      break;
+    default:
+      break;
+  }
+};
+
+listeners.add((message) => handleMessage(message));
+
+void loadPairing().finally(() => {
+  sendHello(createRequestId());
+  connectRelay();
+});
+
+log("info", "ACP userscript initialized");
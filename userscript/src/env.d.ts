@@ -0,0 +1,2 @@
+// The userscript's own version, injected by userscript/vite.config.ts.
+declare const __AGENT_VERSION__: string;
@@ -0,0 +1,54 @@
+import { defineConfig } from "vite";
+import path from "node:path";
+
+// Bumped whenever the bundled userscript changes, so userscript managers offer the update.
+const AGENT_VERSION = "1.14.0";
+
+const HEADER = `// ==UserScript==
+// @name         Agent Control Panel Runner
+// @namespace    https://local.acp
+// @version      ${AGENT_VERSION}
+// @description  Executes ACP workflows on Facebook-style pages with resilient selectors.
+// @author       ACP
+// @match        *://*.facebook.com/*
+// @match        *://*.fb.com/*
+// @match        *://*/*
+// @grant        none
+// ==/UserScript==
+// Generated from userscript/src by npm run build:userscript; do not edit by hand.
+`;
+
+export default defineConfig({
+  plugins: [
+    {
+      // Lib builds run chunks through esbuild, which drops a rollup banner.
+      name: "userscript-header",
+      generateBundle(_, bundle) {
+        Object.values(bundle).forEach((chunk) => {
+          if (chunk.type === "chunk") {
+            chunk.code = `${HEADER}\n${chunk.code}`;
+          }
+        });
+      },
+    },
+  ],
+  define: {
+    __AGENT_VERSION__: JSON.stringify(AGENT_VERSION),
+  },
+  resolve: {
+    alias: {
+      "@shared": path.resolve(__dirname, "../shared"),
+    },
+  },
+  build: {
+    outDir: __dirname,
+    emptyOutDir: false,
+    minify: false,
+    lib: {
+      entry: path.resolve(__dirname, "src/agent.ts"),
+      name: "ACPAgent",
+      formats: ["iife"],
+      fileName: () => "agent.user.js",
+    },
+  },
+});